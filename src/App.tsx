@@ -10,9 +10,15 @@ import UserProfile from './components/UserProfile';
 import ProfileEdit from './components/ProfileEdit';
 import ProductManagement from './components/ProductManagement';
 import OrderHistory from './components/OrderHistory';
+import AdminOrders from './components/AdminOrders';
+import Wishlist from './components/Wishlist';
+import ProductDetail from './components/ProductDetail';
+import ReviewModeration from './components/ReviewModeration';
 import FirebaseTest from './components/FirebaseTest';
 import DebugProducts from './components/DebugProducts';
 import ShoppingCart from './components/ShoppingCart';
+import ProtectedRoute from './components/ProtectedRoute';
+import { ADMIN_ROLES, ORDER_MANAGER_ROLES, PRODUCT_MANAGER_ROLES } from './services/accessControlService';
 import './App.css';
 
 const App: React.FC = () => {
@@ -25,12 +31,51 @@ const App: React.FC = () => {
             <Route path="/" element={<Home />} />
             <Route path="/login" element={<Login />} />
             <Route path="/register" element={<Registration />} />
+            <Route path="/products/:slug" element={<ProductDetail />} />
             <Route path="/profile" element={<UserProfile />} />
             <Route path="/profile/edit" element={<ProfileEdit />} />
-            <Route path="/admin/products" element={<ProductManagement />} />
+            <Route 
+              path="/admin/products" 
+              element={
+                <ProtectedRoute allowedRoles={PRODUCT_MANAGER_ROLES}>
+                  <ProductManagement />
+                </ProtectedRoute>
+              } 
+            />
             <Route path="/orders" element={<OrderHistory />} />
-            <Route path="/test-firebase" element={<FirebaseTest />} />
-            <Route path="/debug-products" element={<DebugProducts />} />
+            <Route path="/wishlist" element={<Wishlist />} />
+            <Route 
+              path="/admin/orders" 
+              element={
+                <ProtectedRoute allowedRoles={ORDER_MANAGER_ROLES}>
+                  <AdminOrders />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/reviews" 
+              element={
+                <ProtectedRoute allowedRoles={ADMIN_ROLES}>
+                  <ReviewModeration />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/test-firebase" 
+              element={
+                <ProtectedRoute allowedRoles={ADMIN_ROLES}>
+                  <FirebaseTest />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/debug-products" 
+              element={
+                <ProtectedRoute allowedRoles={ADMIN_ROLES}>
+                  <DebugProducts />
+                </ProtectedRoute>
+              } 
+            />
           </Routes>
           <ShoppingCart />
         </div>
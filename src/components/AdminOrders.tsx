@@ -0,0 +1,621 @@
+/**
+ * Admin Orders Component
+ * Order management console for support and admin staff, across all customers
+ * Filters, bulk status changes, tracking entry and per-order detail
+ */
+import React, { useState } from 'react';
+import {
+  Container,
+  Row,
+  Col,
+  Card,
+  Table,
+  Button,
+  Modal,
+  Form,
+  Alert,
+  Spinner,
+  Badge
+} from 'react-bootstrap';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { bulkUpdateOrderStatus, getAllOrders, updateOrderStatus } from '../services/orderService';
+import {
+  formatStatusLabel,
+  getOrderStatusBadgeVariant,
+  getPaymentStatusBadgeVariant,
+  ORDER_STATUS_TRANSITIONS,
+  PAYMENT_STATUS_TRANSITIONS
+} from '../services/orderStatusService';
+import { formatVariantSelection } from '../services/variantService';
+import { formatDeliveryWindow } from '../services/shippingService';
+import { canIssueInvoice } from '../services/invoiceService';
+import OrderStatusTimeline from './OrderStatusTimeline';
+import OrderReturns from './OrderReturns';
+import InvoiceActions from './InvoiceActions';
+import type { Order, OrderFilters, OrderStatus, PaymentStatus } from '../types/orderType';
+
+const ORDER_STATUSES = Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[];
+const PAYMENT_STATUSES = Object.keys(PAYMENT_STATUS_TRANSITIONS) as PaymentStatus[];
+const PAGE_SIZE = 50;
+
+// Return statuses still waiting on staff
+const OPEN_RETURN_STATUSES = ['requested', 'approved', 'received'];
+
+const AdminOrders: React.FC = () => {
+  const queryClient = useQueryClient();
+
+  // Feedback state
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Filter and pagination state
+  const [filters, setFilters] = useState<OrderFilters>({});
+  const [pageSize, setPageSize] = useState(PAGE_SIZE);
+
+  // Bulk action state
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkStatus, setBulkStatus] = useState<OrderStatus | ''>('');
+  const [bulkReason, setBulkReason] = useState('');
+  const [trackingNumbers, setTrackingNumbers] = useState<Record<string, string>>({});
+  const [updating, setUpdating] = useState(false);
+
+  // Detail modal state
+  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [nextStatus, setNextStatus] = useState<OrderStatus | ''>('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [statusReason, setStatusReason] = useState('');
+
+  const {
+    data: ordersResponse,
+    isLoading,
+    isError,
+    error: ordersError,
+    isFetching
+  } = useQuery({
+    queryKey: ['adminOrders', filters, pageSize],
+    queryFn: () => getAllOrders(filters, pageSize),
+    staleTime: 30 * 1000 // 30 seconds
+  });
+
+  const orders = ordersResponse?.orders || [];
+  const selectedOrders = orders.filter(order => selectedIds.includes(order.id));
+
+  const formatDate = (date: Date) => {
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(date);
+  };
+
+  // Date inputs give yyyy-mm-dd; the end date covers the whole day
+  const parseDateInput = (value: string, endOfDay: boolean): Date | undefined => {
+    if (!value) return undefined;
+    const date = new Date(`${value}T00:00:00`);
+    if (endOfDay) {
+      date.setHours(23, 59, 59, 999);
+    }
+    return date;
+  };
+
+  const toDateInput = (date?: Date): string => {
+    if (!date) return '';
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  };
+
+  const updateFilter = (changes: Partial<OrderFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPageSize(PAGE_SIZE);
+    setSelectedIds([]);
+  };
+
+  const refreshOrders = () => {
+    queryClient.invalidateQueries({ queryKey: ['adminOrders'] });
+    queryClient.invalidateQueries({ queryKey: ['userOrders'] });
+  };
+
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(orderId) ? prev.filter(id => id !== orderId) : [...prev, orderId]
+    );
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(selectedIds.length === orders.length ? [] : orders.map(order => order.id));
+  };
+
+  const handleBulkUpdate = async () => {
+    if (!bulkStatus || selectedIds.length === 0) return;
+
+    if (bulkStatus === 'shipped') {
+      const missing = selectedOrders.filter(order => !trackingNumbers[order.id]?.trim());
+      if (missing.length > 0) {
+        setError(`Enter a tracking number for ${missing.map(order => order.orderNumber).join(', ')}`);
+        return;
+      }
+    }
+
+    try {
+      setUpdating(true);
+      setError(null);
+      setSuccess(null);
+
+      const result = await bulkUpdateOrderStatus(
+        selectedIds,
+        bulkStatus,
+        bulkStatus === 'shipped' ? trackingNumbers : {},
+        bulkReason.trim() || undefined
+      );
+
+      if (result.updated.length > 0) {
+        setSuccess(`Updated ${result.updated.length} order(s) to ${bulkStatus}`);
+      }
+      if (result.failed.length > 0) {
+        const orderNumbers = new Map(orders.map(order => [order.id, order.orderNumber]));
+        setError(result.failed
+          .map(failure => `${orderNumbers.get(failure.orderId) || failure.orderId}: ${failure.error}`)
+          .join('; '));
+      }
+
+      setSelectedIds(result.failed.map(failure => failure.orderId));
+      setBulkStatus('');
+      setBulkReason('');
+      setTrackingNumbers({});
+      refreshOrders();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update orders');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const openOrder = (order: Order) => {
+    setSelectedOrder(order);
+    setNextStatus('');
+    setTrackingNumber(order.trackingNumber || '');
+    setStatusReason('');
+  };
+
+  const handleStatusUpdate = async () => {
+    if (!selectedOrder || !nextStatus) return;
+
+    if (nextStatus === 'shipped' && !trackingNumber.trim()) {
+      setError('A tracking number is required to mark an order as shipped');
+      return;
+    }
+
+    try {
+      setUpdating(true);
+      setError(null);
+      await updateOrderStatus(
+        selectedOrder.id,
+        nextStatus,
+        nextStatus === 'shipped' ? trackingNumber.trim() : undefined,
+        statusReason.trim() || undefined
+      );
+      setSuccess(`Order ${selectedOrder.orderNumber} marked as ${nextStatus}`);
+      setSelectedOrder(null);
+      refreshOrders();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update order status');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <Container fluid className="mt-4">
+      {/* Header */}
+      <Row className="mb-4">
+        <Col>
+          <h1>🧾 Order Management</h1>
+          <p className="text-muted">Review and update orders from all customers</p>
+        </Col>
+      </Row>
+
+      {/* Alerts */}
+      {error && (
+        <Alert variant="danger" dismissible onClose={() => setError(null)} className="mb-4">
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert variant="success" dismissible onClose={() => setSuccess(null)} className="mb-4">
+          {success}
+        </Alert>
+      )}
+
+      {/* Filters */}
+      <Card className="mb-4">
+        <Card.Body>
+          <Row className="g-3">
+            <Col md={2}>
+              <Form.Label>Status</Form.Label>
+              <Form.Select
+                value={filters.status || ''}
+                onChange={(e) => updateFilter({ status: (e.target.value || undefined) as OrderStatus | undefined })}
+              >
+                <option value="">All statuses</option>
+                {ORDER_STATUSES.map(status => (
+                  <option key={status} value={status}>{formatStatusLabel(status)}</option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col md={2}>
+              <Form.Label>Payment</Form.Label>
+              <Form.Select
+                value={filters.paymentStatus || ''}
+                onChange={(e) => updateFilter({ paymentStatus: (e.target.value || undefined) as PaymentStatus | undefined })}
+              >
+                <option value="">All payments</option>
+                {PAYMENT_STATUSES.map(status => (
+                  <option key={status} value={status}>{formatStatusLabel(status)}</option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col md={2}>
+              <Form.Label>From</Form.Label>
+              <Form.Control
+                type="date"
+                value={toDateInput(filters.startDate)}
+                onChange={(e) => updateFilter({ startDate: parseDateInput(e.target.value, false) })}
+              />
+            </Col>
+            <Col md={2}>
+              <Form.Label>To</Form.Label>
+              <Form.Control
+                type="date"
+                value={toDateInput(filters.endDate)}
+                onChange={(e) => updateFilter({ endDate: parseDateInput(e.target.value, true) })}
+              />
+            </Col>
+            <Col md={2}>
+              <Form.Label>Min Total</Form.Label>
+              <Form.Control
+                type="number"
+                min="0"
+                step="0.01"
+                value={filters.minTotal ?? ''}
+                onChange={(e) => updateFilter({ minTotal: e.target.value === '' ? undefined : Number(e.target.value) })}
+              />
+            </Col>
+            <Col md={2}>
+              <Form.Label>Max Total</Form.Label>
+              <Form.Control
+                type="number"
+                min="0"
+                step="0.01"
+                value={filters.maxTotal ?? ''}
+                onChange={(e) => updateFilter({ maxTotal: e.target.value === '' ? undefined : Number(e.target.value) })}
+              />
+            </Col>
+          </Row>
+        </Card.Body>
+      </Card>
+
+      {/* Bulk Actions */}
+      {selectedIds.length > 0 && (
+        <Card className="mb-4 border-primary">
+          <Card.Body>
+            <Row className="g-3 align-items-end">
+              <Col md={3}>
+                <Form.Label>Change {selectedIds.length} selected order(s) to</Form.Label>
+                <Form.Select
+                  value={bulkStatus}
+                  onChange={(e) => setBulkStatus(e.target.value as OrderStatus | '')}
+                >
+                  <option value="">Choose a status...</option>
+                  {ORDER_STATUSES.map(status => (
+                    <option key={status} value={status}>{formatStatusLabel(status)}</option>
+                  ))}
+                </Form.Select>
+              </Col>
+              <Col md={5}>
+                <Form.Label>Reason (optional)</Form.Label>
+                <Form.Control
+                  type="text"
+                  value={bulkReason}
+                  onChange={(e) => setBulkReason(e.target.value)}
+                  placeholder="Recorded in each order's status history"
+                />
+              </Col>
+              <Col md={4} className="d-flex gap-2">
+                <Button variant="primary" onClick={handleBulkUpdate} disabled={!bulkStatus || updating}>
+                  {updating ? <Spinner size="sm" /> : 'Apply'}
+                </Button>
+                <Button variant="outline-secondary" onClick={() => setSelectedIds([])} disabled={updating}>
+                  Clear Selection
+                </Button>
+              </Col>
+            </Row>
+
+            {bulkStatus === 'shipped' && (
+              <Table size="sm" className="mt-3 mb-0">
+                <thead>
+                  <tr>
+                    <th>Order</th>
+                    <th>Tracking Number</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selectedOrders.map(order => (
+                    <tr key={order.id}>
+                      <td>{order.orderNumber}</td>
+                      <td>
+                        <Form.Control
+                          size="sm"
+                          type="text"
+                          value={trackingNumbers[order.id] || ''}
+                          onChange={(e) => setTrackingNumbers(prev => ({ ...prev, [order.id]: e.target.value }))}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            )}
+          </Card.Body>
+        </Card>
+      )}
+
+      {/* Orders Table */}
+      {isLoading ? (
+        <div className="text-center py-5">
+          <Spinner animation="border" role="status" variant="primary" />
+          <p className="mt-3">Loading orders...</p>
+        </div>
+      ) : isError ? (
+        <Alert variant="danger">
+          {ordersError instanceof Error ? ordersError.message : 'Failed to load orders'}
+        </Alert>
+      ) : (
+        <Card>
+          <Card.Header className="d-flex justify-content-between align-items-center">
+            <h5 className="mb-0">Orders ({orders.length}{ordersResponse?.hasMore ? '+' : ''})</h5>
+            {isFetching && <Spinner size="sm" />}
+          </Card.Header>
+          <Card.Body className="p-0">
+            {orders.length === 0 ? (
+              <p className="text-muted text-center py-4 mb-0">No orders match these filters</p>
+            ) : (
+              <Table responsive hover className="mb-0">
+                <thead className="bg-light">
+                  <tr>
+                    <th>
+                      <Form.Check
+                        type="checkbox"
+                        aria-label="Select all orders"
+                        checked={selectedIds.length === orders.length}
+                        onChange={toggleAll}
+                      />
+                    </th>
+                    <th>Order</th>
+                    <th>Date</th>
+                    <th>Customer</th>
+                    <th>Status</th>
+                    <th>Payment</th>
+                    <th>Total</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {orders.map(order => (
+                    <tr key={order.id}>
+                      <td>
+                        <Form.Check
+                          type="checkbox"
+                          aria-label={`Select order ${order.orderNumber}`}
+                          checked={selectedIds.includes(order.id)}
+                          onChange={() => toggleSelected(order.id)}
+                        />
+                      </td>
+                      <td><strong>{order.orderNumber}</strong></td>
+                      <td><small>{formatDate(order.createdAt)}</small></td>
+                      <td>
+                        <div>{order.shippingAddress.fullName}</div>
+                        <small className="text-muted">{order.userEmail}</small>
+                      </td>
+                      <td>
+                        <Badge bg={getOrderStatusBadgeVariant(order.status)}>
+                          {formatStatusLabel(order.status)}
+                        </Badge>
+                        {order.returns?.some(request => OPEN_RETURN_STATUSES.includes(request.status)) && (
+                          <Badge bg="warning" text="dark" className="ms-1">Return open</Badge>
+                        )}
+                      </td>
+                      <td>
+                        <Badge bg={getPaymentStatusBadgeVariant(order.paymentStatus)}>
+                          {formatStatusLabel(order.paymentStatus)}
+                        </Badge>
+                      </td>
+                      <td><strong>${order.summary.total.toFixed(2)}</strong></td>
+                      <td>
+                        <Button variant="outline-primary" size="sm" onClick={() => openOrder(order)}>
+                          View
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            )}
+          </Card.Body>
+          {ordersResponse?.hasMore && (
+            <Card.Footer className="text-center">
+              <Button variant="outline-secondary" onClick={() => setPageSize(prev => prev + PAGE_SIZE)} disabled={isFetching}>
+                Load More
+              </Button>
+            </Card.Footer>
+          )}
+        </Card>
+      )}
+
+      {/* Order Detail Modal */}
+      <Modal show={!!selectedOrder} onHide={() => setSelectedOrder(null)} size="lg">
+        <Modal.Header closeButton>
+          <Modal.Title>Order {selectedOrder?.orderNumber}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          {selectedOrder && (
+            <>
+              <Row className="mb-3">
+                <Col md={6}>
+                  <h6>Customer</h6>
+                  <p className="mb-1">{selectedOrder.userEmail}</p>
+                  <p className="text-muted small">User ID: {selectedOrder.userId}</p>
+                  <p className="mb-1"><strong>Placed:</strong> {formatDate(selectedOrder.createdAt)}</p>
+                  <p className="mb-1">
+                    <strong>Status:</strong>{' '}
+                    <Badge bg={getOrderStatusBadgeVariant(selectedOrder.status)}>
+                      {formatStatusLabel(selectedOrder.status)}
+                    </Badge>
+                  </p>
+                  <p className="mb-1">
+                    <strong>Payment:</strong>{' '}
+                    <Badge bg={getPaymentStatusBadgeVariant(selectedOrder.paymentStatus)}>
+                      {formatStatusLabel(selectedOrder.paymentStatus)}
+                    </Badge>
+                    {selectedOrder.paymentMethod && (
+                      <span className="text-muted small ms-2">{selectedOrder.paymentMethod}</span>
+                    )}
+                  </p>
+                  {selectedOrder.trackingNumber && (
+                    <p className="mb-1"><strong>Tracking:</strong> {selectedOrder.trackingNumber}</p>
+                  )}
+                </Col>
+                <Col md={6}>
+                  <h6>Shipping Address</h6>
+                  <address className="mb-2">
+                    <strong>{selectedOrder.shippingAddress.fullName}</strong><br />
+                    {selectedOrder.shippingAddress.addressLine1}<br />
+                    {selectedOrder.shippingAddress.addressLine2 && (
+                      <>{selectedOrder.shippingAddress.addressLine2}<br /></>
+                    )}
+                    {selectedOrder.shippingAddress.city}, {selectedOrder.shippingAddress.state} {selectedOrder.shippingAddress.zipCode}<br />
+                    {selectedOrder.shippingAddress.country}
+                    {selectedOrder.shippingAddress.phone && (
+                      <><br />Phone: {selectedOrder.shippingAddress.phone}</>
+                    )}
+                  </address>
+                  {selectedOrder.shippingMethod && (
+                    <p className="small">
+                      {selectedOrder.shippingMethod.label} · {formatDeliveryWindow(selectedOrder.shippingMethod)}
+                    </p>
+                  )}
+                </Col>
+              </Row>
+
+              <h6>Items</h6>
+              <Table size="sm">
+                <tbody>
+                  {selectedOrder.items.map(item => (
+                    <tr key={item.id}>
+                      <td>
+                        {item.product.title}
+                        {item.selectedOptions && (
+                          <div className="text-muted small">{formatVariantSelection(item.selectedOptions)}</div>
+                        )}
+                      </td>
+                      <td className="text-center">×{item.quantity}</td>
+                      <td className="text-end">${item.totalPrice.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td colSpan={2}><strong>Total</strong></td>
+                    <td className="text-end"><strong>${selectedOrder.summary.total.toFixed(2)}</strong></td>
+                  </tr>
+                </tbody>
+              </Table>
+
+              {selectedOrder.notes && (
+                <div className="mb-3">
+                  <h6>Customer Notes</h6>
+                  <div className="bg-light p-2 rounded small">{selectedOrder.notes}</div>
+                </div>
+              )}
+
+              {canIssueInvoice(selectedOrder) && <InvoiceActions order={selectedOrder} />}
+
+              <OrderReturns
+                order={selectedOrder}
+                canManage
+                onChanged={(message) => {
+                  setSuccess(message);
+                  setSelectedOrder(null);
+                  refreshOrders();
+                }}
+              />
+
+              {/* Status Update */}
+              {ORDER_STATUS_TRANSITIONS[selectedOrder.status].length > 0 && (
+                <Card className="mb-3">
+                  <Card.Body>
+                    <Row className="g-2 align-items-end">
+                      <Col md={4}>
+                        <Form.Label>Move to</Form.Label>
+                        <Form.Select
+                          value={nextStatus}
+                          onChange={(e) => setNextStatus(e.target.value as OrderStatus | '')}
+                        >
+                          <option value="">Choose a status...</option>
+                          {ORDER_STATUS_TRANSITIONS[selectedOrder.status].map(status => (
+                            <option key={status} value={status}>{formatStatusLabel(status)}</option>
+                          ))}
+                        </Form.Select>
+                      </Col>
+                      {nextStatus === 'shipped' && (
+                        <Col md={4}>
+                          <Form.Label>Tracking Number</Form.Label>
+                          <Form.Control
+                            type="text"
+                            value={trackingNumber}
+                            onChange={(e) => setTrackingNumber(e.target.value)}
+                            required
+                          />
+                        </Col>
+                      )}
+                      <Col>
+                        <Form.Label>Reason (optional)</Form.Label>
+                        <Form.Control
+                          type="text"
+                          value={statusReason}
+                          onChange={(e) => setStatusReason(e.target.value)}
+                        />
+                      </Col>
+                    </Row>
+                    <Button
+                      className="mt-3"
+                      variant="primary"
+                      onClick={handleStatusUpdate}
+                      disabled={!nextStatus || updating}
+                    >
+                      {updating ? <Spinner size="sm" /> : 'Update Status'}
+                    </Button>
+                  </Card.Body>
+                </Card>
+              )}
+
+              {selectedOrder.statusHistory && selectedOrder.statusHistory.length > 0 && (
+                <>
+                  <h6>Status History</h6>
+                  <OrderStatusTimeline history={selectedOrder.statusHistory} />
+                </>
+              )}
+            </>
+          )}
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setSelectedOrder(null)}>
+            Close
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </Container>
+  );
+};
+
+export default AdminOrders;
@@ -1,24 +1,61 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Container, Row, Col, Spinner, Alert, Button, Modal, Form } from 'react-bootstrap';
-import { Link } from 'react-router-dom';
+import { Link, useLocation, useSearchParams } from 'react-router-dom';
 import { useQueryClient } from '@tanstack/react-query';
-import { useProductsByCategory } from '../hooks/useProductsByCategoryHook';
+import { useCatalogFacets, useInfiniteCatalogProducts } from '../hooks/useProductManagement';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { useAddToWishlist, useRemoveFromWishlist, useWishlist } from '../hooks/useWishlist';
+import { useFrequentlyPurchased } from '../hooks/useReorder';
 import ProductCard from './ProductCard';
-import CategoryFilter from './CategoryFilter';
-import type { Product, ProductCreateData } from '../types/productType';
+import ProductFacetSidebar from './ProductFacetSidebar';
+import type {
+  Product,
+  ProductCreateData,
+  ProductFilters,
+  ProductSortOption,
+  SelectedVariantOption
+} from '../types/productType';
+import type { RouteRedirectState } from '../types/authTypes';
 import { useAppDispatch } from '../hooks/reduxHooks';
 import { addToCart, openCart } from '../store/cartSlice';
 import { useAuth } from '../hooks/useAuth';
-import { createProduct } from '../services/productService';
+import { createProduct, getProductPath } from '../services/productService';
+import { hasRole, PRODUCT_MANAGER_ROLES } from '../services/accessControlService';
+import {
+  getProductSort,
+  hasActiveFilters,
+  parseProductFilters,
+  parseProductSortOption,
+  PRODUCT_SORT_OPTIONS,
+  writeProductFilters,
+  writeProductSortOption
+} from '../services/facetService';
+
+// Products fetched per infinite-scroll page
+const PRODUCTS_PAGE_SIZE = 20;
 
 const Home: React.FC = () => {
   // Redux dispatch hook
   const dispatch = useAppDispatch();
   const { isAuthenticated, user } = useAuth();
   const queryClient = useQueryClient();
+  const location = useLocation();
+  const canManageProducts = isAuthenticated && hasRole(user?.role, PRODUCT_MANAGER_ROLES);
+  
+  // Reason set by a route guard that redirected the user here
+  const [redirectReason, setRedirectReason] = useState<string | null>(
+    (location.state as RouteRedirectState | null)?.reason ?? null
+  );
   
-  // State for selected category
-  const [selectedCategory, setSelectedCategory] = useState<string>('');
+  // Filters and sort order live in the query string so listings can be shared and reloaded
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseProductFilters(searchParams), [searchParams]);
+  const sortOption = parseProductSortOption(searchParams);
+  const listingQuery = writeProductSortOption(
+    writeProductFilters(new URLSearchParams(), filters),
+    sortOption
+  ).toString();
+  const filtersActive = hasActiveFilters(filters);
   
   // State for quick create product modal
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -38,14 +75,34 @@ const Home: React.FC = () => {
     isActive: true
   });
 
-  // Fetch products based on selected category
-  const { data: products, isLoading, error, isError } = useProductsByCategory(
-    selectedCategory || undefined // Convert empty string to undefined
-  );
+  // Fetch the storefront catalog from all sellers a page at a time, filtered and sorted in Firestore
+  const {
+    data,
+    isLoading,
+    error,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteCatalogProducts(filters, getProductSort(sortOption), PRODUCTS_PAGE_SIZE);
+  const products = data?.pages.flatMap(page => page.products);
+  const totalProducts = data?.pages[0]?.total ?? 0;
+
+  // Facet counts across the whole catalog, from aggregate queries
+  const { data: facets } = useCatalogFacets(filters);
+
+  // Products from the signed-in shopper's past orders, most often bought first
+  const frequentlyPurchased = useFrequentlyPurchased();
+
+  // Fetch the next page when the bottom of the grid scrolls into view
+  const showMoreProducts = () => {
+    fetchNextPage();
+  };
+  const loadMoreRef = useInfiniteScroll(showMoreProducts, hasNextPage && !isFetchingNextPage);
 
   // Debug logging for products data
   console.log("🏠 Home component render:", {
-    selectedCategory,
+    filters,
     productsLength: products?.length || 0,
     isLoading,
     isError,
@@ -54,9 +111,9 @@ const Home: React.FC = () => {
   });
 
   // Handle adding products to cart with Redux
-  const handleAddToCart = (product: Product) => {
+  const handleAddToCart = (product: Product, selectedOptions?: SelectedVariantOption[]) => {
     // Dispatch addToCart action
-    dispatch(addToCart({ product, quantity: 1 }));
+    dispatch(addToCart({ product, quantity: 1, selectedOptions }));
     
     // Optionally open the cart after adding item
     dispatch(openCart());
@@ -64,21 +121,42 @@ const Home: React.FC = () => {
     console.log('Added to cart:', product.title);
   };
 
-  // Handle category change
-  const handleCategoryChange = (category: string) => {
-    setSelectedCategory(category);
+  // Wishlist hearts for signed-in shoppers; a product counts as saved with any options
+  const { data: wishlist } = useWishlist();
+  const addToWishlistMutation = useAddToWishlist();
+  const removeFromWishlistMutation = useRemoveFromWishlist();
+  const wishlistedProductIds = new Set((wishlist || []).map(entry => entry.productId));
+
+  const handleToggleWishlist = async (product: Product, selectedOptions?: SelectedVariantOption[]) => {
+    try {
+      if (wishlistedProductIds.has(product.id)) {
+        const entries = (wishlist || []).filter(entry => entry.productId === product.id);
+        await Promise.all(entries.map(entry => removeFromWishlistMutation.mutateAsync(entry.id)));
+      } else {
+        await addToWishlistMutation.mutateAsync({ product, selectedOptions });
+      }
+    } catch (error) {
+      console.error('Error updating wishlist:', error);
+    }
+  };
+
+  // Handle facet changes, keeping any other query parameters
+  const handleFiltersChange = (nextFilters: ProductFilters) => {
+    setSearchParams(writeProductFilters(searchParams, nextFilters));
+  };
+
+  // Handle choosing a sort order
+  const handleSortChange = (option: ProductSortOption) => {
+    setSearchParams(writeProductSortOption(searchParams, option));
   };
 
   // Handle manual refresh
   const handleManualRefresh = async () => {
     console.log("🔄 Manual refresh triggered for user:", user?.uid);
     
-    // Invalidate all React Query caches for this specific user
+    // Invalidate all product listings (every category and page) and categories
     await Promise.all([
       queryClient.invalidateQueries({ queryKey: ['products'] }),
-      queryClient.invalidateQueries({ queryKey: ['products', selectedCategory, user?.uid] }),
-      queryClient.invalidateQueries({ queryKey: ['products', undefined, user?.uid] }),
-      queryClient.invalidateQueries({ queryKey: ['products', null, user?.uid] }),
       queryClient.invalidateQueries({ queryKey: ['categories'] })
     ]);
     
@@ -92,7 +170,6 @@ const Home: React.FC = () => {
   const handleProductUpdated = () => {
     // Invalidate React Query cache to refresh product list for this user
     queryClient.invalidateQueries({ queryKey: ['products'] });
-    queryClient.invalidateQueries({ queryKey: ['products', selectedCategory, user?.uid] });
     queryClient.invalidateQueries({ queryKey: ['categories'] });
   };
 
@@ -100,8 +177,8 @@ const Home: React.FC = () => {
   const handleQuickCreateProduct = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!isAuthenticated) {
-      setCreateError('Please log in to create products');
+    if (!canManageProducts) {
+      setCreateError('Only seller or admin accounts can create products');
       return;
     }
     
@@ -129,13 +206,8 @@ const Home: React.FC = () => {
       // Invalidate React Query cache to refresh product list
       // Use Promise.all to ensure all invalidations complete
       await Promise.all([
-        // Invalidate all product queries (with any category filter) for this user
+        // Invalidate all product listings (with any category filter and page)
         queryClient.invalidateQueries({ queryKey: ['products'] }),
-        // Specifically invalidate the current category view for this user
-        queryClient.invalidateQueries({ queryKey: ['products', selectedCategory, user?.uid] }),
-        // Invalidate the "all products" view specifically for this user
-        queryClient.invalidateQueries({ queryKey: ['products', undefined, user?.uid] }),
-        queryClient.invalidateQueries({ queryKey: ['products', null, user?.uid] }),
         // Also invalidate categories in case we added a new category
         queryClient.invalidateQueries({ queryKey: ['categories'] })
       ]);
@@ -144,7 +216,6 @@ const Home: React.FC = () => {
       
       // Force a refetch of the current data for this user
       await queryClient.refetchQueries({ queryKey: ['products'] });
-      await queryClient.refetchQueries({ queryKey: ['products', selectedCategory, user?.uid] });
       console.log("🔄 Forced refetch completed");
       
       // Reset form
@@ -190,91 +261,38 @@ const Home: React.FC = () => {
         <div className="text-center">
           <Spinner animation="border" role="status" variant="primary" />
           <p className="mt-3">
-            Loading {selectedCategory ? `${selectedCategory} ` : ''}products...
+            Loading products...
           </p>
         </div>
       </Container>
     );
   }
 
-  // Authentication required message
-  if (!isAuthenticated) {
-    return (
-      <Container className="mt-4">
-        <Alert variant="info">
-          <Alert.Heading>🔐 Authentication Required</Alert.Heading>
-          <p>
-            Please sign in to view and manage your products. Each user has their own private product catalog.
-          </p>
-          <div className="mt-3">
-            <Link to="/login">
-              <Button variant="primary" className="me-2">🔐 Sign In</Button>
-            </Link>
-            <Link to="/register">
-              <Button variant="outline-primary">📝 Create Account</Button>
-            </Link>
-          </div>
-        </Alert>
-      </Container>
-    );
-  }
-
   // Error state
   if (isError) {
     const errorMessage = error instanceof Error ? error.message : 'Something went wrong while fetching products.';
-    const isEmptyDatabase = errorMessage.includes('No products found in your database');
     
     console.log("❌ Error in Home component:", {
       error,
       errorMessage,
-      isEmptyDatabase,
-      selectedCategory
+      filters
     });
     
     return (
       <Container className="mt-4">
-        <Alert variant={isEmptyDatabase ? "info" : "danger"}>
-          <Alert.Heading>
-            {isEmptyDatabase ? "🏪 Welcome to Your Store!" : "❌ Error Loading Products"}
-          </Alert.Heading>
+        <Alert variant="danger">
+          <Alert.Heading>❌ Error Loading Products</Alert.Heading>
           <p>{errorMessage}</p>
           
           {/* Debug information */}
           <details className="mt-2">
             <summary className="text-muted small">Debug Information</summary>
             <pre className="text-muted small mt-2">
-              Selected Category: {selectedCategory || 'All'}
+              Active Filters: {listingQuery || 'None'}
               {'\n'}Error Type: {error?.constructor?.name || 'Unknown'}
               {'\n'}Authentication: {isAuthenticated ? 'Yes' : 'No'}
             </pre>
           </details>
-          
-          {isEmptyDatabase && (
-            <div className="mt-3">
-              <p>Get started by adding products to your store:</p>
-              <ul>
-                <li><strong>Quick Start:</strong> Import sample products from FakeStore API</li>
-                <li><strong>Custom Products:</strong> Create your own products manually</li>
-              </ul>
-              
-              {isAuthenticated ? (
-                <div className="d-flex gap-2">
-                  <Link to="/admin/products">
-                    <Button variant="primary">
-                      📦 Go to Product Management
-                    </Button>
-                  </Link>
-                </div>
-              ) : (
-                <div>
-                  <p>Please sign in to manage products:</p>
-                  <Link to="/login">
-                    <Button variant="primary">🔐 Sign In</Button>
-                  </Link>
-                </div>
-              )}
-            </div>
-          )}
         </Alert>
       </Container>
     );
@@ -282,6 +300,13 @@ const Home: React.FC = () => {
 
   return (
     <Container className="mt-4">
+      {/* Access Denied Notice */}
+      {redirectReason && (
+        <Alert variant="warning" dismissible onClose={() => setRedirectReason(null)}>
+          {redirectReason}
+        </Alert>
+      )}
+
       {/* Header Section */}
       <Row className="mb-4">
         <Col>
@@ -292,7 +317,7 @@ const Home: React.FC = () => {
                 Discover amazing products at great prices
               </p>
             </div>
-            {isAuthenticated && (
+            {canManageProducts && (
               <div className="ms-3 d-flex gap-2">
                 <Button 
                   variant="outline-primary" 
@@ -316,69 +341,119 @@ const Home: React.FC = () => {
         </Col>
       </Row>
 
-      {/* Category Filter Section */}
-      <Row className="mb-4">
-        <Col>
-          <div className="d-flex justify-content-between align-items-center">
-            <div>
-              <h5 className="mb-0">Filter by Category:</h5>
-              <CategoryFilter 
-                selectedCategory={selectedCategory}
-                onCategoryChange={handleCategoryChange}
-              />
-            </div>
-            <div className="text-muted">
-              {products?.length || 0} product{products?.length !== 1 ? 's' : ''} found
-              {selectedCategory && (
-                <span> in <strong>{selectedCategory}</strong></span>
-              )}
+      <Row>
+        {/* Facet Sidebar */}
+        <Col lg={3} className="mb-4">
+          {facets && (
+            <ProductFacetSidebar
+              key={`${filters.minPrice ?? ''}-${filters.maxPrice ?? ''}`}
+              facets={facets}
+              filters={filters}
+              onFiltersChange={handleFiltersChange}
+            />
+          )}
+        </Col>
+
+        <Col lg={9}>
+          {/* Frequently Purchased */}
+          {!filtersActive && frequentlyPurchased.length > 0 && (
+            <div className="mb-4">
+              <h5 className="mb-3">🔁 Frequently Purchased</h5>
+              <Row className="flex-nowrap overflow-auto pb-2">
+                {frequentlyPurchased.map((product) => (
+                  <Col key={product.id} xs={10} sm={6} xl={4}>
+                    <ProductCard
+                      product={product}
+                      onAddToCart={handleAddToCart}
+                      onProductUpdated={handleProductUpdated}
+                      isWishlisted={wishlistedProductIds.has(product.id)}
+                      onToggleWishlist={handleToggleWishlist}
+                      detailPath={getProductPath(product)}
+                    />
+                  </Col>
+                ))}
+              </Row>
             </div>
+          )}
+
+          <div className="d-flex justify-content-between align-items-center mb-3">
+            <span className="text-muted">
+              {totalProducts} product{totalProducts !== 1 ? 's' : ''} found
+            </span>
+            <Form.Group className="d-flex align-items-center gap-2" controlId="product-sort">
+              <Form.Label className="small text-muted mb-0 text-nowrap">Sort by</Form.Label>
+              <Form.Select
+                size="sm"
+                value={sortOption}
+                onChange={(e) => handleSortChange(e.target.value as ProductSortOption)}
+              >
+                {PRODUCT_SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </Form.Select>
+            </Form.Group>
           </div>
-        </Col>
-      </Row>
 
-      {/* Products Grid */}
-      <Row>
-        {products?.map((product) => (
-          <Col key={product.id} xs={12} sm={6} md={4} lg={3} className="mb-4">
-            <ProductCard 
-              product={product} 
-              onAddToCart={handleAddToCart}
-              onProductUpdated={handleProductUpdated}
-            />
-          </Col>
-        ))}
-      </Row>
+          {/* Products Grid */}
+          <Row>
+            {products?.map((product) => (
+              <Col key={product.id} xs={12} sm={6} xl={4} className="mb-4">
+                <ProductCard 
+                  product={product} 
+                  onAddToCart={handleAddToCart}
+                  onProductUpdated={handleProductUpdated}
+                  isWishlisted={wishlistedProductIds.has(product.id)}
+                  onToggleWishlist={isAuthenticated ? handleToggleWishlist : undefined}
+                  detailPath={getProductPath(product)}
+                />
+              </Col>
+            ))}
+          </Row>
 
-      {/* No Products Found */}
-      {products && products.length === 0 && (
-        <Row>
-          <Col className="text-center">
-            <Alert variant="info">
-              <Alert.Heading>📦 No Products Found</Alert.Heading>
-              <p>
-                {selectedCategory 
-                  ? `No products found in the "${selectedCategory}" category.` 
-                  : 'No products are currently available.'
-                }
-              </p>
-              
-              {!selectedCategory && isAuthenticated && (
-                <div className="mt-3">
-                  <p>Get started by adding some products to your store:</p>
-                  <Link to="/admin/products">
-                    <Button variant="primary">📦 Manage Products</Button>
-                  </Link>
-                </div>
-              )}
-              
-              {selectedCategory && (
-                <p>Try selecting a different category or view all products.</p>
-              )}
-            </Alert>
-          </Col>
-        </Row>
-      )}
+          {/* Infinite scroll sentinel */}
+          {hasNextPage && (
+            <Row>
+              <Col ref={loadMoreRef} className="text-center mb-4">
+                <Button variant="outline-primary" onClick={showMoreProducts} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage ? <Spinner size="sm" animation="border" /> : 'Load More Products'}
+                </Button>
+              </Col>
+            </Row>
+          )}
+
+          {/* No Products Found */}
+          {products && products.length === 0 && !hasNextPage && (
+            <Row>
+              <Col className="text-center">
+                <Alert variant="info">
+                  <Alert.Heading>📦 No Products Found</Alert.Heading>
+                  <p>
+                    {filtersActive
+                      ? 'No products match the selected filters.'
+                      : 'No products are currently available.'
+                    }
+                  </p>
+
+                  {!filtersActive && canManageProducts && (
+                    <div className="mt-3">
+                      <p>Get started by adding some products to your store:</p>
+                      <Link to="/admin/products">
+                        <Button variant="primary">📦 Manage Products</Button>
+                      </Link>
+                    </div>
+                  )}
+
+                  {filtersActive && (
+                    <Button variant="outline-primary" onClick={() => handleFiltersChange({})}>
+                      Clear Filters
+                    </Button>
+                  )}
+                </Alert>
+              </Col>
+            </Row>
+          )}
+        </Col>
+      </Row>
       
       {/* Quick Create Product Modal */}
       <Modal show={showCreateModal} onHide={() => setShowCreateModal(false)} size="lg">
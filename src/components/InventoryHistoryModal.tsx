@@ -0,0 +1,229 @@
+/**
+ * Inventory History Modal
+ * A product's stock ledger, with forms to record receipts, returns and adjustments
+ * and to reconcile the stock level against the ledger
+ */
+import React, { useState } from 'react';
+import { Modal, Table, Form, Button, Row, Col, Alert, Spinner, Badge } from 'react-bootstrap';
+import { useAdjustStock, useInventoryMovements, useReconcileStock } from '../hooks/useInventory';
+import { getLowStockThreshold, INVENTORY_MOVEMENT_LABELS } from '../services/inventoryService';
+import type { Product } from '../types/productType';
+import type { InventoryMovementType, ManualInventoryMovementType, StockAdjustmentData } from '../types/inventoryType';
+
+interface InventoryHistoryModalProps {
+  product: Product | null;
+  onHide: () => void;
+  onStockChanged?: () => void;
+}
+
+// Badge colour for each kind of movement
+const MOVEMENT_BADGE_VARIANTS: Record<InventoryMovementType, string> = {
+  sale: 'primary',
+  cancellation: 'info',
+  adjustment: 'secondary',
+  receipt: 'success',
+  return: 'warning'
+};
+
+const MANUAL_MOVEMENT_TYPES: ManualInventoryMovementType[] = ['receipt', 'return', 'adjustment'];
+
+const emptyAdjustment: StockAdjustmentData = { type: 'receipt', quantity: 0, reason: '' };
+
+const InventoryHistoryModal: React.FC<InventoryHistoryModalProps> = ({ product, onHide, onStockChanged }) => {
+  const { data: movements, isLoading, isError, error } = useInventoryMovements(product?.id);
+  const adjustStockMutation = useAdjustStock();
+  const reconcileStockMutation = useReconcileStock();
+
+  const [adjustment, setAdjustment] = useState<StockAdjustmentData>(emptyAdjustment);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionSuccess, setActionSuccess] = useState<string | null>(null);
+
+  // The latest movement knows the stock level after any changes made in this dialog
+  const currentStock = movements?.[0]?.stockAfter ?? product?.inventory.stock ?? 0;
+
+  // Handle closing, clearing anything entered for this product
+  const handleHide = () => {
+    setAdjustment(emptyAdjustment);
+    setActionError(null);
+    setActionSuccess(null);
+    onHide();
+  };
+
+  // Handle recording a manual movement
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product) return;
+
+    try {
+      setActionError(null);
+      setActionSuccess(null);
+      const movement = await adjustStockMutation.mutateAsync({ productId: product.id, adjustment });
+      setActionSuccess(`${INVENTORY_MOVEMENT_LABELS[movement.type]} recorded. Stock is now ${movement.stockAfter}.`);
+      setAdjustment(emptyAdjustment);
+      onStockChanged?.();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to adjust stock');
+    }
+  };
+
+  // Handle checking the stock level against the ledger
+  const handleReconcile = async () => {
+    if (!product) return;
+
+    try {
+      setActionError(null);
+      setActionSuccess(null);
+      const result = await reconcileStockMutation.mutateAsync(product.id);
+      if (result.openingBalance !== 0) {
+        setActionSuccess(`Recorded an opening balance of ${result.openingBalance} for stock from before the ledger.`);
+      } else if (result.corrected) {
+        setActionSuccess(`Stock corrected from ${result.recordedStock} to ${result.ledgerStock} to match the ledger.`);
+      } else {
+        setActionSuccess(`Stock of ${result.ledgerStock} matches the ledger.`);
+      }
+      onStockChanged?.();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to reconcile stock');
+    }
+  };
+
+  return (
+    <Modal show={!!product} onHide={handleHide} size="xl">
+      <Modal.Header closeButton>
+        <Modal.Title>📋 Inventory History{product ? ` — ${product.title}` : ''}</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {product && (
+          <div className="d-flex flex-wrap gap-3 align-items-center mb-3">
+            <span>
+              Current stock: <Badge bg={currentStock <= getLowStockThreshold(product) ? 'warning' : 'success'}>{currentStock}</Badge>
+            </span>
+            <span className="text-muted small">Low-stock alert at {getLowStockThreshold(product)} or fewer</span>
+            <Button
+              size="sm"
+              variant="outline-secondary"
+              className="ms-auto"
+              onClick={handleReconcile}
+              disabled={reconcileStockMutation.isPending}
+            >
+              {reconcileStockMutation.isPending ? <Spinner size="sm" animation="border" /> : '⚖️ Reconcile with Ledger'}
+            </Button>
+          </div>
+        )}
+
+        {actionError && (
+          <Alert variant="danger" dismissible onClose={() => setActionError(null)}>
+            {actionError}
+          </Alert>
+        )}
+        {actionSuccess && (
+          <Alert variant="success" dismissible onClose={() => setActionSuccess(null)}>
+            {actionSuccess}
+          </Alert>
+        )}
+
+        {/* Manual movement form */}
+        {product && !product.inventory.trackInventory ? (
+          <Alert variant="info">Inventory is not tracked for this product.</Alert>
+        ) : (
+          <Form onSubmit={handleAdjust} className="mb-4">
+            <Row className="g-2 align-items-end">
+              <Col md={3}>
+                <Form.Label className="small">Movement</Form.Label>
+                <Form.Select
+                  value={adjustment.type}
+                  onChange={(e) => setAdjustment({ ...adjustment, type: e.target.value as ManualInventoryMovementType })}
+                >
+                  {MANUAL_MOVEMENT_TYPES.map(type => (
+                    <option key={type} value={type}>{INVENTORY_MOVEMENT_LABELS[type]}</option>
+                  ))}
+                </Form.Select>
+              </Col>
+              <Col md={2}>
+                <Form.Label className="small">Quantity</Form.Label>
+                <Form.Control
+                  type="number"
+                  step="1"
+                  value={adjustment.quantity || ''}
+                  onChange={(e) => setAdjustment({ ...adjustment, quantity: Number(e.target.value) })}
+                  placeholder={adjustment.type === 'adjustment' ? '±units' : 'units'}
+                  required
+                />
+              </Col>
+              <Col md={5}>
+                <Form.Label className="small">Reason</Form.Label>
+                <Form.Control
+                  type="text"
+                  value={adjustment.reason}
+                  onChange={(e) => setAdjustment({ ...adjustment, reason: e.target.value })}
+                  placeholder="e.g. Supplier delivery #1042, damaged in warehouse"
+                  required
+                />
+              </Col>
+              <Col md={2}>
+                <Button type="submit" variant="primary" className="w-100" disabled={adjustStockMutation.isPending}>
+                  {adjustStockMutation.isPending ? <Spinner size="sm" animation="border" /> : 'Record'}
+                </Button>
+              </Col>
+            </Row>
+          </Form>
+        )}
+
+        {/* Movement history */}
+        {isLoading ? (
+          <div className="text-center py-4">
+            <Spinner animation="border" />
+            <p className="mt-2">Loading inventory history...</p>
+          </div>
+        ) : isError ? (
+          <Alert variant="danger">
+            {error instanceof Error ? error.message : 'Failed to load inventory history'}
+          </Alert>
+        ) : !movements || movements.length === 0 ? (
+          <p className="text-muted text-center py-3 mb-0">
+            No stock movements recorded yet. Reconcile to record the current stock as an opening balance.
+          </p>
+        ) : (
+          <Table responsive size="sm" className="mb-0">
+            <thead className="bg-light">
+              <tr>
+                <th>Date</th>
+                <th>Movement</th>
+                <th className="text-end">Change</th>
+                <th className="text-end">Stock After</th>
+                <th>By</th>
+                <th>Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {movements.map(movement => (
+                <tr key={movement.id}>
+                  <td className="text-nowrap small">{movement.createdAt.toLocaleString()}</td>
+                  <td>
+                    <Badge bg={MOVEMENT_BADGE_VARIANTS[movement.type]}>{INVENTORY_MOVEMENT_LABELS[movement.type]}</Badge>
+                  </td>
+                  <td className={`text-end fw-bold ${movement.quantity < 0 ? 'text-danger' : 'text-success'}`}>
+                    {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                  </td>
+                  <td className="text-end">{movement.stockAfter}</td>
+                  <td className="small">{movement.actorEmail || movement.actorId}</td>
+                  <td className="small">
+                    {movement.reason}
+                    {movement.orderId && (
+                      <div className="text-muted">Order #{movement.orderId.substring(0, 8)}</div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="secondary" onClick={handleHide}>Close</Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default InventoryHistoryModal;
@@ -0,0 +1,89 @@
+/**
+ * Invoice Actions Component
+ * Buttons that open an order's printable invoice or download it as a PDF,
+ * issuing the invoice number the first time either is used
+ */
+import React from 'react';
+import { Button, Alert, Spinner } from 'react-bootstrap';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { downloadInvoicePdf, issueInvoice, showInvoiceHtml } from '../services/invoiceService';
+import type { Order } from '../types/orderType';
+
+// Props interface for the InvoiceActions component
+interface InvoiceActionsProps {
+  order: Order;
+}
+
+// Which copy of the invoice to produce
+type InvoiceFormat = 'html' | 'pdf';
+
+const InvoiceActions: React.FC<InvoiceActionsProps> = ({ order }) => {
+  const queryClient = useQueryClient();
+
+  const invoiceMutation = useMutation({
+    mutationFn: async ({ format, invoiceWindow }: { format: InvoiceFormat; invoiceWindow?: Window | null }) => {
+      if (format === 'html' && !invoiceWindow) {
+        throw new Error('Allow pop-ups for this site to view the invoice');
+      }
+      return issueInvoice(order.id);
+    },
+    onSuccess: (invoice, { format, invoiceWindow }) => {
+      if (format === 'pdf') {
+        downloadInvoicePdf(invoice);
+      } else if (invoiceWindow) {
+        showInvoiceHtml(invoice, invoiceWindow);
+      }
+
+      // The first invoice stores its number on the order
+      if (!order.invoice) {
+        queryClient.invalidateQueries({ queryKey: ['userOrders'] });
+        queryClient.invalidateQueries({ queryKey: ['adminOrders'] });
+      }
+    },
+    onError: (_error, { invoiceWindow }) => {
+      invoiceWindow?.close();
+    },
+  });
+
+  // Open the window straight away, while the click still allows pop-ups
+  const handleView = () => {
+    invoiceMutation.mutate({ format: 'html', invoiceWindow: window.open('', '_blank') });
+  };
+
+  const invoiceNumber = invoiceMutation.data?.invoiceNumber ?? order.invoice?.invoiceNumber;
+  const pendingFormat = invoiceMutation.isPending ? invoiceMutation.variables?.format : undefined;
+
+  return (
+    <div className="mb-3">
+      <div className="d-flex flex-wrap align-items-center gap-2">
+        <h6 className="mb-0 me-auto">
+          Invoice
+          {invoiceNumber && <span className="text-muted small ms-2">{invoiceNumber}</span>}
+        </h6>
+        <Button
+          variant="outline-secondary"
+          size="sm"
+          onClick={handleView}
+          disabled={invoiceMutation.isPending}
+        >
+          {pendingFormat === 'html' ? <Spinner size="sm" animation="border" /> : '🧾 View / Print'}
+        </Button>
+        <Button
+          variant="outline-secondary"
+          size="sm"
+          onClick={() => invoiceMutation.mutate({ format: 'pdf' })}
+          disabled={invoiceMutation.isPending}
+        >
+          {pendingFormat === 'pdf' ? <Spinner size="sm" animation="border" /> : '⬇️ Download PDF'}
+        </Button>
+      </div>
+      {invoiceMutation.isError && (
+        <Alert variant="danger" className="mt-2 mb-0 py-2 small">
+          {invoiceMutation.error instanceof Error ? invoiceMutation.error.message : 'Failed to issue invoice'}
+        </Alert>
+      )}
+    </div>
+  );
+};
+
+export default InvoiceActions;
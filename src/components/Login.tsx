@@ -9,12 +9,16 @@ import {
   Alert, 
   Spinner 
 } from 'react-bootstrap';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { loginUser } from '../services/authService';
-import type { UserLoginData } from '../types/authTypes';
+import type { RouteRedirectState, UserLoginData } from '../types/authTypes';
 
 const Login: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  
+  // Set when a protected route sent the user here
+  const redirectState = location.state as RouteRedirectState | null;
   
   // Form state
   const [formData, setFormData] = useState<UserLoginData>({
@@ -85,9 +89,9 @@ const Login: React.FC = () => {
       });
       setValidated(false);
       
-      // Redirect to home after 1 second
+      // Redirect back to the protected page (or home) after 1 second
       setTimeout(() => {
-        navigate('/');
+        navigate(redirectState?.from || '/');
       }, 1000);
       
     } catch (error) {
@@ -109,6 +113,13 @@ const Login: React.FC = () => {
                 <p className="text-muted">Sign in to your account</p>
               </div>
 
+              {/* Redirect Reason */}
+              {redirectState?.reason && !success && (
+                <Alert variant="info">
+                  {redirectState.reason}
+                </Alert>
+              )}
+
               {/* Error Alert */}
               {error && (
                 <Alert variant="danger" dismissible onClose={() => setError(null)}>
@@ -4,6 +4,8 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useAppSelector, useAppDispatch } from '../hooks/reduxHooks';
 import { useAuth } from '../hooks/useAuth';
 import { toggleCart } from '../store/cartSlice';
+import ProductSearchBox from './ProductSearchBox';
+import { hasRole, ADMIN_ROLES, ORDER_MANAGER_ROLES, PRODUCT_MANAGER_ROLES } from '../services/accessControlService';
 
 const NavBar: React.FC = () => {
   const dispatch = useAppDispatch();
@@ -51,6 +53,9 @@ const NavBar: React.FC = () => {
             <Nav.Link as={Link} to="/">Home</Nav.Link>
           </Nav>
           <Nav className="d-flex align-items-center">
+            {/* Search */}
+            <ProductSearchBox />
+
             {/* Cart */}
             <Nav.Link href="#cart" className="position-relative me-3" onClick={handleCartClick}>
               🛒 Cart
@@ -84,17 +89,34 @@ const NavBar: React.FC = () => {
                     🔧 Edit Profile
                   </Dropdown.Item>
                   <Dropdown.Divider />
-                  <Dropdown.Item as={Link} to="/admin/products">
-                    📦 Manage Products
-                  </Dropdown.Item>
+                  {hasRole(user.role, PRODUCT_MANAGER_ROLES) && (
+                    <Dropdown.Item as={Link} to="/admin/products">
+                      📦 Manage Products
+                    </Dropdown.Item>
+                  )}
+                  {hasRole(user.role, ORDER_MANAGER_ROLES) && (
+                    <Dropdown.Item as={Link} to="/admin/orders">
+                      🧾 Manage Orders
+                    </Dropdown.Item>
+                  )}
                   <Dropdown.Item as={Link} to="/orders">
                     📦 My Orders
                   </Dropdown.Item>
-                  <Dropdown.Divider />
-                  <Dropdown.Item as={Link} to="/debug-products">
-                    🐛 Debug Products
+                  <Dropdown.Item as={Link} to="/wishlist">
+                    ❤️ Wishlist
                   </Dropdown.Item>
                   <Dropdown.Divider />
+                  {hasRole(user.role, ADMIN_ROLES) && (
+                    <>
+                      <Dropdown.Item as={Link} to="/admin/reviews">
+                        ⭐ Moderate Reviews
+                      </Dropdown.Item>
+                      <Dropdown.Item as={Link} to="/debug-products">
+                        🐛 Debug Products
+                      </Dropdown.Item>
+                      <Dropdown.Divider />
+                    </>
+                  )}
                   <Dropdown.Item 
                     onClick={handleLogout}
                     disabled={logoutLoading}
@@ -6,15 +6,32 @@
 import React, { useState } from 'react';
 import { Container, Row, Col, Card, Button, Badge, Spinner, Alert, Table, Modal } from 'react-bootstrap';
 import { Link } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
-import { getUserOrders } from '../services/orderService';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { cancelOrder, cancelOrderItems, getUserOrders } from '../services/orderService';
 import { useAuth } from '../hooks/useAuth';
-import type { Order, OrderStatus } from '../types/orderType';
+import { useReorder } from '../hooks/useReorder';
+import type { Order, OrderItem } from '../types/orderType';
+import type { ReorderResult } from '../types/cartTypes';
+import { formatVariantSelection } from '../services/variantService';
+import { formatDeliveryWindow } from '../services/shippingService';
+import { formatStatusLabel, getOrderStatusBadgeVariant, getPaymentStatusBadgeVariant } from '../services/orderStatusService';
+import { getReturnableQuantity, RETURNABLE_ORDER_STATUSES } from '../services/returnService';
+import { canIssueInvoice } from '../services/invoiceService';
+import OrderStatusTimeline from './OrderStatusTimeline';
+import OrderReturns from './OrderReturns';
+import InvoiceActions from './InvoiceActions';
+import ReturnRequestForm from './ReturnRequestForm';
 
 const OrderHistory: React.FC = () => {
   const { isAuthenticated } = useAuth();
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [showOrderModal, setShowOrderModal] = useState(false);
+  const [cancelError, setCancelError] = useState<string | null>(null);
+  const [showReturnForm, setShowReturnForm] = useState(false);
+  const [reorderSummary, setReorderSummary] = useState<{ orderNumber: string; result: ReorderResult } | null>(null);
+  const [reorderError, setReorderError] = useState<string | null>(null);
+  const reorderMutation = useReorder();
+  const queryClient = useQueryClient();
 
   // Fetch user orders
   const { 
@@ -30,12 +47,60 @@ const OrderHistory: React.FC = () => {
     gcTime: 10 * 60 * 1000, // 10 minutes
   });
 
+  // Cancel a whole order, or the given lines of it; stock is restored as part of the cancellation
+  const cancelMutation = useMutation({
+    mutationFn: ({ orderId, cancelledQuantities }: { orderId: string; cancelledQuantities?: Record<string, number> }) =>
+      cancelledQuantities ? cancelOrderItems(orderId, cancelledQuantities) : cancelOrder(orderId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['userOrders'] });
+      setShowOrderModal(false);
+    },
+    onError: (err) => {
+      setCancelError(err instanceof Error ? err.message : 'Failed to cancel order');
+    },
+  });
+
   // Handle order click
   const handleOrderClick = (order: Order) => {
     setSelectedOrder(order);
+    setCancelError(null);
+    setShowReturnForm(false);
     setShowOrderModal(true);
   };
 
+  // Handle cancelling the remaining units of one line
+  const handleCancelItem = (order: Order, item: OrderItem) => {
+    if (!window.confirm(`Cancel ${item.product.title} from this order?`)) return;
+    setCancelError(null);
+    cancelMutation.mutate({ orderId: order.id, cancelledQuantities: { [item.id]: item.quantity } });
+  };
+
+  // Handle cancelling the whole order
+  const handleCancelOrder = (order: Order) => {
+    if (!window.confirm(`Cancel order ${order.orderNumber}?`)) return;
+    setCancelError(null);
+    cancelMutation.mutate({ orderId: order.id });
+  };
+
+  // Handle adding an order's lines, or a single line, back to the cart
+  const handleReorder = async (order: Order, items: OrderItem[] = order.items) => {
+    try {
+      setReorderSummary(null);
+      setReorderError(null);
+      const result = await reorderMutation.mutateAsync(items);
+      setReorderSummary({ orderNumber: order.orderNumber, result });
+      setShowOrderModal(false);
+    } catch (err) {
+      setReorderError(err instanceof Error ? err.message : 'Failed to add items to your cart');
+    }
+  };
+
+  // Shipped and delivered orders may send back any units not already cancelled or returned
+  const canRequestReturn = (order: Order) => {
+    return RETURNABLE_ORDER_STATUSES.includes(order.status) &&
+      order.items.some(item => getReturnableQuantity(order, item.id) > 0);
+  };
+
   // Format date for display
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
@@ -47,19 +112,6 @@ const OrderHistory: React.FC = () => {
     }).format(date);
   };
 
-  // Get status badge variant
-  const getStatusBadgeVariant = (status: OrderStatus): string => {
-    switch (status) {
-      case 'pending': return 'warning';
-      case 'confirmed': return 'info';
-      case 'processing': return 'primary';
-      case 'shipped': return 'success';
-      case 'delivered': return 'success';
-      case 'cancelled': return 'danger';
-      default: return 'secondary';
-    }
-  };
-
   // Show loading state
   if (isLoading) {
     return (
@@ -112,6 +164,31 @@ const OrderHistory: React.FC = () => {
         </Col>
       </Row>
 
+      {/* Reorder Summary */}
+      {reorderError && (
+        <Alert variant="danger" dismissible onClose={() => setReorderError(null)}>
+          {reorderError}
+        </Alert>
+      )}
+      {reorderSummary && (
+        <Alert
+          variant={reorderSummary.result.issues.length > 0 ? 'warning' : 'success'}
+          dismissible
+          onClose={() => setReorderSummary(null)}
+        >
+          {reorderSummary.result.items.length > 0
+            ? `Added ${reorderSummary.result.items.reduce((sum, item) => sum + (item.quantity || 0), 0)} item(s) from order ${reorderSummary.orderNumber} to your cart at today's prices.`
+            : `Nothing from order ${reorderSummary.orderNumber} could be added to your cart.`}
+          {reorderSummary.result.issues.length > 0 && (
+            <ul className="mb-0 mt-2">
+              {reorderSummary.result.issues.map(issue => (
+                <li key={issue.itemId}>{issue.message}</li>
+              ))}
+            </ul>
+          )}
+        </Alert>
+      )}
+
       {/* Orders List */}
       {orders.length === 0 ? (
         <Row>
@@ -158,8 +235,8 @@ const OrderHistory: React.FC = () => {
                           <small>{formatDate(order.createdAt)}</small>
                         </td>
                         <td>
-                          <Badge bg={getStatusBadgeVariant(order.status)}>
-                            {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                          <Badge bg={getOrderStatusBadgeVariant(order.status)}>
+                            {formatStatusLabel(order.status)}
                           </Badge>
                         </td>
                         <td>
@@ -169,13 +246,23 @@ const OrderHistory: React.FC = () => {
                           <strong>${order.summary.total.toFixed(2)}</strong>
                         </td>
                         <td>
-                          <Button 
-                            variant="outline-primary" 
-                            size="sm"
-                            onClick={() => handleOrderClick(order)}
-                          >
-                            View Details
-                          </Button>
+                          <div className="d-flex gap-2">
+                            <Button 
+                              variant="outline-primary" 
+                              size="sm"
+                              onClick={() => handleOrderClick(order)}
+                            >
+                              View Details
+                            </Button>
+                            <Button
+                              variant="outline-success"
+                              size="sm"
+                              onClick={() => handleReorder(order)}
+                              disabled={reorderMutation.isPending}
+                            >
+                              Reorder
+                            </Button>
+                          </div>
                         </td>
                       </tr>
                     ))}
@@ -204,10 +291,24 @@ const OrderHistory: React.FC = () => {
                   <p><strong>Order Number:</strong> {selectedOrder.orderNumber}</p>
                   <p><strong>Date:</strong> {formatDate(selectedOrder.createdAt)}</p>
                   <p><strong>Status:</strong> {' '}
-                    <Badge bg={getStatusBadgeVariant(selectedOrder.status)}>
-                      {selectedOrder.status.charAt(0).toUpperCase() + selectedOrder.status.slice(1)}
+                    <Badge bg={getOrderStatusBadgeVariant(selectedOrder.status)}>
+                      {formatStatusLabel(selectedOrder.status)}
+                    </Badge>
+                  </p>
+                  <p><strong>Payment:</strong> {' '}
+                    <Badge bg={getPaymentStatusBadgeVariant(selectedOrder.paymentStatus)}>
+                      {formatStatusLabel(selectedOrder.paymentStatus)}
                     </Badge>
+                    {selectedOrder.paymentMethod && (
+                      <span className="text-muted small ms-2">{selectedOrder.paymentMethod}</span>
+                    )}
                   </p>
+                  {selectedOrder.shippingMethod && (
+                    <p>
+                      <strong>Shipping Method:</strong> {selectedOrder.shippingMethod.label}<br />
+                      <small className="text-muted">{formatDeliveryWindow(selectedOrder.shippingMethod)}</small>
+                    </p>
+                  )}
                   {selectedOrder.trackingNumber && (
                     <p><strong>Tracking:</strong> {selectedOrder.trackingNumber}</p>
                   )}
@@ -229,6 +330,12 @@ const OrderHistory: React.FC = () => {
                 </Col>
               </Row>
 
+              {cancelError && (
+                <Alert variant="danger" dismissible onClose={() => setCancelError(null)}>
+                  {cancelError}
+                </Alert>
+              )}
+
               {/* Order Items */}
               <h6>Order Items</h6>
               <Table striped bordered hover responsive className="mb-4">
@@ -238,6 +345,7 @@ const OrderHistory: React.FC = () => {
                     <th>Price</th>
                     <th>Quantity</th>
                     <th>Total</th>
+                    <th></th>
                   </tr>
                 </thead>
                 <tbody>
@@ -255,12 +363,45 @@ const OrderHistory: React.FC = () => {
                             <strong>{item.product.title}</strong>
                             <br />
                             <small className="text-muted">{item.product.category}</small>
+                            {item.selectedOptions && item.selectedOptions.length > 0 && (
+                              <>
+                                <br />
+                                <small>{formatVariantSelection(item.selectedOptions)}</small>
+                              </>
+                            )}
                           </div>
                         </div>
                       </td>
                       <td>${item.priceAtTime.toFixed(2)}</td>
-                      <td>{item.quantity}</td>
+                      <td>
+                        {item.quantity}
+                        {!!item.cancelledQuantity && (
+                          <div><Badge bg="secondary">{item.cancelledQuantity} cancelled</Badge></div>
+                        )}
+                      </td>
                       <td><strong>${item.totalPrice.toFixed(2)}</strong></td>
+                      <td>
+                        <div className="d-flex flex-column gap-1">
+                          <Button
+                            variant="outline-success"
+                            size="sm"
+                            onClick={() => handleReorder(selectedOrder, [item])}
+                            disabled={reorderMutation.isPending}
+                          >
+                            Buy Again
+                          </Button>
+                          {selectedOrder.status === 'pending' && (item.cancelledQuantity || 0) < item.quantity && (
+                            <Button
+                              variant="outline-danger"
+                              size="sm"
+                              onClick={() => handleCancelItem(selectedOrder, item)}
+                              disabled={cancelMutation.isPending}
+                            >
+                              Cancel Item
+                            </Button>
+                          )}
+                        </div>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -276,16 +417,32 @@ const OrderHistory: React.FC = () => {
                         <td className="text-end">${selectedOrder.summary.subtotal.toFixed(2)}</td>
                       </tr>
                       <tr>
-                        <td>Tax:</td>
+                        <td>{selectedOrder.summary.pricesIncludeTax ? 'Tax (included):' : 'Tax:'}</td>
                         <td className="text-end">${selectedOrder.summary.tax.toFixed(2)}</td>
                       </tr>
+                      {selectedOrder.summary.taxBreakdown?.map(entry => (
+                        <tr key={`${entry.taxClass}-${entry.rate}`} className="text-muted small">
+                          <td className="ps-3">
+                            {entry.jurisdiction} {parseFloat((entry.rate * 100).toFixed(3))}%
+                            {entry.taxClass !== 'standard' && ` (${entry.taxClass})`}
+                          </td>
+                          <td className="text-end">${entry.amount.toFixed(2)}</td>
+                        </tr>
+                      ))}
                       <tr>
                         <td>Shipping:</td>
                         <td className="text-end">${selectedOrder.summary.shipping.toFixed(2)}</td>
                       </tr>
                       {selectedOrder.summary.discount > 0 && (
                         <tr>
-                          <td>Discount:</td>
+                          <td>
+                            Discount:
+                            {selectedOrder.appliedPromotions && selectedOrder.appliedPromotions.length > 0 && (
+                              <span className="text-muted small ms-1">
+                                ({selectedOrder.appliedPromotions.map(promotion => promotion.code).join(', ')})
+                              </span>
+                            )}
+                          </td>
                           <td className="text-end text-success">-${selectedOrder.summary.discount.toFixed(2)}</td>
                         </tr>
                       )}
@@ -298,6 +455,22 @@ const OrderHistory: React.FC = () => {
                 </Col>
               </Row>
 
+              {/* Returns */}
+              {showReturnForm && (
+                <ReturnRequestForm
+                  order={selectedOrder}
+                  onSubmitted={(request) => {
+                    setSelectedOrder({ ...selectedOrder, returns: [...(selectedOrder.returns || []), request] });
+                    setShowReturnForm(false);
+                  }}
+                  onCancel={() => setShowReturnForm(false)}
+                />
+              )}
+              <OrderReturns order={selectedOrder} />
+
+              {/* Invoice */}
+              {canIssueInvoice(selectedOrder) && <InvoiceActions order={selectedOrder} />}
+
               {/* Order Notes */}
               {selectedOrder.notes && (
                 <div className="mt-3">
@@ -307,10 +480,41 @@ const OrderHistory: React.FC = () => {
                   </div>
                 </div>
               )}
+
+              {/* Status Timeline */}
+              {selectedOrder.statusHistory && selectedOrder.statusHistory.length > 0 && (
+                <div className="mt-3">
+                  <h6>Status History</h6>
+                  <OrderStatusTimeline history={selectedOrder.statusHistory} />
+                </div>
+              )}
             </div>
           )}
         </Modal.Body>
         <Modal.Footer>
+          {selectedOrder && (
+            <Button
+              variant="outline-success"
+              onClick={() => handleReorder(selectedOrder)}
+              disabled={reorderMutation.isPending}
+            >
+              {reorderMutation.isPending ? <Spinner size="sm" animation="border" /> : 'Reorder'}
+            </Button>
+          )}
+          {selectedOrder && !showReturnForm && canRequestReturn(selectedOrder) && (
+            <Button variant="outline-primary" onClick={() => setShowReturnForm(true)}>
+              Request a Return
+            </Button>
+          )}
+          {selectedOrder?.status === 'pending' && (
+            <Button
+              variant="outline-danger"
+              onClick={() => handleCancelOrder(selectedOrder)}
+              disabled={cancelMutation.isPending}
+            >
+              {cancelMutation.isPending ? <Spinner size="sm" animation="border" /> : 'Cancel Order'}
+            </Button>
+          )}
           <Button variant="secondary" onClick={() => setShowOrderModal(false)}>
             Close
           </Button>
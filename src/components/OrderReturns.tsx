@@ -0,0 +1,192 @@
+/**
+ * Order Returns Component
+ * An order's return requests with their lines and refunds, plus the approval,
+ * receipt and refund steps for support and admin staff
+ */
+import React, { useState } from 'react';
+import { Card, Badge, Button, Form, Table, Spinner, Alert } from 'react-bootstrap';
+import { approveReturn, receiveReturn, refundReturn, rejectReturn } from '../services/returnService';
+import { formatStatusLabel, getReturnStatusBadgeVariant } from '../services/orderStatusService';
+import type { Order } from '../types/orderType';
+import type { ReturnDisposition, ReturnRequest } from '../types/returnType';
+
+// Props interface for the OrderReturns component
+interface OrderReturnsProps {
+  order: Order;
+  canManage?: boolean; // Show the staff actions
+  onChanged?: (message: string) => void;
+}
+
+const OrderReturns: React.FC<OrderReturnsProps> = ({ order, canManage = false, onChanged }) => {
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [dispositions, setDispositions] = useState<Record<string, ReturnDisposition>>({});
+  const [busyReturnId, setBusyReturnId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const returns = order.returns || [];
+  if (returns.length === 0) {
+    return null;
+  }
+
+  // Run a staff action against one return, reporting the outcome
+  const runAction = async (request: ReturnRequest, action: () => Promise<void>, message: string) => {
+    try {
+      setBusyReturnId(request.id);
+      setError(null);
+      await action();
+      onChanged?.(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update return');
+    } finally {
+      setBusyReturnId(null);
+    }
+  };
+
+  const handleReceive = (request: ReturnRequest) => {
+    // Lines default to going back into stock
+    const lineDispositions = Object.fromEntries(request.items.map(item => [
+      item.itemId,
+      dispositions[`${request.id}:${item.itemId}`] || 'restock'
+    ]));
+    runAction(
+      request,
+      () => receiveReturn(order.id, request.id, lineDispositions, notes[request.id]),
+      `Return ${request.id} received`
+    );
+  };
+
+  return (
+    <div className="mb-3">
+      <h6>Returns</h6>
+      {error && (
+        <Alert variant="danger" dismissible onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {returns.map(request => (
+        <Card key={request.id} className="mb-2">
+          <Card.Header className="d-flex justify-content-between align-items-center">
+            <span>
+              <strong>{request.id}</strong>
+              <Badge bg={getReturnStatusBadgeVariant(request.status)} className="ms-2">
+                {formatStatusLabel(request.status)}
+              </Badge>
+            </span>
+            <small className="text-muted">Requested {request.requestedAt.toLocaleDateString()}</small>
+          </Card.Header>
+          <Card.Body>
+            <p className="small mb-2"><strong>Reason:</strong> {request.reason}</p>
+            <Table size="sm" className="mb-2">
+              <tbody>
+                {request.items.map(item => (
+                  <tr key={item.itemId}>
+                    <td>{item.title}</td>
+                    <td className="text-center">×{item.quantity}</td>
+                    <td className="text-end">
+                      {canManage && request.status === 'approved' ? (
+                        <Form.Select
+                          size="sm"
+                          value={dispositions[`${request.id}:${item.itemId}`] || 'restock'}
+                          onChange={(e) => setDispositions(prev => ({
+                            ...prev,
+                            [`${request.id}:${item.itemId}`]: e.target.value as ReturnDisposition
+                          }))}
+                        >
+                          <option value="restock">Restock</option>
+                          <option value="discard">Discard</option>
+                        </Form.Select>
+                      ) : item.disposition && (
+                        <small className="text-muted">{formatStatusLabel(item.disposition)}</small>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+            {request.status !== 'rejected' && (
+              <p className="small mb-1">
+                <strong>Refund:</strong> ${(request.refundedAmount ?? request.refundAmount).toFixed(2)}
+                {request.status !== 'refunded' && <span className="text-muted"> (estimated, excludes shipping)</span>}
+              </p>
+            )}
+            {request.resolutionNote && (
+              <p className="small text-muted mb-1">{request.resolutionNote}</p>
+            )}
+
+            {canManage && ['requested', 'approved', 'received'].includes(request.status) && (
+              <div className="mt-2">
+                {request.status !== 'received' && (
+                  <Form.Control
+                    size="sm"
+                    type="text"
+                    className="mb-2"
+                    value={notes[request.id] || ''}
+                    onChange={(e) => setNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                    placeholder={request.status === 'requested' ? 'Note to the customer (required to reject)' : 'Condition of the returned items'}
+                  />
+                )}
+                <div className="d-flex gap-2">
+                  {request.status === 'requested' && (
+                    <Button
+                      size="sm"
+                      variant="success"
+                      disabled={busyReturnId === request.id}
+                      onClick={() => runAction(
+                        request,
+                        () => approveReturn(order.id, request.id, notes[request.id]?.trim() || undefined),
+                        `Return ${request.id} approved`
+                      )}
+                    >
+                      Approve
+                    </Button>
+                  )}
+                  {request.status === 'approved' && (
+                    <Button
+                      size="sm"
+                      variant="primary"
+                      disabled={busyReturnId === request.id}
+                      onClick={() => handleReceive(request)}
+                    >
+                      Mark Received
+                    </Button>
+                  )}
+                  {request.status !== 'received' && (
+                    <Button
+                      size="sm"
+                      variant="outline-danger"
+                      disabled={busyReturnId === request.id}
+                      onClick={() => runAction(
+                        request,
+                        () => rejectReturn(order.id, request.id, notes[request.id] || ''),
+                        `Return ${request.id} rejected`
+                      )}
+                    >
+                      Reject
+                    </Button>
+                  )}
+                  {request.status === 'received' && (
+                    <Button
+                      size="sm"
+                      variant="success"
+                      disabled={busyReturnId === request.id}
+                      onClick={() => runAction(
+                        request,
+                        () => refundReturn(order.id, request.id),
+                        `Return ${request.id} refunded`
+                      )}
+                    >
+                      Issue Refund
+                    </Button>
+                  )}
+                  {busyReturnId === request.id && <Spinner size="sm" animation="border" />}
+                </div>
+              </div>
+            )}
+          </Card.Body>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default OrderReturns;
@@ -0,0 +1,60 @@
+/**
+ * Order Status Timeline Component
+ * Audit trail of an order's status and payment changes, oldest first
+ */
+import React from 'react';
+import { Badge, ListGroup } from 'react-bootstrap';
+import type { StatusChangeKind, StatusHistoryEntry } from '../types/orderType';
+
+// Props interface for the OrderStatusTimeline component
+interface OrderStatusTimelineProps {
+  history: StatusHistoryEntry[];
+}
+
+// Label for what each history entry changed
+const KIND_LABELS: Record<StatusChangeKind, string> = {
+  order: 'Order',
+  payment: 'Payment',
+  return: 'Return'
+};
+
+const OrderStatusTimeline: React.FC<OrderStatusTimelineProps> = ({ history }) => {
+  const entries = [...history].sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+
+  const formatDate = (date: Date) => {
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(date);
+  };
+
+  return (
+    <ListGroup variant="flush" className="border-start border-2 ps-2">
+      {entries.map((entry, index) => (
+        <ListGroup.Item key={index} className="px-2">
+          <div className="d-flex justify-content-between">
+            <span>
+              <Badge bg="light" text="dark" className="me-2">
+                {KIND_LABELS[entry.kind] || 'Order'}
+              </Badge>
+              {entry.from ? `${entry.from} → ${entry.to}` : entry.to}
+            </span>
+            <small className="text-muted">{formatDate(entry.changedAt)}</small>
+          </div>
+          <small className="text-muted">
+            by {entry.changedByEmail || entry.changedBy}
+            {entry.changedByRole && ` (${entry.changedByRole})`}
+          </small>
+          {entry.reason && (
+            <div className="small">{entry.reason}</div>
+          )}
+        </ListGroup.Item>
+      ))}
+    </ListGroup>
+  );
+};
+
+export default OrderStatusTimeline;
@@ -1,23 +1,53 @@
 import React, { useState } from 'react';
 import { Card, Button, Modal, Form, Alert, Spinner } from 'react-bootstrap';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
 import { deleteProduct, updateProduct } from '../services/productService';
-import type { Product, ProductUpdateData } from '../types/productType';
+import { hasRole, PRODUCT_MANAGER_ROLES } from '../services/accessControlService';
+import type { Product, ProductUpdateData, SelectedVariantOption } from '../types/productType';
+import {
+  getDefaultVariantSelection,
+  getEffectiveUnitPrice,
+  selectVariantOption
+} from '../services/variantService';
 
 // Props interface for the ProductCard component
 interface ProductCardProps {
   product: Product;
-  onAddToCart: (product: Product) => void;
+  onAddToCart: (product: Product, selectedOptions?: SelectedVariantOption[]) => void;
   onProductUpdated?: () => void; // Callback to refresh product list
+  isWishlisted?: boolean;
+  onToggleWishlist?: (product: Product, selectedOptions?: SelectedVariantOption[]) => void; // Heart shown when provided
+  detailPath?: string; // Title links to the product page when provided
 }
 
 // Functional component with TypeScript
-const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart, onProductUpdated }) => {
-  const { isAuthenticated } = useAuth();
+const ProductCard: React.FC<ProductCardProps> = ({
+  product,
+  onAddToCart,
+  onProductUpdated,
+  isWishlisted = false,
+  onToggleWishlist,
+  detailPath
+}) => {
+  const { isAuthenticated, user } = useAuth();
+  
+  // Sellers manage their own products; admins manage every product
+  const canManageProduct = isAuthenticated && !!user && (
+    user.role === 'admin' ||
+    (hasRole(user.role, PRODUCT_MANAGER_ROLES) && product.createdBy === user.uid)
+  );
   
   // State for handling image load errors
   const [imageError, setImageError] = useState(false);
   
+  // State for the shopper's variant option choices (defaults to the first option of each)
+  const [selectedOptions, setSelectedOptions] = useState<SelectedVariantOption[]>(
+    () => getDefaultVariantSelection(product)
+  );
+  const variants = (product.variants || []).filter(variant => variant.options.length > 0);
+  const unitPrice = getEffectiveUnitPrice(product, selectedOptions);
+  
   // State for edit/delete modals
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -44,6 +74,29 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart, onProdu
     setImageError(true);
   };
 
+  // Handle variant option change
+  const handleOptionChange = (variantId: string, option: string) => {
+    const variant = variants.find(v => v.id === variantId);
+    if (!variant) return;
+    setSelectedOptions(prev => prev.map(selection =>
+      selection.variantId === variantId ? selectVariantOption(variant, option) : selection
+    ));
+  };
+
+  // Handle add to cart, passing the chosen options for variant products
+  const handleAddToCart = () => {
+    if (selectedOptions.length > 0) {
+      onAddToCart(product, selectedOptions);
+    } else {
+      onAddToCart(product);
+    }
+  };
+
+  // Handle wishlist heart, saving the chosen options for variant products
+  const handleToggleWishlist = () => {
+    onToggleWishlist?.(product, selectedOptions.length > 0 ? selectedOptions : undefined);
+  };
+
   // Handle edit form changes
   const handleEditChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
@@ -105,7 +158,20 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart, onProdu
   };
 
   return (
-    <Card className="h-100 shadow-sm">
+    <Card className="h-100 shadow-sm position-relative">
+      {onToggleWishlist && (
+        <Button
+          variant="light"
+          size="sm"
+          className="position-absolute top-0 end-0 m-2 rounded-circle"
+          onClick={handleToggleWishlist}
+          aria-label={isWishlisted ? 'Remove from wishlist' : 'Save to wishlist'}
+          aria-pressed={isWishlisted}
+          title={isWishlisted ? 'Remove from wishlist' : 'Save to wishlist'}
+        >
+          {isWishlisted ? '❤️' : '🤍'}
+        </Button>
+      )}
       <Card.Img 
         variant="top" 
         src={imageError ? fallbackImage : product.image} 
@@ -119,7 +185,11 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart, onProdu
       />
       <Card.Body className="d-flex flex-column">
         <Card.Title className="text-truncate" title={product.title}>
-          {product.title}
+          {detailPath ? (
+            <Link to={detailPath} className="text-reset text-decoration-none">{product.title}</Link>
+          ) : (
+            product.title
+          )}
         </Card.Title>
         
         <Card.Text className="text-muted small">
@@ -149,9 +219,25 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart, onProdu
         </Card.Text>
         
         <div className="mt-auto">
+          {/* Variant Option Pickers */}
+          {variants.map((variant) => (
+            <Form.Group key={variant.id} className="mb-2" controlId={`${product.id}-${variant.id}`}>
+              <Form.Label className="small mb-1">{variant.name}</Form.Label>
+              <Form.Select
+                size="sm"
+                value={selectedOptions.find(option => option.variantId === variant.id)?.option}
+                onChange={(e) => handleOptionChange(variant.id, e.target.value)}
+              >
+                {variant.options.map((option) => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </Form.Select>
+            </Form.Group>
+          ))}
+
           <div className="d-flex justify-content-between align-items-center mb-2">
             <span className="h5 text-primary mb-0">
-              ${product.price.toFixed(2)}
+              ${unitPrice.toFixed(2)}
             </span>
             <small className="text-muted">
               ⭐ {product.rating.rate} ({product.rating.count})
@@ -162,14 +248,14 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onAddToCart, onProdu
           <Button 
             variant="primary" 
             className="w-100 mb-2"
-            onClick={() => onAddToCart(product)}
+            onClick={handleAddToCart}
             disabled={!isInStock()}
           >
             {isInStock() ? 'Add to Cart' : 'Out of Stock'}
           </Button>
           
           {/* Admin Actions */}
-          {isAuthenticated && (
+          {canManageProduct && (
             <div className="d-flex gap-1">
               <Button 
                 variant="outline-secondary" 
@@ -0,0 +1,252 @@
+/**
+ * ProductDetail Component
+ * Storefront page for a single product at /products/:slug
+ * Gallery, description, variant options, stock, add to cart and customer reviews
+ */
+import React, { useState } from 'react';
+import { Container, Row, Col, Spinner, Alert, Button, Form, Badge, Image } from 'react-bootstrap';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { useAppDispatch } from '../hooks/reduxHooks';
+import { useCatalogProductBySlug } from '../hooks/useProductManagement';
+import { useDocumentMeta } from '../hooks/useDocumentMeta';
+import { useAddToWishlist, useRemoveFromWishlist, useWishlist } from '../hooks/useWishlist';
+import { addToCart, getProductQuantityLimit, getQuantityLimitReason, openCart } from '../store/cartSlice';
+import { getProductPath } from '../services/productService';
+import {
+  getDefaultVariantSelection,
+  getEffectiveUnitPrice,
+  selectVariantOption
+} from '../services/variantService';
+import ProductReviews from './ProductReviews';
+import type { Product, SelectedVariantOption } from '../types/productType';
+
+// Purchase panel; remounted per product so option and image choices start fresh
+const ProductPurchasePanel: React.FC<{ product: Product }> = ({ product }) => {
+  const dispatch = useAppDispatch();
+  const { isAuthenticated } = useAuth();
+
+  const gallery = [product.image, ...(product.images || [])].filter(Boolean);
+  const [activeImage, setActiveImage] = useState(gallery[0] || '');
+  const [selectedOptions, setSelectedOptions] = useState<SelectedVariantOption[]>(
+    () => getDefaultVariantSelection(product)
+  );
+  const [quantity, setQuantity] = useState(1);
+
+  const variants = (product.variants || []).filter(variant => variant.options.length > 0);
+  const unitPrice = getEffectiveUnitPrice(product, selectedOptions);
+  const maxQuantity = getProductQuantityLimit(product);
+  const inStock = maxQuantity > 0;
+
+  // Wishlist heart for signed-in shoppers; a product counts as saved with any options
+  const { data: wishlist } = useWishlist();
+  const addToWishlistMutation = useAddToWishlist();
+  const removeFromWishlistMutation = useRemoveFromWishlist();
+  const wishlistEntries = (wishlist || []).filter(entry => entry.productId === product.id);
+
+  // Handle variant option change
+  const handleOptionChange = (variantId: string, option: string) => {
+    const variant = variants.find(v => v.id === variantId);
+    if (!variant) return;
+    setSelectedOptions(prev => prev.map(selection =>
+      selection.variantId === variantId ? selectVariantOption(variant, option) : selection
+    ));
+  };
+
+  // Handle adding the chosen quantity and options to the cart
+  const handleAddToCart = () => {
+    dispatch(addToCart({
+      product,
+      quantity,
+      selectedOptions: selectedOptions.length > 0 ? selectedOptions : undefined
+    }));
+    dispatch(openCart());
+  };
+
+  // Handle wishlist heart
+  const handleToggleWishlist = async () => {
+    try {
+      if (wishlistEntries.length > 0) {
+        await Promise.all(wishlistEntries.map(entry => removeFromWishlistMutation.mutateAsync(entry.id)));
+      } else {
+        await addToWishlistMutation.mutateAsync({ product, selectedOptions });
+      }
+    } catch (error) {
+      console.error('Error updating wishlist:', error);
+    }
+  };
+
+  // Format stock display
+  const formatStock = (): string => {
+    if (!inStock) return 'Out of Stock';
+    if (!product.inventory.trackInventory) return 'In stock';
+    if (product.inventory.stock <= 5) return `Only ${product.inventory.stock} left`;
+    return `${product.inventory.stock} in stock`;
+  };
+
+  return (
+    <Row>
+      {/* Gallery */}
+      <Col md={6} className="mb-4">
+        <div className="border rounded p-3 text-center bg-white">
+          <Image
+            src={activeImage}
+            alt={product.title}
+            fluid
+            style={{ maxHeight: '400px', objectFit: 'contain' }}
+          />
+        </div>
+        {gallery.length > 1 && (
+          <div className="d-flex gap-2 mt-2 flex-wrap">
+            {gallery.map((imageUrl, index) => (
+              <button
+                key={`${imageUrl}-${index}`}
+                type="button"
+                className={`border rounded p-1 bg-white ${imageUrl === activeImage ? 'border-primary' : ''}`}
+                onClick={() => setActiveImage(imageUrl)}
+                aria-label={`Show image ${index + 1} of ${gallery.length}`}
+              >
+                <img src={imageUrl} alt="" style={{ width: '64px', height: '64px', objectFit: 'contain' }} />
+              </button>
+            ))}
+          </div>
+        )}
+      </Col>
+
+      {/* Details and purchase options */}
+      <Col md={6} className="mb-4">
+        <p className="text-muted small mb-1">{product.category}</p>
+        <h1 className="h2">{product.title}</h1>
+        <p className="mb-2">
+          <a href="#reviews" className="text-decoration-none">
+            ⭐ {product.rating.rate} ({product.rating.count} {product.rating.count === 1 ? 'review' : 'reviews'})
+          </a>
+        </p>
+        <p className="h3 text-primary">${unitPrice.toFixed(2)}</p>
+
+        <p>
+          <Badge bg={inStock ? 'success' : 'danger'}>{formatStock()}</Badge>
+          {inStock && getQuantityLimitReason(product) === 'max_per_order' && (
+            <small className="text-muted ms-2">Limit {maxQuantity} per order</small>
+          )}
+        </p>
+
+        <p style={{ whiteSpace: 'pre-line' }}>{product.description}</p>
+
+        {/* Variant Option Pickers */}
+        {variants.map((variant) => (
+          <Form.Group key={variant.id} className="mb-3" controlId={`detail-${variant.id}`}>
+            <Form.Label>{variant.name}</Form.Label>
+            <Form.Select
+              value={selectedOptions.find(option => option.variantId === variant.id)?.option}
+              onChange={(e) => handleOptionChange(variant.id, e.target.value)}
+            >
+              {variant.options.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </Form.Select>
+          </Form.Group>
+        ))}
+
+        <div className="d-flex gap-2 align-items-end mb-3">
+          <Form.Group controlId="detail-quantity" style={{ width: '100px' }}>
+            <Form.Label>Quantity</Form.Label>
+            <Form.Control
+              type="number"
+              min={1}
+              max={Number.isFinite(maxQuantity) ? maxQuantity : undefined}
+              value={quantity}
+              onChange={(e) => setQuantity(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              disabled={!inStock}
+            />
+          </Form.Group>
+          <Button variant="primary" className="flex-fill" onClick={handleAddToCart} disabled={!inStock}>
+            {inStock ? 'Add to Cart' : 'Out of Stock'}
+          </Button>
+          {isAuthenticated && (
+            <Button
+              variant="outline-danger"
+              onClick={handleToggleWishlist}
+              aria-pressed={wishlistEntries.length > 0}
+              title={wishlistEntries.length > 0 ? 'Remove from wishlist' : 'Save to wishlist'}
+            >
+              {wishlistEntries.length > 0 ? '❤️' : '🤍'}
+            </Button>
+          )}
+        </div>
+
+        {product.tags && product.tags.length > 0 && (
+          <div className="mb-2">
+            {product.tags.map(tag => (
+              <Badge key={tag} bg="light" text="dark" className="me-1">#{tag}</Badge>
+            ))}
+          </div>
+        )}
+        {product.inventory.sku && <small className="text-muted">SKU: {product.inventory.sku}</small>}
+      </Col>
+    </Row>
+  );
+};
+
+const ProductDetail: React.FC = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const { data: product, isLoading, isError, error } = useCatalogProductBySlug(slug);
+
+  useDocumentMeta({
+    title: product ? product.seo?.metaTitle || product.title : undefined,
+    description: product ? product.seo?.metaDescription || product.description : undefined,
+    canonicalPath: product ? getProductPath(product) : undefined
+  });
+
+  // Show loading state
+  if (isLoading) {
+    return (
+      <Container className="mt-4">
+        <div className="text-center py-5">
+          <Spinner animation="border" role="status" variant="primary" />
+          <p className="mt-3">Loading product...</p>
+        </div>
+      </Container>
+    );
+  }
+
+  // Show error or not-found state
+  if (isError || !product) {
+    return (
+      <Container className="mt-4">
+        <Alert variant={isError ? 'danger' : 'warning'}>
+          <Alert.Heading>{isError ? '❌ Error Loading Product' : 'Product Not Found'}</Alert.Heading>
+          <p>
+            {isError
+              ? (error instanceof Error ? error.message : 'Failed to load product')
+              : 'This product does not exist or is no longer available.'}
+          </p>
+          <Link to="/">
+            <Button variant="primary">Back to Products</Button>
+          </Link>
+        </Alert>
+      </Container>
+    );
+  }
+
+  // Links by product ID resolve to the slug URL
+  if (product.seo?.slug && product.seo.slug !== slug) {
+    return <Navigate to={getProductPath(product)} replace />;
+  }
+
+  return (
+    <Container className="mt-4">
+      <Link to="/" className="text-decoration-none d-inline-block mb-3">← Back to Products</Link>
+
+      <ProductPurchasePanel key={product.id} product={product} />
+
+      <Row id="reviews">
+        <Col className="mb-4">
+          <ProductReviews productId={product.id} />
+        </Col>
+      </Row>
+    </Container>
+  );
+};
+
+export default ProductDetail;
@@ -0,0 +1,192 @@
+/**
+ * ProductFacetSidebar Component
+ * Storefront filters for category, price, stock, tags and rating, with counts
+ */
+import React, { useState } from 'react';
+import { Card, Form, Button, InputGroup, Badge } from 'react-bootstrap';
+import { hasActiveFilters, MAX_SELECTED_CATEGORIES } from '../services/facetService';
+import type { FacetCount, ProductFacets, ProductFilters } from '../types/productType';
+
+interface ProductFacetSidebarProps {
+  facets: ProductFacets;
+  filters: ProductFilters;
+  onFiltersChange: (filters: ProductFilters) => void;
+}
+
+// Capitalize first letter of each word
+const formatFacetLabel = (value: string): string =>
+  value.split(' ').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+// Add or remove a value from a multi-select facet
+const toggleValue = (values: string[] | undefined, value: string): string[] | undefined => {
+  const current = values || [];
+  const next = current.includes(value) ? current.filter(item => item !== value) : [...current, value];
+  return next.length > 0 ? next : undefined;
+};
+
+// Checkbox list for a multi-select facet
+const FacetCheckboxList: React.FC<{
+  name: string;
+  options: FacetCount[];
+  selected: string[];
+  onToggle: (value: string) => void;
+  formatLabel?: (value: string) => string;
+  maxSelected?: number; // Further values are disabled once this many are chosen
+}> = ({ name, options, selected, onToggle, formatLabel = value => value, maxSelected = Infinity }) => (
+  <>
+    {options.map(option => (
+      <Form.Check
+        key={option.value}
+        type="checkbox"
+        id={`facet-${name}-${option.value}`}
+        className="small"
+        checked={selected.includes(option.value)}
+        disabled={!selected.includes(option.value) && (option.count === 0 || selected.length >= maxSelected)}
+        onChange={() => onToggle(option.value)}
+        label={
+          <span className="d-flex justify-content-between w-100">
+            <span>{formatLabel(option.value)}</span>
+            <Badge bg="light" text="dark" className="ms-2">{option.count}</Badge>
+          </span>
+        }
+      />
+    ))}
+  </>
+);
+
+const ProductFacetSidebar: React.FC<ProductFacetSidebarProps> = ({ facets, filters, onFiltersChange }) => {
+  // Price inputs are applied together, not on every keystroke
+  const [minPriceInput, setMinPriceInput] = useState(filters.minPrice?.toString() ?? '');
+  const [maxPriceInput, setMaxPriceInput] = useState(filters.maxPrice?.toString() ?? '');
+
+  const selectedCategories = filters.categories || [];
+  const selectedTags = filters.tags || [];
+
+  // Handle applying the price range
+  const handleApplyPrice = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsePrice = (value: string) => {
+      const price = parseFloat(value);
+      return Number.isFinite(price) && price >= 0 ? price : undefined;
+    };
+    onFiltersChange({ ...filters, minPrice: parsePrice(minPriceInput), maxPrice: parsePrice(maxPriceInput) });
+  };
+
+  // Handle clearing every filter
+  const handleClearAll = () => {
+    setMinPriceInput('');
+    setMaxPriceInput('');
+    onFiltersChange({});
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <Card.Header className="d-flex justify-content-between align-items-center">
+        <strong>Filters</strong>
+        {hasActiveFilters(filters) && (
+          <Button variant="link" size="sm" className="p-0" onClick={handleClearAll}>
+            Clear all
+          </Button>
+        )}
+      </Card.Header>
+      <Card.Body>
+        {/* Category */}
+        <h6 className="small text-uppercase text-muted">Category</h6>
+        <div className="mb-3">
+          <FacetCheckboxList
+            name="category"
+            options={facets.categories}
+            selected={selectedCategories}
+            formatLabel={formatFacetLabel}
+            maxSelected={MAX_SELECTED_CATEGORIES}
+            onToggle={(value) => onFiltersChange({ ...filters, category: undefined, categories: toggleValue(selectedCategories, value) })}
+          />
+        </div>
+
+        {/* Price */}
+        <h6 className="small text-uppercase text-muted">Price</h6>
+        <Form onSubmit={handleApplyPrice} className="mb-3">
+          <InputGroup size="sm">
+            <Form.Control
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder={facets.priceRange ? `$${Math.floor(facets.priceRange.min)}` : 'Min'}
+              value={minPriceInput}
+              onChange={(e) => setMinPriceInput(e.target.value)}
+              aria-label="Minimum price"
+            />
+            <InputGroup.Text>–</InputGroup.Text>
+            <Form.Control
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder={facets.priceRange ? `$${Math.ceil(facets.priceRange.max)}` : 'Max'}
+              value={maxPriceInput}
+              onChange={(e) => setMaxPriceInput(e.target.value)}
+              aria-label="Maximum price"
+            />
+            <Button type="submit" variant="outline-primary">Go</Button>
+          </InputGroup>
+        </Form>
+
+        {/* Availability */}
+        <h6 className="small text-uppercase text-muted">Availability</h6>
+        <Form.Check
+          type="switch"
+          id="facet-in-stock"
+          className="small mb-3"
+          checked={!!filters.inStock}
+          onChange={(e) => onFiltersChange({ ...filters, inStock: e.target.checked || undefined })}
+          label={`In stock only (${facets.inStockCount})`}
+        />
+
+        {/* Rating */}
+        <h6 className="small text-uppercase text-muted">Customer Rating</h6>
+        <div className="mb-3">
+          {facets.ratings.map(({ minRating, count }) => (
+            <Form.Check
+              key={minRating}
+              type="radio"
+              name="facet-rating"
+              id={`facet-rating-${minRating}`}
+              className="small"
+              checked={filters.minRating === minRating}
+              disabled={count === 0 && filters.minRating !== minRating}
+              onChange={() => onFiltersChange({ ...filters, minRating })}
+              label={`${'★'.repeat(minRating)}${'☆'.repeat(5 - minRating)} & up (${count})`}
+            />
+          ))}
+          {filters.minRating !== undefined && (
+            <Button
+              variant="link"
+              size="sm"
+              className="p-0"
+              onClick={() => onFiltersChange({ ...filters, minRating: undefined })}
+            >
+              Any rating
+            </Button>
+          )}
+        </div>
+
+        {/* Tags */}
+        {facets.tags.length > 0 && (
+          <>
+            <h6 className="small text-uppercase text-muted">Tags</h6>
+            <div style={{ maxHeight: '240px', overflowY: 'auto' }}>
+              <FacetCheckboxList
+                name="tag"
+                options={facets.tags}
+                selected={selectedTags}
+                formatLabel={value => `#${value}`}
+                onToggle={(value) => onFiltersChange({ ...filters, tags: toggleValue(selectedTags, value) })}
+              />
+            </div>
+          </>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default ProductFacetSidebar;
@@ -20,22 +20,24 @@ import {
   Dropdown
 } from 'react-bootstrap';
 import { useAuth } from '../hooks/useAuth';
+import { useInfiniteProducts } from '../hooks/useProductManagement';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
 import { 
-  getProducts, 
   createProduct, 
   updateProduct, 
   deleteProduct,
   migrateFakeStoreData,
   getProductStats 
 } from '../services/productService';
+import { formatVariantsInput, parseVariantsInput } from '../services/variantService';
+import { DEFAULT_LOW_STOCK_THRESHOLD, getLowStockThreshold, isLowStock } from '../services/inventoryService';
+import InventoryHistoryModal from './InventoryHistoryModal';
 import type { Product, ProductCreateData, ProductUpdateData, ProductFilters } from '../types/productType';
 
 const ProductManagement: React.FC = () => {
   const { isAuthenticated } = useAuth();
   
-  // State for products
-  const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
+  // Feedback state
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   
@@ -44,6 +46,7 @@ const ProductManagement: React.FC = () => {
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
   
   // Form states
   const [formData, setFormData] = useState<ProductCreateData>({
@@ -57,6 +60,14 @@ const ProductManagement: React.FC = () => {
     isActive: true
   });
   
+  // Variant editor text, one variant per line ("Size: Small, Medium, Large (+2.50)")
+  const [variantsInput, setVariantsInput] = useState('');
+
+  // Gallery editor text, one image URL per line
+  const [galleryInput, setGalleryInput] = useState('');
+  const parseGalleryInput = (input: string): string[] =>
+    input.split('\n').map(url => url.trim()).filter(Boolean);
+  
   // Filter and pagination states
   const [filters, setFilters] = useState<ProductFilters>({});
   const [searchTerm, setSearchTerm] = useState('');
@@ -67,6 +78,7 @@ const ProductManagement: React.FC = () => {
     activeProducts: number;
     totalValue: number;
     categoriesCount: number;
+    lowStockProducts: Product[];
   } | null>(null);
   
   // Loading states for specific actions
@@ -74,21 +86,31 @@ const ProductManagement: React.FC = () => {
   const [submitting, setSubmitting] = useState(false);
   const [deleting, setDeleting] = useState(false);
 
-  const loadProducts = React.useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const searchFilters = searchTerm ? { ...filters, searchTerm } : filters;
-      const result = await getProducts(searchFilters);
-      setProducts(result.products);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to load products';
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
+  // Products are fetched page by page with Firestore cursors
+  const searchFilters = searchTerm ? { ...filters, searchTerm } : filters;
+  const {
+    data: productPages,
+    isLoading: loading,
+    isError: isProductsError,
+    error: productsError,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteProducts(searchFilters, undefined, 20, isAuthenticated);
+
+  const products: Product[] = productPages?.pages.flatMap(page => page.products) ?? [];
+  const totalProducts = productPages?.pages[0]?.total ?? 0;
+
+  const loadProducts = () => {
+    refetch();
+  };
+
+  const loadMoreRef = useInfiniteScroll(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
     }
-  }, [filters, searchTerm]);
+  }, !!hasNextPage);
 
   const loadStats = async () => {
     try {
@@ -101,10 +123,9 @@ const ProductManagement: React.FC = () => {
 
   useEffect(() => {
     if (isAuthenticated) {
-      loadProducts();
       loadStats();
     }
-  }, [isAuthenticated, loadProducts]); // Include loadProducts dependency
+  }, [isAuthenticated]);
 
   const handleCreateProduct = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -129,7 +150,11 @@ const ProductManagement: React.FC = () => {
         throw new Error("Product price must be greater than 0");
       }
       
-      await createProduct(formData);
+      await createProduct({
+        ...formData,
+        variants: parseVariantsInput(variantsInput),
+        images: parseGalleryInput(galleryInput)
+      });
       setSuccess('Product created successfully!');
       setShowCreateModal(false);
       resetForm();
@@ -153,7 +178,13 @@ const ProductManagement: React.FC = () => {
       setSubmitting(true);
       setError(null);
       
-      const updateData: ProductUpdateData = { ...formData };
+      const updateData: ProductUpdateData = {
+        ...formData,
+        variants: parseVariantsInput(variantsInput),
+        images: parseGalleryInput(galleryInput),
+        // Only send the slug when it was edited, so a title change can still regenerate it
+        slug: formData.slug === selectedProduct.seo?.slug ? undefined : formData.slug
+      };
       await updateProduct(selectedProduct.id, updateData);
       setSuccess('Product updated successfully!');
       setShowEditModal(false);
@@ -217,6 +248,8 @@ const ProductManagement: React.FC = () => {
       trackInventory: true,
       isActive: true
     });
+    setVariantsInput('');
+    setGalleryInput('');
     setSelectedProduct(null);
   };
 
@@ -231,11 +264,20 @@ const ProductManagement: React.FC = () => {
       stock: product.inventory.stock,
       sku: product.inventory.sku,
       trackInventory: product.inventory.trackInventory,
+      maxPerOrder: product.inventory.maxPerOrder,
+      lowStockThreshold: product.inventory.lowStockThreshold,
+      weight: product.inventory.weight,
+      length: product.inventory.dimensions?.length,
+      width: product.inventory.dimensions?.width,
+      height: product.inventory.dimensions?.height,
       tags: product.tags,
       metaTitle: product.seo?.metaTitle,
       metaDescription: product.seo?.metaDescription,
+      slug: product.seo?.slug,
       isActive: product.isActive
     });
+    setVariantsInput(formatVariantsInput(product.variants));
+    setGalleryInput((product.images || []).join('\n'));
     setShowEditModal(true);
   };
 
@@ -244,6 +286,12 @@ const ProductManagement: React.FC = () => {
     setShowDeleteModal(true);
   };
 
+  // An empty threshold falls back to the default rather than zero
+  const handleLowStockThresholdChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { value } = e.target;
+    setFormData(prev => ({ ...prev, lowStockThreshold: value === '' ? undefined : Number(value) }));
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     const checked = type === 'checkbox' ? (e.target as HTMLInputElement).checked : undefined;
@@ -345,6 +393,30 @@ const ProductManagement: React.FC = () => {
         </Row>
       )}
 
+      {/* Low Stock Alert */}
+      {stats && stats.lowStockProducts.length > 0 && (
+        <Alert variant="warning" className="mb-4">
+          <Alert.Heading className="h6">
+            ⚠️ {stats.lowStockProducts.length} product{stats.lowStockProducts.length !== 1 ? 's are' : ' is'} running low on stock
+          </Alert.Heading>
+          <div className="d-flex flex-wrap gap-2">
+            {stats.lowStockProducts.map(product => (
+              <Button
+                key={product.id}
+                size="sm"
+                variant={product.inventory.stock <= 0 ? 'danger' : 'outline-dark'}
+                onClick={() => setHistoryProduct(product)}
+              >
+                {product.title.length > 30 ? `${product.title.substring(0, 30)}...` : product.title}
+                <Badge bg="light" text="dark" className="ms-2">
+                  {product.inventory.stock} / {getLowStockThreshold(product)}
+                </Badge>
+              </Button>
+            ))}
+          </div>
+        </Alert>
+      )}
+
       {/* Alerts */}
       {error && (
         <Alert variant="danger" dismissible onClose={() => setError(null)} className="mb-4">
@@ -415,7 +487,7 @@ const ProductManagement: React.FC = () => {
       {/* Products Table */}
       <Card>
         <Card.Header>
-          <h5 className="mb-0">Products ({products.length})</h5>
+          <h5 className="mb-0">Products ({products.length} of {totalProducts})</h5>
         </Card.Header>
         <Card.Body className="p-0">
           {loading ? (
@@ -423,6 +495,10 @@ const ProductManagement: React.FC = () => {
               <Spinner animation="border" />
               <p className="mt-3">Loading products...</p>
             </div>
+          ) : isProductsError ? (
+            <Alert variant="danger" className="m-3">
+              {productsError instanceof Error ? productsError.message : 'Failed to load products'}
+            </Alert>
           ) : products.length === 0 ? (
             <div className="text-center py-5">
               <p className="text-muted">No products found.</p>
@@ -473,7 +549,10 @@ const ProductManagement: React.FC = () => {
                     </td>
                     <td>
                       {product.inventory.trackInventory ? (
-                        <Badge bg={product.inventory.stock > 0 ? 'success' : 'danger'}>
+                        <Badge
+                          bg={product.inventory.stock <= 0 ? 'danger' : isLowStock(product) ? 'warning' : 'success'}
+                          title={isLowStock(product) ? `Low stock (alert at ${getLowStockThreshold(product)})` : undefined}
+                        >
                           {product.inventory.stock}
                         </Badge>
                       ) : (
@@ -500,6 +579,14 @@ const ProductManagement: React.FC = () => {
                         >
                           ✏️
                         </Button>
+                        <Button 
+                          size="sm" 
+                          variant="outline-secondary"
+                          onClick={() => setHistoryProduct(product)}
+                          title="Inventory history"
+                        >
+                          📋
+                        </Button>
                         <Button 
                           size="sm" 
                           variant="outline-danger"
@@ -514,6 +601,24 @@ const ProductManagement: React.FC = () => {
               </tbody>
             </Table>
           )}
+          {hasNextPage && (
+            <div ref={loadMoreRef} className="text-center py-3">
+              <Button
+                variant="outline-primary"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? (
+                  <>
+                    <Spinner size="sm" className="me-2" />
+                    Loading more...
+                  </>
+                ) : (
+                  'Load More Products'
+                )}
+              </Button>
+            </div>
+          )}
         </Card.Body>
       </Card>
 
@@ -592,7 +697,7 @@ const ProductManagement: React.FC = () => {
             </Row>
 
             <Row>
-              <Col md={6}>
+              <Col md={3}>
                 <Form.Group className="mb-3">
                   <Form.Label>Stock Quantity</Form.Label>
                   <Form.Control
@@ -604,7 +709,33 @@ const ProductManagement: React.FC = () => {
                   />
                 </Form.Group>
               </Col>
-              <Col md={6}>
+              <Col md={3}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Max per Order</Form.Label>
+                  <Form.Control
+                    type="number"
+                    min="0"
+                    name="maxPerOrder"
+                    value={formData.maxPerOrder || ''}
+                    onChange={handleInputChange}
+                    placeholder="No limit"
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={3}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Low-Stock Alert At</Form.Label>
+                  <Form.Control
+                    type="number"
+                    min="0"
+                    name="lowStockThreshold"
+                    value={formData.lowStockThreshold ?? ''}
+                    onChange={handleLowStockThresholdChange}
+                    placeholder={`${DEFAULT_LOW_STOCK_THRESHOLD} (default)`}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={3}>
                 <Form.Group className="mb-3">
                   <Form.Label>SKU (optional)</Form.Label>
                   <Form.Control
@@ -617,6 +748,106 @@ const ProductManagement: React.FC = () => {
               </Col>
             </Row>
 
+            <Row>
+              <Col md={3}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Weight (kg)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    name="weight"
+                    value={formData.weight || ''}
+                    onChange={handleInputChange}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={3}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Length (cm)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    min="0"
+                    name="length"
+                    value={formData.length || ''}
+                    onChange={handleInputChange}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={3}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Width (cm)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    min="0"
+                    name="width"
+                    value={formData.width || ''}
+                    onChange={handleInputChange}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={3}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Height (cm)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    min="0"
+                    name="height"
+                    value={formData.height || ''}
+                    onChange={handleInputChange}
+                  />
+                </Form.Group>
+              </Col>
+            </Row>
+
+            <Form.Group className="mb-3">
+              <Form.Label>Variants (optional)</Form.Label>
+              <Form.Control
+                as="textarea"
+                rows={2}
+                name="variants"
+                value={variantsInput}
+                onChange={(e) => setVariantsInput(e.target.value)}
+                placeholder={'Size: Small, Medium, Large (+2.50)\nColor: Red, Blue'}
+              />
+              <Form.Text className="text-muted">
+                One variant per line. Add a price modifier to an option with (+amount).
+              </Form.Text>
+            </Form.Group>
+
+            <Row>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>URL Slug (optional)</Form.Label>
+                  <Form.Control
+                    type="text"
+                    name="slug"
+                    value={formData.slug || ''}
+                    onChange={handleInputChange}
+                    placeholder="Generated from the title"
+                  />
+                  <Form.Text className="text-muted">
+                    Product page address: /products/your-slug
+                  </Form.Text>
+                </Form.Group>
+              </Col>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Gallery Images (optional)</Form.Label>
+                  <Form.Control
+                    as="textarea"
+                    rows={2}
+                    name="images"
+                    value={galleryInput}
+                    onChange={(e) => setGalleryInput(e.target.value)}
+                  />
+                  <Form.Text className="text-muted">
+                    One image URL per line, shown after the main image.
+                  </Form.Text>
+                </Form.Group>
+              </Col>
+            </Row>
+
             <Row>
               <Col md={6}>
                 <Form.Check
@@ -734,7 +965,7 @@ const ProductManagement: React.FC = () => {
             </Row>
 
             <Row>
-              <Col md={6}>
+              <Col md={3}>
                 <Form.Group className="mb-3">
                   <Form.Label>Stock Quantity</Form.Label>
                   <Form.Control
@@ -744,9 +975,38 @@ const ProductManagement: React.FC = () => {
                     onChange={handleInputChange}
                     required
                   />
+                  <Form.Text className="text-muted">
+                    Changes are recorded in the inventory history
+                  </Form.Text>
                 </Form.Group>
               </Col>
-              <Col md={6}>
+              <Col md={3}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Max per Order</Form.Label>
+                  <Form.Control
+                    type="number"
+                    min="0"
+                    name="maxPerOrder"
+                    value={formData.maxPerOrder || ''}
+                    onChange={handleInputChange}
+                    placeholder="No limit"
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={3}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Low-Stock Alert At</Form.Label>
+                  <Form.Control
+                    type="number"
+                    min="0"
+                    name="lowStockThreshold"
+                    value={formData.lowStockThreshold ?? ''}
+                    onChange={handleLowStockThresholdChange}
+                    placeholder={`${DEFAULT_LOW_STOCK_THRESHOLD} (default)`}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={3}>
                 <Form.Group className="mb-3">
                   <Form.Label>SKU (optional)</Form.Label>
                   <Form.Control
@@ -759,6 +1019,106 @@ const ProductManagement: React.FC = () => {
               </Col>
             </Row>
 
+            <Row>
+              <Col md={3}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Weight (kg)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    name="weight"
+                    value={formData.weight || ''}
+                    onChange={handleInputChange}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={3}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Length (cm)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    min="0"
+                    name="length"
+                    value={formData.length || ''}
+                    onChange={handleInputChange}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={3}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Width (cm)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    min="0"
+                    name="width"
+                    value={formData.width || ''}
+                    onChange={handleInputChange}
+                  />
+                </Form.Group>
+              </Col>
+              <Col md={3}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Height (cm)</Form.Label>
+                  <Form.Control
+                    type="number"
+                    min="0"
+                    name="height"
+                    value={formData.height || ''}
+                    onChange={handleInputChange}
+                  />
+                </Form.Group>
+              </Col>
+            </Row>
+
+            <Form.Group className="mb-3">
+              <Form.Label>Variants (optional)</Form.Label>
+              <Form.Control
+                as="textarea"
+                rows={2}
+                name="variants"
+                value={variantsInput}
+                onChange={(e) => setVariantsInput(e.target.value)}
+                placeholder={'Size: Small, Medium, Large (+2.50)\nColor: Red, Blue'}
+              />
+              <Form.Text className="text-muted">
+                One variant per line. Add a price modifier to an option with (+amount).
+              </Form.Text>
+            </Form.Group>
+
+            <Row>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>URL Slug (optional)</Form.Label>
+                  <Form.Control
+                    type="text"
+                    name="slug"
+                    value={formData.slug || ''}
+                    onChange={handleInputChange}
+                    placeholder="Generated from the title"
+                  />
+                  <Form.Text className="text-muted">
+                    Product page address: /products/your-slug
+                  </Form.Text>
+                </Form.Group>
+              </Col>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Gallery Images (optional)</Form.Label>
+                  <Form.Control
+                    as="textarea"
+                    rows={2}
+                    name="images"
+                    value={galleryInput}
+                    onChange={(e) => setGalleryInput(e.target.value)}
+                  />
+                  <Form.Text className="text-muted">
+                    One image URL per line, shown after the main image.
+                  </Form.Text>
+                </Form.Group>
+              </Col>
+            </Row>
+
             <Row>
               <Col md={6}>
                 <Form.Check
@@ -800,6 +1160,16 @@ const ProductManagement: React.FC = () => {
         </Form>
       </Modal>
 
+      {/* Inventory History Modal */}
+      <InventoryHistoryModal
+        product={historyProduct}
+        onHide={() => setHistoryProduct(null)}
+        onStockChanged={() => {
+          loadProducts();
+          loadStats();
+        }}
+      />
+
       {/* Delete Confirmation Modal */}
       <Modal show={showDeleteModal} onHide={() => setShowDeleteModal(false)}>
         <Modal.Header closeButton>
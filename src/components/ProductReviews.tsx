@@ -0,0 +1,167 @@
+/**
+ * ProductReviews Component
+ * Approved reviews for a product plus the signed-in user's review form
+ */
+import React, { useState } from 'react';
+import { Card, Button, Form, Alert, Badge, Spinner, ListGroup } from 'react-bootstrap';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { useMyReview, useProductReviews, useSubmitReview } from '../hooks/useReviews';
+import { REVIEW_BODY_MAX_LENGTH, REVIEW_TITLE_MAX_LENGTH } from '../services/reviewService';
+import type { Review, ReviewFormData } from '../types/reviewType';
+
+interface ProductReviewsProps {
+  productId: string;
+}
+
+const emptyForm: ReviewFormData = { rating: 5, title: '', body: '' };
+
+const formatStars = (rating: number): string => '★'.repeat(rating) + '☆'.repeat(5 - rating);
+
+// Form for creating or editing a review; remounted when the saved review changes
+const ReviewForm: React.FC<{ productId: string; myReview: Review | null }> = ({ productId, myReview }) => {
+  const submitReviewMutation = useSubmitReview(productId);
+  const [formData, setFormData] = useState<ReviewFormData>(
+    myReview ? { rating: myReview.rating, title: myReview.title, body: myReview.body } : emptyForm
+  );
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: name === 'rating' ? parseInt(value, 10) : value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await submitReviewMutation.mutateAsync(formData);
+    } catch {
+      // Error is shown from the mutation state
+    }
+  };
+
+  return (
+    <Form onSubmit={handleSubmit}>
+      {submitReviewMutation.isError && (
+        <Alert variant="danger">
+          {submitReviewMutation.error instanceof Error ? submitReviewMutation.error.message : 'Failed to submit review'}
+        </Alert>
+      )}
+
+      <Form.Group className="mb-3" controlId={`${productId}-review-rating`}>
+        <Form.Label>Rating</Form.Label>
+        <Form.Select name="rating" value={formData.rating} onChange={handleChange}>
+          {[5, 4, 3, 2, 1].map(stars => (
+            <option key={stars} value={stars}>{formatStars(stars)} ({stars})</option>
+          ))}
+        </Form.Select>
+      </Form.Group>
+
+      <Form.Group className="mb-3" controlId={`${productId}-review-title`}>
+        <Form.Label>Title</Form.Label>
+        <Form.Control
+          type="text"
+          name="title"
+          value={formData.title}
+          onChange={handleChange}
+          maxLength={REVIEW_TITLE_MAX_LENGTH}
+          required
+        />
+      </Form.Group>
+
+      <Form.Group className="mb-3" controlId={`${productId}-review-body`}>
+        <Form.Label>Review</Form.Label>
+        <Form.Control
+          as="textarea"
+          rows={4}
+          name="body"
+          value={formData.body}
+          onChange={handleChange}
+          maxLength={REVIEW_BODY_MAX_LENGTH}
+          required
+        />
+      </Form.Group>
+
+      <Button type="submit" variant="primary" disabled={submitReviewMutation.isPending}>
+        {submitReviewMutation.isPending ? (
+          <>
+            <Spinner size="sm" animation="border" className="me-2" />
+            Submitting...
+          </>
+        ) : myReview ? 'Update Review' : 'Submit Review'}
+      </Button>
+    </Form>
+  );
+};
+
+const ProductReviews: React.FC<ProductReviewsProps> = ({ productId }) => {
+  const { isAuthenticated } = useAuth();
+  const { data: reviews, isLoading, isError } = useProductReviews(productId);
+  const { data: myReview, isLoading: isLoadingMyReview } = useMyReview(productId);
+
+  return (
+    <Card className="shadow-sm">
+      <Card.Header>
+        <h5 className="mb-0">⭐ Customer Reviews</h5>
+      </Card.Header>
+      <Card.Body>
+        {isLoading ? (
+          <div className="text-center py-3">
+            <Spinner animation="border" size="sm" />
+          </div>
+        ) : isError ? (
+          <Alert variant="danger">Failed to load reviews</Alert>
+        ) : !reviews || reviews.length === 0 ? (
+          <p className="text-muted">No reviews yet.</p>
+        ) : (
+          <ListGroup variant="flush" className="mb-3">
+            {reviews.map(review => (
+              <ListGroup.Item key={review.id} className="px-0">
+                <div className="d-flex justify-content-between align-items-start">
+                  <div>
+                    <span className="text-warning me-2">{formatStars(review.rating)}</span>
+                    <strong>{review.title}</strong>
+                  </div>
+                  <small className="text-muted">{review.createdAt.toLocaleDateString()}</small>
+                </div>
+                <small className="text-muted">
+                  {review.authorName}
+                  {review.verifiedPurchase && <Badge bg="success" className="ms-2">Verified Purchase</Badge>}
+                </small>
+                <p className="mb-0 mt-2" style={{ whiteSpace: 'pre-line' }}>{review.body}</p>
+              </ListGroup.Item>
+            ))}
+          </ListGroup>
+        )}
+
+        <hr />
+
+        {!isAuthenticated ? (
+          <p className="mb-0">
+            <Link to="/login">Log in</Link> to write a review.
+          </p>
+        ) : isLoadingMyReview ? (
+          <Spinner animation="border" size="sm" />
+        ) : (
+          <>
+            <h6>{myReview ? 'Your Review' : 'Write a Review'}</h6>
+            {myReview?.status === 'pending' && (
+              <Alert variant="info">Thanks! Your review will appear once it has been approved.</Alert>
+            )}
+            {myReview?.status === 'rejected' && (
+              <Alert variant="warning">
+                Your review was not approved{myReview.moderationNote ? `: ${myReview.moderationNote}.` : '.'} You can edit and resubmit it.
+              </Alert>
+            )}
+            <ReviewForm
+              key={myReview ? myReview.updatedAt.getTime() : 'new'}
+              productId={productId}
+              myReview={myReview ?? null}
+            />
+          </>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default ProductReviews;
@@ -0,0 +1,120 @@
+/**
+ * ProductSearchBox Component
+ * NavBar search input with instant, ranked results from the catalog index
+ */
+import React, { useState } from 'react';
+import { Form, ListGroup, Spinner } from 'react-bootstrap';
+import { useNavigate } from 'react-router-dom';
+import { useProductSearch } from '../hooks/useProductSearch';
+import { getProductPath } from '../services/productService';
+import type { Product } from '../types/productType';
+
+const ProductSearchBox: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const { results, isIndexing } = useProductSearch(searchTerm);
+
+  const showResults = isOpen && searchTerm.trim().length > 0;
+
+  // Handle choosing a result
+  const handleSelect = (product: Product) => {
+    setSearchTerm('');
+    setIsOpen(false);
+    setActiveIndex(-1);
+    navigate(getProductPath(product));
+  };
+
+  // Handle typing
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSearchTerm(e.target.value);
+    setIsOpen(true);
+    setActiveIndex(-1);
+  };
+
+  // Handle arrow keys, Enter and Escape
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && results.length > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(prev => (prev + 1) % results.length);
+    } else if (e.key === 'ArrowUp' && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prev => (prev <= 0 ? results.length - 1 : prev - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const result = results[activeIndex] ?? results[0];
+      if (result) handleSelect(result.product);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  return (
+    <div className="position-relative me-lg-3 my-2 my-lg-0" style={{ minWidth: '280px' }}>
+      <Form.Control
+        type="search"
+        size="sm"
+        placeholder="🔍 Search products..."
+        value={searchTerm}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        aria-label="Search products"
+        aria-autocomplete="list"
+        aria-expanded={showResults}
+        aria-controls="product-search-results"
+      />
+
+      {showResults && (
+        <ListGroup
+          id="product-search-results"
+          role="listbox"
+          className="position-absolute w-100 shadow mt-1"
+          style={{ zIndex: 1050, maxHeight: '400px', overflowY: 'auto' }}
+        >
+          {isIndexing && results.length === 0 ? (
+            <ListGroup.Item className="text-muted small">
+              <Spinner animation="border" size="sm" className="me-2" />
+              Loading catalog...
+            </ListGroup.Item>
+          ) : results.length === 0 ? (
+            <ListGroup.Item className="text-muted small">No products match "{searchTerm.trim()}"</ListGroup.Item>
+          ) : (
+            results.map(({ product }, index) => (
+              <ListGroup.Item
+                key={product.id}
+                action
+                role="option"
+                aria-selected={index === activeIndex}
+                active={index === activeIndex}
+                // Select before the input's blur closes the list
+                onMouseDown={(e: React.MouseEvent) => {
+                  e.preventDefault();
+                  handleSelect(product);
+                }}
+                className="d-flex align-items-center gap-2"
+              >
+                <img
+                  src={product.image}
+                  alt=""
+                  style={{ width: '36px', height: '36px', objectFit: 'contain' }}
+                />
+                <div className="flex-grow-1 text-truncate">
+                  <div className="text-truncate small fw-semibold">{product.title}</div>
+                  <small className={index === activeIndex ? '' : 'text-muted'}>{product.category}</small>
+                </div>
+                <small className="fw-bold">${product.price.toFixed(2)}</small>
+              </ListGroup.Item>
+            ))
+          )}
+        </ListGroup>
+      )}
+    </div>
+  );
+};
+
+export default ProductSearchBox;
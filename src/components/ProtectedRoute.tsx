@@ -0,0 +1,55 @@
+/**
+ * Protected Route Component
+ * Wraps a route element and redirects users who are signed out or lack the required role
+ */
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Container, Spinner } from 'react-bootstrap';
+import { useAuth } from '../hooks/useAuth';
+import { hasRole } from '../services/accessControlService';
+import type { RouteRedirectState, UserRole } from '../types/authTypes';
+
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+  allowedRoles?: UserRole[]; // Omit to only require a signed-in user
+  redirectTo?: string; // Where to send signed-in users without the required role
+}
+
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
+  children,
+  allowedRoles,
+  redirectTo = '/'
+}) => {
+  const { user, isAuthenticated, loading } = useAuth();
+  const location = useLocation();
+
+  // Wait for the auth state before deciding, so a refresh doesn't bounce the user
+  if (loading) {
+    return (
+      <Container className="text-center py-5">
+        <Spinner animation="border" role="status" variant="primary" />
+        <p className="mt-3">Checking access...</p>
+      </Container>
+    );
+  }
+
+  if (!isAuthenticated || !user) {
+    const state: RouteRedirectState = {
+      from: location.pathname,
+      reason: 'Please sign in to access this page.'
+    };
+    return <Navigate to="/login" replace state={state} />;
+  }
+
+  if (allowedRoles && !hasRole(user.role, allowedRoles)) {
+    const state: RouteRedirectState = {
+      from: location.pathname,
+      reason: `Your account (${user.role}) does not have access to ${location.pathname}. Required role: ${allowedRoles.join(' or ')}.`
+    };
+    return <Navigate to={redirectTo} replace state={state} />;
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
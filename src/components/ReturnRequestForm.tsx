@@ -0,0 +1,125 @@
+/**
+ * Return Request Form Component
+ * Lets a customer choose units of a shipped or delivered order to send back,
+ * with a reason and an estimate of the refund
+ */
+import React, { useState } from 'react';
+import { Form, Button, Table, Alert, Spinner } from 'react-bootstrap';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { calculateReturnRefund, getReturnableQuantity, requestReturn } from '../services/returnService';
+import type { Order } from '../types/orderType';
+import type { ReturnRequest } from '../types/returnType';
+
+// Props interface for the ReturnRequestForm component
+interface ReturnRequestFormProps {
+  order: Order;
+  onSubmitted: (request: ReturnRequest) => void;
+  onCancel: () => void;
+}
+
+const ReturnRequestForm: React.FC<ReturnRequestFormProps> = ({ order, onSubmitted, onCancel }) => {
+  const queryClient = useQueryClient();
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+
+  const items = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([itemId, quantity]) => ({ itemId, quantity }));
+  const estimatedRefund = calculateReturnRefund(order, items);
+
+  const returnMutation = useMutation({
+    mutationFn: () => requestReturn(order.id, { items, reason }),
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({ queryKey: ['userOrders'] });
+      onSubmitted(request);
+    },
+  });
+
+  // Handle form submission
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    returnMutation.mutate();
+  };
+
+  return (
+    <Form onSubmit={handleSubmit} className="border rounded p-3 mb-3">
+      <h6>Request a Return</h6>
+      {returnMutation.isError && (
+        <Alert variant="danger">
+          {returnMutation.error instanceof Error ? returnMutation.error.message : 'Failed to request return'}
+        </Alert>
+      )}
+
+      <Table size="sm" className="mb-3">
+        <thead>
+          <tr>
+            <th>Item</th>
+            <th className="text-end">Quantity to Return</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.items.map(item => {
+            const returnable = getReturnableQuantity(order, item.id);
+            return (
+              <tr key={item.id}>
+                <td>
+                  {item.product.title}
+                  {returnable === 0 && <div className="text-muted small">Nothing left to return</div>}
+                </td>
+                <td className="text-end" style={{ width: '140px' }}>
+                  <Form.Control
+                    size="sm"
+                    type="number"
+                    min={0}
+                    max={returnable}
+                    step={1}
+                    value={quantities[item.id] || 0}
+                    disabled={returnable === 0}
+                    onChange={(e) => setQuantities(prev => ({
+                      ...prev,
+                      [item.id]: Math.min(Math.max(Math.floor(Number(e.target.value) || 0), 0), returnable)
+                    }))}
+                  />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </Table>
+
+      <Form.Group className="mb-3">
+        <Form.Label>Reason for return</Form.Label>
+        <Form.Control
+          as="textarea"
+          rows={2}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="e.g. Wrong size, arrived damaged"
+          required
+        />
+      </Form.Group>
+
+      <div className="d-flex justify-content-between align-items-center">
+        <span className="small">
+          Estimated refund: <strong>${estimatedRefund.toFixed(2)}</strong>
+          <span className="text-muted"> (including tax and discounts, excluding shipping)</span>
+        </span>
+        <div className="d-flex gap-2">
+          <Button variant="outline-secondary" size="sm" onClick={onCancel} disabled={returnMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="primary"
+            size="sm"
+            disabled={items.length === 0 || !reason.trim() || returnMutation.isPending}
+          >
+            {returnMutation.isPending ? <Spinner size="sm" animation="border" /> : 'Submit Return'}
+          </Button>
+        </div>
+      </div>
+    </Form>
+  );
+};
+
+export default ReturnRequestForm;
@@ -0,0 +1,112 @@
+/**
+ * Review Moderation Component
+ * Admin queue of pending customer reviews to approve or reject
+ */
+import React, { useState } from 'react';
+import { Container, Row, Col, Card, Button, Form, Alert, Spinner, Badge } from 'react-bootstrap';
+import { Link } from 'react-router-dom';
+import { useModerateReview, usePendingReviews } from '../hooks/useReviews';
+import type { Review, ReviewModerationDecision } from '../types/reviewType';
+
+const ReviewModeration: React.FC = () => {
+  const { data: reviews, isLoading, isError, error } = usePendingReviews();
+  const moderateReviewMutation = useModerateReview();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Reviews are keyed by product and author, since the author's ID is the review ID
+  const getReviewKey = (review: Review) => `${review.productId}/${review.id}`;
+
+  // Handle approving or rejecting a review
+  const handleModerate = async (review: Review, decision: ReviewModerationDecision) => {
+    try {
+      setActionError(null);
+      await moderateReviewMutation.mutateAsync({
+        productId: review.productId,
+        reviewId: review.id,
+        decision,
+        note: notes[getReviewKey(review)]
+      });
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to moderate review');
+    }
+  };
+
+  return (
+    <Container className="mt-4">
+      <Row className="mb-4">
+        <Col>
+          <h1>⭐ Review Moderation</h1>
+          <p className="text-muted">Approved reviews are published and counted in the product rating</p>
+        </Col>
+      </Row>
+
+      {actionError && (
+        <Alert variant="danger" dismissible onClose={() => setActionError(null)}>
+          {actionError}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-5">
+          <Spinner animation="border" role="status" variant="primary" />
+          <p className="mt-3">Loading pending reviews...</p>
+        </div>
+      ) : isError ? (
+        <Alert variant="danger">
+          <Alert.Heading>❌ Error Loading Reviews</Alert.Heading>
+          <p>{error instanceof Error ? error.message : 'Failed to load pending reviews'}</p>
+        </Alert>
+      ) : !reviews || reviews.length === 0 ? (
+        <Alert variant="info" className="text-center">No reviews are waiting for moderation.</Alert>
+      ) : (
+        reviews.map(review => (
+          <Card key={getReviewKey(review)} className="mb-3 shadow-sm">
+            <Card.Body>
+              <div className="d-flex justify-content-between align-items-start mb-2">
+                <div>
+                  <span className="text-warning me-2">{'★'.repeat(review.rating)}{'☆'.repeat(5 - review.rating)}</span>
+                  <strong>{review.title}</strong>
+                </div>
+                <small className="text-muted">{review.updatedAt.toLocaleString()}</small>
+              </div>
+              <small className="text-muted d-block mb-2">
+                {review.authorName} on <Link to={`/products/${review.productId}`}>product {review.productId}</Link>
+                {review.verifiedPurchase && <Badge bg="success" className="ms-2">Verified Purchase</Badge>}
+              </small>
+              <p style={{ whiteSpace: 'pre-line' }}>{review.body}</p>
+
+              <Form.Control
+                size="sm"
+                className="mb-2"
+                placeholder="Note to the author (optional, shown when rejected)"
+                value={notes[getReviewKey(review)] || ''}
+                onChange={(e) => setNotes(prev => ({ ...prev, [getReviewKey(review)]: e.target.value }))}
+              />
+              <div className="d-flex gap-2">
+                <Button
+                  variant="success"
+                  size="sm"
+                  onClick={() => handleModerate(review, 'approved')}
+                  disabled={moderateReviewMutation.isPending}
+                >
+                  Approve
+                </Button>
+                <Button
+                  variant="outline-danger"
+                  size="sm"
+                  onClick={() => handleModerate(review, 'rejected')}
+                  disabled={moderateReviewMutation.isPending}
+                >
+                  Reject
+                </Button>
+              </div>
+            </Card.Body>
+          </Card>
+        ))
+      )}
+    </Container>
+  );
+};
+
+export default ReviewModeration;
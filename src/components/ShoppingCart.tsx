@@ -13,29 +13,72 @@ import {
 } from 'react-bootstrap';
 import { useAppSelector, useAppDispatch } from '../hooks/reduxHooks';
 import { useAuth } from '../hooks/useAuth';
-import { createOrder } from '../services/orderService';
+import { useCartRevalidation } from '../hooks/useCartRevalidation';
+import { useAddToWishlist } from '../hooks/useWishlist';
+import { cancelOrder, createOrder, payOrder } from '../services/orderService';
+import { getPaymentProvider, MOCK_TEST_CARDS, validatePaymentSource } from '../services/paymentService';
+import { normalizePromotionCode, previewCoupon } from '../services/promotionService';
+import { formatDeliveryWindow, getShippingQuotes } from '../services/shippingService';
+import { calculateTax } from '../services/taxService';
 import type { CreateOrderData, ShippingAddress } from '../types/orderType';
+import type { AppliedPromotion } from '../types/promotionType';
+import type { ShippingMethodId } from '../types/shippingType';
+import type { PaymentSource } from '../types/paymentType';
+import type { CartItem } from '../types/cartTypes';
+import { formatVariantSelection, getEffectiveUnitPrice } from '../services/variantService';
 import { 
   closeCart, 
   removeFromCart, 
   incrementQuantity, 
   decrementQuantity, 
   updateCartItemQuantity,
-  clearCart 
+  clearCart,
+  dismissLimitNotice,
+  getLineQuantityLimit,
+  getQuantityLimitReason
 } from '../store/cartSlice';
 
 const ShoppingCart: React.FC = () => {
   const dispatch = useAppDispatch();
-  const { items, totalItems, totalPrice, isOpen } = useAppSelector((state) => state.cart);
+  const { items, totalItems, totalPrice, isOpen, limitNotice } = useAppSelector((state) => state.cart);
   const { isAuthenticated, user } = useAuth();
   
   // State for checkout process
   const [isCheckingOut, setIsCheckingOut] = useState(false);
   const [checkoutSuccess, setCheckoutSuccess] = useState(false);
   const [checkoutError, setCheckoutError] = useState<string | null>(null);
-  const [showShippingForm, setShowShippingForm] = useState(false);
+  const [checkoutStep, setCheckoutStep] = useState<'cart' | 'address' | 'delivery' | 'payment'>('cart');
+  const [shippingMethodId, setShippingMethodId] = useState<ShippingMethodId>('standard');
   const [orderNumber, setOrderNumber] = useState<string>('');
   
+  // State for coupon codes (previewed here, re-validated when the order is placed)
+  const [couponCode, setCouponCode] = useState('');
+  const [appliedCoupons, setAppliedCoupons] = useState<AppliedPromotion[]>([]);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+
+  // State for card details (sent to the payment provider, never stored)
+  const [cardDetails, setCardDetails] = useState({
+    cardholderName: user?.displayName || '',
+    cardNumber: '',
+    expiry: '', // MM/YY
+    cvc: ''
+  });
+
+  // Live product checks: price changes, removed products and stock shortfalls
+  const {
+    issues: cartIssues,
+    isRevalidating,
+    error: revalidationError,
+    revalidate,
+    acceptUpdates
+  } = useCartRevalidation(isOpen);
+
+  // Save for later moves a line from the cart to the wishlist
+  const addToWishlistMutation = useAddToWishlist();
+  const [savingItemId, setSavingItemId] = useState<string | null>(null);
+  const [saveForLaterError, setSaveForLaterError] = useState<string | null>(null);
+
   // State for image errors (track by product ID)
   const [imageErrors, setImageErrors] = useState<Record<string, boolean>>({});
 
@@ -61,7 +104,7 @@ const ShoppingCart: React.FC = () => {
     dispatch(closeCart());
     setCheckoutSuccess(false); // Reset success message when closing
     setCheckoutError(null);
-    setShowShippingForm(false);
+    setCheckoutStep('cart');
   };
 
   // Handle shipping address changes
@@ -73,6 +116,70 @@ const ShoppingCart: React.FC = () => {
     }));
   };
 
+  // Shipping options for the current cart and destination; the order service re-quotes the chosen one
+  const shippingQuotes = getShippingQuotes(items, shippingAddress, totalPrice);
+  const selectedQuote = shippingQuotes.find(quote => quote.methodId === shippingMethodId) || shippingQuotes[0];
+
+  // Estimated totals; the order service recalculates everything when the order is placed
+  const couponDiscount = appliedCoupons
+    .filter(coupon => coupon.type !== 'free_shipping')
+    .reduce((sum, coupon) => sum + coupon.discount, 0);
+  const shippingDiscount = appliedCoupons
+    .filter(coupon => coupon.type === 'free_shipping')
+    .reduce((sum, coupon) => sum + coupon.discount, 0);
+  const shippingCost = Math.max((selectedQuote?.cost || 0) - shippingDiscount, 0);
+  const estimatedTax = calculateTax(
+    items.map(item => ({
+      id: item.id,
+      product: item.product,
+      amount: getEffectiveUnitPrice(item.product, item.selectedOptions) * item.quantity
+    })),
+    shippingAddress,
+    couponDiscount
+  );
+  const estimatedTotal = Math.max(totalPrice - couponDiscount, 0) + shippingCost +
+    (estimatedTax.pricesIncludeTax ? 0 : estimatedTax.tax);
+
+  // Handle applying a coupon code
+  const handleApplyCoupon = async () => {
+    const code = normalizePromotionCode(couponCode);
+    if (!code) {
+      return;
+    }
+
+    if (appliedCoupons.some(coupon => coupon.code === code)) {
+      setCouponError(`Coupon code ${code} is already applied`);
+      return;
+    }
+
+    try {
+      setIsApplyingCoupon(true);
+      setCouponError(null);
+
+      const lines = items.map(item => ({
+        product: item.product,
+        quantity: item.quantity,
+        unitPrice: getEffectiveUnitPrice(item.product, item.selectedOptions)
+      }));
+      const coupon = await previewCoupon(code, lines, {
+        subtotal: totalPrice,
+        shipping: selectedQuote?.cost || 0
+      });
+
+      setAppliedCoupons(prev => [...prev, coupon]);
+      setCouponCode('');
+    } catch (error) {
+      setCouponError(error instanceof Error ? error.message : 'Failed to apply coupon');
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
+  // Handle removing an applied coupon code
+  const handleRemoveCoupon = (code: string) => {
+    setAppliedCoupons(prev => prev.filter(coupon => coupon.code !== code));
+  };
+
   // Handle initial checkout (show shipping form)
   const handleCheckout = () => {
     if (!isAuthenticated) {
@@ -84,8 +191,50 @@ const ShoppingCart: React.FC = () => {
       setCheckoutError('Your cart is empty');
       return;
     }
+
+    if (cartIssues.length > 0) {
+      setCheckoutError('Some items in your cart have changed. Please review the updates first.');
+      return;
+    }
     
-    setShowShippingForm(true);
+    setCheckoutStep('address');
+  };
+
+  // Handle continuing from the address to the shipping method step
+  const handleContinueToDelivery = () => {
+    if (!shippingAddress.fullName || !shippingAddress.addressLine1 || 
+        !shippingAddress.city || !shippingAddress.state || !shippingAddress.zipCode ||
+        !shippingAddress.country) {
+      setCheckoutError('Please fill in all required shipping address fields');
+      return;
+    }
+
+    // Fall back to the cheapest method when the current one does not serve the new address
+    if (selectedQuote && selectedQuote.methodId !== shippingMethodId) {
+      setShippingMethodId(selectedQuote.methodId);
+    }
+    setCheckoutStep('delivery');
+  };
+
+  // Handle card detail changes
+  const handleCardDetailsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setCardDetails(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  // Card details in the shape the payment provider expects
+  const getPaymentSource = (): PaymentSource => {
+    const [month, year] = cardDetails.expiry.split('/').map(part => parseInt(part.trim(), 10));
+    return {
+      cardholderName: cardDetails.cardholderName,
+      cardNumber: cardDetails.cardNumber,
+      expiryMonth: month,
+      expiryYear: year < 100 ? 2000 + year : year,
+      cvc: cardDetails.cvc.trim()
+    };
   };
 
   // Handle final order placement
@@ -105,14 +254,35 @@ const ShoppingCart: React.FC = () => {
         throw new Error('Please fill in all required shipping address fields');
       }
 
+      if (!selectedQuote) {
+        throw new Error('No shipping method is available for this address');
+      }
+
+      // Catch typos before an order is created
+      const paymentSource = getPaymentSource();
+      const cardError = validatePaymentSource(paymentSource);
+      if (cardError) {
+        throw new Error(cardError);
+      }
+
+      // Re-check prices and stock so the shopper sees changes before the order is created
+      const revalidation = await revalidate();
+      if (revalidation.issues.length > 0) {
+        setCheckoutStep('cart');
+        throw new Error('Some items in your cart have changed since you added them. Please review the updates and try again.');
+      }
+
       // Create order data from cart items
       const orderData: CreateOrderData = {
         items: items.map(item => ({
           productId: item.product.id,
-          quantity: item.quantity
+          quantity: item.quantity,
+          selectedOptions: item.selectedOptions
         })),
         shippingAddress,
-        paymentMethod: 'Credit Card' // Simplified for now
+        shippingMethodId: selectedQuote.methodId,
+        paymentMethod: 'Credit Card',
+        couponCodes: appliedCoupons.map(coupon => coupon.code)
       };
 
       console.log('Creating order with data:', orderData);
@@ -121,12 +291,24 @@ const ShoppingCart: React.FC = () => {
       const order = await createOrder(orderData);
       
       console.log('Order created successfully:', order);
+
+      // Charge the card; release the reserved stock if the payment does not go through
+      try {
+        await payOrder(order.id, paymentSource);
+      } catch (paymentError) {
+        await cancelOrder(order.id).catch(cancelError =>
+          console.error('Error cancelling unpaid order:', cancelError)
+        );
+        throw paymentError;
+      }
       
       // Clear the cart and show success
       dispatch(clearCart());
+      setAppliedCoupons([]);
+      setCardDetails(prev => ({ ...prev, cardNumber: '', expiry: '', cvc: '' }));
       setOrderNumber(order.orderNumber);
       setCheckoutSuccess(true);
-      setShowShippingForm(false);
+      setCheckoutStep('cart');
       
       // Close success message automatically after 5 seconds
       setTimeout(() => {
@@ -157,6 +339,30 @@ const ShoppingCart: React.FC = () => {
     dispatch(decrementQuantity(productId));
   };
 
+  // Handle save for later: the line only leaves the cart once it is in the wishlist
+  const handleSaveForLater = async (item: CartItem) => {
+    try {
+      setSavingItemId(item.id);
+      setSaveForLaterError(null);
+      await addToWishlistMutation.mutateAsync({ product: item.product, selectedOptions: item.selectedOptions });
+      dispatch(removeFromCart(item.id));
+    } catch (error) {
+      setSaveForLaterError(error instanceof Error ? error.message : 'Failed to save item');
+    } finally {
+      setSavingItemId(null);
+    }
+  };
+
+  // Stock or per-order limit hint for a line, e.g. "Only 3 left"
+  const getLimitHint = (item: CartItem, maxQuantity: number): string | null => {
+    const reason = getQuantityLimitReason(item.product);
+    const isLowStock = reason === 'stock' && item.product.inventory.trackInventory && maxQuantity <= 5;
+    if (limitNotice?.itemId !== item.id && item.quantity < maxQuantity && !isLowStock) {
+      return null;
+    }
+    return reason === 'max_per_order' ? `Limit ${maxQuantity} per order` : `Only ${maxQuantity} left`;
+  };
+
   // Handle manual quantity change
   const handleQuantityChange = (productId: string, newQuantity: string) => {
     const quantity = parseInt(newQuantity);
@@ -204,7 +410,7 @@ const ShoppingCart: React.FC = () => {
               Try Again
             </Button>
           </Alert>
-        ) : showShippingForm ? (
+        ) : checkoutStep === 'address' ? (
           // Shipping Address Form
           <div>
             <h5 className="mb-3">Shipping Address</h5>
@@ -287,34 +493,255 @@ const ShoppingCart: React.FC = () => {
                 </Col>
                 <Col xs={6}>
                   <Form.Group className="mb-3">
-                    <Form.Label>Phone</Form.Label>
+                    <Form.Label>Country *</Form.Label>
                     <Form.Control
-                      type="tel"
-                      name="phone"
-                      value={shippingAddress.phone}
+                      type="text"
+                      name="country"
+                      value={shippingAddress.country}
                       onChange={handleShippingAddressChange}
+                      placeholder="US"
+                      maxLength={2}
+                      required
                     />
                   </Form.Group>
                 </Col>
               </Row>
+
+              <Form.Group className="mb-3">
+                <Form.Label>Phone</Form.Label>
+                <Form.Control
+                  type="tel"
+                  name="phone"
+                  value={shippingAddress.phone}
+                  onChange={handleShippingAddressChange}
+                />
+              </Form.Group>
             </Form>
-            
+
+            {/* Action Buttons */}
+            <div className="d-grid gap-2 mt-3">
+              <Button 
+                variant="primary" 
+                onClick={handleContinueToDelivery}
+              >
+                Continue to Shipping Method
+              </Button>
+              
+              <Button 
+                variant="outline-secondary"
+                onClick={() => setCheckoutStep('cart')}
+              >
+                Back to Cart
+              </Button>
+            </div>
+          </div>
+        ) : checkoutStep === 'delivery' ? (
+          // Shipping Method, Coupons and Order Summary
+          <div>
+            <h5 className="mb-3">Shipping Method</h5>
+            {shippingQuotes.length === 0 ? (
+              <Alert variant="warning">No shipping method is available for this address.</Alert>
+            ) : (
+              <Form>
+                {shippingQuotes.map(quote => (
+                  <Card
+                    key={quote.methodId}
+                    className={`mb-2 ${selectedQuote?.methodId === quote.methodId ? 'border-primary' : ''}`}
+                  >
+                    <Card.Body className="py-2">
+                      <Form.Check
+                        type="radio"
+                        id={`shipping-${quote.methodId}`}
+                        name="shippingMethod"
+                        checked={selectedQuote?.methodId === quote.methodId}
+                        onChange={() => setShippingMethodId(quote.methodId)}
+                        disabled={isCheckingOut}
+                        label={
+                          <div className="d-flex justify-content-between w-100">
+                            <span>
+                              <strong>{quote.label}</strong>
+                              <br />
+                              <small className="text-muted">{formatDeliveryWindow(quote)}</small>
+                            </span>
+                            <strong className="ms-3">
+                              {quote.cost === 0 ? 'Free' : `$${quote.cost.toFixed(2)}`}
+                            </strong>
+                          </div>
+                        }
+                      />
+                    </Card.Body>
+                  </Card>
+                ))}
+              </Form>
+            )}
+
+            {/* Coupon Codes */}
+            <div className="border-top pt-3 mt-3">
+              <Form.Label htmlFor="couponCode">Coupon Code</Form.Label>
+              <InputGroup size="sm">
+                <Form.Control
+                  id="couponCode"
+                  type="text"
+                  value={couponCode}
+                  onChange={(e) => setCouponCode(e.target.value)}
+                  placeholder="Enter code"
+                  disabled={isApplyingCoupon || isCheckingOut}
+                />
+                <Button
+                  variant="outline-primary"
+                  onClick={handleApplyCoupon}
+                  disabled={!couponCode.trim() || isApplyingCoupon || isCheckingOut}
+                >
+                  {isApplyingCoupon ? 'Applying...' : 'Apply'}
+                </Button>
+              </InputGroup>
+              {couponError && (
+                <Form.Text className="text-danger">{couponError}</Form.Text>
+              )}
+              {appliedCoupons.map(coupon => (
+                <div key={coupon.code} className="d-flex justify-content-between align-items-center mt-2 small">
+                  <span>
+                    <Badge bg="success" className="me-2">{coupon.code}</Badge>
+                    {coupon.type === 'free_shipping' ? 'Free shipping' : `-$${coupon.discount.toFixed(2)}`}
+                  </span>
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="text-danger p-0"
+                    onClick={() => handleRemoveCoupon(coupon.code)}
+                    disabled={isCheckingOut}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+
             {/* Order Summary */}
             <div className="border-top pt-3 mt-3">
+              <Row>
+                <Col>Subtotal:</Col>
+                <Col className="text-end">${totalPrice.toFixed(2)}</Col>
+              </Row>
+              {couponDiscount > 0 && (
+                <Row className="text-success">
+                  <Col>Discount:</Col>
+                  <Col className="text-end">-${couponDiscount.toFixed(2)}</Col>
+                </Row>
+              )}
+              <Row>
+                <Col>Shipping:</Col>
+                <Col className="text-end">{shippingCost === 0 ? 'Free' : `$${shippingCost.toFixed(2)}`}</Col>
+              </Row>
+              <Row>
+                <Col>{estimatedTax.pricesIncludeTax ? 'Estimated tax (included):' : 'Estimated tax:'}</Col>
+                <Col className="text-end">${estimatedTax.tax.toFixed(2)}</Col>
+              </Row>
               <Row>
                 <Col>
-                  <strong>Total: ${totalPrice.toFixed(2)}</strong>
+                  <strong>Total: ${estimatedTotal.toFixed(2)}</strong>
                 </Col>
               </Row>
             </div>
             
+            {/* Action Buttons */}
+            <div className="d-grid gap-2 mt-3">
+              <Button 
+                variant="primary" 
+                onClick={() => setCheckoutStep('payment')}
+                disabled={!selectedQuote}
+              >
+                Continue to Payment
+              </Button>
+              
+              <Button 
+                variant="outline-secondary"
+                onClick={() => setCheckoutStep('address')}
+              >
+                Back to Address
+              </Button>
+            </div>
+          </div>
+        ) : checkoutStep === 'payment' ? (
+          // Payment Details
+          <div>
+            <h5 className="mb-3">Payment</h5>
+            {getPaymentProvider().name === 'mock' && (
+              <Alert variant="info" className="small">
+                Test mode: use card {MOCK_TEST_CARDS.success} with any future expiry date and CVC.
+              </Alert>
+            )}
+            <Form>
+              <Form.Group className="mb-3">
+                <Form.Label>Name on Card *</Form.Label>
+                <Form.Control
+                  type="text"
+                  name="cardholderName"
+                  value={cardDetails.cardholderName}
+                  onChange={handleCardDetailsChange}
+                  autoComplete="cc-name"
+                  required
+                />
+              </Form.Group>
+
+              <Form.Group className="mb-3">
+                <Form.Label>Card Number *</Form.Label>
+                <Form.Control
+                  type="text"
+                  name="cardNumber"
+                  value={cardDetails.cardNumber}
+                  onChange={handleCardDetailsChange}
+                  inputMode="numeric"
+                  autoComplete="cc-number"
+                  placeholder="1234 5678 9012 3456"
+                  required
+                />
+              </Form.Group>
+
+              <Row>
+                <Col xs={6}>
+                  <Form.Group className="mb-3">
+                    <Form.Label>Expiry *</Form.Label>
+                    <Form.Control
+                      type="text"
+                      name="expiry"
+                      value={cardDetails.expiry}
+                      onChange={handleCardDetailsChange}
+                      autoComplete="cc-exp"
+                      placeholder="MM/YY"
+                      required
+                    />
+                  </Form.Group>
+                </Col>
+                <Col xs={6}>
+                  <Form.Group className="mb-3">
+                    <Form.Label>CVC *</Form.Label>
+                    <Form.Control
+                      type="text"
+                      name="cvc"
+                      value={cardDetails.cvc}
+                      onChange={handleCardDetailsChange}
+                      inputMode="numeric"
+                      autoComplete="cc-csc"
+                      maxLength={4}
+                      required
+                    />
+                  </Form.Group>
+                </Col>
+              </Row>
+            </Form>
+
+            <div className="border-top pt-3 mt-3">
+              <strong>Total: ${estimatedTotal.toFixed(2)}</strong>
+            </div>
+
             {/* Action Buttons */}
             <div className="d-grid gap-2 mt-3">
               <Button 
                 variant="success" 
                 size="lg"
                 onClick={handlePlaceOrder}
-                disabled={isCheckingOut}
+                disabled={isCheckingOut || !selectedQuote}
               >
                 {isCheckingOut ? (
                   <>
@@ -322,16 +749,16 @@ const ShoppingCart: React.FC = () => {
                     Placing Order...
                   </>
                 ) : (
-                  `Place Order ($${totalPrice.toFixed(2)})`
+                  `Pay & Place Order ($${estimatedTotal.toFixed(2)})`
                 )}
               </Button>
               
               <Button 
                 variant="outline-secondary"
-                onClick={() => setShowShippingForm(false)}
+                onClick={() => setCheckoutStep('delivery')}
                 disabled={isCheckingOut}
               >
-                Back to Cart
+                Back to Shipping Method
               </Button>
             </div>
           </div>
@@ -347,90 +774,157 @@ const ShoppingCart: React.FC = () => {
         ) : (
           // Cart with Items
           <>
+            {/* Revalidation Results */}
+            {revalidationError && (
+              <Alert variant="warning" className="small">
+                We couldn't check your cart against the latest prices and stock. Totals may change at checkout.
+              </Alert>
+            )}
+            {cartIssues.length > 0 && (
+              <Alert variant="warning">
+                <p className="mb-2"><strong>Some items in your cart have changed</strong></p>
+                <ul className="small ps-3 mb-2">
+                  {cartIssues.map(issue => (
+                    <li key={`${issue.itemId}-${issue.type}`}>{issue.message}</li>
+                  ))}
+                </ul>
+                <Button variant="warning" size="sm" onClick={acceptUpdates}>
+                  Accept Updates
+                </Button>
+              </Alert>
+            )}
+
+            {saveForLaterError && (
+              <Alert variant="danger" dismissible onClose={() => setSaveForLaterError(null)} className="small">
+                {saveForLaterError}
+              </Alert>
+            )}
+            {limitNotice && (
+              <Alert variant="info" dismissible onClose={() => dispatch(dismissLimitNotice())} className="small">
+                {limitNotice.allowed > 0
+                  ? `Quantity adjusted to ${limitNotice.allowed}: ${limitNotice.reason === 'max_per_order' ? 'that is the most you can order' : 'that is all we have in stock'}.`
+                  : 'That item is out of stock.'}
+              </Alert>
+            )}
+
             {/* Cart Items */}
             <div className="cart-items" style={{ maxHeight: '400px', overflowY: 'auto' }}>
-              {items.map((item) => (
-                <Card key={item.id} className="mb-3 border-0 shadow-sm">
-                  <Card.Body className="p-3">
-                    <Row className="align-items-center">
-                      {/* Product Image */}
-                      <Col xs={3}>
-                        <img 
-                          src={imageErrors[item.id] 
-                            ? `https://via.placeholder.com/60x60/e9ecef/6c757d?text=${encodeURIComponent(item.product.category)}`
-                            : item.product.image
-                          } 
-                          alt={item.product.title}
-                          onError={() => handleImageError(item.id)}
-                          style={{ 
-                            width: '100%', 
-                            height: '60px', 
-                            objectFit: 'contain' 
-                          }}
-                        />
-                      </Col>
+              {items.map((item) => {
+                const maxQuantity = getLineQuantityLimit(items, item.id, item.product);
+                const limitHint = getLimitHint(item, maxQuantity);
+                return (
+                  <Card key={item.id} className="mb-3 border-0 shadow-sm">
+                    <Card.Body className="p-3">
+                      <Row className="align-items-center">
+                        {/* Product Image */}
+                        <Col xs={3}>
+                          <img 
+                            src={imageErrors[item.id] 
+                              ? `https://via.placeholder.com/60x60/e9ecef/6c757d?text=${encodeURIComponent(item.product.category)}`
+                              : item.product.image
+                            } 
+                            alt={item.product.title}
+                            onError={() => handleImageError(item.id)}
+                            style={{ 
+                              width: '100%', 
+                              height: '60px', 
+                              objectFit: 'contain' 
+                            }}
+                          />
+                        </Col>
                       
-                      {/* Product Details */}
-                      <Col xs={9}>
-                        <div className="d-flex justify-content-between align-items-start">
-                          <div className="flex-grow-1 me-2">
-                            <h6 className="mb-1" style={{ fontSize: '0.9rem' }}>
-                              {item.product.title.length > 40 
-                                ? `${item.product.title.substring(0, 40)}...` 
-                                : item.product.title
-                              }
-                            </h6>
-                            <p className="text-primary mb-2 fw-bold">
-                              ${item.product.price.toFixed(2)} each
-                            </p>
-                          </div>
+                        {/* Product Details */}
+                        <Col xs={9}>
+                          <div className="d-flex justify-content-between align-items-start">
+                            <div className="flex-grow-1 me-2">
+                              <h6 className="mb-1" style={{ fontSize: '0.9rem' }}>
+                                {item.product.title.length > 40 
+                                  ? `${item.product.title.substring(0, 40)}...` 
+                                  : item.product.title
+                                }
+                              </h6>
+                              {item.selectedOptions && item.selectedOptions.length > 0 && (
+                                <p className="text-muted small mb-1">
+                                  {formatVariantSelection(item.selectedOptions)}
+                                </p>
+                              )}
+                              <p className="text-primary mb-2 fw-bold">
+                                ${getEffectiveUnitPrice(item.product, item.selectedOptions).toFixed(2)} each
+                              </p>
+                              {cartIssues.filter(issue => issue.itemId === item.id).map(issue => (
+                                <Badge key={issue.type} bg={issue.type === 'price_changed' ? 'info' : 'warning'} text="dark" className="mb-2 me-1">
+                                  {issue.type === 'price_changed'
+                                    ? `Now $${issue.currentPrice?.toFixed(2)}`
+                                    : issue.type === 'insufficient_stock'
+                                      ? `Only ${issue.availableQuantity} available`
+                                      : 'Unavailable'}
+                                </Badge>
+                              ))}
+                            </div>
                           
-                          {/* Remove Button */}
-                          <Button 
-                            variant="outline-danger" 
-                            size="sm"
-                            onClick={() => handleRemoveItem(item.id)}
-                            style={{ padding: '0.25rem 0.5rem' }}
-                          >
-                            ✕
-                          </Button>
-                        </div>
-                        
-                        {/* Quantity Controls */}
-                        <div className="d-flex align-items-center justify-content-between">
-                          <InputGroup size="sm" style={{ width: '120px' }}>
-                            <Button 
-                              variant="outline-secondary"
-                              onClick={() => handleDecrement(item.id)}
-                              disabled={item.quantity <= 1}
-                            >
-                              -
-                            </Button>
-                            <Form.Control
-                              type="number"
-                              value={item.quantity}
-                              onChange={(e) => handleQuantityChange(item.id, e.target.value)}
-                              min="1"
-                              className="text-center"
-                            />
+                            {/* Remove Button */}
                             <Button 
-                              variant="outline-secondary"
-                              onClick={() => handleIncrement(item.id)}
+                              variant="outline-danger" 
+                              size="sm"
+                              onClick={() => handleRemoveItem(item.id)}
+                              style={{ padding: '0.25rem 0.5rem' }}
                             >
-                              +
+                              ✕
                             </Button>
-                          </InputGroup>
+                          </div>
+                        
+                          {/* Quantity Controls */}
+                          <div className="d-flex align-items-center justify-content-between">
+                            <InputGroup size="sm" style={{ width: '120px' }}>
+                              <Button 
+                                variant="outline-secondary"
+                                onClick={() => handleDecrement(item.id)}
+                                disabled={item.quantity <= 1}
+                              >
+                                -
+                              </Button>
+                              <Form.Control
+                                type="number"
+                                value={item.quantity}
+                                onChange={(e) => handleQuantityChange(item.id, e.target.value)}
+                                min="1"
+                                max={Number.isFinite(maxQuantity) ? maxQuantity : undefined}
+                                className="text-center"
+                              />
+                              <Button 
+                                variant="outline-secondary"
+                                onClick={() => handleIncrement(item.id)}
+                                disabled={item.quantity >= maxQuantity}
+                              >
+                                +
+                              </Button>
+                            </InputGroup>
                           
-                          {/* Item Total */}
-                          <div className="text-end">
-                            <strong>${(item.product.price * item.quantity).toFixed(2)}</strong>
+                            {/* Item Total */}
+                            <div className="text-end">
+                              <strong>${(getEffectiveUnitPrice(item.product, item.selectedOptions) * item.quantity).toFixed(2)}</strong>
+                            </div>
                           </div>
-                        </div>
-                      </Col>
-                    </Row>
-                  </Card.Body>
-                </Card>
-              ))}
+                          {limitHint && (
+                            <small className="text-warning d-block mt-1">{limitHint}</small>
+                          )}
+                          {isAuthenticated && (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="p-0 mt-1"
+                              onClick={() => handleSaveForLater(item)}
+                              disabled={savingItemId === item.id}
+                            >
+                              {savingItemId === item.id ? 'Saving...' : 'Save for later'}
+                            </Button>
+                          )}
+                        </Col>
+                      </Row>
+                    </Card.Body>
+                  </Card>
+                );
+              })}
             </div>
             
             {/* Cart Summary */}
@@ -459,10 +953,12 @@ const ShoppingCart: React.FC = () => {
                   variant="success" 
                   size="lg"
                   onClick={handleCheckout}
-                  disabled={isCheckingOut || !isAuthenticated}
+                  disabled={isCheckingOut || !isAuthenticated || isRevalidating || cartIssues.length > 0}
                 >
                   {!isAuthenticated ? (
                     'Please Log In to Checkout'
+                  ) : isRevalidating ? (
+                    'Checking prices and stock...'
                   ) : (
                     `Proceed to Checkout ($${totalPrice.toFixed(2)})`
                   )}
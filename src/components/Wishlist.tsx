@@ -0,0 +1,208 @@
+/**
+ * Wishlist Component
+ * Products the shopper saved for later, with current price and stock
+ */
+import React, { useState } from 'react';
+import { Container, Row, Col, Card, Button, Badge, Spinner, Alert } from 'react-bootstrap';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { useAppDispatch } from '../hooks/reduxHooks';
+import { useRemoveFromWishlist, useWishlist } from '../hooks/useWishlist';
+import { addToCart, openCart } from '../store/cartSlice';
+import { getProductPath } from '../services/productService';
+import { formatVariantSelection, getEffectiveUnitPrice, resolveVariantSelection } from '../services/variantService';
+import type { SelectedVariantOption } from '../types/productType';
+import type { WishlistEntry } from '../types/wishlistType';
+
+const Wishlist: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { isAuthenticated } = useAuth();
+  const { data: entries, isLoading, isError, error } = useWishlist();
+  const removeFromWishlistMutation = useRemoveFromWishlist();
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Saved options re-priced against the live product; null when they are no longer offered
+  const getCurrentOptions = (entry: WishlistEntry): SelectedVariantOption[] | null => {
+    if (!entry.product) return null;
+    try {
+      return resolveVariantSelection(entry.product, entry.selectedOptions);
+    } catch {
+      return null;
+    }
+  };
+
+  const isInStock = (entry: WishlistEntry): boolean => {
+    if (!entry.product) return false;
+    return !entry.product.inventory.trackInventory || entry.product.inventory.stock > 0;
+  };
+
+  // Handle moving an entry back into the cart
+  const handleMoveToCart = async (entry: WishlistEntry) => {
+    const selectedOptions = getCurrentOptions(entry);
+    if (!entry.product || !selectedOptions) return;
+
+    try {
+      setActionError(null);
+      dispatch(addToCart({ product: entry.product, quantity: 1, selectedOptions }));
+      dispatch(openCart());
+      await removeFromWishlistMutation.mutateAsync(entry.id);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update wishlist');
+    }
+  };
+
+  // Handle removing an entry
+  const handleRemove = async (entry: WishlistEntry) => {
+    try {
+      setActionError(null);
+      await removeFromWishlistMutation.mutateAsync(entry.id);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update wishlist');
+    }
+  };
+
+  // Show authentication required
+  if (!isAuthenticated) {
+    return (
+      <Container className="mt-4">
+        <Alert variant="warning" className="text-center">
+          <Alert.Heading>🔐 Please Log In</Alert.Heading>
+          <p>You need to be logged in to view your wishlist.</p>
+          <Link to="/login">
+            <Button variant="primary">Log In</Button>
+          </Link>
+        </Alert>
+      </Container>
+    );
+  }
+
+  // Show loading state
+  if (isLoading) {
+    return (
+      <Container className="mt-4">
+        <div className="text-center py-5">
+          <Spinner animation="border" role="status" variant="primary" />
+          <p className="mt-3">Loading your wishlist...</p>
+        </div>
+      </Container>
+    );
+  }
+
+  // Show error state
+  if (isError) {
+    return (
+      <Container className="mt-4">
+        <Alert variant="danger">
+          <Alert.Heading>❌ Error Loading Wishlist</Alert.Heading>
+          <p>{error instanceof Error ? error.message : 'Failed to load wishlist'}</p>
+        </Alert>
+      </Container>
+    );
+  }
+
+  return (
+    <Container className="mt-4">
+      {/* Header */}
+      <Row className="mb-4">
+        <Col>
+          <h1>❤️ Wishlist</h1>
+          <p className="text-muted">Items you saved for later</p>
+        </Col>
+      </Row>
+
+      {actionError && (
+        <Alert variant="danger" dismissible onClose={() => setActionError(null)}>
+          {actionError}
+        </Alert>
+      )}
+
+      {!entries || entries.length === 0 ? (
+        <Alert variant="info" className="text-center">
+          <Alert.Heading>Your wishlist is empty</Alert.Heading>
+          <p>Tap the heart on a product or save a cart item for later to keep it here.</p>
+          <Link to="/">
+            <Button variant="primary">Browse Products</Button>
+          </Link>
+        </Alert>
+      ) : (
+        <Row>
+          {entries.map(entry => {
+            const currentOptions = getCurrentOptions(entry);
+            const available = !!entry.product && !!currentOptions;
+            const inStock = available && isInStock(entry);
+
+            return (
+              <Col key={entry.id} xs={12} md={6} lg={4} className="mb-4">
+                <Card className="h-100 shadow-sm">
+                  <Card.Body className="d-flex flex-column">
+                    <div className="d-flex gap-3 mb-3">
+                      {entry.product && (
+                        <img
+                          src={entry.product.image}
+                          alt={entry.product.title}
+                          style={{ width: '80px', height: '80px', objectFit: 'contain' }}
+                        />
+                      )}
+                      <div className="flex-grow-1">
+                        <Card.Title className="h6">
+                          {entry.product ? (
+                            <Link to={getProductPath(entry.product)} className="text-reset">{entry.product.title}</Link>
+                          ) : (
+                            'Product no longer available'
+                          )}
+                        </Card.Title>
+                        {entry.selectedOptions && entry.selectedOptions.length > 0 && (
+                          <p className="text-muted small mb-1">{formatVariantSelection(entry.selectedOptions)}</p>
+                        )}
+                        {entry.product && currentOptions && (
+                          <p className="text-primary fw-bold mb-1">
+                            ${getEffectiveUnitPrice(entry.product, currentOptions).toFixed(2)}
+                          </p>
+                        )}
+                        {!available ? (
+                          <Badge bg="secondary">Unavailable</Badge>
+                        ) : inStock ? (
+                          <Badge bg="success">
+                            {entry.product?.inventory.trackInventory && entry.product.inventory.stock <= 5
+                              ? `Only ${entry.product.inventory.stock} left`
+                              : 'In stock'}
+                          </Badge>
+                        ) : (
+                          <Badge bg="danger">Out of Stock</Badge>
+                        )}
+                      </div>
+                    </div>
+
+                    <small className="text-muted mb-3">
+                      Saved {entry.addedAt.toLocaleDateString()}
+                    </small>
+
+                    <div className="d-flex gap-2 mt-auto">
+                      <Button
+                        variant="primary"
+                        className="flex-fill"
+                        onClick={() => handleMoveToCart(entry)}
+                        disabled={!inStock || removeFromWishlistMutation.isPending}
+                      >
+                        Move to Cart
+                      </Button>
+                      <Button
+                        variant="outline-danger"
+                        onClick={() => handleRemove(entry)}
+                        disabled={removeFromWishlistMutation.isPending}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  </Card.Body>
+                </Card>
+              </Col>
+            );
+          })}
+        </Row>
+      )}
+    </Container>
+  );
+};
+
+export default Wishlist;
@@ -130,7 +130,8 @@ describe('Cart Integration Tests', () => {
         },
         createdAt: new Date('2024-01-01'),
         updatedAt: new Date('2024-01-01'),
-        isActive: true
+        isActive: true,
+        role: 'customer'
       },
       loading: false,
       error: null,
@@ -347,6 +348,60 @@ describe('Cart Integration Tests', () => {
     })
   })
 
+  describe('Product Variants', () => {
+    const variantProduct: Product = {
+      ...mockProducts[0],
+      id: 'product-3',
+      title: 'T-Shirt',
+      price: 20,
+      variants: [
+        { id: 'size', name: 'Size', options: ['M', 'XL'], optionPriceModifiers: { XL: 2.5 } }
+      ]
+    }
+
+    it('should keep a separate cart line per selected option and apply price modifiers', () => {
+      const store = createTestStore()
+
+      store.dispatch(addToCart({
+        product: variantProduct,
+        selectedOptions: [{ variantId: 'size', name: 'Size', option: 'M', priceModifier: 0 }]
+      }))
+      store.dispatch(addToCart({
+        product: variantProduct,
+        selectedOptions: [{ variantId: 'size', name: 'Size', option: 'XL', priceModifier: 2.5 }]
+      }))
+      store.dispatch(addToCart({
+        product: variantProduct,
+        selectedOptions: [{ variantId: 'size', name: 'Size', option: 'XL', priceModifier: 2.5 }]
+      }))
+
+      const state = store.getState().cart
+      expect(state.items).toHaveLength(2)
+      expect(state.items.map(item => item.id)).toEqual(['product-3::size=M', 'product-3::size=XL'])
+      expect(state.items[1].quantity).toBe(2)
+      expect(state.totalPrice).toBe(20 + 22.5 * 2)
+    })
+
+    it('should pass the chosen options from the product card option picker', async () => {
+      const user = userEvent.setup()
+      const handleAddToCart = vi.fn()
+
+      render(
+        <IntegrationTestWrapper>
+          <ProductCard product={variantProduct} onAddToCart={handleAddToCart} />
+        </IntegrationTestWrapper>
+      )
+
+      await user.selectOptions(screen.getByLabelText('Size'), 'XL')
+      expect(screen.getByText('$22.50')).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: /add to cart/i }))
+      expect(handleAddToCart).toHaveBeenCalledWith(variantProduct, [
+        { variantId: 'size', name: 'Size', option: 'XL', priceModifier: 2.5 }
+      ])
+    })
+  })
+
   describe('Edge Cases and Error Handling', () => {
     it('should handle adding product with zero stock gracefully', async () => {
       const store = createTestStore()
@@ -77,7 +77,8 @@ describe('ProductCard Component', () => {
         },
         createdAt: new Date(),
         updatedAt: new Date(),
-        isActive: true
+        isActive: true,
+        role: 'admin'
       },
       loading: false,
       error: null,
@@ -170,6 +171,39 @@ describe('ProductCard Component', () => {
       expect(screen.queryByRole('button', { name: /edit/i })).not.toBeInTheDocument()
       expect(screen.queryByRole('button', { name: /delete/i })).not.toBeInTheDocument()
     })
+
+    it('should only show admin controls to sellers for their own products', () => {
+      const authReturn = mockUseAuth.getMockImplementation()!()
+      mockUseAuth.mockReturnValue({
+        ...authReturn,
+        user: { ...authReturn.user!, role: 'seller' }
+      })
+
+      const { rerender } = render(
+        <TestWrapper>
+          <ProductCard 
+            product={{ ...mockProduct, createdBy: 'another-seller' }} 
+            onAddToCart={mockOnAddToCart}
+            onProductUpdated={mockOnProductUpdated}
+          />
+        </TestWrapper>
+      )
+
+      expect(screen.queryByRole('button', { name: /edit/i })).not.toBeInTheDocument()
+
+      rerender(
+        <TestWrapper>
+          <ProductCard 
+            product={{ ...mockProduct, createdBy: 'test-user' }} 
+            onAddToCart={mockOnAddToCart}
+            onProductUpdated={mockOnProductUpdated}
+          />
+        </TestWrapper>
+      )
+
+      expect(screen.getByRole('button', { name: /edit/i })).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: /delete/i })).toBeInTheDocument()
+    })
   })
 
   describe('State Changes and User Interactions', () => {
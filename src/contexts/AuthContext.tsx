@@ -8,6 +8,7 @@ import type {
   UserProfileUpdateData 
 } from '../types/authTypes';
 import type { User } from 'firebase/auth';
+import { useCartSync } from '../hooks/useCartSync';
 
 // eslint-disable-next-line react-refresh/only-export-components
 export const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -56,6 +57,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return unsubscribe;
   }, []);
 
+  // Merge the guest cart with the saved cart on login and keep it synced while signed in
+  useCartSync(user?.uid ?? null, !loading);
+
   const register = async (userData: UserRegistrationData): Promise<void> => {
     setError(null);
     // Registration is handled by the components directly
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAppDispatch, useAppSelector } from './reduxHooks';
+import { refreshCartItems } from '../store/cartSlice';
+import { fetchCartProducts, revalidateCartItems } from '../services/cartService';
+import type { CartRevalidationResult } from '../types/cartTypes';
+import type { Product } from '../types/productType';
+
+// Hook that checks the cart against live product data while the cart is open
+// Products are re-read when the cart opens, when the window regains focus and on demand;
+// issues are recomputed locally as the shopper edits the cart.
+export const useCartRevalidation = (enabled: boolean) => {
+  const dispatch = useAppDispatch();
+  const items = useAppSelector(state => state.cart.items);
+  const [products, setProducts] = useState<Map<string, Product | null> | null>(null);
+  const [isRevalidating, setIsRevalidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read the cart through a ref so revalidate stays stable while the shopper edits it;
+  // edits are checked against the fetched products without re-reading them
+  const itemsRef = useRef(items);
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  const revalidate = useCallback(async (): Promise<CartRevalidationResult> => {
+    const currentItems = itemsRef.current;
+    setIsRevalidating(true);
+    setError(null);
+    try {
+      const latest = await fetchCartProducts(currentItems);
+      setProducts(latest);
+      return revalidateCartItems(currentItems, latest);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check your cart');
+      throw err;
+    } finally {
+      setIsRevalidating(false);
+    }
+  }, []);
+
+  // Lines added since the last fetch stay unchecked until the next revalidation
+  const checkedItems = useMemo(
+    () => (products ? items.filter(item => products.has(item.product.id)) : []),
+    [items, products]
+  );
+  const result = useMemo<CartRevalidationResult | null>(
+    () => (products ? revalidateCartItems(checkedItems, products) : null),
+    [checkedItems, products]
+  );
+
+  const issues = result?.issues ?? [];
+
+  // Apply the refreshed prices, quantities and removals to the cart
+  const acceptUpdates = useCallback(() => {
+    if (!products || !result) return;
+    const uncheckedItems = items.filter(item => !products.has(item.product.id));
+    dispatch(refreshCartItems([...result.items, ...uncheckedItems]));
+  }, [dispatch, items, products, result]);
+
+  // Revalidate whenever the cart is opened
+  useEffect(() => {
+    if (!enabled) return;
+    revalidate().catch(() => undefined);
+  }, [enabled, revalidate]);
+
+  // Revalidate when the shopper comes back to the tab
+  useEffect(() => {
+    if (!enabled) return;
+    const handleFocus = () => {
+      revalidate().catch(() => undefined);
+    };
+    window.addEventListener('focus', handleFocus);
+    return () => window.removeEventListener('focus', handleFocus);
+  }, [enabled, revalidate]);
+
+  return { issues, isRevalidating, error, revalidate, acceptUpdates };
+};
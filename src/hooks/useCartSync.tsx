@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { useStore } from 'react-redux';
+import { useAppDispatch, useAppSelector } from './reduxHooks';
+import { replaceCart } from '../store/cartSlice';
+import { getStoredCart, reconcileCartOnLogin, saveStoredCart } from '../services/cartService';
+import type { RootState } from '../store/store';
+
+// Delay before writing cart changes to Firestore, so quick edits become one write
+const SAVE_DELAY_MS = 500;
+
+// Hook that keeps the Redux cart in sync with carts/{uid} for the signed-in user
+// On login the local cart is reconciled with the stored one; on logout the local cart is emptied.
+export const useCartSync = (uid: string | null, authReady: boolean) => {
+  const dispatch = useAppDispatch();
+  const store = useStore<RootState>();
+  const items = useAppSelector(state => state.cart.items);
+  const updatedAt = useAppSelector(state => state.cart.updatedAt);
+  const [syncedUid, setSyncedUid] = useState<string | null>(null);
+
+  // Reconcile once per login
+  useEffect(() => {
+    if (!authReady) return;
+
+    if (!uid) {
+      // A signed-in cart must not stay visible to whoever uses the device next
+      if (store.getState().cart.ownerId) {
+        dispatch(replaceCart({ items: [], ownerId: null }));
+      }
+      setSyncedUid(null);
+      return;
+    }
+
+    let cancelled = false;
+    getStoredCart(uid)
+      .then(storedCart => {
+        if (cancelled) return;
+        const items = reconcileCartOnLogin(store.getState().cart, uid, storedCart);
+        dispatch(replaceCart({ items, ownerId: uid }));
+        setSyncedUid(uid);
+      })
+      .catch(error => {
+        // Saving now would overwrite the stored cart, so stay unsynced until a load succeeds
+        console.error('Failed to load saved cart, keeping the local cart:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid, authReady, dispatch, store]);
+
+  // Save changes once the cart has been reconciled for this user
+  useEffect(() => {
+    if (!uid || syncedUid !== uid) return;
+
+    const timer = setTimeout(() => {
+      saveStoredCart(uid, items, updatedAt || Date.now()).catch(error => {
+        console.error('Failed to save cart:', error);
+      });
+    }, SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [uid, syncedUid, items, updatedAt]);
+};
@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import { getCategories } from "../services/productService";
+import { getCategories, getCatalogCategories } from "../services/productService";
 
 // Custom hook for fetching categories from Firestore
 export const useCategories = () => {
@@ -18,4 +18,23 @@ export const useCategories = () => {
         gcTime: 30 * 60 * 1000, // Keep in cache for 30 minutes
         retry: 1, // Only retry once
     });
-};
\ No newline at end of file
+};
+
+// Custom hook for fetching categories available in the public storefront
+export const useCatalogCategories = () => {
+    return useQuery({
+        queryKey: ["categories", "catalog"],
+        queryFn: async (): Promise<string[]> => {
+            try {
+                return await getCatalogCategories();
+            } catch (error) {
+                console.error("Error fetching catalog categories from Firestore:", error);
+                // Return empty array instead of throwing to prevent category filter from breaking
+                return [];
+            }
+        },
+        staleTime: 10 * 60 * 1000, // Categories don't change often - 10 minutes
+        gcTime: 30 * 60 * 1000, // Keep in cache for 30 minutes
+        retry: 1, // Only retry once
+    });
+};
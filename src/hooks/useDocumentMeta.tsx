@@ -0,0 +1,64 @@
+import { useEffect } from 'react';
+
+interface DocumentMeta {
+  title?: string;
+  description?: string;
+  canonicalPath?: string; // Path of the preferred URL for this page, e.g. /products/blue-shirt
+}
+
+// Find a <head> element, creating it if the page template does not have one
+const getHeadElement = <T extends HTMLElement>(selector: string, create: () => T): T => {
+  const existing = document.head.querySelector<T>(selector);
+  if (existing) return existing;
+
+  const element = create();
+  document.head.appendChild(element);
+  return element;
+};
+
+// Hook for setting the document title and SEO tags while a page is mounted
+export const useDocumentMeta = ({ title, description, canonicalPath }: DocumentMeta) => {
+  useEffect(() => {
+    if (!title) return;
+
+    const previousTitle = document.title;
+    document.title = title;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [title]);
+
+  useEffect(() => {
+    if (!description) return;
+
+    const meta = getHeadElement<HTMLMetaElement>('meta[name="description"]', () => {
+      const element = document.createElement('meta');
+      element.name = 'description';
+      return element;
+    });
+    const previousDescription = meta.content;
+    meta.content = description;
+    return () => {
+      meta.content = previousDescription;
+    };
+  }, [description]);
+
+  useEffect(() => {
+    if (!canonicalPath) return;
+
+    const link = getHeadElement<HTMLLinkElement>('link[rel="canonical"]', () => {
+      const element = document.createElement('link');
+      element.rel = 'canonical';
+      return element;
+    });
+    const previousHref = link.getAttribute('href');
+    link.href = `${window.location.origin}${canonicalPath}`;
+    return () => {
+      if (previousHref) {
+        link.setAttribute('href', previousHref);
+      } else {
+        link.remove();
+      }
+    };
+  }, [canonicalPath]);
+};
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+
+// Hook that calls onLoadMore whenever the returned sentinel element scrolls into view
+export const useInfiniteScroll = <T extends HTMLElement = HTMLDivElement>(
+  onLoadMore: () => void,
+  enabled: boolean
+) => {
+  const sentinelRef = useRef<T>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    // IntersectionObserver is unavailable in some test environments
+    if (!enabled || !sentinel || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMoreRef.current();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return sentinelRef;
+};
@@ -0,0 +1,43 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  adjustProductStock,
+  getInventoryMovements,
+  reconcileProductStock
+} from '../services/inventoryService';
+import type { StockAdjustmentData } from '../types/inventoryType';
+
+// Hook for a product's stock movement history, newest first
+export const useInventoryMovements = (productId: string | undefined) => {
+  return useQuery({
+    queryKey: ['inventory', 'movements', productId],
+    queryFn: () => getInventoryMovements(productId!),
+    enabled: !!productId,
+  });
+};
+
+// Hook for recording a receipt, return or manual adjustment
+export const useAdjustStock = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ productId, adjustment }: { productId: string; adjustment: StockAdjustmentData }) =>
+      adjustProductStock(productId, adjustment),
+    onSuccess: (_movement, { productId }) => {
+      queryClient.invalidateQueries({ queryKey: ['inventory', 'movements', productId] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+    },
+  });
+};
+
+// Hook for bringing a product's stock back in line with its ledger
+export const useReconcileStock = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (productId: string) => reconcileProductStock(productId),
+    onSuccess: (_result, productId) => {
+      queryClient.invalidateQueries({ queryKey: ['inventory', 'movements', productId] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+    },
+  });
+};
@@ -1,6 +1,10 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import {
   getProducts,
+  getCatalogProducts,
+  getCatalogFacets,
+  getCatalogProductById,
+  getCatalogProductBySlug,
   createProduct,
   updateProduct,
   deleteProduct,
@@ -30,6 +34,72 @@ export const useProducts = (
   });
 };
 
+// Hook for infinite-scroll product listings using cursor pagination
+export const useInfiniteProducts = (
+  filters: ProductFilters = {},
+  sort: ProductSort = { field: 'createdAt', direction: 'desc' },
+  pageSize: number = 20,
+  enabled: boolean = true
+) => {
+  return useInfiniteQuery({
+    queryKey: ['products', 'infinite', filters, sort, pageSize],
+    queryFn: ({ pageParam }) => getProducts(filters, sort, pageSize, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextPageToken,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    enabled,
+  });
+};
+
+// Hook for the public storefront catalog (all sellers, active products only)
+export const useInfiniteCatalogProducts = (
+  filters: ProductFilters = {},
+  sort: ProductSort = { field: 'createdAt', direction: 'desc' },
+  pageSize: number = 20
+) => {
+  return useInfiniteQuery({
+    queryKey: ['products', 'catalog', filters, sort, pageSize],
+    queryFn: ({ pageParam }) => getCatalogProducts(filters, sort, pageSize, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextPageToken,
+    placeholderData: keepPreviousData, // Keep the current listing on screen while a new filter loads
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+};
+
+// Hook for the storefront sidebar's facet counts under the current filters
+export const useCatalogFacets = (filters: ProductFilters = {}) => {
+  return useQuery({
+    queryKey: ['products', 'catalog', 'facets', filters],
+    queryFn: () => getCatalogFacets(filters),
+    placeholderData: keepPreviousData, // Keep the sidebar in place while counts refresh
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+};
+
+// Hook for getting a single storefront product
+export const useCatalogProduct = (productId: string) => {
+  return useQuery({
+    queryKey: ['products', 'catalog', 'detail', productId],
+    queryFn: () => getCatalogProductById(productId),
+    staleTime: 5 * 60 * 1000,
+    enabled: !!productId,
+  });
+};
+
+// Hook for a storefront product page, looked up by URL slug
+export const useCatalogProductBySlug = (slug: string) => {
+  return useQuery({
+    queryKey: ['products', 'catalog', 'slug', slug],
+    queryFn: () => getCatalogProductBySlug(slug),
+    staleTime: 5 * 60 * 1000,
+    enabled: !!slug,
+  });
+};
+
 // Hook for getting a single product
 export const useProduct = (productId: string) => {
   return useQuery({
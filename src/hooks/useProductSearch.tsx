@@ -0,0 +1,44 @@
+import { useDeferredValue, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getAllCatalogProducts } from '../services/productService';
+import {
+  getCatalogSearchIndex,
+  loadCatalogSearchIndex,
+  searchIndex,
+  subscribeToCatalogSearchIndex
+} from '../services/searchService';
+
+// Hook for instant, typo-tolerant search over the storefront catalog
+// The catalog is loaded once and indexed in memory; product mutations keep the index current.
+export const useProductSearch = (searchTerm: string, resultLimit: number = 8) => {
+  const { data: catalog, isLoading, isError, error } = useQuery({
+    queryKey: ['products', 'catalog', 'search-index'],
+    queryFn: getAllCatalogProducts,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  // Rebuild the shared index whenever a fresh catalog arrives
+  useEffect(() => {
+    if (catalog) {
+      loadCatalogSearchIndex(catalog);
+    }
+  }, [catalog]);
+
+  const index = useSyncExternalStore(subscribeToCatalogSearchIndex, getCatalogSearchIndex);
+
+  // Keep typing responsive on large catalogs by ranking against a deferred term
+  const deferredSearchTerm = useDeferredValue(searchTerm.trim());
+  const results = useMemo(
+    () => (deferredSearchTerm ? searchIndex(index, deferredSearchTerm, { limit: resultLimit }) : []),
+    [index, deferredSearchTerm, resultLimit]
+  );
+
+  return {
+    results,
+    isIndexing: isLoading,
+    isError,
+    error,
+    isStale: deferredSearchTerm !== searchTerm.trim(),
+  };
+};
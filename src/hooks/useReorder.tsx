@@ -0,0 +1,64 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useAuth } from './useAuth';
+import { useAppDispatch, useAppSelector } from './reduxHooks';
+import { addToCart, openCart } from '../store/cartSlice';
+import { fetchCatalogProducts } from '../services/cartService';
+import { getUserOrders } from '../services/orderService';
+import { buildReorderItems, getFrequentlyPurchasedProductIds } from '../services/reorderService';
+import type { OrderItem } from '../types/orderType';
+import type { Product } from '../types/productType';
+
+// Hook for adding past order lines back to the cart with live product data
+// Resolves with what was added and what could not be, so callers can summarise it
+export const useReorder = () => {
+  const dispatch = useAppDispatch();
+  const cartItems = useAppSelector(state => state.cart.items);
+
+  return useMutation({
+    mutationFn: async (orderItems: OrderItem[]) => {
+      const products = await fetchCatalogProducts(orderItems.map(item => item.productId));
+      return buildReorderItems(orderItems, products, cartItems);
+    },
+    onSuccess: (result) => {
+      result.items.forEach(item => dispatch(addToCart(item)));
+      if (result.items.length > 0) {
+        dispatch(openCart());
+      }
+    },
+  });
+};
+
+// Hook for the catalog products the signed-in user orders most often
+// Products no longer in the catalog are passed over for the next most frequent
+export const useFrequentlyPurchased = (resultLimit: number = 6) => {
+  const { isAuthenticated } = useAuth();
+
+  const { data: ordersResponse } = useQuery({
+    queryKey: ['userOrders'],
+    queryFn: () => getUserOrders(),
+    enabled: isAuthenticated,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Look up a few spare candidates in case some have left the catalog
+  const candidateIds = useMemo(
+    () => (ordersResponse ? getFrequentlyPurchasedProductIds(ordersResponse.orders, resultLimit * 2) : []),
+    [ordersResponse, resultLimit]
+  );
+
+  const { data: products } = useQuery({
+    queryKey: ['products', 'catalog', 'frequently-purchased', candidateIds],
+    queryFn: () => fetchCatalogProducts(candidateIds),
+    enabled: isAuthenticated && candidateIds.length > 0,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return useMemo(() => {
+    if (!isAuthenticated || !products) return [];
+    return candidateIds
+      .map(productId => products.get(productId))
+      .filter((product): product is Product => !!product)
+      .slice(0, resultLimit);
+  }, [isAuthenticated, products, candidateIds, resultLimit]);
+};
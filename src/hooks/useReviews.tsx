@@ -0,0 +1,70 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './useAuth';
+import {
+  getMyReview,
+  getPendingReviews,
+  getProductReviews,
+  moderateReview,
+  submitReview
+} from '../services/reviewService';
+import type { ReviewFormData, ReviewModerationDecision } from '../types/reviewType';
+
+// Hook for a product's approved reviews
+export const useProductReviews = (productId: string) => {
+  return useQuery({
+    queryKey: ['reviews', 'product', productId],
+    queryFn: () => getProductReviews(productId),
+    staleTime: 60 * 1000, // 1 minute
+    enabled: !!productId,
+  });
+};
+
+// Hook for the signed-in user's own review of a product
+export const useMyReview = (productId: string) => {
+  const { isAuthenticated, user } = useAuth();
+
+  return useQuery({
+    queryKey: ['reviews', 'mine', productId, user?.uid],
+    queryFn: () => getMyReview(productId),
+    enabled: isAuthenticated && !!productId,
+  });
+};
+
+// Hook for creating or editing the signed-in user's review
+export const useSubmitReview = (productId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (formData: ReviewFormData) => submitReview(productId, formData),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reviews'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+    },
+  });
+};
+
+// Hook for the admin moderation queue
+export const usePendingReviews = () => {
+  return useQuery({
+    queryKey: ['reviews', 'pending'],
+    queryFn: getPendingReviews,
+  });
+};
+
+// Hook for approving or rejecting a review
+export const useModerateReview = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ productId, reviewId, decision, note }: {
+      productId: string;
+      reviewId: string;
+      decision: ReviewModerationDecision;
+      note?: string;
+    }) => moderateReview(productId, reviewId, decision, note),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reviews'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+    },
+  });
+};
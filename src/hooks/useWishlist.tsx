@@ -0,0 +1,41 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './useAuth';
+import { addToWishlist, getWishlist, removeFromWishlist } from '../services/wishlistService';
+import type { Product, SelectedVariantOption } from '../types/productType';
+
+// Hook for the signed-in user's wishlist
+export const useWishlist = () => {
+  const { isAuthenticated, user } = useAuth();
+
+  return useQuery({
+    queryKey: ['wishlist', user?.uid],
+    queryFn: getWishlist,
+    staleTime: 60 * 1000, // 1 minute
+    enabled: isAuthenticated,
+  });
+};
+
+// Hook for saving a product to the wishlist
+export const useAddToWishlist = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ product, selectedOptions }: { product: Product; selectedOptions?: SelectedVariantOption[] }) =>
+      addToWishlist(product, selectedOptions),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['wishlist'] });
+    },
+  });
+};
+
+// Hook for removing a wishlist entry
+export const useRemoveFromWishlist = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (itemId: string) => removeFromWishlist(itemId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['wishlist'] });
+    },
+  });
+};
@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for Cart Service
+ * Tests Firestore cart persistence, the guest/stored cart merge on login and revalidation
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getDoc, setDoc } from 'firebase/firestore'
+import { getStoredCart, mergeCartItems, reconcileCartOnLogin, revalidateCartItems, saveStoredCart } from '../cartService'
+import { getCatalogProductById } from '../productService'
+import { createMockProduct } from '../../test/testUtils'
+import type { CartItem } from '../../types/cartTypes'
+import type { Product } from '../../types/productType'
+
+vi.mock('firebase/firestore', () => ({
+  doc: vi.fn((...args: unknown[]) => ({ path: args.filter(arg => typeof arg === 'string').join('/') })),
+  getDoc: vi.fn(),
+  setDoc: vi.fn()
+}))
+vi.mock('../productService', () => ({
+  getCatalogProductById: vi.fn()
+}))
+
+const line = (id: string, quantity: number): CartItem => ({ id, product: createMockProduct({ id, price: 10 }), quantity })
+
+describe('cartService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('merges guest lines into the stored cart deterministically', () => {
+    const merged = mergeCartItems(
+      [line('c', 1), line('a', 2)],
+      [line('a', 1), line('b', 3)]
+    )
+
+    expect(merged.map(item => [item.id, item.quantity])).toEqual([['a', 3], ['b', 3], ['c', 1]])
+  })
+
+  it('picks the cart to show after login based on who owns the local cart', () => {
+    const stored = { items: [line('stored', 1)], updatedAt: 2000 }
+
+    expect(reconcileCartOnLogin({ items: [line('guest', 1)], ownerId: null }, 'user-1', stored)
+      .map(item => item.id)).toEqual(['stored', 'guest'])
+    expect(reconcileCartOnLogin({ items: [line('local', 1)], ownerId: 'user-1', updatedAt: 3000 }, 'user-1', stored)
+      .map(item => item.id)).toEqual(['local'])
+    expect(reconcileCartOnLogin({ items: [line('local', 1)], ownerId: 'user-1', updatedAt: 1000 }, 'user-1', stored)
+      .map(item => item.id)).toEqual(['stored'])
+    expect(reconcileCartOnLogin({ items: [line('other', 1)], ownerId: 'user-2' }, 'user-1', null)).toEqual([])
+  })
+
+  it('stores product references only and rehydrates them from the catalog, dropping unreadable lines', async () => {
+    await saveStoredCart('user-1', [line('a', 2)], 1234)
+
+    expect(setDoc).toHaveBeenCalledWith(
+      { path: 'carts/user-1' },
+      { userId: 'user-1', items: [{ id: 'a', productId: 'a', quantity: 2 }], updatedAt: 1234 }
+    )
+
+    vi.mocked(getDoc).mockResolvedValue({
+      exists: () => true,
+      data: () => ({
+        userId: 'user-1',
+        items: [
+          { id: 'a', productId: 'a', quantity: 2 },
+          { id: 'gone', productId: 'gone', quantity: 1 },
+          { id: 'broken', productId: 'broken', quantity: 1 }
+        ],
+        updatedAt: 1234
+      })
+    } as never)
+    vi.mocked(getCatalogProductById).mockImplementation(async (id) => {
+      if (id === 'broken') throw new Error('Failed to fetch product')
+      return id === 'a' ? createMockProduct({ id: 'a' }) : null
+    })
+
+    const cart = await getStoredCart('user-1')
+
+    expect(cart?.updatedAt).toBe(1234)
+    expect(cart?.items.map(item => [item.id, item.quantity])).toEqual([['a', 2]])
+  })
+
+  it('flags price changes, unavailable products and stock shortfalls against live data', () => {
+    const sizedProduct = createMockProduct({
+      id: 'shirt',
+      price: 10,
+      variants: [{ id: 'size', name: 'Size', options: ['S', 'M'] }],
+      inventory: { stock: 3, trackInventory: true }
+    })
+    const sizeOption = (option: string) => ({ variantId: 'size', name: 'Size', option, priceModifier: 0 })
+    const items: CartItem[] = [
+      line('a', 1),
+      line('gone', 1),
+      { id: 'shirt::size=S', product: sizedProduct, quantity: 2, selectedOptions: [sizeOption('S')] },
+      { id: 'shirt::size=M', product: sizedProduct, quantity: 2, selectedOptions: [sizeOption('M')] }
+    ]
+    const products = new Map<string, Product | null>([
+      ['a', createMockProduct({ id: 'a', price: 12 })],
+      ['gone', null],
+      ['shirt', sizedProduct]
+    ])
+
+    const result = revalidateCartItems(items, products)
+
+    expect(result.issues.map(issue => [issue.itemId, issue.type])).toEqual([
+      ['a', 'price_changed'],
+      ['gone', 'unavailable'],
+      ['shirt::size=M', 'insufficient_stock']
+    ])
+    expect(result.issues[2].availableQuantity).toBe(1)
+    expect(result.items.map(item => [item.id, item.quantity, item.product.price])).toEqual([
+      ['a', 1, 12],
+      ['shirt::size=S', 2, 10],
+      ['shirt::size=M', 1, 10]
+    ])
+  })
+})
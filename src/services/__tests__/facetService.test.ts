@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for Facet Service
+ * Tests storefront filtering, facet counts and query string round-trips
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  applyProductFilters,
+  getProductFacets,
+  getProductSort,
+  parseProductFilters,
+  parseProductSortOption,
+  sortProducts,
+  writeProductFilters,
+  writeProductSortOption
+} from '../facetService'
+import { createMockProduct } from '../../test/testUtils'
+import type { Product } from '../../types/productType'
+
+const catalog = [
+  createMockProduct({ id: 'tv', category: 'electronics', price: 500, rating: { rate: 4.5, count: 10 }, tags: ['sale'] }),
+  createMockProduct({ id: 'phone', category: 'electronics', price: 300, rating: { rate: 3.2, count: 4 }, inventory: { stock: 0, trackInventory: true } }),
+  createMockProduct({ id: 'shirt', category: 'clothing', price: 20, rating: { rate: 4.1, count: 8 }, tags: ['sale', 'summer'] }),
+  createMockProduct({ id: 'ebook', category: 'books', price: 5, rating: { rate: 0, count: 0 }, inventory: { stock: 0, trackInventory: false } })
+]
+
+const ids = (products: Product[]) => products.map(product => product.id)
+
+describe('facetService', () => {
+  it('ORs values within a facet and ANDs facets together', () => {
+    expect(ids(applyProductFilters(catalog, { categories: ['electronics', 'clothing'] }))).toEqual(['tv', 'phone', 'shirt'])
+    expect(ids(applyProductFilters(catalog, { categories: ['electronics'], inStock: true }))).toEqual(['tv'])
+    expect(ids(applyProductFilters(catalog, { tags: ['summer', 'sale'], maxPrice: 100 }))).toEqual(['shirt'])
+    expect(ids(applyProductFilters(catalog, { minRating: 4 }))).toEqual(['tv', 'shirt'])
+  })
+
+  it('treats untracked inventory as in stock', () => {
+    expect(ids(applyProductFilters(catalog, { inStock: true }))).toEqual(['tv', 'shirt', 'ebook'])
+  })
+
+  it('counts each facet against the products matching the other filters', () => {
+    const facets = getProductFacets(catalog, { categories: ['electronics'], inStock: true })
+
+    // Category counts ignore the category selection but respect the stock filter
+    expect(facets.categories).toEqual([
+      { value: 'books', count: 1 },
+      { value: 'clothing', count: 1 },
+      { value: 'electronics', count: 1 }
+    ])
+    expect(facets.inStockCount).toBe(1)
+    expect(facets.tags).toEqual([{ value: 'sale', count: 1 }])
+    expect(facets.ratings.find(rating => rating.minRating === 4)?.count).toBe(1)
+    expect(facets.priceRange).toEqual({ min: 500, max: 500 })
+  })
+
+  it('keeps selected values that no longer match anything', () => {
+    const facets = getProductFacets(catalog, { tags: ['winter'] })
+
+    expect(facets.tags).toContainEqual({ value: 'winter', count: 0 })
+  })
+
+  it('round-trips filters through the query string and keeps other parameters', () => {
+    const filters = { categories: ['electronics', 'home & garden'], tags: ['sale'], minPrice: 10, inStock: true, minRating: 4 }
+    const params = writeProductFilters(new URLSearchParams('sort=price-asc&minPrice=99'), filters)
+
+    expect(params.get('sort')).toBe('price-asc')
+    expect(parseProductFilters(params)).toEqual(filters)
+    expect(parseProductFilters(new URLSearchParams('minPrice=abc&maxPrice=-5&minRating=9&inStock=yes'))).toEqual({})
+  })
+
+  it('sorts by nested and date fields with stable tie-breaking', () => {
+    const products = [
+      createMockProduct({ id: 'b', title: 'Beta', rating: { rate: 4, count: 2 }, createdAt: new Date('2024-03-01'), salesCount: 5 }),
+      createMockProduct({ id: 'a', title: 'Alpha', rating: { rate: 4, count: 2 }, createdAt: new Date('2024-01-01') }),
+      createMockProduct({ id: 'c', title: 'Gamma', rating: { rate: 4, count: 9 }, createdAt: new Date('2024-02-01'), salesCount: 5 }),
+      createMockProduct({ id: 'd', title: 'Delta', rating: { rate: 4.5, count: 1 }, createdAt: new Date('2024-02-01'), salesCount: 1 })
+    ]
+
+    expect(ids(sortProducts(products, getProductSort('top-rated')))).toEqual(['d', 'c', 'a', 'b'])
+    expect(ids(sortProducts(products, getProductSort('newest')))).toEqual(['b', 'd', 'c', 'a'])
+    expect(ids(sortProducts(products, getProductSort('best-selling')))).toEqual(['b', 'c', 'd', 'a'])
+    expect(ids(sortProducts(products, getProductSort('price-asc')))).toEqual(['a', 'b', 'd', 'c'])
+    expect(ids(sortProducts([...products].reverse(), getProductSort('price-asc')))).toEqual(['a', 'b', 'd', 'c'])
+  })
+
+  it('keeps the sort order in the query string, leaving out the default', () => {
+    const params = writeProductSortOption(new URLSearchParams('category=books'), 'price-desc')
+
+    expect(params.toString()).toBe('category=books&sort=price-desc')
+    expect(parseProductSortOption(params)).toBe('price-desc')
+    expect(writeProductSortOption(params, 'newest').toString()).toBe('category=books')
+    expect(parseProductSortOption(new URLSearchParams('sort=cheapest'))).toBe('newest')
+  })
+})
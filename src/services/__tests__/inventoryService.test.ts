@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for Inventory Service
+ * Tests manual stock movements, ledger reconciliation and low-stock thresholds
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getDoc, getDocs, runTransaction } from 'firebase/firestore'
+import {
+  adjustProductStock,
+  isLowStock,
+  reconcileProductStock,
+  setProductStockCount,
+  validateStockAdjustment
+} from '../inventoryService'
+import { mockFirebaseAuth } from '../../test/setup'
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn((...args: unknown[]) => ({ path: args.filter(arg => typeof arg === 'string').join('/') })),
+  // A document in a collection reference gets a generated ID, like Firestore's auto IDs
+  doc: vi.fn((...args: unknown[]) => {
+    const parent = args.find((arg): arg is { path: string } => typeof (arg as { path?: unknown })?.path === 'string')
+    if (parent) return { id: 'movement-1', path: `${parent.path}/movement-1` }
+    const segments = args.filter((arg): arg is string => typeof arg === 'string')
+    return { id: segments[segments.length - 1], path: segments.join('/') }
+  }),
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  query: vi.fn((ref: unknown) => ref),
+  orderBy: vi.fn(),
+  limit: vi.fn(),
+  runTransaction: vi.fn(),
+  serverTimestamp: vi.fn(() => 'SERVER_TIMESTAMP')
+}))
+
+const transaction = { get: vi.fn(), update: vi.fn(), set: vi.fn() }
+
+// A product owned by the signed-in seller with the given stock level
+const mockProduct = (stock: number, createdBy = 'seller-1', ledger: Record<string, unknown> = {}) => {
+  transaction.get.mockResolvedValue({
+    exists: () => true,
+    data: () => ({ createdBy, inventory: { stock, trackInventory: true, ...ledger } })
+  })
+}
+
+// Movements are numbered from 1, so the newest is `movement-${quantities.length}`
+const mockLedger = (quantities: number[]) => {
+  vi.mocked(getDocs).mockResolvedValue({
+    empty: quantities.length === 0,
+    docs: quantities.map((quantity, index) => ({ id: `movement-${index + 1}`, data: () => ({ quantity }) }))
+  } as never)
+}
+
+describe('inventoryService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = { uid: 'seller-1', email: 'seller@example.com' }
+    vi.mocked(getDoc).mockResolvedValue({ exists: () => true, data: () => ({ role: 'seller' }) } as never)
+    vi.mocked(runTransaction).mockImplementation(async (_db, updateFunction) => updateFunction(transaction as never))
+  })
+
+  it('validates manual stock changes', () => {
+    expect(validateStockAdjustment({ type: 'receipt', quantity: 10, reason: '  Supplier delivery ' }))
+      .toEqual({ type: 'receipt', quantity: 10, reason: 'Supplier delivery' })
+    expect(() => validateStockAdjustment({ type: 'return', quantity: -1, reason: 'Oops' })).toThrow('must add stock')
+    expect(() => validateStockAdjustment({ type: 'adjustment', quantity: 1.5, reason: 'Count' })).toThrow('whole number')
+    expect(() => validateStockAdjustment({ type: 'adjustment', quantity: -2, reason: ' ' })).toThrow('reason')
+  })
+
+  it('records a movement with the actor and resulting stock in the same transaction', async () => {
+    mockProduct(4)
+
+    const movement = await adjustProductStock('product-1', { type: 'adjustment', quantity: -3, reason: 'Damaged' })
+
+    expect(movement).toMatchObject({ type: 'adjustment', quantity: -3, stockAfter: 1, actorId: 'seller-1' })
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'products/product-1' }),
+      expect.objectContaining({ 'inventory.stock': 1 })
+    )
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'products/product-1/inventoryMovements/movement-1' }),
+      expect.objectContaining({ type: 'adjustment', quantity: -3, reason: 'Damaged', actorEmail: 'seller@example.com' })
+    )
+  })
+
+  it('refuses to take stock below zero or to change another seller\'s stock', async () => {
+    mockProduct(2)
+    await expect(adjustProductStock('product-1', { type: 'adjustment', quantity: -3, reason: 'Count' }))
+      .rejects.toThrow('below zero')
+
+    mockProduct(2, 'seller-2')
+    await expect(adjustProductStock('product-1', { type: 'receipt', quantity: 3, reason: 'Delivery' }))
+      .rejects.toThrow('Unauthorized')
+
+    expect(transaction.update).not.toHaveBeenCalled()
+    expect(transaction.set).not.toHaveBeenCalled()
+  })
+
+  it('records an edited stock level as the difference from the current stock', async () => {
+    mockProduct(8)
+
+    expect(await setProductStockCount('product-1', 5)).toMatchObject({ quantity: -3, stockAfter: 5 })
+    expect(await setProductStockCount('product-1', 8)).toBeNull()
+    expect(transaction.set).toHaveBeenCalledTimes(1)
+  })
+
+  it('rewrites stock to match the ledger', async () => {
+    mockLedger([10, -2, -1])
+    mockProduct(9, 'seller-1', { ledgerOpened: true, lastMovementId: 'movement-3' })
+
+    expect(await reconcileProductStock('product-1')).toEqual({
+      productId: 'product-1',
+      recordedStock: 9,
+      ledgerStock: 7,
+      corrected: true,
+      openingBalance: 0
+    })
+    expect(transaction.update).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ 'inventory.stock': 7 }))
+  })
+
+  it('opens the ledger of a product with no movements at its current stock', async () => {
+    mockLedger([])
+    mockProduct(6)
+
+    const result = await reconcileProductStock('product-1')
+
+    expect(result).toMatchObject({ ledgerStock: 6, corrected: false, openingBalance: 6 })
+    expect(transaction.update).not.toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ 'inventory.stock': expect.anything() }))
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ quantity: 6, stockAfter: 6, reason: 'Opening balance' })
+    )
+  })
+
+  it('opens the ledger of a product that sold before reconciling with the stock the sales leave unexplained', async () => {
+    mockLedger([-2])
+    mockProduct(100, 'seller-1', { lastMovementId: 'movement-1' })
+
+    const result = await reconcileProductStock('product-1')
+
+    expect(result).toMatchObject({ recordedStock: 100, ledgerStock: 100, corrected: false, openingBalance: 102 })
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ quantity: 102, stockAfter: 100, reason: 'Opening balance' })
+    )
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.anything(),
+      { 'inventory.ledgerOpened': true, 'inventory.lastMovementId': 'movement-1', updatedAt: 'SERVER_TIMESTAMP' }
+    )
+  })
+
+  it('refuses to reconcile against a ledger that changed after it was read', async () => {
+    mockLedger([10, -2])
+    mockProduct(7, 'seller-1', { ledgerOpened: true, lastMovementId: 'movement-3' })
+
+    await expect(reconcileProductStock('product-1')).rejects.toThrow('Stock changed while reconciling')
+    expect(transaction.update).not.toHaveBeenCalled()
+    expect(transaction.set).not.toHaveBeenCalled()
+  })
+
+  it('flags tracked products at or below their threshold', () => {
+    expect(isLowStock({ inventory: { stock: 5, trackInventory: true } })).toBe(true)
+    expect(isLowStock({ inventory: { stock: 6, trackInventory: true } })).toBe(false)
+    expect(isLowStock({ inventory: { stock: 12, trackInventory: true, lowStockThreshold: 20 } })).toBe(true)
+    expect(isLowStock({ inventory: { stock: 0, trackInventory: false } })).toBe(false)
+  })
+})
@@ -0,0 +1,222 @@
+/**
+ * Unit Tests for Invoice Service
+ * Tests sequential invoice numbers, totals, HTML escaping and PDF output
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getDoc, runTransaction } from 'firebase/firestore'
+import {
+  buildInvoice,
+  createInvoicePdf,
+  formatCurrency,
+  getInvoiceTotalRows,
+  issueInvoice,
+  renderInvoiceHtml,
+  SELLER_DETAILS
+} from '../invoiceService'
+import { encodePdfText } from '../pdfService'
+import { mockFirebaseAuth } from '../../test/setup'
+import type { Order } from '../../types/orderType'
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(),
+  doc: vi.fn((...args: unknown[]) => {
+    const segments = args.filter((arg): arg is string => typeof arg === 'string')
+    return { id: segments[segments.length - 1], path: segments.join('/') }
+  }),
+  setDoc: vi.fn(),
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  query: vi.fn(),
+  where: vi.fn(),
+  orderBy: vi.fn(),
+  limit: vi.fn(),
+  serverTimestamp: vi.fn(() => 'SERVER_TIMESTAMP'),
+  runTransaction: vi.fn(),
+  increment: vi.fn(),
+  arrayUnion: vi.fn()
+}))
+
+// Stored dates come back as Timestamps
+const timestamp = (date: Date) => ({ toDate: () => date })
+
+const createOrder = (overrides: Partial<Order> = {}): Order => ({
+  id: 'order-1',
+  orderNumber: 'ORD-1',
+  userId: 'test-user',
+  userEmail: 'customer@example.com',
+  items: [
+    {
+      id: 'item-1',
+      productId: 'product-1',
+      product: { title: 'T-Shirt <Limited>' } as never,
+      quantity: 2,
+      selectedOptions: [{ variantId: 'size', name: 'Size', option: 'M', priceModifier: 0 }],
+      priceAtTime: 20,
+      totalPrice: 40,
+      tax: { taxClass: 'standard', jurisdiction: 'US Sales Tax', rate: 0.08, taxableAmount: 40, amount: 3.2 },
+      cancelledQuantity: 1
+    }
+  ],
+  summary: {
+    subtotal: 40,
+    tax: 3.2,
+    taxBreakdown: [{ jurisdiction: 'US Sales Tax', taxClass: 'standard', rate: 0.08, taxableAmount: 40, amount: 3.2 }],
+    shipping: 5,
+    discount: 0,
+    total: 48.2
+  },
+  status: 'delivered',
+  paymentStatus: 'paid',
+  shippingAddress: { fullName: 'Test User', addressLine1: '1 Main St', city: 'Springfield', state: 'IL', zipCode: '62701', country: 'US' },
+  createdAt: new Date('2024-03-01T12:00:00'),
+  updatedAt: new Date('2024-03-01T12:00:00'),
+  paymentMethod: 'Visa ending in 4242',
+  payment: { provider: 'mock', amountAuthorized: 48.2, amountCaptured: 48.2, amountRefunded: 0, transactions: [] },
+  ...overrides
+})
+
+const record = { invoiceNumber: 'INV-2024-000007', issuedAt: new Date('2024-03-02T12:00:00') }
+
+describe('invoiceService', () => {
+  let storedOrder: Record<string, unknown>
+  let storedCounter: Record<string, unknown> | undefined
+  let role: string
+  const transaction = { get: vi.fn(), set: vi.fn() }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(mockFirebaseAuth as { currentUser: unknown }).currentUser = { uid: 'test-user', email: 'customer@example.com' }
+    role = 'customer'
+    storedCounter = { lastNumber: 41 }
+    const order = createOrder()
+    storedOrder = { ...order, createdAt: timestamp(order.createdAt), updatedAt: timestamp(order.updatedAt) }
+
+    const read = (path: string) => {
+      if (path === 'orders/order-1') return storedOrder
+      if (path === 'counters/invoices') return storedCounter
+      if (path.startsWith('users/')) return { role }
+      return undefined
+    }
+    const snapshot = (path: string) => ({ id: path.split('/').pop(), exists: () => !!read(path), data: () => read(path) })
+
+    vi.mocked(getDoc).mockImplementation(async (ref) => snapshot((ref as unknown as { path: string }).path) as never)
+    transaction.get.mockImplementation(async (ref: { path: string }) => snapshot(ref.path))
+    // Apply the transaction's writes so a second request sees them
+    transaction.set.mockImplementation((ref: { path: string }, data: Record<string, unknown>) => {
+      if (ref.path === 'counters/invoices') storedCounter = data
+      if (ref.path === 'orders/order-1') {
+        const invoice = data.invoice as { invoiceNumber: string; issuedAt: Date }
+        storedOrder.invoice = { ...invoice, issuedAt: timestamp(invoice.issuedAt) }
+      }
+    })
+    vi.mocked(runTransaction).mockImplementation(async (_db, updateFunction) => updateFunction(transaction as never))
+  })
+
+  it('assigns the next invoice number once and reuses it afterwards', async () => {
+    const invoice = await issueInvoice('order-1')
+
+    expect(invoice.invoiceNumber).toBe(`INV-${new Date().getFullYear()}-000042`)
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'counters/invoices' }),
+      expect.objectContaining({ lastNumber: 42 }),
+      { merge: true }
+    )
+
+    const again = await issueInvoice('order-1')
+    expect(again.invoiceNumber).toBe(invoice.invoiceNumber)
+    expect(storedCounter).toMatchObject({ lastNumber: 42 })
+  })
+
+  it('only issues invoices for your own orders unless you are staff, and not for unpaid cancellations', async () => {
+    storedOrder.userId = 'someone-else'
+    await expect(issueInvoice('order-1')).rejects.toThrow('your own orders')
+
+    role = 'support'
+    await expect(issueInvoice('order-1')).resolves.toMatchObject({ orderNumber: 'ORD-1' })
+
+    delete storedOrder.invoice
+    storedOrder.status = 'cancelled'
+    storedOrder.payment = undefined
+    await expect(issueInvoice('order-1')).rejects.toThrow('cancelled before payment')
+  })
+
+  it('builds lines and totals with the tax breakdown, payments and refunds', () => {
+    const invoice = buildInvoice(createOrder({
+      payment: { provider: 'mock', amountAuthorized: 48.2, amountCaptured: 48.2, amountRefunded: 21.6, transactions: [] }
+    }), record)
+
+    expect(invoice.lines).toEqual([{
+      description: 'T-Shirt <Limited> (Size: M)',
+      quantity: 2,
+      unitPrice: 20,
+      amount: 40,
+      taxRate: 0.08,
+      note: '1 cancelled'
+    }])
+    expect(getInvoiceTotalRows(invoice)).toEqual([
+      { label: 'Subtotal', amount: 40 },
+      { label: 'Tax', amount: 3.2 },
+      { label: 'US Sales Tax 8%', amount: 3.2, detail: true },
+      { label: 'Shipping', amount: 5 },
+      { label: 'Total', amount: 48.2, emphasis: true },
+      { label: 'Amount paid', amount: 48.2 },
+      { label: 'Refunded', amount: -21.6 },
+      { label: 'Net paid', amount: 26.6, emphasis: true }
+    ])
+
+    const unpaid = buildInvoice(createOrder({ paymentStatus: 'pending', payment: undefined }), record)
+    expect(getInvoiceTotalRows(unpaid).pop()).toEqual({ label: 'Balance due', amount: 48.2, emphasis: true })
+  })
+
+  it('formats currency and escapes order details in the printable page', () => {
+    expect(formatCurrency(1234.5)).toBe('$1,234.50')
+    expect(formatCurrency(-5)).toBe('-$5.00')
+    expect(formatCurrency(10, 'EUR', 'en-US')).toBe('€10.00')
+
+    const html = renderInvoiceHtml(buildInvoice(createOrder(), record))
+
+    expect(html).toContain('<title>Invoice INV-2024-000007</title>')
+    expect(html).toContain('T-Shirt &lt;Limited&gt; (Size: M)')
+    expect(html).not.toContain('<Limited>')
+    expect(html).toContain('US Sales Tax 8%')
+    expect(html).toContain('$48.20')
+    expect(html).toContain('class="paid"')
+  })
+
+  it('prints the seller tax ID only when one is configured', () => {
+    expect(renderInvoiceHtml(buildInvoice(createOrder(), record))).not.toContain('Tax ID')
+
+    const seller = { ...SELLER_DETAILS, taxId: 'GB123456789' }
+    expect(renderInvoiceHtml(buildInvoice(createOrder(), record, seller))).toContain('Tax ID: GB123456789')
+  })
+
+  it('writes a PDF whose cross-reference table points at its objects', () => {
+    const order = createOrder()
+    // Enough lines to need a second page
+    order.items = Array.from({ length: 20 }, (_, index) => ({ ...order.items[0], id: `item-${index}` }))
+    const pdf = createInvoicePdf(buildInvoice(order, record))
+    const bytes = pdf.toBytes()
+    const output = String.fromCharCode(...bytes)
+
+    expect(pdf.pageCount).toBe(2)
+    expect(output.startsWith('%PDF-1.4')).toBe(true)
+    expect(output).toContain('(INV-2024-000007) Tj')
+    expect(output).toContain('/Count 2')
+    // The item table's header is repeated on the new page
+    expect(output.match(/\(Description\) Tj/g)).toHaveLength(2)
+
+    const xrefOffset = Number(output.match(/startxref\n(\d+)/)?.[1])
+    expect(output.slice(xrefOffset, xrefOffset + 4)).toBe('xref')
+    const entries = output.slice(xrefOffset).match(/^(\d{10}) 00000 n $/gm) || []
+    expect(entries.length).toBeGreaterThan(0)
+    entries.forEach((entry, index) => {
+      const offset = Number(entry.slice(0, 10))
+      expect(output.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`)
+    })
+  })
+
+  it('escapes PDF string delimiters and replaces characters the standard fonts lack', () => {
+    expect(encodePdfText('Mug (blue) \\ 50% – €5')).toBe('Mug \\(blue\\) \\\\ 50% \x96 \x805')
+    expect(encodePdfText('Café 日本')).toBe('Caf\xe9 ??')
+  })
+})
@@ -0,0 +1,840 @@
+/**
+ * Unit Tests for Order Service
+ * Tests transactional order creation, stock reservation, payments, status changes and cancellations
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { runTransaction, increment, getDocs, getDoc, setDoc, where } from 'firebase/firestore'
+import {
+  bulkUpdateOrderStatus,
+  calculateCancellationRefund,
+  cancelOrder,
+  cancelOrderItems,
+  createOrder,
+  getAllOrders,
+  payOrder,
+  updateOrderStatus
+} from '../orderService'
+import { InvalidStatusTransitionError } from '../orderStatusService'
+import { calculateReturnRefund } from '../returnService'
+import { createMockPaymentProvider, MOCK_TEST_CARDS, setPaymentProvider } from '../paymentService'
+import { mockFirebaseAuth } from '../../test/setup'
+import type { ShippingAddress } from '../../types/orderType'
+
+// Mock the Firestore SDK so transactions run against in-memory snapshots
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(() => ({})),
+  doc: vi.fn((...args: unknown[]) => {
+    const segments = args.filter((arg): arg is string => typeof arg === 'string')
+    return { id: segments[segments.length - 1] || 'new-order-id', path: segments.join('/') }
+  }),
+  setDoc: vi.fn(),
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  updateDoc: vi.fn(),
+  deleteDoc: vi.fn(),
+  query: vi.fn(),
+  where: vi.fn(),
+  orderBy: vi.fn(),
+  limit: vi.fn(),
+  serverTimestamp: vi.fn(() => 'SERVER_TIMESTAMP'),
+  writeBatch: vi.fn(),
+  runTransaction: vi.fn(),
+  increment: vi.fn((value: number) => ({ increment: value })),
+  arrayUnion: vi.fn((...values: unknown[]) => ({ arrayUnion: values }))
+}))
+
+const shippingAddress: ShippingAddress = {
+  fullName: 'Test User',
+  addressLine1: '1 Main St',
+  city: 'Springfield',
+  state: 'IL',
+  zipCode: '62701',
+  country: 'US'
+}
+
+const productData: Record<string, Record<string, unknown>> = {
+  'product-1': {
+    title: 'Wireless Headphones',
+    price: 99.99,
+    description: 'Headphones',
+    category: 'electronics',
+    image: '',
+    isActive: true,
+    inventory: { stock: 2, trackInventory: true }
+  },
+  'product-3': {
+    title: 'T-Shirt',
+    price: 20,
+    description: 'Shirt',
+    category: 'apparel',
+    image: '',
+    isActive: true,
+    inventory: { stock: 5, trackInventory: true },
+    variants: [{ id: 'size', name: 'Size', options: ['M', 'XL'], optionPriceModifiers: { XL: 2.5 } }]
+  },
+  'product-2': {
+    title: 'Sticker',
+    price: 1.5,
+    description: 'Sticker',
+    category: 'misc',
+    image: '',
+    isActive: true,
+    inventory: { stock: 0, trackInventory: false }
+  }
+}
+
+const promotionData: Record<string, unknown> = {
+  code: 'SAVE10',
+  type: 'percentage',
+  value: 10,
+  isActive: true,
+  usageCount: 0,
+  perUserLimit: 1
+}
+
+// Documents readable inside the fake transaction, keyed by path
+const documents: Record<string, unknown> = {
+  ...Object.fromEntries(Object.entries(productData).map(([id, data]) => [`products/${id}`, data])),
+  'promotions/promo-1': promotionData
+}
+
+// Build a fake transaction that records its writes
+const createFakeTransaction = () => ({
+  get: vi.fn(async (ref: { id: string; path: string }) => ({
+    id: ref.id,
+    exists: () => ref.path in documents,
+    data: () => documents[ref.path]
+  })),
+  update: vi.fn(),
+  set: vi.fn()
+})
+
+describe('orderService.createOrder', () => {
+  const mockRunTransaction = vi.mocked(runTransaction)
+  let transaction: ReturnType<typeof createFakeTransaction>
+
+  beforeEach(() => {
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = { uid: 'test-user', email: 'test@example.com' }
+    transaction = createFakeTransaction()
+    mockRunTransaction.mockImplementation(async (_db, updateFunction) =>
+      updateFunction(transaction as never)
+    )
+  })
+
+  it('reserves stock with atomic decrements and writes the order in one transaction', async () => {
+    const order = await createOrder({
+      items: [{ productId: 'product-1', quantity: 2 }],
+      shippingAddress
+    })
+
+    expect(mockRunTransaction).toHaveBeenCalledTimes(1)
+    expect(increment).toHaveBeenCalledWith(-2)
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'product-1' }),
+      expect.objectContaining({ 'inventory.stock': { increment: -2 } })
+    )
+    // One ledger movement for the sale, then the order itself
+    expect(transaction.set).toHaveBeenCalledTimes(2)
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ type: 'sale', quantity: -2, stockAfter: 0, orderId: 'new-order-id', actorId: 'test-user' })
+    )
+    expect(order.items).toHaveLength(1)
+    expect(order.items[0].priceAtTime).toBe(99.99)
+    expect(order.summary.subtotal).toBe(199.98)
+    expect(order.shippingMethod?.methodId).toBe('standard')
+    expect(order.summary.shipping).toBe(0)
+  })
+
+  it('charges the chosen shipping method', async () => {
+    const order = await createOrder({
+      items: [{ productId: 'product-2', quantity: 2 }],
+      shippingAddress,
+      shippingMethodId: 'express'
+    })
+
+    expect(order.shippingMethod).toMatchObject({ methodId: 'express', zone: 'domestic', cost: 19.99 })
+    expect(order.summary.shipping).toBe(19.99)
+    expect(order.summary.total).toBe(23.23)
+  })
+
+  it('merges duplicate lines before checking stock', async () => {
+    await expect(createOrder({
+      items: [
+        { productId: 'product-1', quantity: 1 },
+        { productId: 'product-1', quantity: 2 }
+      ],
+      shippingAddress
+    })).rejects.toThrow('Insufficient stock for Wireless Headphones. Available: 2, Requested: 3')
+
+    expect(transaction.get).toHaveBeenCalledTimes(1)
+    expect(transaction.update).not.toHaveBeenCalled()
+    expect(transaction.set).not.toHaveBeenCalled()
+  })
+
+  it('records one item per variant line with re-priced options and reserves their combined stock', async () => {
+    const order = await createOrder({
+      items: [
+        { productId: 'product-3', quantity: 1, selectedOptions: [{ variantId: 'size', name: 'Size', option: 'M', priceModifier: 0 }] },
+        // A stale client-side modifier must not be trusted
+        { productId: 'product-3', quantity: 2, selectedOptions: [{ variantId: 'size', name: 'Size', option: 'XL', priceModifier: 0 }] }
+      ],
+      shippingAddress
+    })
+
+    expect(order.items).toHaveLength(2)
+    expect(order.items[1].selectedOptions).toEqual([
+      { variantId: 'size', name: 'Size', option: 'XL', priceModifier: 2.5 }
+    ])
+    expect(order.items[1].priceAtTime).toBe(22.5)
+    expect(order.items[1].totalPrice).toBe(45)
+    expect(transaction.update).toHaveBeenCalledTimes(1)
+    expect(increment).toHaveBeenCalledWith(-3)
+  })
+
+  it('rejects variant products ordered without a valid option', async () => {
+    await expect(createOrder({
+      items: [{ productId: 'product-3', quantity: 1 }],
+      shippingAddress
+    })).rejects.toThrow('Please choose a Size for T-Shirt')
+
+    expect(transaction.set).not.toHaveBeenCalled()
+  })
+
+  it('applies coupon codes inside the transaction and records the redemption', async () => {
+    vi.mocked(getDocs).mockResolvedValueOnce({
+      empty: false,
+      docs: [{ id: 'promo-1', data: () => promotionData }]
+    } as never)
+
+    const order = await createOrder({
+      items: [{ productId: 'product-1', quantity: 1 }],
+      shippingAddress,
+      couponCodes: [' save10 ']
+    })
+
+    expect(order.summary.discount).toBe(10)
+    expect(order.summary.tax).toBe(7.2)
+    expect(order.summary.total).toBe(97.19)
+    expect(order.appliedPromotions).toEqual([
+      { promotionId: 'promo-1', code: 'SAVE10', type: 'percentage', discount: 10 }
+    ])
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'promotions/promo-1' }),
+      expect.objectContaining({ usageCount: { increment: 1 } })
+    )
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'promotions/promo-1/redemptions/test-user' }),
+      expect.objectContaining({ count: { increment: 1 } }),
+      { merge: true }
+    )
+  })
+
+  it('rejects unknown coupon codes before starting the transaction', async () => {
+    vi.mocked(getDocs).mockResolvedValueOnce({ empty: true, docs: [] } as never)
+
+    await expect(createOrder({
+      items: [{ productId: 'product-1', quantity: 1 }],
+      shippingAddress,
+      couponCodes: ['BOGUS']
+    })).rejects.toThrow('Coupon code BOGUS is not valid')
+
+    expect(transaction.set).not.toHaveBeenCalled()
+  })
+
+  it('does not touch stock for products that do not track inventory', async () => {
+    await createOrder({
+      items: [{ productId: 'product-2', quantity: 5 }],
+      shippingAddress
+    })
+
+    // Units sold are still counted for best-selling listings
+    expect(transaction.update).toHaveBeenCalledTimes(1)
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.not.objectContaining({ 'inventory.stock': expect.anything() })
+    )
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ salesCount: { increment: 5 } })
+    )
+    expect(transaction.set).toHaveBeenCalledTimes(1)
+  })
+
+  it('rejects orders for missing products without writing anything', async () => {
+    await expect(createOrder({
+      items: [{ productId: 'missing', quantity: 1 }],
+      shippingAddress
+    })).rejects.toThrow('Product not found: missing')
+
+    expect(transaction.set).not.toHaveBeenCalled()
+  })
+})
+
+describe('orderService payments', () => {
+  const card = (cardNumber: string) => ({
+    cardholderName: 'Test User',
+    cardNumber,
+    expiryMonth: 12,
+    expiryYear: 2099,
+    cvc: '123'
+  })
+  let provider: ReturnType<typeof createMockPaymentProvider>
+  let storedOrder: Record<string, unknown>
+  const transactionUpdate = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = { uid: 'test-user', email: 'test@example.com' }
+    provider = createMockPaymentProvider()
+    setPaymentProvider(provider)
+
+    storedOrder = {
+      orderNumber: 'ORD-1',
+      userId: 'test-user',
+      items: [],
+      summary: { subtotal: 50, tax: 0, shipping: 0, discount: 0, total: 50 },
+      status: 'pending',
+      paymentStatus: 'pending',
+      shippingAddress
+    }
+    vi.mocked(getDoc).mockImplementation(async (ref) => {
+      const path = (ref as unknown as { path: string }).path
+      const data = path === 'orders/order-1' ? storedOrder : path === 'users/test-user' ? { role: 'customer' } : undefined
+      return { id: path.split('/').pop(), exists: () => !!data, data: () => data } as never
+    })
+    // Orders here have no items, so the transaction only re-reads the order; its writes
+    // go to the setDoc mock so they can be asserted like the other order updates
+    vi.mocked(runTransaction).mockImplementation(async (_db, updateFunction) => updateFunction({
+      get: vi.fn(async () => ({ exists: () => true, data: () => storedOrder })),
+      update: transactionUpdate,
+      set: setDoc
+    } as never))
+  })
+
+  it('authorizes and captures the order total and marks the order paid', async () => {
+    const order = await payOrder('order-1', card(MOCK_TEST_CARDS.success))
+
+    expect(order.paymentStatus).toBe('paid')
+    expect(order.paymentMethod).toBe('Visa ending in 4242')
+    expect(order.payment).toMatchObject({ provider: 'mock', amountAuthorized: 50, amountCaptured: 50 })
+    expect(order.payment?.transactions.map(transaction => transaction.operation)).toEqual(['authorize', 'capture'])
+    expect(setDoc).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({ paymentStatus: 'paid' }),
+      { merge: true }
+    )
+  })
+
+  it('records a declined card as a failed payment', async () => {
+    await expect(payOrder('order-1', card(MOCK_TEST_CARDS.declined)))
+      .rejects.toThrow('Payment failed: Your card was declined')
+
+    expect(setDoc).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({ paymentStatus: 'failed' }),
+      { merge: true }
+    )
+  })
+
+  it('claims the order before charging, so a second attempt cannot pay twice', async () => {
+    const authorize = vi.spyOn(provider, 'authorize')
+    storedOrder.paymentStatus = 'processing'
+
+    await expect(payOrder('order-1', card(MOCK_TEST_CARDS.success)))
+      .rejects.toThrow('Payment failed: A payment for this order is already in progress')
+    expect(authorize).not.toHaveBeenCalled()
+
+    storedOrder.paymentStatus = 'pending'
+    await payOrder('order-1', card(MOCK_TEST_CARDS.success))
+
+    const writes = vi.mocked(setDoc).mock.calls.map(([, data]) => (data as { paymentStatus: string }).paymentStatus)
+    expect(writes).toEqual(['processing', 'paid'])
+  })
+
+  it('refunds orders paid before a page reload, from the payment stored on the order', async () => {
+    await payOrder('order-1', card(MOCK_TEST_CARDS.success))
+    const [, paid] = vi.mocked(setDoc).mock.calls.find(([, data]) => (data as { paymentStatus: string }).paymentStatus === 'paid')!
+    // Only the stored amounts and authorization matter here
+    const { payment } = paid as { payment: Record<string, unknown> }
+    Object.assign(storedOrder, { paymentStatus: 'paid', payment: { ...payment, transactions: [] } })
+
+    // A reload starts a provider that has never seen the authorization
+    setPaymentProvider(createMockPaymentProvider())
+    await cancelOrder('order-1')
+
+    expect(transactionUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({ paymentStatus: 'refunded', 'payment.amountRefunded': 50 })
+    )
+  })
+
+  it('refunds the captured amount when a paid order is cancelled', async () => {
+    const authorization = await provider.authorize({ orderId: 'order-1', amount: 50, currency: 'USD', source: card(MOCK_TEST_CARDS.success) })
+    await provider.capture(authorization.authorizationId, 50)
+    storedOrder.paymentStatus = 'paid'
+    storedOrder.payment = {
+      provider: 'mock',
+      authorizationId: authorization.authorizationId,
+      amountAuthorized: 50,
+      amountCaptured: 50,
+      amountRefunded: 0,
+      transactions: []
+    }
+
+    await cancelOrder('order-1')
+
+    // The payment is claimed before the provider is asked for the refund
+    expect(setDoc).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({ paymentStatus: 'refunding' }),
+      { merge: true }
+    )
+    expect(transactionUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({
+        paymentStatus: 'refunded',
+        'payment.amountRefunded': 50,
+        'payment.transactions': { arrayUnion: [expect.objectContaining({ operation: 'refund', amount: 50, success: true })] }
+      })
+    )
+    expect(setDoc).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({ status: 'cancelled' }),
+      { merge: true }
+    )
+  })
+
+  it('does not release a payment another cancellation has already claimed', async () => {
+    const refund = vi.spyOn(provider, 'refund')
+    storedOrder.paymentStatus = 'refunding'
+    storedOrder.payment = {
+      provider: 'mock',
+      authorizationId: 'auth-1',
+      amountAuthorized: 50,
+      amountCaptured: 50,
+      amountRefunded: 0,
+      transactions: []
+    }
+
+    await expect(cancelOrder('order-1')).rejects.toThrow('Failed to cancel order')
+
+    expect(refund).not.toHaveBeenCalled()
+    expect(setDoc).not.toHaveBeenCalled()
+    expect(transactionUpdate).not.toHaveBeenCalled()
+  })
+
+  it('hands the payment back when the provider turns the release down', async () => {
+    vi.spyOn(provider, 'void').mockResolvedValue({
+      success: false, operation: 'void', transactionId: 'txn-1', authorizationId: 'auth-1', amount: 0, errorCode: 'processing_error'
+    })
+    storedOrder.paymentStatus = 'authorized'
+    storedOrder.payment = {
+      provider: 'mock',
+      authorizationId: 'auth-1',
+      amountAuthorized: 50,
+      amountCaptured: 0,
+      amountRefunded: 0,
+      transactions: []
+    }
+
+    await expect(cancelOrder('order-1')).rejects.toThrow('Failed to cancel order')
+
+    expect(transactionUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({ paymentStatus: 'authorized' })
+    )
+    expect(setDoc).not.toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ status: 'cancelled' }), { merge: true })
+  })
+})
+
+describe('orderService.updateOrderStatus', () => {
+  let storedOrder: Record<string, unknown>
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = { uid: 'staff-user', email: 'staff@example.com' }
+    storedOrder = { userId: 'test-user', status: 'confirmed' }
+    vi.mocked(getDoc).mockImplementation(async (ref) => {
+      const path = (ref as unknown as { path: string }).path
+      const data = path === 'orders/order-1' ? storedOrder : path === 'users/staff-user' ? { role: 'support' } : undefined
+      return { id: path.split('/').pop(), exists: () => !!data, data: () => data } as never
+    })
+  })
+
+  it('records who made an allowed change and why', async () => {
+    await updateOrderStatus('order-1', 'processing', undefined, 'Picked from warehouse')
+
+    expect(setDoc).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({
+        status: 'processing',
+        statusHistory: {
+          arrayUnion: [expect.objectContaining({
+            kind: 'order',
+            from: 'confirmed',
+            to: 'processing',
+            changedBy: 'staff-user',
+            changedByRole: 'support',
+            reason: 'Picked from warehouse'
+          })]
+        }
+      }),
+      { merge: true }
+    )
+  })
+
+  it('reports why a change failed', async () => {
+    await expect(updateOrderStatus('order-2', 'processing')).rejects.toThrow('Failed to update order status: Order not found')
+  })
+
+  it('only lets customers cancel their own orders while they are pending', async () => {
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = { uid: 'test-user', email: 'test@example.com' }
+
+    await expect(updateOrderStatus('order-1', 'cancelled')).rejects.toThrow('Only pending orders can be cancelled')
+    expect(setDoc).not.toHaveBeenCalled()
+    expect(runTransaction).not.toHaveBeenCalled()
+  })
+
+  it('rejects transitions missing from the table with a typed error', async () => {
+    storedOrder.status = 'delivered'
+
+    await expect(updateOrderStatus('order-1', 'pending')).rejects.toBeInstanceOf(InvalidStatusTransitionError)
+    expect(setDoc).not.toHaveBeenCalled()
+  })
+})
+
+describe('orderService admin console', () => {
+  let role: string
+  let storedOrders: Record<string, Record<string, unknown>>
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = { uid: 'staff-user', email: 'staff@example.com' }
+    role = 'support'
+    storedOrders = {
+      'order-1': { userId: 'customer-1', status: 'processing' },
+      'order-2': { userId: 'customer-2', status: 'delivered' }
+    }
+    vi.mocked(getDoc).mockImplementation(async (ref) => {
+      const path = (ref as unknown as { path: string }).path
+      const data = path === 'users/staff-user' ? { role } : storedOrders[path.replace('orders/', '')]
+      return { id: path.split('/').pop(), exists: () => !!data, data: () => data } as never
+    })
+  })
+
+  it('lists orders from every customer and filters totals client-side', async () => {
+    const orderDoc = (id: string, total: number) => ({
+      id,
+      data: () => ({ orderNumber: id, userId: `customer-${id}`, summary: { total }, status: 'pending', paymentStatus: 'paid' })
+    })
+    vi.mocked(getDocs).mockResolvedValue({ docs: [orderDoc('a', 20), orderDoc('b', 120), orderDoc('c', 60)] } as never)
+
+    const response = await getAllOrders({ paymentStatus: 'paid', minTotal: 50 }, 2)
+
+    expect(where).toHaveBeenCalledWith('paymentStatus', '==', 'paid')
+    expect(where).not.toHaveBeenCalledWith('userId', '==', expect.anything())
+    expect(response.orders.map(order => order.id)).toEqual(['b'])
+    expect(response.hasMore).toBe(true)
+  })
+
+  it('refuses to list all orders for customers', async () => {
+    role = 'customer'
+
+    await expect(getAllOrders()).rejects.toThrow('Unauthorized to view all orders')
+    expect(getDocs).not.toHaveBeenCalled()
+  })
+
+  it('applies bulk changes per order and reports the ones that fail', async () => {
+    const result = await bulkUpdateOrderStatus(['order-1', 'order-2'], 'shipped', { 'order-1': 'TRACK-1' })
+
+    expect(result.updated).toEqual(['order-1'])
+    expect(result.failed).toEqual([{ orderId: 'order-2', error: 'Cannot change order status from delivered to shipped' }])
+    expect(setDoc).toHaveBeenCalledTimes(1)
+    expect(setDoc).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({ status: 'shipped', trackingNumber: 'TRACK-1' }),
+      { merge: true }
+    )
+  })
+})
+
+describe('orderService cancellation', () => {
+  let role: string
+  let storedOrder: Record<string, unknown>
+  let stock: Record<string, number>
+  let provider: ReturnType<typeof createMockPaymentProvider>
+  const transaction = { get: vi.fn(), update: vi.fn(), set: vi.fn() }
+
+  const orderItems = () => [
+    {
+      id: 'item-1',
+      productId: 'product-1',
+      quantity: 2,
+      priceAtTime: 20,
+      totalPrice: 40,
+      // Snapshot taken when the order was placed
+      product: { title: 'Wireless Headphones', inventory: { stock: 2, trackInventory: true } }
+    },
+    {
+      id: 'item-2',
+      productId: 'product-2',
+      quantity: 4,
+      priceAtTime: 2.5,
+      totalPrice: 10,
+      product: { title: 'Sticker', inventory: { stock: 0, trackInventory: false } }
+    }
+  ]
+
+  // Apply the transaction's order writes so a retry sees the cancelled status and lines
+  const applyOrderWrites = () => {
+    transaction.set.mock.calls
+      .filter(([ref]) => (ref as { path: string }).path === 'orders/order-1')
+      .forEach(([, data]) => {
+        const { status, items } = data as Record<string, unknown>
+        Object.assign(storedOrder, { items }, status ? { status } : {})
+      })
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = { uid: 'test-user', email: 'test@example.com' }
+    role = 'customer'
+    provider = createMockPaymentProvider()
+    setPaymentProvider(provider)
+    // Stock has changed since the order was placed
+    stock = { 'product-1': 7, 'product-2': 0 }
+    storedOrder = {
+      orderNumber: 'ORD-1',
+      userId: 'test-user',
+      items: orderItems(),
+      summary: { subtotal: 50, tax: 4, shipping: 5, discount: 0, total: 59 },
+      status: 'pending',
+      paymentStatus: 'pending',
+      shippingAddress
+    }
+
+    const read = (path: string) => {
+      if (path === 'orders/order-1') return storedOrder
+      if (path === 'users/test-user' || path === 'users/staff-user') return { role }
+      if (path === 'promotions/promo-1') return { code: 'SAVE10', usageCount: 3 }
+      if (path === 'promotions/promo-1/redemptions/test-user') return { userId: 'test-user', count: 1 }
+      if (path.startsWith('promotions/')) return undefined
+      const productId = path.replace('products/', '')
+      return productId in stock ? { inventory: { stock: stock[productId], trackInventory: productId === 'product-1' } } : undefined
+    }
+    const snapshot = (path: string) => ({ id: path.split('/').pop(), exists: () => !!read(path), data: () => read(path) })
+
+    vi.mocked(getDoc).mockImplementation(async (ref) => snapshot((ref as unknown as { path: string }).path) as never)
+    transaction.get.mockImplementation(async (ref: { path: string }) => snapshot(ref.path))
+    vi.mocked(runTransaction).mockImplementation(async (_db, updateFunction) => updateFunction(transaction as never))
+  })
+
+  it('restores stock with increments against current products in the status change transaction', async () => {
+    await cancelOrder('order-1')
+
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'products/product-1' }),
+      expect.objectContaining({ 'inventory.stock': { increment: 2 }, salesCount: { increment: -2 } })
+    )
+    // Untracked products only give back their sales count
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'products/product-2' }),
+      expect.not.objectContaining({ 'inventory.stock': expect.anything() })
+    )
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ type: 'cancellation', quantity: 2, stockAfter: 9, orderId: 'order-1' })
+    )
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({
+        status: 'cancelled',
+        items: [
+          expect.objectContaining({ id: 'item-1', cancelledQuantity: 2 }),
+          expect.objectContaining({ id: 'item-2', cancelledQuantity: 4 })
+        ]
+      }),
+      { merge: true }
+    )
+  })
+
+  it('gives back the coupon redemptions of a cancelled order, skipping deleted promotions', async () => {
+    storedOrder.appliedPromotions = [
+      { promotionId: 'promo-1', code: 'SAVE10', type: 'percentage', discount: 5 },
+      { promotionId: 'promo-deleted', code: 'OLD', type: 'fixed', discount: 1 }
+    ]
+
+    await cancelOrder('order-1')
+
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'promotions/promo-1' }),
+      expect.objectContaining({ usageCount: { increment: -1 } })
+    )
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'promotions/promo-1/redemptions/test-user' }),
+      expect.objectContaining({ count: { increment: -1 } })
+    )
+    expect(transaction.update).not.toHaveBeenCalledWith(
+      expect.objectContaining({ path: expect.stringContaining('promo-deleted') }),
+      expect.anything()
+    )
+  })
+
+  it('does nothing when a cancellation is retried', async () => {
+    await cancelOrder('order-1')
+    applyOrderWrites()
+    transaction.update.mockClear()
+    transaction.set.mockClear()
+
+    await cancelOrder('order-1')
+
+    expect(transaction.update).not.toHaveBeenCalled()
+    expect(transaction.set).not.toHaveBeenCalled()
+  })
+
+  it('restocks the cancelled units of a line once, however often the request is repeated', async () => {
+    await cancelOrderItems('order-1', { 'item-1': 1 })
+    applyOrderWrites()
+
+    expect(transaction.update).toHaveBeenCalledTimes(1)
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'products/product-1' }),
+      expect.objectContaining({ 'inventory.stock': { increment: 1 } })
+    )
+    expect(storedOrder.status).toBe('pending')
+    expect((storedOrder.items as { cancelledQuantity?: number }[])[0].cancelledQuantity).toBe(1)
+
+    transaction.update.mockClear()
+    await cancelOrderItems('order-1', { 'item-1': 1 })
+
+    expect(transaction.update).not.toHaveBeenCalled()
+    await expect(cancelOrderItems('order-1', { 'item-1': 0 })).rejects.toThrow('between 1 and 2')
+  })
+
+  it('refunds the cancelled units\' share of a paid order only once', async () => {
+    const authorization = await provider.authorize({ orderId: 'order-1', amount: 59, currency: 'USD', source: {
+      cardholderName: 'Test User', cardNumber: MOCK_TEST_CARDS.success, expiryMonth: 12, expiryYear: 2099, cvc: '123'
+    } })
+    await provider.capture(authorization.authorizationId, 59)
+    storedOrder.paymentStatus = 'paid'
+    storedOrder.payment = {
+      provider: 'mock',
+      authorizationId: authorization.authorizationId,
+      amountAuthorized: 59,
+      amountCaptured: 59,
+      amountRefunded: 0,
+      transactions: []
+    }
+    // Keep the stored payment in step with the claim and the recorded refund
+    const refund = vi.spyOn(provider, 'refund')
+    transaction.set.mockImplementation((ref: { path: string }, data: Record<string, unknown>) => {
+      if (ref.path === 'orders/order-1' && data.paymentStatus) storedOrder.paymentStatus = data.paymentStatus
+    })
+    transaction.update.mockImplementation((ref: { path: string }, data: Record<string, unknown>) => {
+      if (ref.path !== 'orders/order-1') return
+      storedOrder.paymentStatus = data.paymentStatus
+      Object.assign(storedOrder.payment as object, { amountRefunded: data['payment.amountRefunded'] })
+    })
+
+    // Half of item-1 is 20 of the 50 merchandise; merchandise plus tax is 54 of the 59 total
+    expect(calculateCancellationRefund({ items: orderItems(), summary: storedOrder.summary } as never, { 'item-1': 1 })).toBe(21.6)
+
+    await cancelOrderItems('order-1', { 'item-1': 1 })
+    applyOrderWrites()
+    await cancelOrderItems('order-1', { 'item-1': 1 })
+
+    expect(refund).toHaveBeenCalledTimes(1)
+    expect((storedOrder.payment as { amountRefunded: number }).amountRefunded).toBe(21.6)
+    expect(storedOrder.paymentStatus).toBe('paid')
+  })
+
+  it('does not refund cancelled units while another refund of the order is in progress', async () => {
+    const refund = vi.spyOn(provider, 'refund')
+    storedOrder.paymentStatus = 'refunding'
+    storedOrder.payment = {
+      provider: 'mock',
+      authorizationId: 'auth-1',
+      amountAuthorized: 59,
+      amountCaptured: 59,
+      amountRefunded: 0,
+      transactions: []
+    }
+
+    await expect(cancelOrderItems('order-1', { 'item-1': 1 })).rejects.toThrow('A refund for this order is in progress')
+
+    expect(refund).not.toHaveBeenCalled()
+    expect(transaction.update).not.toHaveBeenCalled()
+    expect(transaction.set).not.toHaveBeenCalled()
+  })
+
+  it('refunds a paid order cancelled by staff before restocking it', async () => {
+    const authorization = await provider.authorize({ orderId: 'order-1', amount: 59, currency: 'USD', source: {
+      cardholderName: 'Test User', cardNumber: MOCK_TEST_CARDS.success, expiryMonth: 12, expiryYear: 2099, cvc: '123'
+    } })
+    await provider.capture(authorization.authorizationId, 59)
+    storedOrder.status = 'processing'
+    storedOrder.paymentStatus = 'paid'
+    storedOrder.payment = {
+      provider: 'mock',
+      authorizationId: authorization.authorizationId,
+      amountAuthorized: 59,
+      amountCaptured: 59,
+      amountRefunded: 0,
+      transactions: []
+    }
+    const refund = vi.spyOn(provider, 'refund')
+    role = 'support';
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = { uid: 'staff-user', email: 'staff@example.com' }
+
+    const result = await bulkUpdateOrderStatus(['order-1'], 'cancelled', {}, 'Customer called to cancel')
+
+    expect(result.updated).toEqual(['order-1'])
+    expect(refund).toHaveBeenCalledWith(authorization.authorizationId, 59)
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({
+        paymentStatus: 'refunded',
+        'payment.amountRefunded': 59,
+        statusHistory: { arrayUnion: [expect.objectContaining({ kind: 'payment', from: 'paid', changedByRole: 'support' })] }
+      })
+    )
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({ status: 'cancelled' }),
+      { merge: true }
+    )
+  })
+
+  it('refunds cancelled units their line total and tax, whatever the order saved on shipping', () => {
+    // A free-shipping coupon takes the $5 shipping off the total
+    const order = {
+      items: [
+        { ...orderItems()[0], tax: { taxClass: 'standard', jurisdiction: 'US-IL', rate: 0.08, taxableAmount: 40, amount: 3.2 } },
+        { ...orderItems()[1], tax: { taxClass: 'standard', jurisdiction: 'US-IL', rate: 0.08, taxableAmount: 10, amount: 0.8 } }
+      ],
+      summary: { subtotal: 50, tax: 4, shipping: 5, discount: 5, total: 54 }
+    }
+
+    expect(calculateCancellationRefund(order as never, { 'item-1': 1 })).toBe(21.6)
+    expect(calculateReturnRefund(order as never, [{ itemId: 'item-1', quantity: 1 }])).toBe(21.6)
+  })
+
+  it('restocks orders cancelled by staff from the order console', async () => {
+    role = 'support';
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = { uid: 'staff-user', email: 'staff@example.com' }
+    storedOrder.status = 'processing'
+
+    await updateOrderStatus('order-1', 'cancelled', undefined, 'Out of stock at the warehouse')
+
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'products/product-1' }),
+      expect.objectContaining({ 'inventory.stock': { increment: 2 } })
+    )
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({ status: 'cancelled' }),
+      { merge: true }
+    )
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * Unit Tests for Order Status Service
+ * Tests the order and payment transition tables and the audit entries they produce
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  assertOrderStatusTransition,
+  assertPaymentStatusTransition,
+  canTransitionOrderStatus,
+  canTransitionPaymentStatus,
+  createStatusHistoryEntry,
+  InvalidStatusTransitionError
+} from '../orderStatusService'
+
+describe('orderStatusService', () => {
+  it('allows orders to move forward or be cancelled before shipping', () => {
+    expect(canTransitionOrderStatus('pending', 'confirmed')).toBe(true)
+    expect(canTransitionOrderStatus('processing', 'cancelled')).toBe(true)
+    expect(canTransitionOrderStatus('shipped', 'delivered')).toBe(true)
+
+    expect(canTransitionOrderStatus('pending', 'shipped')).toBe(false)
+    expect(canTransitionOrderStatus('shipped', 'cancelled')).toBe(false)
+    expect(canTransitionOrderStatus('cancelled', 'pending')).toBe(false)
+  })
+
+  it('allows failed payments to be retried but keeps refunds and voids final', () => {
+    expect(canTransitionPaymentStatus('failed', 'paid')).toBe(true)
+    expect(canTransitionPaymentStatus('authorized', 'voided')).toBe(true)
+    expect(canTransitionPaymentStatus('paid', 'refunded')).toBe(true)
+
+    expect(canTransitionPaymentStatus('paid', 'failed')).toBe(false)
+    expect(canTransitionPaymentStatus('refunded', 'paid')).toBe(false)
+    expect(canTransitionPaymentStatus('voided', 'authorized')).toBe(false)
+  })
+
+  it('throws a typed error describing the rejected change', () => {
+    expect(() => assertOrderStatusTransition('pending', 'confirmed')).not.toThrow()
+
+    try {
+      assertPaymentStatusTransition('refunded', 'paid')
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidStatusTransitionError)
+      expect(error).toMatchObject({
+        kind: 'payment',
+        from: 'refunded',
+        to: 'paid',
+        message: 'Cannot change payment status from refunded to paid'
+      })
+    }
+  })
+
+  it('builds history entries without empty optional fields', () => {
+    const entry = createStatusHistoryEntry('order', null, 'pending', { uid: 'user-1', email: null })
+
+    expect(entry).toMatchObject({ kind: 'order', from: null, to: 'pending', changedBy: 'user-1', changedByEmail: '' })
+    expect(entry).not.toHaveProperty('changedByRole')
+    expect(entry).not.toHaveProperty('reason')
+  })
+})
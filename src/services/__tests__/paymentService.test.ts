@@ -0,0 +1,55 @@
+/**
+ * Unit Tests for Payment Service
+ * Tests the mock gateway's deterministic outcomes and card validation
+ */
+import { describe, it, expect } from 'vitest'
+import { createMockPaymentProvider, getCardBrand, MOCK_TEST_CARDS, validatePaymentSource } from '../paymentService'
+import type { PaymentSource } from '../../types/paymentType'
+
+const source = (cardNumber: string): PaymentSource => ({
+  cardholderName: 'Test User',
+  cardNumber,
+  expiryMonth: 12,
+  expiryYear: 2099,
+  cvc: '123'
+})
+
+describe('paymentService', () => {
+  it('authorizes, captures and refunds up to the captured amount', async () => {
+    const provider = createMockPaymentProvider()
+
+    const authorization = await provider.authorize({ orderId: 'order-1', amount: 50, currency: 'USD', source: source(MOCK_TEST_CARDS.success) })
+    expect(authorization).toMatchObject({ success: true, authorizationId: 'mock_auth_order-1_1', transactionId: 'mock_authorize_1' })
+
+    expect((await provider.capture(authorization.authorizationId, 60)).errorCode).toBe('amount_too_large')
+    expect((await provider.capture(authorization.authorizationId, 50)).success).toBe(true)
+    expect((await provider.void(authorization.authorizationId)).errorCode).toBe('already_captured')
+
+    expect((await provider.refund(authorization.authorizationId, 30)).success).toBe(true)
+    expect((await provider.refund(authorization.authorizationId, 30)).errorCode).toBe('amount_too_large')
+  })
+
+  it('returns fixed failures for the decline test cards', async () => {
+    const provider = createMockPaymentProvider()
+    const request = (cardNumber: string) => ({ orderId: 'order-1', amount: 10, currency: 'USD', source: source(cardNumber) })
+
+    expect((await provider.authorize(request(MOCK_TEST_CARDS.declined))).errorCode).toBe('card_declined')
+    expect((await provider.authorize(request(MOCK_TEST_CARDS.insufficientFunds))).errorCode).toBe('insufficient_funds')
+
+    const authorization = await provider.authorize(request(MOCK_TEST_CARDS.captureFails))
+    expect(authorization.success).toBe(true)
+    expect((await provider.capture(authorization.authorizationId, 10)).errorCode).toBe('capture_failed')
+    expect((await provider.void(authorization.authorizationId)).success).toBe(true)
+  })
+
+  it('validates card details before authorizing', () => {
+    const now = new Date('2024-06-15')
+
+    expect(validatePaymentSource(source('4242 4242 4242 4242'), now)).toBeNull()
+    expect(validatePaymentSource(source('4242424242424241'), now)).toBe('Card number is invalid')
+    expect(validatePaymentSource({ ...source(MOCK_TEST_CARDS.success), expiryMonth: 5, expiryYear: 2024 }, now)).toBe('Card has expired')
+    expect(validatePaymentSource({ ...source(MOCK_TEST_CARDS.success), expiryMonth: 6, expiryYear: 2024 }, now)).toBeNull()
+    expect(validatePaymentSource({ ...source(MOCK_TEST_CARDS.success), cvc: '12' }, now)).toBe('Security code is invalid')
+    expect(getCardBrand('5555 5555 5555 4444')).toBe('Mastercard')
+  })
+})
@@ -0,0 +1,275 @@
+/**
+ * Unit Tests for Product Service
+ * Tests reserved URL slugs, storefront lookups by slug, stock movements from the product form
+ * and the storefront's Firestore filters and facet counts
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { and, getCountFromServer, getDoc, getDocs, query, runTransaction, where, writeBatch } from 'firebase/firestore'
+import {
+  createProduct,
+  deleteProduct,
+  getCatalogFacets,
+  getCatalogProductBySlug,
+  getCatalogProducts,
+  getProductPath,
+  updateProduct
+} from '../productService'
+import { mockFirebaseAuth } from '../../test/setup'
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(() => ({})),
+  doc: vi.fn((...args: unknown[]) => {
+    const segments = args.filter((arg): arg is string => typeof arg === 'string')
+    return { id: segments[segments.length - 1] || 'new-product-id', path: segments.join('/') }
+  }),
+  setDoc: vi.fn(),
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  updateDoc: vi.fn(),
+  deleteDoc: vi.fn(),
+  query: vi.fn(),
+  where: vi.fn((field: string, op: string, value: unknown) => ({ field, op, value })),
+  and: vi.fn((...filters: unknown[]) => ({ and: filters })),
+  or: vi.fn((...filters: unknown[]) => ({ or: filters })),
+  orderBy: vi.fn((field: string, direction: string) => ({ field, direction })),
+  limit: vi.fn((count: number) => ({ limit: count })),
+  startAfter: vi.fn(),
+  getCountFromServer: vi.fn(),
+  serverTimestamp: vi.fn(() => 'SERVER_TIMESTAMP'),
+  runTransaction: vi.fn(),
+  writeBatch: vi.fn()
+}))
+vi.mock('../accessControlService', () => ({
+  requireRole: vi.fn(async () => 'admin'),
+  ADMIN_ROLES: ['admin'],
+  PRODUCT_MANAGER_ROLES: ['seller', 'admin']
+}))
+
+// Slugs used by products saved before slugs were reserved
+const mockTakenSlugs = (taken: Record<string, string>) => {
+  vi.mocked(getDocs).mockImplementation(async () => {
+    const slugQuery = vi.mocked(where).mock.calls.at(-1)
+    const slug = slugQuery?.[2] as string
+    const productId = taken[slug]
+    return {
+      empty: !productId,
+      docs: productId ? [{ id: productId, data: () => ({ title: 'Existing', seo: { slug } }) }] : []
+    } as never
+  })
+}
+
+const productInput = {
+  title: 'Blue Shirt!',
+  price: 20,
+  description: 'A shirt',
+  category: 'clothing',
+  image: '',
+  stock: 5,
+  trackInventory: true
+}
+
+const batch = { set: vi.fn(), delete: vi.fn(), commit: vi.fn() }
+const transaction = { get: vi.fn(), update: vi.fn(), set: vi.fn(), delete: vi.fn() }
+
+// Slug reservations at slugs/{slug}, by the product holding them
+let reservations: Record<string, string> = {}
+
+// The stored product, read both inside and after an update's transaction
+const mockStoredProduct = (data: Record<string, unknown>) => {
+  const snapshot = { exists: () => true, id: 'product-1', data: () => data }
+  vi.mocked(getDoc).mockResolvedValue(snapshot as never)
+  transaction.get.mockImplementation(async (ref: { path: string }) => {
+    if (!ref.path.startsWith('slugs/')) return snapshot
+    const productId = reservations[ref.path.slice('slugs/'.length)]
+    return { exists: () => !!productId, data: () => ({ productId }) }
+  })
+}
+
+describe('productService slugs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = { uid: 'seller-1', email: 'seller@example.com' }
+    vi.mocked(writeBatch).mockReturnValue(batch as never)
+    vi.mocked(runTransaction).mockImplementation(async (_db, updateFunction) => updateFunction(transaction as never))
+    reservations = {}
+    mockStoredProduct({})
+  })
+
+  it('suffixes generated slugs until they are unique and reserves the slug with the product', async () => {
+    reservations = { 'blue-shirt': 'other-1' }
+    mockTakenSlugs({ 'blue-shirt-2': 'other-2' })
+
+    const product = await createProduct(productInput)
+
+    expect(product.seo?.slug).toBe('blue-shirt-3')
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ seo: expect.objectContaining({ slug: 'blue-shirt-3' }) })
+    )
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'slugs/blue-shirt-3' }),
+      expect.objectContaining({ productId: 'new-product-id' })
+    )
+    // The starting stock is the first movement in the product's ledger
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ type: 'receipt', quantity: 5, stockAfter: 5, actorId: 'seller-1' })
+    )
+    expect(runTransaction).toHaveBeenCalledTimes(1)
+  })
+
+  it('rejects a custom slug that another product already uses', async () => {
+    mockTakenSlugs({})
+    reservations = { 'summer-sale': 'other-1' }
+
+    await expect(createProduct({ ...productInput, slug: 'Summer Sale' })).rejects.toThrow('already used')
+    expect(transaction.set).not.toHaveBeenCalled()
+  })
+
+  it('keeps the slug when an edit does not change the title, and moves its reservation on a rename', async () => {
+    mockTakenSlugs({})
+    reservations = { 'blue-shirt': 'product-1' }
+    mockStoredProduct({ title: 'Blue Shirt', createdBy: 'seller-1', seo: { slug: 'blue-shirt' } })
+
+    await updateProduct('product-1', { title: 'Blue Shirt', price: 25 })
+
+    expect(transaction.update.mock.calls[0][1]).not.toHaveProperty(['seo.slug'])
+    expect(transaction.delete).not.toHaveBeenCalled()
+
+    await updateProduct('product-1', { title: 'Navy Shirt' })
+
+    expect(transaction.update.mock.calls[1][1]).toHaveProperty(['seo.slug'], 'navy-shirt')
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'slugs/navy-shirt' }),
+      expect.objectContaining({ productId: 'product-1' })
+    )
+    expect(transaction.delete).toHaveBeenCalledWith(expect.objectContaining({ path: 'slugs/blue-shirt' }))
+  })
+
+  it('releases the slug when the product is deleted', async () => {
+    mockStoredProduct({ title: 'Blue Shirt', createdBy: 'seller-1', seo: { slug: 'blue-shirt' } })
+
+    await deleteProduct('product-1')
+
+    expect(batch.delete).toHaveBeenCalledWith(expect.objectContaining({ path: 'products/product-1' }))
+    expect(batch.delete).toHaveBeenCalledWith(expect.objectContaining({ path: 'slugs/blue-shirt' }))
+    expect(batch.commit).toHaveBeenCalledTimes(1)
+  })
+
+  it('writes an edited stock level, its ledger movement and the other edits in one transaction', async () => {
+    mockStoredProduct({ title: 'Blue Shirt', createdBy: 'seller-1', inventory: { stock: 8, trackInventory: true } })
+
+    await updateProduct('product-1', { price: 25, stock: 5 })
+
+    expect(transaction.update).toHaveBeenCalledTimes(1)
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'products/product-1' }),
+      expect.objectContaining({ price: 25, 'inventory.stock': 5 })
+    )
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ type: 'adjustment', quantity: -3, stockAfter: 5 })
+    )
+  })
+
+  it('rejects an invalid stock level before writing any edits', async () => {
+    await expect(updateProduct('product-1', { price: 25, stock: -1 })).rejects.toThrow('whole number')
+    expect(runTransaction).not.toHaveBeenCalled()
+  })
+
+  it('looks up storefront products by slug, falling back to the product ID', async () => {
+    mockTakenSlugs({})
+    vi.mocked(getDoc).mockResolvedValue({
+      exists: () => true,
+      id: 'product-1',
+      data: () => ({ title: 'Blue Shirt', isActive: true, seo: { slug: 'blue-shirt' } })
+    } as never)
+
+    const product = await getCatalogProductBySlug('product-1')
+
+    expect(product?.id).toBe('product-1')
+    expect(getProductPath(product!)).toBe('/products/blue-shirt')
+    expect(getProductPath({ id: 'abc', seo: {} })).toBe('/products/abc')
+  })
+})
+
+describe('productService storefront queries', () => {
+  type Filter = { field?: string; op?: string; value?: unknown; and?: Filter[] }
+
+  // Queries keep their constraints so tests can see what Firestore was asked
+  const constraintsOf = (ref: unknown) => (ref as unknown[]).slice(1) as Filter[]
+  const inStock = { or: [
+    { field: 'inventory.trackInventory', op: '==', value: false },
+    { field: 'inventory.stock', op: '>', value: 0 }
+  ] }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(query).mockImplementation(((...args: unknown[]) => args) as never)
+  })
+
+  it('filters by category, price and stock in Firestore and by tag on each page', async () => {
+    vi.mocked(getDocs).mockResolvedValue({
+      docs: [
+        { id: 'p1', data: () => ({ title: 'Mug', category: 'kitchen', price: 8, tags: ['sale'], isActive: true }) },
+        { id: 'p2', data: () => ({ title: 'Cup', category: 'home', price: 9, tags: [], isActive: true }) }
+      ]
+    } as never)
+    vi.mocked(getCountFromServer).mockResolvedValue({ data: () => ({ count: 2 }) } as never)
+
+    const result = await getCatalogProducts(
+      { categories: ['kitchen', 'home'], minPrice: 5, maxPrice: 10, inStock: true, tags: ['sale'] },
+      { field: 'price', direction: 'asc' }
+    )
+
+    expect(and).toHaveBeenCalledWith(
+      { field: 'isActive', op: '==', value: true },
+      { field: 'category', op: 'in', value: ['kitchen', 'home'] },
+      { field: 'price', op: '>=', value: 5 },
+      { field: 'price', op: '<=', value: 10 },
+      inStock
+    )
+    expect(result.products.map(product => product.id)).toEqual(['p1'])
+    expect(result.total).toBe(2)
+  })
+
+  it('counts each facet value across the catalog against the other filters', async () => {
+    vi.mocked(getDocs).mockImplementation(async (ref) => {
+      const sort = constraintsOf(ref).find(constraint => 'direction' in constraint) as { direction?: string } | undefined
+      if (sort) {
+        return { empty: false, docs: [{ data: () => ({ price: sort.direction === 'asc' ? 4 : 60 }) }] } as never
+      }
+      // The bounded sample the facet values come from
+      return {
+        docs: [
+          { data: () => ({ category: 'kitchen', tags: ['sale', 'gift'] }) },
+          { data: () => ({ category: 'garden', tags: ['sale'] }) }
+        ]
+      } as never
+    })
+    const counts: Record<string, number> = { kitchen: 12, garden: 3, home: 0, sale: 7, gift: 2 }
+    vi.mocked(getCountFromServer).mockImplementation(async (ref) => {
+      const filters = constraintsOf(ref)[0].and || []
+      const facet = filters[filters.length - 1]
+      const count = typeof facet.value === 'string' ? counts[facet.value] : 5
+      return { data: () => ({ count }) } as never
+    })
+
+    const facets = await getCatalogFacets({ categories: ['home'], inStock: true })
+
+    expect(facets.categories).toEqual([
+      { value: 'kitchen', count: 12 },
+      { value: 'garden', count: 3 },
+      { value: 'home', count: 0 }
+    ])
+    expect(facets.tags).toEqual([{ value: 'sale', count: 7 }, { value: 'gift', count: 2 }])
+    expect(facets.priceRange).toEqual({ min: 4, max: 60 })
+    // A category's count ignores the chosen categories but keeps the stock filter
+    expect(getCountFromServer).toHaveBeenCalledWith([
+      expect.anything(),
+      { and: [{ field: 'isActive', op: '==', value: true }, inStock, { field: 'category', op: '==', value: 'garden' }] }
+    ])
+    // The facet values come from a bounded sample
+    expect(vi.mocked(getDocs).mock.calls[0][0]).toContainEqual({ limit: 200 })
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Unit Tests for Promotion Service
+ * Tests coupon eligibility rules and discount calculation
+ */
+import { describe, it, expect } from 'vitest'
+import { applyPromotions, evaluatePromotion, getPromotionIssue } from '../promotionService'
+import { createMockProduct } from '../../test/testUtils'
+import type { Promotion, PromotionLineItem } from '../../types/promotionType'
+
+const createPromotion = (overrides: Partial<Promotion>): Promotion => ({
+  id: 'promo-1',
+  code: 'SAVE10',
+  type: 'percentage',
+  value: 10,
+  isActive: true,
+  usageCount: 0,
+  categories: [],
+  tags: [],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides
+})
+
+const items: PromotionLineItem[] = [
+  { product: createMockProduct({ id: 'headphones', category: 'electronics', tags: ['audio'] }), quantity: 2, unitPrice: 50 },
+  { product: createMockProduct({ id: 'shirt', category: 'clothing' }), quantity: 1, unitPrice: 20 },
+  { product: createMockProduct({ id: 'socks', category: 'clothing' }), quantity: 3, unitPrice: 5 }
+]
+
+const context = { subtotal: 135, shipping: 9.99, userRedemptions: 0, now: new Date('2024-06-01') }
+
+describe('promotionService', () => {
+  it('applies percentage and fixed-amount discounts to in-scope items only', () => {
+    const percentage = createPromotion({ value: 10, categories: ['clothing'] })
+    const fixed = createPromotion({ type: 'fixed_amount', value: 500, tags: ['audio'] })
+
+    expect(evaluatePromotion(percentage, items, context).discount).toBe(3.5)
+    // Fixed amounts never exceed the value of the eligible items
+    expect(evaluatePromotion(fixed, items, context).discount).toBe(100)
+  })
+
+  it('gives the cheapest eligible units away for buy X get Y', () => {
+    const promotion = createPromotion({ type: 'buy_x_get_y', value: 100, buyQuantity: 2, getQuantity: 1 })
+
+    // Six units -> two free units, the two cheapest ($5 socks)
+    expect(evaluatePromotion(promotion, items, context).discount).toBe(10)
+  })
+
+  it('reports validity window, usage limit, minimum subtotal and scope problems', () => {
+    expect(getPromotionIssue(createPromotion({ endsAt: new Date('2024-05-01') }), items, context))
+      .toBe('Coupon code SAVE10 has expired')
+    expect(getPromotionIssue(createPromotion({ startsAt: new Date('2024-07-01') }), items, context))
+      .toBe('Coupon code SAVE10 is not valid yet')
+    expect(getPromotionIssue(createPromotion({ usageLimit: 5, usageCount: 5 }), items, context))
+      .toBe('Coupon code SAVE10 has reached its usage limit')
+    expect(getPromotionIssue(createPromotion({ perUserLimit: 1 }), items, { ...context, userRedemptions: 1 }))
+      .toBe('You have already used coupon code SAVE10')
+    expect(getPromotionIssue(createPromotion({ minSubtotal: 200 }), items, context))
+      .toBe('Coupon code SAVE10 requires a subtotal of at least $200.00')
+    expect(getPromotionIssue(createPromotion({ categories: ['books'] }), items, context))
+      .toBe('Coupon code SAVE10 does not apply to any items in your cart')
+    expect(getPromotionIssue(createPromotion({}), items, context)).toBeNull()
+  })
+
+  it('splits combined promotions into merchandise and shipping discounts', () => {
+    const result = applyPromotions(
+      [
+        createPromotion({ id: 'promo-1', code: 'SAVE10' }),
+        createPromotion({ id: 'promo-2', code: 'SHIPFREE', type: 'free_shipping', value: 0 })
+      ],
+      items,
+      { subtotal: context.subtotal, shipping: context.shipping, now: context.now }
+    )
+
+    expect(result.itemDiscount).toBe(13.5)
+    expect(result.shippingDiscount).toBe(9.99)
+    expect(result.appliedPromotions.map(promotion => promotion.code)).toEqual(['SAVE10', 'SHIPFREE'])
+  })
+
+  it('checks per-user limits against each promotion\'s own redemption count', () => {
+    const promotion = createPromotion({ perUserLimit: 1 })
+
+    expect(() => applyPromotions([promotion], items, context, { 'promo-1': 1 }))
+      .toThrow('You have already used coupon code SAVE10')
+  })
+})
@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for Reorder Service
+ * Tests rebuilding cart lines from past orders and ranking frequently purchased products
+ */
+import { describe, it, expect } from 'vitest'
+import { buildReorderItems, getFrequentlyPurchasedProductIds } from '../reorderService'
+import { createMockProduct } from '../../test/testUtils'
+import type { CartItem } from '../../types/cartTypes'
+import type { Order, OrderItem } from '../../types/orderType'
+import type { Product } from '../../types/productType'
+
+const orderLine = (productId: string, quantity: number, overrides: Partial<OrderItem> = {}): OrderItem => ({
+  id: `item-${productId}`,
+  productId,
+  product: createMockProduct({ id: productId, title: `Product ${productId}`, price: 8 }),
+  quantity,
+  priceAtTime: 8,
+  totalPrice: 8 * quantity,
+  ...overrides
+})
+
+const order = (id: string, createdAt: string, items: OrderItem[], overrides: Partial<Order> = {}): Order => ({
+  id,
+  orderNumber: `ORD-${id}`,
+  userId: 'user-1',
+  userEmail: 'user@example.com',
+  items,
+  summary: { subtotal: 0, tax: 0, shipping: 0, discount: 0, total: 0 },
+  status: 'delivered',
+  paymentStatus: 'paid',
+  shippingAddress: { fullName: 'Test User', addressLine1: '1 Main St', city: 'Springfield', state: 'IL', zipCode: '62701', country: 'US' },
+  createdAt: new Date(createdAt),
+  updatedAt: new Date(createdAt),
+  ...overrides
+})
+
+describe('reorderService', () => {
+  it('re-adds ordered lines with current product data', () => {
+    const current = createMockProduct({ id: 'a', price: 12 })
+
+    const result = buildReorderItems([orderLine('a', 2)], new Map([['a', current]]))
+
+    expect(result.issues).toEqual([])
+    expect(result.items).toEqual([{ product: current, quantity: 2 }])
+  })
+
+  it('skips unavailable and out-of-stock products with a reason', () => {
+    const variantProduct = createMockProduct({
+      id: 'shirt',
+      variants: [{ id: 'size', name: 'Size', options: ['M'] }]
+    })
+
+    const result = buildReorderItems(
+      [
+        orderLine('gone', 1),
+        orderLine('empty', 1),
+        orderLine('shirt', 1, { selectedOptions: [{ variantId: 'size', name: 'Size', option: 'XL', priceModifier: 0 }] })
+      ],
+      new Map<string, Product | null>([
+        ['gone', null],
+        ['empty', createMockProduct({ id: 'empty', inventory: { stock: 0, trackInventory: true } })],
+        ['shirt', variantProduct]
+      ])
+    )
+
+    expect(result.items).toEqual([])
+    expect(result.issues.map(issue => [issue.itemId, issue.type])).toEqual([
+      ['item-gone', 'unavailable'],
+      ['item-empty', 'out_of_stock'],
+      ['item-shirt', 'unavailable']
+    ])
+    expect(result.issues[0].message).toBe('Product gone is no longer available')
+  })
+
+  it('caps quantities by stock, counting what the cart already holds', () => {
+    const product = createMockProduct({ id: 'a', title: 'Product a', inventory: { stock: 5, trackInventory: true } })
+    const cart: CartItem[] = [{ id: 'a', product, quantity: 2 }]
+
+    const result = buildReorderItems([orderLine('a', 4)], new Map([['a', product]]), cart)
+
+    expect(result.items).toEqual([{ product, quantity: 3 }])
+    expect(result.issues).toEqual([
+      expect.objectContaining({ type: 'limited', addedQuantity: 3, message: 'Only 3 of 4 Product a could be added' })
+    ])
+  })
+
+  it('ranks products by how many orders included them, ignoring cancellations', () => {
+    const orders = [
+      order('1', '2024-03-01', [orderLine('a', 1), orderLine('b', 5)]),
+      order('2', '2024-02-01', [orderLine('a', 1), orderLine('c', 1)]),
+      order('3', '2024-01-01', [orderLine('c', 1), orderLine('d', 2, { cancelledQuantity: 2 })]),
+      order('4', '2024-04-01', [orderLine('e', 9)], { status: 'cancelled' })
+    ]
+
+    expect(getFrequentlyPurchasedProductIds(orders)).toEqual(['a', 'c', 'b'])
+    expect(getFrequentlyPurchasedProductIds(orders, 1)).toEqual(['a'])
+  })
+})
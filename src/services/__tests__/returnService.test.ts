@@ -0,0 +1,314 @@
+/**
+ * Unit Tests for Return Service
+ * Tests return requests, refund calculation, staff approval, receipt with restocking and refunds
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getDoc, runTransaction } from 'firebase/firestore'
+import {
+  calculateReturnRefund,
+  getReturnableQuantity,
+  receiveReturn,
+  refundReturn,
+  rejectReturn,
+  requestReturn
+} from '../returnService'
+import { createMockPaymentProvider, MOCK_TEST_CARDS, setPaymentProvider } from '../paymentService'
+import { mockFirebaseAuth } from '../../test/setup'
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn((...args: unknown[]) => ({ path: args.filter(arg => typeof arg === 'string').join('/') })),
+  // A document in a collection reference gets a generated ID, like Firestore's auto IDs
+  doc: vi.fn((...args: unknown[]) => {
+    const parent = args.find((arg): arg is { path: string } => typeof (arg as { path?: unknown })?.path === 'string')
+    if (parent) return { id: 'movement-1', path: `${parent.path}/movement-1` }
+    const segments = args.filter((arg): arg is string => typeof arg === 'string')
+    return { id: segments[segments.length - 1], path: segments.join('/') }
+  }),
+  setDoc: vi.fn(),
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  query: vi.fn(),
+  where: vi.fn(),
+  orderBy: vi.fn(),
+  limit: vi.fn(),
+  serverTimestamp: vi.fn(() => 'SERVER_TIMESTAMP'),
+  runTransaction: vi.fn(),
+  increment: vi.fn((value: number) => ({ increment: value })),
+  arrayUnion: vi.fn((...values: unknown[]) => ({ arrayUnion: values }))
+}))
+
+// Stored dates come back as Timestamps
+const timestamp = (date: Date) => ({ toDate: () => date })
+
+const toStored = (value: unknown): unknown => {
+  if (value instanceof Date) return timestamp(value)
+  if (Array.isArray(value)) return value.map(toStored)
+  if (value && typeof value === 'object' && !('toDate' in value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toStored(entry)]))
+  }
+  return value
+}
+
+const orderItems = () => [
+  {
+    id: 'item-1',
+    productId: 'product-1',
+    quantity: 2,
+    priceAtTime: 20,
+    totalPrice: 40,
+    // $4 of the order's $5 discount, then 8% tax
+    tax: { taxClass: 'standard', jurisdiction: 'US-IL', rate: 0.08, taxableAmount: 36, amount: 2.88 },
+    product: { title: 'Wireless Headphones', inventory: { stock: 2, trackInventory: true } }
+  },
+  {
+    id: 'item-2',
+    productId: 'product-2',
+    quantity: 4,
+    priceAtTime: 2.5,
+    totalPrice: 10,
+    cancelledQuantity: 1,
+    tax: { taxClass: 'standard', jurisdiction: 'US-IL', rate: 0.08, taxableAmount: 9, amount: 0.72 },
+    product: { title: 'Sticker', inventory: { stock: 0, trackInventory: false } }
+  }
+]
+
+const summary = { subtotal: 50, tax: 3.6, shipping: 5, discount: 5, total: 53.6 }
+
+describe('returnService', () => {
+  let role: string
+  let storedOrder: Record<string, unknown>
+  const transaction = { get: vi.fn(), update: vi.fn(), set: vi.fn() }
+
+  // Apply the transaction's order writes so later steps see them; payment fields are
+  // updated one at a time, after the claim that set the payment status
+  const applyOrderWrites = () => {
+    const orderWrites = (calls: unknown[][]) => calls
+      .filter(([ref]) => (ref as { path: string }).path === 'orders/order-1')
+      .map(([, data]) => data as Record<string, unknown>)
+
+    orderWrites(transaction.set.mock.calls).forEach(({ returns, paymentStatus }) => {
+      Object.assign(storedOrder, returns ? toStored({ returns }) : {}, paymentStatus ? { paymentStatus } : {})
+    })
+    orderWrites(transaction.update.mock.calls).forEach(data => {
+      Object.assign(storedOrder, toStored({ returns: data.returns }), { paymentStatus: data.paymentStatus })
+      Object.assign(storedOrder.payment as object, { amountRefunded: data['payment.amountRefunded'] })
+    })
+    transaction.set.mockClear()
+    transaction.update.mockClear()
+  }
+
+  const signInAs = (uid: string, userRole: string) => {
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = { uid, email: `${uid}@example.com` }
+    role = userRole
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    signInAs('test-user', 'customer')
+    storedOrder = {
+      orderNumber: 'ORD-1',
+      userId: 'test-user',
+      items: orderItems(),
+      summary,
+      status: 'delivered',
+      paymentStatus: 'pending'
+    }
+
+    const read = (path: string) => {
+      if (path === 'orders/order-1') return storedOrder
+      if (path.startsWith('users/')) return { role }
+      if (path === 'products/product-1') return { inventory: { stock: 4, trackInventory: true } }
+      if (path === 'products/product-2') return { inventory: { stock: 0, trackInventory: false } }
+      return undefined
+    }
+    const snapshot = (path: string) => ({ id: path.split('/').pop(), exists: () => !!read(path), data: () => read(path) })
+
+    vi.mocked(getDoc).mockImplementation(async (ref) => snapshot((ref as unknown as { path: string }).path) as never)
+    transaction.get.mockImplementation(async (ref: { path: string }) => snapshot(ref.path))
+    vi.mocked(runTransaction).mockImplementation(async (_db, updateFunction) => updateFunction(transaction as never))
+  })
+
+  it('refunds returned units their line total after discounts, with the tax charged on it', () => {
+    expect(calculateReturnRefund({ items: orderItems(), summary } as never, [{ itemId: 'item-1', quantity: 1 }])).toBe(19.44)
+    // Tax-inclusive prices already contain their tax
+    expect(calculateReturnRefund(
+      { items: orderItems(), summary: { ...summary, pricesIncludeTax: true } } as never,
+      [{ itemId: 'item-1', quantity: 1 }, { itemId: 'item-2', quantity: 2 }]
+    )).toBe(22.5)
+  })
+
+  it('records a return request with its refund and history entry', async () => {
+    const request = await requestReturn('order-1', {
+      items: [{ itemId: 'item-1', quantity: 1 }, { itemId: 'item-2', quantity: 0 }],
+      reason: ' Wrong colour '
+    })
+
+    expect(request).toMatchObject({
+      status: 'requested',
+      reason: 'Wrong colour',
+      refundAmount: 19.44,
+      items: [{ itemId: 'item-1', productId: 'product-1', title: 'Wireless Headphones', quantity: 1 }]
+    })
+    expect(request.id).toMatch(/^RMA-\d{8}-/)
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({
+        returns: [request],
+        statusHistory: { arrayUnion: [expect.objectContaining({ kind: 'return', from: null, to: 'requested' })] }
+      }),
+      { merge: true }
+    )
+  })
+
+  it('only lets customers return units of their own shipped orders that are not cancelled or already returned', async () => {
+    storedOrder.returns = [{ id: 'RMA-1', status: 'requested', items: [{ itemId: 'item-2', quantity: 2 }] }]
+    expect(getReturnableQuantity(storedOrder as never, 'item-2')).toBe(1)
+    await expect(requestReturn('order-1', { items: [{ itemId: 'item-2', quantity: 2 }], reason: 'Faded' }))
+      .rejects.toThrow('You can return up to 1 of Sticker')
+
+    // Rejected returns free their units again
+    storedOrder.returns = [{ id: 'RMA-1', status: 'rejected', items: [{ itemId: 'item-2', quantity: 2 }] }]
+    expect(getReturnableQuantity(storedOrder as never, 'item-2')).toBe(3)
+
+    storedOrder.status = 'processing'
+    await expect(requestReturn('order-1', { items: [{ itemId: 'item-1', quantity: 1 }], reason: 'Faded' }))
+      .rejects.toThrow('while an order is processing')
+
+    storedOrder.status = 'delivered'
+    storedOrder.userId = 'someone-else'
+    await expect(requestReturn('order-1', { items: [{ itemId: 'item-1', quantity: 1 }], reason: 'Faded' }))
+      .rejects.toThrow('your own orders')
+    expect(transaction.set).not.toHaveBeenCalled()
+  })
+
+  it('restocks only the received lines marked for restock, by staff only', async () => {
+    storedOrder.returns = [{
+      id: 'RMA-1',
+      status: 'approved',
+      items: [
+        { itemId: 'item-1', productId: 'product-1', title: 'Wireless Headphones', quantity: 2 },
+        { itemId: 'item-2', productId: 'product-2', title: 'Sticker', quantity: 1 }
+      ]
+    }]
+
+    await expect(receiveReturn('order-1', 'RMA-1', { 'item-1': 'restock', 'item-2': 'discard' }))
+      .rejects.toThrow('Unauthorized')
+
+    signInAs('staff-user', 'support')
+    await receiveReturn('order-1', 'RMA-1', { 'item-1': 'restock', 'item-2': 'discard' }, 'Unopened')
+
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'products/product-1' }),
+      expect.objectContaining({ 'inventory.stock': { increment: 2 }, salesCount: { increment: -2 } })
+    )
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'products/product-2' }),
+      expect.not.objectContaining({ 'inventory.stock': expect.anything() })
+    )
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'products/product-1/inventoryMovements/movement-1' }),
+      expect.objectContaining({ type: 'return', quantity: 2, stockAfter: 6, orderId: 'order-1', reason: 'Return RMA-1' })
+    )
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'orders/order-1' }),
+      expect.objectContaining({
+        returns: [expect.objectContaining({
+          status: 'received',
+          resolutionNote: 'Unopened',
+          items: [
+            expect.objectContaining({ disposition: 'restock' }),
+            expect.objectContaining({ disposition: 'discard' })
+          ]
+        })]
+      }),
+      { merge: true }
+    )
+  })
+
+  it('asks for a reason before rejecting a return', async () => {
+    signInAs('staff-user', 'support')
+    storedOrder.returns = [{ id: 'RMA-1', status: 'requested', items: [] }]
+
+    await expect(rejectReturn('order-1', 'RMA-1', '  ')).rejects.toThrow('give a reason')
+    await rejectReturn('order-1', 'RMA-1', 'Outside the return window')
+
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        returns: [expect.objectContaining({ status: 'rejected', resolutionNote: 'Outside the return window' })]
+      }),
+      { merge: true }
+    )
+  })
+
+  it('refunds a received return once, capped by what is left of the payment', async () => {
+    const provider = createMockPaymentProvider()
+    setPaymentProvider(provider)
+    const authorization = await provider.authorize({ orderId: 'order-1', amount: 53.6, currency: 'USD', source: {
+      cardholderName: 'Test User', cardNumber: MOCK_TEST_CARDS.success, expiryMonth: 12, expiryYear: 2099, cvc: '123'
+    } })
+    await provider.capture(authorization.authorizationId, 53.6)
+    const refund = vi.spyOn(provider, 'refund')
+
+    signInAs('staff-user', 'admin')
+    storedOrder.paymentStatus = 'paid'
+    storedOrder.payment = {
+      provider: 'mock',
+      authorizationId: authorization.authorizationId,
+      amountAuthorized: 53.6,
+      amountCaptured: 53.6,
+      amountRefunded: 40,
+      transactions: []
+    }
+    storedOrder.returns = [{
+      id: 'RMA-1',
+      status: 'received',
+      items: [{ itemId: 'item-1', productId: 'product-1', title: 'Wireless Headphones', quantity: 1 }],
+      refundAmount: 19.44,
+      requestedAt: timestamp(new Date()),
+      updatedAt: timestamp(new Date())
+    }]
+
+    await refundReturn('order-1', 'RMA-1')
+    applyOrderWrites()
+    await refundReturn('order-1', 'RMA-1')
+
+    expect(refund).toHaveBeenCalledTimes(1)
+    expect(refund).toHaveBeenCalledWith(authorization.authorizationId, 13.6)
+    expect(storedOrder.paymentStatus).toBe('refunded')
+    expect(storedOrder.payment).toMatchObject({ amountRefunded: 53.6 })
+    expect(storedOrder.returns).toEqual([expect.objectContaining({ status: 'refunded', refundedAmount: 13.6 })])
+  })
+
+  it('claims the payment before refunding, so a retried refund cannot pay out again', async () => {
+    const provider = createMockPaymentProvider()
+    setPaymentProvider(provider)
+    const refund = vi.spyOn(provider, 'refund')
+
+    signInAs('staff-user', 'admin')
+    // A first refund of this return is still with the provider
+    storedOrder.paymentStatus = 'refunding'
+    storedOrder.payment = {
+      provider: 'mock',
+      authorizationId: 'auth-1',
+      amountAuthorized: 53.6,
+      amountCaptured: 53.6,
+      amountRefunded: 0,
+      transactions: []
+    }
+    storedOrder.returns = [{
+      id: 'RMA-1',
+      status: 'received',
+      items: [{ itemId: 'item-1', productId: 'product-1', title: 'Wireless Headphones', quantity: 1 }],
+      refundAmount: 19.44,
+      requestedAt: timestamp(new Date()),
+      updatedAt: timestamp(new Date())
+    }]
+
+    await expect(refundReturn('order-1', 'RMA-1')).rejects.toThrow('A refund for this order is in progress')
+
+    expect(refund).not.toHaveBeenCalled()
+    expect(transaction.set).not.toHaveBeenCalled()
+    expect(transaction.update).not.toHaveBeenCalled()
+  })
+})
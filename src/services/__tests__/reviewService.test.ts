@@ -0,0 +1,143 @@
+/**
+ * Unit Tests for Review Service
+ * Tests review validation, verified purchases, moderation and the derived product rating
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getDoc, getDocs, runTransaction } from 'firebase/firestore'
+import { applyRatingChange, moderateReview, submitReview, validateReviewForm } from '../reviewService'
+import { getCatalogProductById } from '../productService'
+import { mockFirebaseAuth } from '../../test/setup'
+import type { Product } from '../../types/productType'
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn((...args: unknown[]) => ({ path: args.filter(arg => typeof arg === 'string').join('/') })),
+  collectionGroup: vi.fn(),
+  doc: vi.fn((...args: unknown[]) => ({ path: args.filter(arg => typeof arg === 'string').join('/') })),
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  query: vi.fn((ref: unknown) => ref),
+  where: vi.fn(),
+  orderBy: vi.fn(),
+  runTransaction: vi.fn(),
+  serverTimestamp: vi.fn(() => 'SERVER_TIMESTAMP')
+}))
+vi.mock('../productService', () => ({
+  getCatalogProductById: vi.fn()
+}))
+
+const product = { id: 'product-1', title: 'Product', isActive: true } as Product
+
+const transaction = { get: vi.fn(), set: vi.fn(), update: vi.fn() }
+
+// A signed-in user with the given role moderating a review of a product with the given rating
+const mockUserRole = (
+  role: string,
+  review: Record<string, unknown> = { status: 'pending' },
+  productRating: Record<string, unknown> = { rate: 4.5, count: 2, total: 9 }
+) => {
+  vi.mocked(getDoc).mockImplementation(async (ref) => {
+    const path = (ref as unknown as { path: string }).path
+    if (path.startsWith('users/')) {
+      return { exists: () => true, data: () => ({ role }) } as never
+    }
+    if (path === 'products/product-1') {
+      return { exists: () => true, data: () => ({ rating: productRating }) } as never
+    }
+    return {
+      exists: () => true,
+      data: () => ({ productId: 'product-1', userId: 'author-1', rating: 4, ...review })
+    } as never
+  })
+}
+
+describe('reviewService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = {
+      uid: 'user-1',
+      email: 'shopper@example.com',
+      displayName: 'Shopper'
+    }
+    vi.mocked(getCatalogProductById).mockResolvedValue(product)
+    transaction.get.mockImplementation((ref) => getDoc(ref))
+    vi.mocked(runTransaction).mockImplementation(async (_db, updateFunction) => updateFunction(transaction as never))
+  })
+
+  it('keeps a running total of approved stars and averages it to one decimal place', () => {
+    expect(applyRatingChange({ total: 9, count: 2 }, null, { status: 'approved', rating: 4 }))
+      .toEqual({ rate: 4.3, count: 3, total: 13 })
+    expect(applyRatingChange({ total: 13, count: 3 }, { status: 'approved', rating: 4 }, { status: 'pending', rating: 2 }))
+      .toEqual({ rate: 4.5, count: 2, total: 9 })
+    expect(applyRatingChange({ total: 5, count: 1 }, { status: 'approved', rating: 5 }, { status: 'rejected', rating: 5 }))
+      .toEqual({ rate: 0, count: 0, total: 0 })
+  })
+
+  it('trims review text and rejects ratings outside 1-5 stars', () => {
+    expect(validateReviewForm({ rating: 3, title: '  Good  ', body: ' Works well ' }))
+      .toEqual({ rating: 3, title: 'Good', body: 'Works well' })
+    expect(() => validateReviewForm({ rating: 6, title: 'Title', body: 'Body' })).toThrow('1 to 5')
+    expect(() => validateReviewForm({ rating: 4, title: ' ', body: 'Body' })).toThrow('required')
+  })
+
+  it('stores one pending review per user, flagged as verified after a delivered order', async () => {
+    vi.mocked(getDoc).mockResolvedValue({ exists: () => false } as never)
+    vi.mocked(getDocs).mockResolvedValue({
+      docs: [{ data: () => ({ items: [{ productId: 'other' }, { productId: 'product-1' }] }) }]
+    } as never)
+
+    const review = await submitReview('product-1', { rating: 5, title: 'Great', body: 'Love it' })
+
+    expect(review).toMatchObject({ id: 'user-1', status: 'pending', verifiedPurchase: true, authorName: 'Shopper' })
+    expect(transaction.set).toHaveBeenCalledWith(
+      { path: 'products/product-1/reviews/user-1' },
+      expect.objectContaining({ rating: 5, status: 'pending', verifiedPurchase: true })
+    )
+    expect(transaction.update).not.toHaveBeenCalled()
+  })
+
+  it('marks reviews without a delivered order as unverified', async () => {
+    vi.mocked(getDoc).mockResolvedValue({ exists: () => false } as never)
+    vi.mocked(getDocs).mockResolvedValue({ docs: [] } as never)
+
+    const review = await submitReview('product-1', { rating: 2, title: 'Meh', body: 'Not for me' })
+
+    expect(review.verifiedPurchase).toBe(false)
+  })
+
+  it('adds an approved review to the product rating in the same transaction as the approval', async () => {
+    mockUserRole('admin')
+
+    await moderateReview('product-1', 'author-1', 'approved')
+
+    expect(transaction.update).toHaveBeenCalledWith(
+      { path: 'products/product-1/reviews/author-1' },
+      expect.objectContaining({ status: 'approved', moderatedBy: 'user-1' })
+    )
+    expect(transaction.update).toHaveBeenCalledWith(
+      { path: 'products/product-1' },
+      expect.objectContaining({ rating: { rate: 4.3, count: 3, total: 13 } })
+    )
+    expect(getDocs).not.toHaveBeenCalled()
+  })
+
+  it('rebuilds the total from approved reviews for products rated before totals were kept', async () => {
+    mockUserRole('admin', { status: 'approved' }, { rate: 4.5, count: 2 })
+    vi.mocked(getDocs).mockResolvedValue({
+      docs: [{ data: () => ({ rating: 4 }) }, { data: () => ({ rating: 5 }) }]
+    } as never)
+
+    await moderateReview('product-1', 'author-1', 'rejected')
+
+    expect(transaction.update).toHaveBeenCalledWith(
+      { path: 'products/product-1' },
+      expect.objectContaining({ rating: { rate: 5, count: 1, total: 5 } })
+    )
+  })
+
+  it('only lets admins moderate reviews', async () => {
+    mockUserRole('customer')
+
+    await expect(moderateReview('product-1', 'author-1', 'approved')).rejects.toThrow('Unauthorized')
+    expect(transaction.update).not.toHaveBeenCalled()
+  })
+})
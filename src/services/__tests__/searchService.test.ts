@@ -0,0 +1,91 @@
+/**
+ * Unit Tests for Search Service
+ * Tests tokenization, stemming, typo tolerance, ranking and index updates
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  addProductToIndex,
+  createSearchIndex,
+  getEditDistance,
+  removeProductsFromIndex,
+  searchIndex,
+  stemWord,
+  tokenize
+} from '../searchService'
+import { createMockProduct } from '../../test/testUtils'
+
+const catalog = [
+  createMockProduct({
+    id: 'jacket',
+    title: 'Waterproof Running Jacket',
+    description: 'Lightweight shell for rainy runs',
+    category: 'clothing',
+    tags: ['outdoor']
+  }),
+  createMockProduct({
+    id: 'shoes',
+    title: 'Trail Running Shoes',
+    description: 'Grippy shoes for muddy trails',
+    category: 'footwear',
+    tags: ['running', 'trail']
+  }),
+  createMockProduct({
+    id: 'backpack',
+    title: 'Laptop Backpack',
+    description: 'Padded backpack with a jacket pocket',
+    category: 'bags'
+  })
+]
+
+const ids = (query: string, index = createSearchIndex(catalog)) =>
+  searchIndex(index, query).map(result => result.product.id)
+
+describe('searchService', () => {
+  it('tokenizes, drops stop words and stems plurals and suffixes', () => {
+    expect(tokenize('The Running Shoes, for Batteries & Boxes')).toEqual(['run', 'shoe', 'battery', 'box'])
+    expect(stemWord('dresses')).toBe('dress')
+    expect(stemWord('glass')).toBe('glass')
+    expect(tokenize('Café Crème')).toEqual(['cafe', 'creme'])
+  })
+
+  it('counts adjacent transpositions as a single edit', () => {
+    expect(getEditDistance('shirt', 'shrit')).toBe(1)
+    expect(getEditDistance('jacket', 'jackt')).toBe(1)
+    expect(getEditDistance('laptop', 'desktop', 1)).toBe(2)
+  })
+
+  it('ranks title matches above description matches', () => {
+    expect(ids('jacket')).toEqual(['jacket', 'backpack'])
+  })
+
+  it('matches the word being typed by prefix', () => {
+    expect(ids('back')).toEqual(['backpack'])
+    expect(ids('trail run')).toEqual(['shoes'])
+  })
+
+  it('tolerates typos in longer words', () => {
+    expect(ids('waterprof')).toEqual(['jacket'])
+    expect(ids('backpak')).toEqual(['backpack'])
+    expect(ids('xyz')).toEqual([])
+  })
+
+  it('requires every query word to match', () => {
+    expect(ids('running jacket')).toEqual(['jacket'])
+    expect(ids('laptop shoes')).toEqual([])
+  })
+
+  it('updates the index without mutating earlier copies', () => {
+    const index = createSearchIndex(catalog)
+    const withUmbrella = addProductToIndex(index, createMockProduct({ id: 'umbrella', title: 'Compact Umbrella' }))
+    const renamed = addProductToIndex(withUmbrella, { ...catalog[2], title: 'Laptop Sleeve', description: '' })
+    const removed = removeProductsFromIndex(renamed, ['shoes'])
+
+    expect(ids('umbrella', index)).toEqual([])
+    expect(ids('umbrella', withUmbrella)).toEqual(['umbrella'])
+    expect(ids('backpack', withUmbrella)).toEqual(['backpack'])
+    expect(ids('backpack', renamed)).toEqual([])
+    expect(ids('sleeve', renamed)).toEqual(['backpack'])
+    expect(ids('trail', removed)).toEqual([])
+    expect(ids('trail', renamed)).toEqual(['shoes'])
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * Unit Tests for Shipping Service
+ * Tests zones, billable weight and per-method rate quotes
+ */
+import { describe, it, expect } from 'vitest'
+import { calculateShipmentWeight, getShippingQuote, getShippingQuotes, getShippingZone } from '../shippingService'
+import { createMockProduct } from '../../test/testUtils'
+
+const now = new Date('2024-06-03T12:00:00')
+
+describe('shippingService', () => {
+  it('maps destination countries to zones', () => {
+    expect(getShippingZone({ country: 'us' })).toBe('domestic')
+    expect(getShippingZone({ country: 'CA' })).toBe('north_america')
+    expect(getShippingZone({ country: 'DE' })).toBe('international')
+  })
+
+  it('bills the larger of actual and volumetric weight', () => {
+    const heavy = createMockProduct({ inventory: { stock: 10, trackInventory: true, weight: 3 } })
+    const bulky = createMockProduct({ inventory: { stock: 10, trackInventory: true, weight: 1, dimensions: { length: 50, width: 40, height: 30 } } })
+    const unknown = createMockProduct()
+
+    // Bulky: 50 * 40 * 30 / 5000 = 12 kg; unknown defaults to 0.5 kg
+    expect(calculateShipmentWeight([
+      { product: heavy, quantity: 2 },
+      { product: bulky, quantity: 1 },
+      { product: unknown, quantity: 1 }
+    ])).toBe(18.5)
+  })
+
+  it('quotes every method serving the zone with cost and delivery window', () => {
+    const quotes = getShippingQuotes([{ product: createMockProduct({ inventory: { stock: 10, trackInventory: true, weight: 3.2 } }), quantity: 1 }], { country: 'US' }, 30, now)
+
+    // Standard: 9.99 + 2 extra kg * 1.50; express: 19.99 + 3 extra kg * 3
+    expect(quotes.map(quote => [quote.methodId, quote.cost])).toEqual([
+      ['pickup', 0],
+      ['standard', 12.99],
+      ['express', 28.99]
+    ])
+    expect(quotes[2].estimatedDeliveryFrom).toEqual(new Date('2024-06-04T12:00:00'))
+    expect(quotes[2].estimatedDeliveryTo).toEqual(new Date('2024-06-05T12:00:00'))
+  })
+
+  it('applies the free shipping threshold and rejects methods outside their zones', () => {
+    const lines = [{ product: createMockProduct(), quantity: 1 }]
+
+    expect(getShippingQuote('standard', lines, { country: 'US' }, 75, now).cost).toBe(0)
+    expect(getShippingQuote('standard', lines, { country: 'CA' }, 75, now).cost).toBe(14.99)
+    expect(() => getShippingQuote('pickup', lines, { country: 'DE' }, 75, now))
+      .toThrow('Store Pickup is not available for this address')
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Unit Tests for Tax Service
+ * Tests jurisdiction lookups, tax classes, inclusive pricing and rounding
+ */
+import { describe, it, expect } from 'vitest'
+import { calculateTax, DEFAULT_TAX_TABLE, findTaxRule } from '../taxService'
+import { createMockProduct } from '../../test/testUtils'
+import type { TaxTable } from '../../types/taxType'
+
+const address = (country: string, state: string, zipCode: string) => ({ country, state, zipCode })
+
+describe('taxService', () => {
+  describe('findTaxRule', () => {
+    it('prefers zip prefix over state over country rules', () => {
+      expect(findTaxRule(address('US', 'NY', '10001')).label).toBe('New York City')
+      expect(findTaxRule(address('US', 'NY', '14201')).label).toBe('New York')
+      expect(findTaxRule(address('US', 'IL', '62701')).label).toBe('US Sales Tax')
+    })
+
+    it('matches case-insensitively and falls back when no rule matches', () => {
+      expect(findTaxRule(address(' us ', 'ca', '90210')).label).toBe('California')
+      expect(findTaxRule(address('JP', '', '100-0001'))).toBe(DEFAULT_TAX_TABLE.fallbackRule)
+    })
+  })
+
+  describe('calculateTax', () => {
+    it('applies class rates and exempts exempt categories', () => {
+      const result = calculateTax(
+        [
+          { id: 'a', product: createMockProduct({ id: 'a', category: 'electronics' }), amount: 100 },
+          { id: 'b', product: createMockProduct({ id: 'b', category: 'books' }), amount: 20 },
+          { id: 'c', product: createMockProduct({ id: 'c', category: 'groceries' }), amount: 30 }
+        ],
+        address('GB', '', 'SW1A 1AA')
+      )
+
+      expect(result.lines.a).toMatchObject({ taxClass: 'standard', rate: 0.2, amount: 20 })
+      expect(result.lines.b).toMatchObject({ taxClass: 'reduced', rate: 0.05, amount: 1 })
+      expect(result.lines.c).toMatchObject({ taxClass: 'exempt', rate: 0, amount: 0 })
+      expect(result.tax).toBe(21)
+      expect(result.breakdown).toHaveLength(3)
+    })
+
+    it('rounds each line to cents so the total matches the breakdown', () => {
+      const result = calculateTax(
+        [
+          { id: 'a', product: createMockProduct({ id: 'a', category: 'electronics' }), amount: 0.99 },
+          { id: 'b', product: createMockProduct({ id: 'b', category: 'electronics' }), amount: 0.99 },
+          { id: 'c', product: createMockProduct({ id: 'c', category: 'electronics' }), amount: 0.99 }
+        ],
+        address('US', 'CA', '94105')
+      )
+
+      // 0.99 * 7.25% = 0.0718 -> 0.07 per line
+      expect(result.lines.a.amount).toBe(0.07)
+      expect(result.tax).toBe(0.21)
+      expect(result.breakdown[0].amount).toBe(result.tax)
+    })
+
+    it('spreads discounts across lines before taxing them', () => {
+      const result = calculateTax(
+        [
+          { id: 'a', product: createMockProduct({ id: 'a', category: 'electronics' }), amount: 75 },
+          { id: 'b', product: createMockProduct({ id: 'b', category: 'electronics' }), amount: 25 }
+        ],
+        address('US', 'IL', '62701'),
+        10
+      )
+
+      expect(result.lines.a.taxableAmount).toBe(67.5)
+      expect(result.lines.b.taxableAmount).toBe(22.5)
+      expect(result.tax).toBe(7.2)
+    })
+
+    it('extracts tax from tax-inclusive prices', () => {
+      const inclusiveTable: TaxTable = { ...DEFAULT_TAX_TABLE, pricesIncludeTax: true }
+      const result = calculateTax(
+        [{ id: 'a', product: createMockProduct({ id: 'a', category: 'electronics' }), amount: 120 }],
+        address('GB', '', 'SW1A 1AA'),
+        0,
+        inclusiveTable
+      )
+
+      expect(result.pricesIncludeTax).toBe(true)
+      expect(result.lines.a.amount).toBe(20)
+    })
+  })
+})
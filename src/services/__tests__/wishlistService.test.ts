@@ -0,0 +1,64 @@
+/**
+ * Unit Tests for Wishlist Service
+ * Tests per-user wishlist storage and rehydration against the live catalog
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getDocs, setDoc } from 'firebase/firestore'
+import { addToWishlist, getWishlist } from '../wishlistService'
+import { getCatalogProductById } from '../productService'
+import { mockFirebaseAuth } from '../../test/setup'
+import { createMockProduct } from '../../test/testUtils'
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn((...args: unknown[]) => ({ path: args.filter(arg => typeof arg === 'string').join('/') })),
+  doc: vi.fn((...args: unknown[]) => ({ path: args.filter(arg => typeof arg === 'string').join('/') })),
+  getDocs: vi.fn(),
+  setDoc: vi.fn(),
+  deleteDoc: vi.fn(),
+  orderBy: vi.fn(),
+  query: vi.fn((ref: unknown) => ref)
+}))
+vi.mock('../productService', () => ({
+  getCatalogProductById: vi.fn()
+}))
+
+describe('wishlistService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = { uid: 'user-1', email: 'test@example.com' }
+  })
+
+  it('stores entries under the user with an encoded document id', async () => {
+    const selectedOptions = [{ variantId: 'size', name: 'Size', option: 'S/M', priceModifier: 0 }]
+
+    const item = await addToWishlist(createMockProduct({ id: 'shirt' }), selectedOptions)
+
+    expect(item.productId).toBe('shirt')
+    expect(setDoc).toHaveBeenCalledWith(
+      { path: `users/user-1/wishlist/${encodeURIComponent(item.id)}` },
+      expect.objectContaining({ id: item.id, productId: 'shirt', selectedOptions })
+    )
+  })
+
+  it('returns saved entries with live product data and null for removed products', async () => {
+    vi.mocked(getDocs).mockResolvedValue({
+      docs: [
+        { data: () => ({ id: 'a', productId: 'a', addedAt: { toDate: () => new Date('2024-02-01') } }) },
+        { data: () => ({ id: 'gone', productId: 'gone', addedAt: { toDate: () => new Date('2024-01-01') } }) }
+      ]
+    } as never)
+    vi.mocked(getCatalogProductById).mockImplementation(async (id) => (id === 'a' ? createMockProduct({ id: 'a' }) : null))
+
+    const entries = await getWishlist()
+
+    expect(entries.map(entry => [entry.id, entry.product?.id ?? null])).toEqual([['a', 'a'], ['gone', null]])
+    expect(entries[0].addedAt).toEqual(new Date('2024-02-01'))
+  })
+
+  it('rejects when no user is signed in', async () => {
+    (mockFirebaseAuth as { currentUser: unknown }).currentUser = null
+
+    await expect(addToWishlist(createMockProduct({ id: 'a' }))).rejects.toThrow('Failed to save item')
+    expect(setDoc).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,63 @@
+/**
+ * Access Control Service
+ * Role-based permission checks shared by route guards and Firestore mutations
+ */
+
+import { doc, getDoc } from "firebase/firestore";
+import { auth, db } from "../firebase/index";
+import type { UserRole } from "../types/authTypes";
+
+// All roles, from least to most privileged
+export const USER_ROLES: UserRole[] = ['customer', 'seller', 'support', 'admin'];
+
+// Roles allowed to create and edit their own products
+export const PRODUCT_MANAGER_ROLES: UserRole[] = ['seller', 'admin'];
+
+// Roles allowed to manage orders placed by other users
+export const ORDER_MANAGER_ROLES: UserRole[] = ['support', 'admin'];
+
+// Roles allowed to use internal tooling and destructive bulk operations
+export const ADMIN_ROLES: UserRole[] = ['admin'];
+
+/**
+ * Check whether a role is one of the allowed roles
+ */
+export const hasRole = (role: UserRole | undefined | null, allowedRoles: UserRole[]): boolean => {
+  return !!role && allowedRoles.includes(role);
+};
+
+/**
+ * Read the current user's role from their Firestore profile
+ * Returns null when nobody is signed in. Only admins may change a role; firestore.rules
+ * enforces that and the role checks made here.
+ */
+export const getCurrentUserRole = async (): Promise<UserRole | null> => {
+  const user = auth.currentUser;
+  if (!user) {
+    return null;
+  }
+
+  const userDoc = await getDoc(doc(db, "users", user.uid));
+  if (!userDoc.exists()) {
+    return 'customer';
+  }
+
+  return userDoc.data().role || 'customer';
+};
+
+/**
+ * Ensure the current user holds one of the allowed roles
+ * Returns the role so callers can make finer-grained decisions (e.g. admin overrides)
+ */
+export const requireRole = async (allowedRoles: UserRole[], action: string): Promise<UserRole> => {
+  const role = await getCurrentUserRole();
+  if (!role) {
+    throw new Error(`User must be authenticated to ${action}`);
+  }
+
+  if (!hasRole(role, allowedRoles)) {
+    throw new Error(`Unauthorized to ${action}: requires ${allowedRoles.join(' or ')} role`);
+  }
+
+  return role;
+};
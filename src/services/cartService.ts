@@ -0,0 +1,240 @@
+/**
+ * Cart Service
+ * Firestore persistence for signed-in carts, the guest/stored cart merge on login,
+ * and revalidation of cart lines against the live catalog
+ */
+
+import { doc, getDoc, setDoc } from "firebase/firestore";
+import { db } from "../firebase/index";
+import { getCatalogProductById } from "./productService";
+import { getEffectiveUnitPrice, resolveVariantSelection } from "./variantService";
+import type {
+  CartItem,
+  CartLineIssue,
+  CartRevalidationResult,
+  CartState,
+  SavedCart,
+  StoredCart,
+  StoredCartItem
+} from "../types/cartTypes";
+import type { Product } from "../types/productType";
+
+// ========================================
+// Firestore Persistence
+// ========================================
+
+/**
+ * Load a user's saved cart from carts/{uid}
+ * Products are re-read from the catalog, so lines for removed, inactive or unreadable products are dropped.
+ * Returns null when the user has no saved cart.
+ */
+export const getStoredCart = async (uid: string): Promise<SavedCart | null> => {
+  try {
+    const cartDoc = await getDoc(doc(db, "carts", uid));
+    if (!cartDoc.exists()) {
+      return null;
+    }
+
+    const data = cartDoc.data() as StoredCart;
+    const storedItems = data.items || [];
+    // A product that cannot be loaded only drops its own line
+    const products = await Promise.allSettled(
+      storedItems.map(item => getCatalogProductById(item.productId))
+    );
+
+    const items: CartItem[] = [];
+    storedItems.forEach((item, index) => {
+      const result = products[index];
+      const product = result.status === "fulfilled" ? result.value : null;
+      if (!product) {
+        return;
+      }
+      items.push({
+        id: item.id,
+        product,
+        quantity: item.quantity,
+        ...(item.selectedOptions && item.selectedOptions.length > 0 ? { selectedOptions: item.selectedOptions } : {})
+      });
+    });
+
+    return { items, updatedAt: data.updatedAt || 0 };
+  } catch (error) {
+    console.error("Error loading saved cart:", error);
+    throw new Error("Failed to load saved cart");
+  }
+};
+
+/**
+ * Save a user's cart to carts/{uid}
+ * Only product references are stored; prices and details always come from the catalog.
+ */
+export const saveStoredCart = async (uid: string, items: CartItem[], updatedAt: number): Promise<void> => {
+  try {
+    const storedCart: StoredCart = {
+      userId: uid,
+      items: items.map(toStoredCartItem),
+      updatedAt
+    };
+    await setDoc(doc(db, "carts", uid), storedCart);
+  } catch (error) {
+    console.error("Error saving cart:", error);
+    throw new Error("Failed to save cart");
+  }
+};
+
+const toStoredCartItem = (item: CartItem): StoredCartItem => ({
+  id: item.id,
+  productId: item.product.id,
+  quantity: item.quantity,
+  ...(item.selectedOptions && item.selectedOptions.length > 0 ? { selectedOptions: item.selectedOptions } : {})
+});
+
+// ========================================
+// Merging
+// ========================================
+
+/**
+ * Merge a guest cart into a stored cart
+ * Stored lines keep their order and guest-only lines follow in theirs. Lines present
+ * in both add their quantities and use the stored (freshly loaded) product.
+ */
+export const mergeCartItems = (guestItems: CartItem[], storedItems: CartItem[]): CartItem[] => {
+  const guestById = new Map(guestItems.map(item => [item.id, item]));
+
+  const merged = storedItems.map(item => {
+    const guestItem = guestById.get(item.id);
+    return guestItem ? { ...item, quantity: item.quantity + guestItem.quantity } : item;
+  });
+
+  const storedIds = new Set(storedItems.map(item => item.id));
+  return [...merged, ...guestItems.filter(item => !storedIds.has(item.id))];
+};
+
+/**
+ * Decide which cart a user should see after signing in
+ * - Guest cart: merged into the stored cart
+ * - Cart already owned by this user (e.g. after a reload): the newer of the local and stored copies
+ * - Cart left behind by another user: discarded in favour of the stored cart
+ */
+export const reconcileCartOnLogin = (
+  localCart: Pick<CartState, 'items' | 'ownerId' | 'updatedAt'>,
+  uid: string,
+  storedCart: SavedCart | null
+): CartItem[] => {
+  const storedItems = storedCart?.items || [];
+
+  if (!localCart.ownerId) {
+    return mergeCartItems(localCart.items, storedItems);
+  }
+
+  if (localCart.ownerId === uid) {
+    if (!storedCart || (localCart.updatedAt || 0) >= storedCart.updatedAt) {
+      return localCart.items;
+    }
+    return storedItems;
+  }
+
+  return storedItems;
+};
+
+// ========================================
+// Revalidation
+// ========================================
+
+/**
+ * Load the live catalog entry for each product in the cart
+ * Missing and inactive products map to null.
+ */
+export const fetchCartProducts = async (items: CartItem[]): Promise<Map<string, Product | null>> => {
+  return fetchCatalogProducts(items.map(item => item.product.id));
+};
+
+/**
+ * Load the live catalog entry for each product ID
+ * Missing and inactive products map to null.
+ */
+export const fetchCatalogProducts = async (productIds: string[]): Promise<Map<string, Product | null>> => {
+  const uniqueIds = [...new Set(productIds)];
+  const products = await Promise.all(uniqueIds.map(productId => getCatalogProductById(productId)));
+  return new Map(uniqueIds.map((productId, index) => [productId, products[index] || null]));
+};
+
+/**
+ * Compare cart lines with live products and build the updated cart
+ * Lines pick up current product details and prices; lines for unavailable products or
+ * options are dropped; quantities are capped so lines of the same product share its stock,
+ * earlier lines first (matching how createOrder reserves stock).
+ */
+export const revalidateCartItems = (
+  items: CartItem[],
+  products: Map<string, Product | null>
+): CartRevalidationResult => {
+  const issues: CartLineIssue[] = [];
+  const refreshed: CartItem[] = [];
+  const remainingStock = new Map<string, number>();
+
+  for (const item of items) {
+    const product = products.get(item.product.id);
+    if (!product) {
+      issues.push({
+        itemId: item.id,
+        type: 'unavailable',
+        message: `${item.product.title} is no longer available`
+      });
+      continue;
+    }
+
+    let selectedOptions;
+    try {
+      selectedOptions = resolveVariantSelection(product, item.selectedOptions);
+    } catch (error) {
+      issues.push({
+        itemId: item.id,
+        type: 'unavailable',
+        message: error instanceof Error ? error.message : `${product.title} is no longer available`
+      });
+      continue;
+    }
+
+    const previousPrice = getEffectiveUnitPrice(item.product, item.selectedOptions);
+    const currentPrice = getEffectiveUnitPrice(product, selectedOptions);
+    if (previousPrice !== currentPrice) {
+      issues.push({
+        itemId: item.id,
+        type: 'price_changed',
+        message: `${product.title} now costs $${currentPrice.toFixed(2)} (was $${previousPrice.toFixed(2)})`,
+        previousPrice,
+        currentPrice
+      });
+    }
+
+    let quantity = item.quantity;
+    if (product.inventory.trackInventory) {
+      const available = remainingStock.get(product.id) ?? product.inventory.stock;
+      quantity = Math.min(item.quantity, Math.max(available, 0));
+      remainingStock.set(product.id, available - quantity);
+
+      if (quantity < item.quantity) {
+        issues.push({
+          itemId: item.id,
+          type: 'insufficient_stock',
+          message: quantity > 0
+            ? `Only ${quantity} of ${product.title} can be ordered`
+            : `${product.title} is out of stock`,
+          availableQuantity: quantity
+        });
+      }
+    }
+
+    if (quantity > 0) {
+      refreshed.push({
+        id: item.id,
+        product,
+        quantity,
+        ...(selectedOptions.length > 0 ? { selectedOptions } : {})
+      });
+    }
+  }
+
+  return { items: refreshed, issues };
+};
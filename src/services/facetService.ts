@@ -0,0 +1,307 @@
+/**
+ * Facet Service
+ * Client-side product filtering, sorting, facet counts and the URL query string
+ * form of the storefront filters and sort order. The storefront runs the same
+ * filters in Firestore (see productService); these apply them to loaded products.
+ */
+
+import type {
+  FacetCount,
+  Product,
+  ProductFacets,
+  ProductFilters,
+  ProductSort,
+  ProductSortOption
+} from "../types/productType";
+
+// Star thresholds offered by the minimum rating facet
+export const RATING_FACET_THRESHOLDS = [4, 3, 2, 1];
+
+// Most categories one listing can filter by, so the Firestore query stays within its `in` limits
+export const MAX_SELECTED_CATEGORIES = 10;
+
+// Query string keys used for each filter
+const FILTER_PARAMS = {
+  category: 'category',
+  tag: 'tag',
+  minPrice: 'minPrice',
+  maxPrice: 'maxPrice',
+  inStock: 'inStock',
+  minRating: 'minRating'
+} as const;
+
+export type FacetKey = 'categories' | 'tags' | 'price' | 'inStock' | 'rating';
+
+// Storefront sort choices in the order they are offered
+export const PRODUCT_SORT_OPTIONS: { value: ProductSortOption; label: string; sort: ProductSort }[] = [
+  { value: 'newest', label: 'Newest', sort: { field: 'createdAt', direction: 'desc' } },
+  { value: 'price-asc', label: 'Price: Low to High', sort: { field: 'price', direction: 'asc' } },
+  { value: 'price-desc', label: 'Price: High to Low', sort: { field: 'price', direction: 'desc' } },
+  { value: 'top-rated', label: 'Top Rated', sort: { field: 'rating.rate', direction: 'desc' } },
+  { value: 'best-selling', label: 'Best Selling', sort: { field: 'salesCount', direction: 'desc' } }
+];
+
+export const DEFAULT_PRODUCT_SORT_OPTION: ProductSortOption = 'newest';
+
+const SORT_PARAM = 'sort';
+
+// ========================================
+// FILTERING
+// ========================================
+
+/**
+ * Whether a product can be bought right now
+ */
+export const isProductInStock = (product: Product): boolean => {
+  return !product.inventory.trackInventory || product.inventory.stock > 0;
+};
+
+/**
+ * Selected categories, accepting the older single-category filter too
+ */
+export const getSelectedCategories = (filters: ProductFilters): string[] => {
+  if (filters.categories && filters.categories.length > 0) return filters.categories;
+  return filters.category ? [filters.category] : [];
+};
+
+/**
+ * Whether a product passes the filters, optionally ignoring one facet
+ * Values within a facet are OR'd; facets are AND'd together.
+ */
+export const matchesProductFilters = (
+  product: Product,
+  filters: ProductFilters,
+  ignoreFacet?: FacetKey
+): boolean => {
+  const categories = getSelectedCategories(filters);
+  if (ignoreFacet !== 'categories' && categories.length > 0 && !categories.includes(product.category)) {
+    return false;
+  }
+
+  if (ignoreFacet !== 'tags' && filters.tags && filters.tags.length > 0 &&
+    !(product.tags || []).some(tag => filters.tags!.includes(tag))) {
+    return false;
+  }
+
+  if (ignoreFacet !== 'price') {
+    if (filters.minPrice !== undefined && product.price < filters.minPrice) return false;
+    if (filters.maxPrice !== undefined && product.price > filters.maxPrice) return false;
+  }
+
+  if (ignoreFacet !== 'inStock' && filters.inStock && !isProductInStock(product)) {
+    return false;
+  }
+
+  if (ignoreFacet !== 'rating' && filters.minRating !== undefined && product.rating.rate < filters.minRating) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Products that pass every filter, in their original order
+ */
+export const applyProductFilters = (products: Product[], filters: ProductFilters): Product[] => {
+  return products.filter(product => matchesProductFilters(product, filters));
+};
+
+/**
+ * Count each facet value against the products matching the other active filters,
+ * so choosing one category still shows how many products the others would add
+ */
+export const getProductFacets = (products: Product[], filters: ProductFilters): ProductFacets => {
+  const matchingExcept = (facet: FacetKey) =>
+    products.filter(product => matchesProductFilters(product, filters, facet));
+
+  const categoryCounts = countValues(matchingExcept('categories').map(product => [product.category]));
+  const tagCounts = countValues(matchingExcept('tags').map(product => product.tags || []));
+
+  const ratingProducts = matchingExcept('rating');
+  const priceProducts = matchingExcept('price');
+  const prices = priceProducts.map(product => product.price);
+
+  return {
+    categories: withSelectedValues(categoryCounts, getSelectedCategories(filters)),
+    tags: withSelectedValues(tagCounts, filters.tags || []),
+    inStockCount: matchingExcept('inStock').filter(isProductInStock).length,
+    ratings: RATING_FACET_THRESHOLDS.map(minRating => ({
+      minRating,
+      count: ratingProducts.filter(product => product.rating.rate >= minRating).length
+    })),
+    priceRange: prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : null
+  };
+};
+
+/**
+ * Whether any storefront filter is active
+ */
+export const hasActiveFilters = (filters: ProductFilters): boolean => {
+  return getSelectedCategories(filters).length > 0 ||
+    (filters.tags?.length ?? 0) > 0 ||
+    filters.minPrice !== undefined ||
+    filters.maxPrice !== undefined ||
+    !!filters.inStock ||
+    filters.minRating !== undefined;
+};
+
+// ========================================
+// SORTING
+// ========================================
+
+/**
+ * Value a product is sorted by, reading nested paths such as `rating.rate`
+ * and comparing dates by their timestamp
+ */
+export const getProductSortValue = (product: Product, field: ProductSort['field']): string | number => {
+  switch (field) {
+    case 'title':
+      return product.title || '';
+    case 'price':
+      return product.price;
+    case 'createdAt':
+      return product.createdAt.getTime();
+    case 'updatedAt':
+      return product.updatedAt.getTime();
+    case 'rating.rate':
+      return product.rating.rate;
+    case 'salesCount':
+      return product.salesCount ?? 0;
+  }
+};
+
+/**
+ * Sorted copy of the products
+ * Equal values fall back to review count (for ratings), then title and ID, so the
+ * order never depends on how the products happened to arrive.
+ */
+export const sortProducts = (products: Product[], sort: ProductSort): Product[] => {
+  const direction = sort.direction === 'asc' ? 1 : -1;
+
+  return [...products].sort((a, b) =>
+    direction * compareValues(getProductSortValue(a, sort.field), getProductSortValue(b, sort.field)) ||
+    (sort.field === 'rating.rate' ? b.rating.count - a.rating.count : 0) ||
+    compareValues(getProductSortValue(a, 'title'), getProductSortValue(b, 'title')) ||
+    compareValues(a.id, b.id)
+  );
+};
+
+/**
+ * Sort order behind a storefront sort choice
+ */
+export const getProductSort = (option: ProductSortOption): ProductSort => {
+  return (PRODUCT_SORT_OPTIONS.find(choice => choice.value === option) ?? PRODUCT_SORT_OPTIONS[0]).sort;
+};
+
+// ========================================
+// URL Serialization
+// ========================================
+
+/**
+ * Read storefront filters from a query string, ignoring malformed values
+ */
+export const parseProductFilters = (params: URLSearchParams): ProductFilters => {
+  const filters: ProductFilters = {};
+
+  const categories = unique(params.getAll(FILTER_PARAMS.category).filter(Boolean)).slice(0, MAX_SELECTED_CATEGORIES);
+  if (categories.length > 0) filters.categories = categories;
+
+  const tags = unique(params.getAll(FILTER_PARAMS.tag).filter(Boolean));
+  if (tags.length > 0) filters.tags = tags;
+
+  const minPrice = parseNonNegativeNumber(params.get(FILTER_PARAMS.minPrice));
+  if (minPrice !== undefined) filters.minPrice = minPrice;
+
+  const maxPrice = parseNonNegativeNumber(params.get(FILTER_PARAMS.maxPrice));
+  if (maxPrice !== undefined) filters.maxPrice = maxPrice;
+
+  if (params.get(FILTER_PARAMS.inStock) === 'true') filters.inStock = true;
+
+  const minRating = parseNonNegativeNumber(params.get(FILTER_PARAMS.minRating));
+  if (minRating !== undefined && minRating <= 5) filters.minRating = minRating;
+
+  return filters;
+};
+
+/**
+ * Write storefront filters into a copy of the query string
+ * Parameters that are not filters (e.g. sort order) are kept as they are.
+ */
+export const writeProductFilters = (params: URLSearchParams, filters: ProductFilters): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  Object.values(FILTER_PARAMS).forEach(key => next.delete(key));
+
+  getSelectedCategories(filters).forEach(category => next.append(FILTER_PARAMS.category, category));
+  (filters.tags || []).forEach(tag => next.append(FILTER_PARAMS.tag, tag));
+  if (filters.minPrice !== undefined) next.set(FILTER_PARAMS.minPrice, String(filters.minPrice));
+  if (filters.maxPrice !== undefined) next.set(FILTER_PARAMS.maxPrice, String(filters.maxPrice));
+  if (filters.inStock) next.set(FILTER_PARAMS.inStock, 'true');
+  if (filters.minRating !== undefined) next.set(FILTER_PARAMS.minRating, String(filters.minRating));
+
+  return next;
+};
+
+/**
+ * Read the storefront sort choice from a query string, falling back to the default
+ */
+export const parseProductSortOption = (params: URLSearchParams): ProductSortOption => {
+  const value = params.get(SORT_PARAM);
+  const choice = PRODUCT_SORT_OPTIONS.find(option => option.value === value);
+  return choice ? choice.value : DEFAULT_PRODUCT_SORT_OPTION;
+};
+
+/**
+ * Write the storefront sort choice into a copy of the query string
+ * The default order is left out so plain listing URLs stay clean.
+ */
+export const writeProductSortOption = (params: URLSearchParams, option: ProductSortOption): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  if (option === DEFAULT_PRODUCT_SORT_OPTION) {
+    next.delete(SORT_PARAM);
+  } else {
+    next.set(SORT_PARAM, option);
+  }
+  return next;
+};
+
+// ========================================
+// HELPER Functions
+// ========================================
+
+/**
+ * Facet values, most common first
+ */
+export const rankFacetCounts = (counts: FacetCount[]): FacetCount[] => {
+  return [...counts].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+// Count how many products carry each value, most common first
+const countValues = (valueLists: string[][]): FacetCount[] => {
+  const counts = new Map<string, number>();
+  valueLists.forEach(values => {
+    unique(values).forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  });
+
+  return rankFacetCounts([...counts.entries()].map(([value, count]) => ({ value, count })));
+};
+
+// Keep selected values visible even when nothing matches them any more
+const withSelectedValues = (counts: FacetCount[], selected: string[]): FacetCount[] => {
+  const missing = selected
+    .filter(value => !counts.some(count => count.value === value))
+    .map(value => ({ value, count: 0 }));
+  return [...counts, ...missing];
+};
+
+const unique = (values: string[]): string[] => [...new Set(values)];
+
+const compareValues = (a: string | number, b: string | number): number => {
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+const parseNonNegativeNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+};
@@ -0,0 +1,360 @@
+/**
+ * Inventory Service
+ * Every stock change is recorded as a movement at products/{productId}/inventoryMovements,
+ * written in the same transaction or batch as the change to inventory.stock, so the
+ * ledger explains the current stock and can be used to reconcile it. The same write stores
+ * the movement's ID as inventory.lastMovementId, so a reconciliation can tell whether the
+ * ledger it read is still complete.
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  runTransaction,
+  serverTimestamp
+} from "firebase/firestore";
+import type { DocumentData, DocumentReference } from "firebase/firestore";
+import type { User } from "firebase/auth";
+import { auth, db } from "../firebase/index";
+import { requireRole, PRODUCT_MANAGER_ROLES } from "./accessControlService";
+import type { Product } from "../types/productType";
+import type {
+  InventoryMovement,
+  InventoryMovementInput,
+  InventoryMovementType,
+  StockAdjustmentData,
+  StockReconciliation
+} from "../types/inventoryType";
+
+// Products at or below this many units are flagged unless they set their own threshold
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+// How each movement type is shown in the ledger
+export const INVENTORY_MOVEMENT_LABELS: Record<InventoryMovementType, string> = {
+  sale: 'Sale',
+  cancellation: 'Cancellation restock',
+  adjustment: 'Manual adjustment',
+  receipt: 'Stock received',
+  return: 'Customer return'
+};
+
+// ========================================
+// READ Operations
+// ========================================
+
+/**
+ * Get a product's stock movements, newest first
+ */
+export const getInventoryMovements = async (
+  productId: string,
+  resultLimit: number = 100
+): Promise<InventoryMovement[]> => {
+  try {
+    await requireRole(PRODUCT_MANAGER_ROLES, "view inventory history");
+
+    const movementsQuery = query(
+      getMovementsCollection(productId),
+      orderBy("createdAt", "desc"),
+      limit(resultLimit)
+    );
+    const snapshot = await getDocs(movementsQuery);
+    return snapshot.docs.map(movementDoc => mapMovementDoc(movementDoc.id, movementDoc.data()));
+  } catch (error) {
+    console.error("Error fetching inventory movements:", error);
+    throw new Error("Failed to fetch inventory history");
+  }
+};
+
+// ========================================
+// WRITE Operations
+// ========================================
+
+/**
+ * Record a manual receipt, return or adjustment and apply it to the product's stock
+ */
+export const adjustProductStock = async (
+  productId: string,
+  adjustment: StockAdjustmentData
+): Promise<InventoryMovement> => {
+  try {
+    const validAdjustment = validateStockAdjustment(adjustment);
+    const productRef = doc(db, "products", productId);
+
+    return await runTransaction(db, async (transaction) => {
+      const productDoc = await transaction.get(productRef);
+      if (!productDoc.exists()) {
+        throw new Error("Product not found");
+      }
+
+      const productData = productDoc.data();
+      const user = await assertCanManageStock(productData, "adjust this product's stock");
+
+      if (productData.inventory?.trackInventory === false) {
+        throw new Error("Inventory is not tracked for this product");
+      }
+
+      const currentStock = productData.inventory?.stock || 0;
+      const stockAfter = currentStock + validAdjustment.quantity;
+      if (stockAfter < 0) {
+        throw new Error(`Stock cannot go below zero (${currentStock} in stock)`);
+      }
+
+      const movement = createInventoryMovement(productId, { ...validAdjustment, stockAfter }, user);
+      transaction.update(productRef, {
+        "inventory.stock": stockAfter,
+        "inventory.lastMovementId": movement.ref.id,
+        updatedAt: serverTimestamp()
+      });
+      transaction.set(movement.ref, movement.data);
+
+      return movement.movement;
+    });
+  } catch (error) {
+    console.error("Error adjusting product stock:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to adjust stock: ${error.message}`);
+    }
+    throw new Error("Failed to adjust stock: Unknown error");
+  }
+};
+
+/**
+ * Set a product's stock to a counted level, recording the difference as an adjustment
+ * Returns null when the stock already matches.
+ */
+export const setProductStockCount = async (
+  productId: string,
+  stock: number,
+  reason: string = "Stock level edited"
+): Promise<InventoryMovement | null> => {
+  try {
+    validateStockCount(stock);
+    const productRef = doc(db, "products", productId);
+
+    return await runTransaction(db, async (transaction) => {
+      const productDoc = await transaction.get(productRef);
+      if (!productDoc.exists()) {
+        throw new Error("Product not found");
+      }
+
+      const productData = productDoc.data();
+      const user = await assertCanManageStock(productData, "update this product's stock");
+
+      const movement = createStockCountMovement(productId, productData.inventory?.stock || 0, stock, reason, user);
+      if (!movement) {
+        return null;
+      }
+
+      transaction.update(productRef, {
+        "inventory.stock": stock,
+        "inventory.lastMovementId": movement.ref.id,
+        updatedAt: serverTimestamp()
+      });
+      transaction.set(movement.ref, movement.data);
+
+      return movement.movement;
+    });
+  } catch (error) {
+    console.error("Error setting product stock:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to update stock: ${error.message}`);
+    }
+    throw new Error("Failed to update stock: Unknown error");
+  }
+};
+
+/**
+ * Bring a product's stock back in line with its ledger
+ *
+ * The ledger is the source of truth: when the movements add up to a different level,
+ * inventory.stock is rewritten to match. Stock that predates the ledger was never recorded
+ * as movements, so the first reconciliation records the difference between the current
+ * stock and the movements so far as an opening balance instead.
+ */
+export const reconcileProductStock = async (productId: string): Promise<StockReconciliation> => {
+  try {
+    // Queries cannot run inside a transaction, so the ledger is read first and checked below
+    const snapshot = await getDocs(getMovementsCollection(productId));
+    const movementIds = new Set(snapshot.docs.map(movementDoc => movementDoc.id));
+    const ledgerStock = snapshot.docs.reduce((sum, movementDoc) => sum + (movementDoc.data().quantity || 0), 0);
+    const productRef = doc(db, "products", productId);
+
+    return await runTransaction(db, async (transaction) => {
+      const productDoc = await transaction.get(productRef);
+      if (!productDoc.exists()) {
+        throw new Error("Product not found");
+      }
+
+      const productData = productDoc.data();
+      const user = await assertCanManageStock(productData, "reconcile this product's stock");
+      const recordedStock = productData.inventory?.stock || 0;
+
+      // A movement written since the ledger was read would be undone by correcting to it
+      const lastMovementId = productData.inventory?.lastMovementId;
+      if (lastMovementId && !movementIds.has(lastMovementId)) {
+        throw new Error("Stock changed while reconciling, please try again");
+      }
+
+      if (!productData.inventory?.ledgerOpened) {
+        const openingBalance = recordedStock - ledgerStock;
+        const updates: Record<string, unknown> = {
+          "inventory.ledgerOpened": true,
+          updatedAt: serverTimestamp()
+        };
+
+        if (openingBalance !== 0) {
+          const opening = createInventoryMovement(
+            productId,
+            { type: 'adjustment', quantity: openingBalance, stockAfter: recordedStock, reason: "Opening balance" },
+            user
+          );
+          transaction.set(opening.ref, opening.data);
+          updates["inventory.lastMovementId"] = opening.ref.id;
+        }
+        transaction.update(productRef, updates);
+
+        return { productId, recordedStock, ledgerStock: recordedStock, corrected: false, openingBalance };
+      }
+
+      const corrected = ledgerStock !== recordedStock;
+      if (corrected) {
+        transaction.update(productRef, {
+          "inventory.stock": ledgerStock,
+          updatedAt: serverTimestamp()
+        });
+      }
+      return { productId, recordedStock, ledgerStock, corrected, openingBalance: 0 };
+    });
+  } catch (error) {
+    console.error("Error reconciling product stock:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to reconcile stock: ${error.message}`);
+    }
+    throw new Error("Failed to reconcile stock: Unknown error");
+  }
+};
+
+// ========================================
+// HELPER Functions
+// ========================================
+
+/**
+ * Build a ledger movement for the caller to write in its own transaction or batch,
+ * alongside the matching change to inventory.stock and inventory.lastMovementId
+ */
+export const createInventoryMovement = (
+  productId: string,
+  input: InventoryMovementInput,
+  actor: Pick<User, 'uid' | 'email'>
+): { ref: DocumentReference; data: DocumentData; movement: InventoryMovement } => {
+  const ref = doc(getMovementsCollection(productId));
+  const fields = {
+    productId,
+    type: input.type,
+    quantity: input.quantity,
+    stockAfter: input.stockAfter,
+    reason: input.reason,
+    ...(input.orderId ? { orderId: input.orderId } : {}),
+    actorId: actor.uid,
+    actorEmail: actor.email || ''
+  };
+
+  return {
+    ref,
+    data: { ...fields, createdAt: serverTimestamp() },
+    movement: { id: ref.id, ...fields, createdAt: new Date() }
+  };
+};
+
+/**
+ * Build the adjustment that takes a product from its current stock to a counted level,
+ * or null when the stock already matches
+ */
+export const createStockCountMovement = (
+  productId: string,
+  currentStock: number,
+  stock: number,
+  reason: string,
+  actor: Pick<User, 'uid' | 'email'>
+): ReturnType<typeof createInventoryMovement> | null => {
+  const quantity = stock - currentStock;
+  if (quantity === 0) {
+    return null;
+  }
+  return createInventoryMovement(productId, { type: 'adjustment', quantity, stockAfter: stock, reason }, actor);
+};
+
+/**
+ * Stock level at which a product counts as running low
+ */
+export const getLowStockThreshold = (product: Pick<Product, 'inventory'>): number => {
+  return product.inventory.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+};
+
+/**
+ * Whether a tracked product has fallen to its low-stock threshold
+ */
+export const isLowStock = (product: Pick<Product, 'inventory'>): boolean => {
+  return product.inventory.trackInventory && product.inventory.stock <= getLowStockThreshold(product);
+};
+
+/**
+ * Validate a counted stock level
+ */
+export const validateStockCount = (stock: number): void => {
+  if (!Number.isInteger(stock) || stock < 0) {
+    throw new Error("Stock must be a whole number of at least zero");
+  }
+};
+
+/**
+ * Validate a manual stock change, returning it with a trimmed reason
+ */
+export const validateStockAdjustment = (adjustment: StockAdjustmentData): StockAdjustmentData => {
+  const reason = adjustment.reason.trim();
+
+  if (!Number.isInteger(adjustment.quantity) || adjustment.quantity === 0) {
+    throw new Error("Quantity must be a whole number other than zero");
+  }
+  if (adjustment.type !== 'adjustment' && adjustment.quantity < 0) {
+    throw new Error(`${INVENTORY_MOVEMENT_LABELS[adjustment.type]} must add stock`);
+  }
+  if (!reason) {
+    throw new Error("Please give a reason for the stock change");
+  }
+
+  return { ...adjustment, reason };
+};
+
+// Stock may be changed by the product's seller or any admin
+const assertCanManageStock = async (productData: DocumentData, action: string): Promise<User> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error(`User must be authenticated to ${action}`);
+  }
+
+  const role = await requireRole(PRODUCT_MANAGER_ROLES, action);
+  if (productData.createdBy !== user.uid && role !== 'admin') {
+    throw new Error(`Unauthorized to ${action}`);
+  }
+  return user;
+};
+
+const getMovementsCollection = (productId: string) => collection(db, "products", productId, "inventoryMovements");
+
+const mapMovementDoc = (id: string, data: DocumentData): InventoryMovement => ({
+  id,
+  productId: data.productId,
+  type: data.type,
+  quantity: data.quantity || 0,
+  stockAfter: data.stockAfter || 0,
+  reason: data.reason || '',
+  ...(data.orderId ? { orderId: data.orderId } : {}),
+  actorId: data.actorId,
+  actorEmail: data.actorEmail || '',
+  createdAt: data.createdAt?.toDate() || new Date()
+});
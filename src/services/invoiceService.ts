@@ -0,0 +1,536 @@
+/**
+ * Invoice Service
+ * Printable invoices and receipts for orders, as an HTML page or a PDF download.
+ * Invoice numbers are sequential and assigned once per order, the first time an
+ * invoice is issued, so every copy of an order's invoice carries the same number.
+ */
+
+import { doc, runTransaction, serverTimestamp } from "firebase/firestore";
+import { auth, db } from "../firebase/index";
+import { getOrderById } from "./orderService";
+import { getCurrentUserRole, hasRole, ORDER_MANAGER_ROLES } from "./accessControlService";
+import { createPdfDocument } from "./pdfService";
+import type { PdfDocument } from "./pdfService";
+import type { Order } from "../types/orderType";
+import type {
+  Invoice,
+  InvoiceLine,
+  InvoiceRecord,
+  InvoiceTotalRow,
+  SellerDetails
+} from "../types/invoiceType";
+
+// Business details printed on every invoice. The tax ID comes from VITE_SELLER_TAX_ID and is
+// left off until that is set, rather than printing a registration number the seller does not hold
+export const SELLER_DETAILS: SellerDetails = {
+  name: 'Jolyca Co.',
+  addressLines: ['100 Market Street, Suite 200', 'Springfield, IL 62701', 'United States'],
+  email: 'billing@jolyca.co',
+  phone: '+1 (555) 010-0199',
+  taxId: import.meta.env.VITE_SELLER_TAX_ID || undefined,
+  website: 'jolyca.co'
+};
+
+// Currency prices are stored in
+export const INVOICE_CURRENCY = 'USD';
+
+const INVOICE_LOCALE = 'en-US';
+
+/**
+ * Format an invoice number from its place in the sequence, e.g. "INV-2024-000042"
+ */
+export const formatInvoiceNumber = (sequence: number, issuedAt: Date): string =>
+  `INV-${issuedAt.getFullYear()}-${String(sequence).padStart(6, '0')}`;
+
+// ========================================
+// Formatting
+// ========================================
+
+/**
+ * Format an amount of money, e.g. "$1,234.50" or "-$5.00"
+ */
+export const formatCurrency = (amount: number, currency: string = INVOICE_CURRENCY, locale: string = INVOICE_LOCALE): string =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+
+/**
+ * Format a tax rate as a percentage, e.g. 0.08875 as "8.875%"
+ */
+export const formatTaxRate = (rate: number): string => `${parseFloat((rate * 100).toFixed(3))}%`;
+
+const formatInvoiceDate = (date: Date): string =>
+  date.toLocaleDateString(INVOICE_LOCALE, { year: 'numeric', month: 'short', day: 'numeric' });
+
+// ========================================
+// Issuing Invoices
+// ========================================
+
+/**
+ * Whether an order can have an invoice: every order except those cancelled before payment
+ */
+export const canIssueInvoice = (order: Pick<Order, 'status' | 'payment'>): boolean =>
+  order.status !== 'cancelled' || !!order.payment?.amountCaptured;
+
+/**
+ * Issue the invoice for an order, assigning the next invoice number the first time
+ *
+ * The number comes from a counter document incremented in the same transaction that
+ * stores it on the order, so numbers are never skipped or shared, and asking again for
+ * an invoice that was already issued returns the same number. Customers can get invoices
+ * for their own orders; support and admin staff for any order.
+ */
+export const issueInvoice = async (orderId: string): Promise<Invoice> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error("User must be authenticated to view invoices");
+    }
+
+    const role = await getCurrentUserRole();
+    const orderRef = doc(db, "orders", orderId);
+    const counterRef = doc(db, "counters", "invoices");
+
+    const record = await runTransaction(db, async (transaction): Promise<InvoiceRecord> => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists()) {
+        throw new Error("Order not found");
+      }
+
+      const orderData = orderDoc.data();
+      if (orderData.userId !== user.uid && !hasRole(role, ORDER_MANAGER_ROLES)) {
+        throw new Error("You can only view invoices for your own orders");
+      }
+
+      if (orderData.invoice) {
+        return {
+          invoiceNumber: orderData.invoice.invoiceNumber,
+          issuedAt: orderData.invoice.issuedAt?.toDate() || new Date()
+        };
+      }
+
+      if (!canIssueInvoice({ status: orderData.status, payment: orderData.payment })) {
+        throw new Error("Orders cancelled before payment have no invoice");
+      }
+
+      // Every read happens before the first write
+      const counterDoc = await transaction.get(counterRef);
+      const sequence = (counterDoc.exists() ? counterDoc.data().lastNumber || 0 : 0) + 1;
+      const issuedAt = new Date();
+      const invoice = { invoiceNumber: formatInvoiceNumber(sequence, issuedAt), issuedAt };
+
+      transaction.set(counterRef, { lastNumber: sequence, updatedAt: serverTimestamp() }, { merge: true });
+      transaction.set(orderRef, { invoice }, { merge: true });
+
+      return invoice;
+    });
+
+    const order = await getOrderById(orderId);
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    return buildInvoice(order, record);
+  } catch (error) {
+    console.error("Error issuing invoice:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to issue invoice: ${error.message}`);
+    }
+    throw new Error("Failed to issue invoice: Unknown error");
+  }
+};
+
+/**
+ * Build the invoice for an order from its stored invoice number
+ */
+export const buildInvoice = (
+  order: Order,
+  record: InvoiceRecord,
+  seller: SellerDetails = SELLER_DETAILS,
+  currency: string = INVOICE_CURRENCY
+): Invoice => {
+  const lines: InvoiceLine[] = order.items.map(item => {
+    const options = item.selectedOptions?.map(option => `${option.name}: ${option.option}`).join(', ');
+    return {
+      description: options ? `${item.product.title} (${options})` : item.product.title,
+      quantity: item.quantity,
+      unitPrice: item.priceAtTime,
+      amount: item.totalPrice,
+      ...(item.tax ? { taxRate: item.tax.rate } : {}),
+      ...(item.cancelledQuantity ? { note: `${item.cancelledQuantity} cancelled` } : {})
+    };
+  });
+
+  return {
+    invoiceNumber: record.invoiceNumber,
+    issuedAt: record.issuedAt,
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    orderDate: order.createdAt,
+    seller,
+    customerEmail: order.userEmail,
+    billTo: order.shippingAddress,
+    lines,
+    summary: order.summary,
+    amountPaid: order.payment?.amountCaptured ?? (order.paymentStatus === 'paid' ? order.summary.total : 0),
+    amountRefunded: order.payment?.amountRefunded ?? 0,
+    ...(order.paymentMethod ? { paymentMethod: order.paymentMethod } : {}),
+    currency
+  };
+};
+
+/**
+ * The rows of an invoice's totals block, in the order the order summary shows them
+ * Paid invoices end with what was paid and refunded, unpaid ones with the balance due.
+ */
+export const getInvoiceTotalRows = (invoice: Invoice): InvoiceTotalRow[] => {
+  const { summary } = invoice;
+  const rows: InvoiceTotalRow[] = [
+    { label: 'Subtotal', amount: summary.subtotal },
+    { label: summary.pricesIncludeTax ? 'Tax (included)' : 'Tax', amount: summary.tax }
+  ];
+
+  summary.taxBreakdown?.forEach(entry => rows.push({
+    label: `${entry.jurisdiction} ${formatTaxRate(entry.rate)}${entry.taxClass !== 'standard' ? ` (${entry.taxClass})` : ''}`,
+    amount: entry.amount,
+    detail: true
+  }));
+
+  rows.push({ label: 'Shipping', amount: summary.shipping });
+  if (summary.discount > 0) {
+    rows.push({ label: 'Discount', amount: -summary.discount });
+  }
+  rows.push({ label: 'Total', amount: summary.total, emphasis: true });
+
+  if (invoice.amountPaid > 0) {
+    rows.push({ label: 'Amount paid', amount: invoice.amountPaid });
+    if (invoice.amountRefunded > 0) {
+      rows.push({ label: 'Refunded', amount: -invoice.amountRefunded });
+      rows.push({
+        label: 'Net paid',
+        amount: Math.round((invoice.amountPaid - invoice.amountRefunded) * 100) / 100,
+        emphasis: true
+      });
+    }
+  } else {
+    rows.push({ label: 'Balance due', amount: summary.total, emphasis: true });
+  }
+
+  return rows;
+};
+
+/**
+ * Whether an invoice has been paid in full
+ */
+export const isInvoicePaid = (invoice: Invoice): boolean => invoice.amountPaid >= invoice.summary.total - 0.005;
+
+// ========================================
+// HTML
+// ========================================
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const getAddressLines = (invoice: Invoice): string[] => {
+  const { billTo } = invoice;
+  return [
+    billTo.fullName,
+    billTo.addressLine1,
+    ...(billTo.addressLine2 ? [billTo.addressLine2] : []),
+    `${billTo.city}, ${billTo.state} ${billTo.zipCode}`,
+    billTo.country,
+    invoice.customerEmail
+  ];
+};
+
+const getSellerLines = (seller: SellerDetails): string[] => [
+  ...seller.addressLines,
+  [seller.email, seller.phone, seller.website].filter(Boolean).join(' · '),
+  ...(seller.taxId ? [`Tax ID: ${seller.taxId}`] : [])
+];
+
+/**
+ * Render an invoice as a standalone, printable HTML page
+ * Everything taken from the order is escaped.
+ */
+export const renderInvoiceHtml = (invoice: Invoice): string => {
+  const money = (amount: number) => escapeHtml(formatCurrency(amount, invoice.currency));
+  const lines = (values: string[]) => values.map(value => escapeHtml(value)).join('<br>');
+
+  const itemRows = invoice.lines.map(line => `
+        <tr>
+          <td>${escapeHtml(line.description)}${line.note ? `<div class="muted">${escapeHtml(line.note)}</div>` : ''}</td>
+          <td class="num">${line.quantity}</td>
+          <td class="num">${money(line.unitPrice)}</td>
+          <td class="num">${line.taxRate !== undefined ? formatTaxRate(line.taxRate) : '&ndash;'}</td>
+          <td class="num">${money(line.amount)}</td>
+        </tr>`).join('');
+
+  const totalRows = getInvoiceTotalRows(invoice).map(row => `
+        <tr class="${row.emphasis ? 'emphasis' : row.detail ? 'detail' : ''}">
+          <td>${escapeHtml(row.label)}</td>
+          <td class="num">${money(row.amount)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #212529; margin: 40px auto; max-width: 760px; font-size: 14px; }
+    header { display: flex; justify-content: space-between; margin-bottom: 32px; }
+    h1 { margin: 0 0 8px; font-size: 28px; letter-spacing: 2px; }
+    h2 { margin: 0 0 8px; font-size: 20px; }
+    h3 { margin: 0 0 6px; font-size: 14px; text-transform: uppercase; color: #6c757d; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; border-bottom: 2px solid #212529; padding: 6px 4px; }
+    td { padding: 6px 4px; vertical-align: top; }
+    .items td { border-bottom: 1px solid #dee2e6; }
+    .num { text-align: right; white-space: nowrap; }
+    .muted, .detail td { color: #6c757d; font-size: 12px; }
+    .detail td:first-child { padding-left: 16px; }
+    .emphasis td { font-weight: bold; border-top: 1px solid #212529; }
+    .totals { width: 45%; margin: 16px 0 0 auto; }
+    .meta td:first-child { color: #6c757d; padding-right: 16px; }
+    .paid { display: inline-block; border: 2px solid #198754; color: #198754; font-weight: bold; padding: 2px 10px; margin-top: 8px; }
+    footer { margin-top: 40px; color: #6c757d; font-size: 12px; }
+    @media print { .no-print { display: none; } body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <p class="no-print"><button type="button" onclick="window.print()">Print</button></p>
+  <header>
+    <div>
+      <h2>${escapeHtml(invoice.seller.name)}</h2>
+      <div class="muted">${lines(getSellerLines(invoice.seller))}</div>
+    </div>
+    <div>
+      <h1>INVOICE</h1>
+      <table class="meta">
+        <tr><td>Invoice no.</td><td>${escapeHtml(invoice.invoiceNumber)}</td></tr>
+        <tr><td>Issued</td><td>${escapeHtml(formatInvoiceDate(invoice.issuedAt))}</td></tr>
+        <tr><td>Order no.</td><td>${escapeHtml(invoice.orderNumber)}</td></tr>
+        <tr><td>Order date</td><td>${escapeHtml(formatInvoiceDate(invoice.orderDate))}</td></tr>
+      </table>
+      ${isInvoicePaid(invoice) ? '<div class="paid">PAID</div>' : ''}
+    </div>
+  </header>
+  <section>
+    <h3>Bill To</h3>
+    <p>${lines(getAddressLines(invoice))}</p>
+  </section>
+  <table class="items">
+    <thead>
+      <tr><th>Description</th><th class="num">Qty</th><th class="num">Unit Price</th><th class="num">Tax</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${itemRows}
+    </tbody>
+  </table>
+  <table class="totals">
+    <tbody>${totalRows}
+    </tbody>
+  </table>
+  <footer>
+    ${invoice.paymentMethod ? `<p>Payment method: ${escapeHtml(invoice.paymentMethod)}</p>` : ''}
+    <p>Amounts in ${escapeHtml(invoice.currency)}.${invoice.summary.pricesIncludeTax ? ' Prices include tax.' : ''} Thank you for shopping with ${escapeHtml(invoice.seller.name)}.</p>
+  </footer>
+</body>
+</html>
+`;
+};
+
+// ========================================
+// PDF
+// ========================================
+
+const PDF_MARGIN = 50;
+const PDF_LINE_HEIGHT = 14;
+
+// Characters of description that fit the PDF's description column
+const PDF_DESCRIPTION_WIDTH = 48;
+
+/**
+ * Break text into lines of at most `maxLength` characters, at spaces where possible
+ */
+const wrapText = (value: string, maxLength: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  value.split(/\s+/).forEach(word => {
+    while (word.length > maxLength) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, maxLength));
+      word = word.slice(maxLength);
+    }
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= maxLength) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+  if (current) {
+    lines.push(current);
+  }
+  return lines;
+};
+
+/**
+ * Lay out an invoice as a PDF document, continuing the item table onto new pages as needed
+ */
+export const createInvoicePdf = (invoice: Invoice): PdfDocument => {
+  const pdf = createPdfDocument(`Invoice ${invoice.invoiceNumber}`);
+  const left = PDF_MARGIN;
+  const right = pdf.width - PDF_MARGIN;
+  const bottom = pdf.height - PDF_MARGIN;
+  const money = (amount: number) => formatCurrency(amount, invoice.currency);
+
+  // Seller
+  pdf.text(left, 60, invoice.seller.name, { font: 'bold', size: 18 });
+  let sellerY = 80;
+  getSellerLines(invoice.seller).forEach(line => {
+    pdf.text(left, sellerY, line, { size: 9, gray: 0.4 });
+    sellerY += 12;
+  });
+
+  // Invoice details
+  const metaLeft = right - 190;
+  pdf.text(metaLeft, 60, 'INVOICE', { font: 'bold', size: 20 });
+  let metaY = 80;
+  [
+    ['Invoice no.', invoice.invoiceNumber],
+    ['Issued', formatInvoiceDate(invoice.issuedAt)],
+    ['Order no.', invoice.orderNumber],
+    ['Order date', formatInvoiceDate(invoice.orderDate)]
+  ].forEach(([label, value]) => {
+    pdf.text(metaLeft, metaY, label, { size: 9, gray: 0.4 });
+    pdf.textRight(right, metaY, value, { size: 9 });
+    metaY += 12;
+  });
+  if (isInvoicePaid(invoice)) {
+    pdf.text(metaLeft, metaY + 6, 'PAID', { font: 'bold', size: 12 });
+    metaY += 18;
+  }
+
+  // Customer
+  let y = Math.max(sellerY, metaY) + 20;
+  pdf.text(left, y, 'BILL TO', { font: 'bold', size: 9, gray: 0.4 });
+  y += 14;
+  getAddressLines(invoice).forEach(line => {
+    pdf.text(left, y, line);
+    y += PDF_LINE_HEIGHT;
+  });
+
+  // Items
+  const columns = { quantity: right - 230, unitPrice: right - 155, tax: right - 95, amount: right };
+  const drawItemHeader = () => {
+    pdf.text(left, y, 'Description', { font: 'bold', size: 9 });
+    pdf.textRight(columns.quantity, y, 'Qty', { size: 9 });
+    pdf.textRight(columns.unitPrice, y, 'Unit Price', { size: 9 });
+    pdf.textRight(columns.tax, y, 'Tax', { size: 9 });
+    pdf.textRight(columns.amount, y, 'Amount', { size: 9 });
+    pdf.line(left, y + 5, right, y + 5, 1);
+    y += 20;
+  };
+  const ensureSpace = (height: number, repeatHeader: boolean) => {
+    if (y + height > bottom) {
+      pdf.addPage();
+      y = PDF_MARGIN + 10;
+      if (repeatHeader) {
+        drawItemHeader();
+      }
+    }
+  };
+
+  y += 16;
+  drawItemHeader();
+  invoice.lines.forEach(line => {
+    const descriptionLines = wrapText(line.description, PDF_DESCRIPTION_WIDTH);
+    ensureSpace((descriptionLines.length + (line.note ? 1 : 0)) * PDF_LINE_HEIGHT, true);
+
+    pdf.textRight(columns.quantity, y, String(line.quantity));
+    pdf.textRight(columns.unitPrice, y, money(line.unitPrice));
+    pdf.textRight(columns.tax, y, line.taxRate !== undefined ? formatTaxRate(line.taxRate) : '-');
+    pdf.textRight(columns.amount, y, money(line.amount));
+    descriptionLines.forEach(text => {
+      pdf.text(left, y, text);
+      y += PDF_LINE_HEIGHT;
+    });
+    if (line.note) {
+      pdf.text(left, y - 2, line.note, { size: 8, gray: 0.4 });
+      y += PDF_LINE_HEIGHT;
+    }
+    pdf.line(left, y - 9, right, y - 9, 0.25);
+  });
+
+  // Totals
+  y += 10;
+  const totalsLeft = right - 210;
+  getInvoiceTotalRows(invoice).forEach(row => {
+    ensureSpace(PDF_LINE_HEIGHT + 4, false);
+    if (row.emphasis) {
+      pdf.line(totalsLeft, y - 10, right, y - 10, 0.75);
+      pdf.text(totalsLeft, y, row.label, { font: 'bold' });
+    } else if (row.detail) {
+      pdf.text(totalsLeft + 10, y, row.label, { size: 8, gray: 0.4 });
+    } else {
+      pdf.text(totalsLeft, y, row.label);
+    }
+    pdf.textRight(right, y, money(row.amount), row.detail ? { size: 8, gray: 0.4 } : {});
+    y += row.emphasis ? PDF_LINE_HEIGHT + 4 : PDF_LINE_HEIGHT;
+  });
+
+  // Footer
+  y += 20;
+  ensureSpace(PDF_LINE_HEIGHT * 2, false);
+  if (invoice.paymentMethod) {
+    pdf.text(left, y, `Payment method: ${invoice.paymentMethod}`, { size: 9 });
+    y += PDF_LINE_HEIGHT;
+  }
+  pdf.text(
+    left,
+    y,
+    `Amounts in ${invoice.currency}.${invoice.summary.pricesIncludeTax ? ' Prices include tax.' : ''} ` +
+    `Thank you for shopping with ${invoice.seller.name}.`,
+    { size: 9, gray: 0.4 }
+  );
+
+  return pdf;
+};
+
+// ========================================
+// Browser Helpers
+// ========================================
+
+// Object URLs are kept long enough for the browser to finish loading them
+const OBJECT_URL_LIFETIME = 60 * 1000;
+
+/**
+ * Show an invoice's printable page in a window opened by the caller
+ * Opening the window before the invoice is issued keeps pop-up blockers from stopping it.
+ */
+export const showInvoiceHtml = (invoice: Invoice, invoiceWindow: Window): void => {
+  const url = URL.createObjectURL(new Blob([renderInvoiceHtml(invoice)], { type: 'text/html' }));
+  invoiceWindow.location.href = url;
+  setTimeout(() => URL.revokeObjectURL(url), OBJECT_URL_LIFETIME);
+};
+
+/**
+ * Save an invoice as a PDF file named after its invoice number
+ */
+export const downloadInvoicePdf = (invoice: Invoice): void => {
+  const url = URL.createObjectURL(createInvoicePdf(invoice).toBlob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${invoice.invoiceNumber}.pdf`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), OBJECT_URL_LIFETIME);
+};
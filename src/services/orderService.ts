@@ -15,20 +15,60 @@ import {
   orderBy,
   limit,
   serverTimestamp,
-  writeBatch
+  runTransaction,
+  increment,
+  arrayUnion
 } from "firebase/firestore";
+import type { DocumentData, DocumentReference, Transaction } from "firebase/firestore";
+import type { User } from "firebase/auth";
 import { auth, db } from "../firebase/index";
-import { getProductById } from "./productService";
+import { mapProductDoc } from "./productService";
+import { createInventoryMovement } from "./inventoryService";
+import { getEffectiveUnitPrice, resolveVariantSelection } from "./variantService";
+import { getCurrentUserRole, hasRole, requireRole, ORDER_MANAGER_ROLES } from "./accessControlService";
+import {
+  applyPromotions,
+  getPromotionByCode,
+  getRedemptionRef,
+  mapPromotionDoc,
+  normalizePromotionCode
+} from "./promotionService";
+import type { PromotionsResult } from "./promotionService";
+import { calculateTax } from "./taxService";
+import type { TaxResult } from "./taxService";
+import { getShippingQuote } from "./shippingService";
+import {
+  getCardBrand,
+  getPaymentProvider,
+  getPaymentProviderFor,
+  normalizeCardNumber,
+  toPaymentTransaction
+} from "./paymentService";
+import {
+  assertOrderStatusTransition,
+  assertPaymentStatusTransition,
+  canTransitionOrderStatus,
+  createStatusHistoryEntry,
+  InvalidStatusTransitionError
+} from "./orderStatusService";
 import type { 
   Order, 
   OrderItem, 
   CreateOrderData, 
   OrderFilters, 
   OrdersResponse,
+  BulkStatusUpdateResult,
   OrderSummary,
   OrderStatus,
-  PaymentStatus
+  PaymentStatus,
+  StatusHistoryEntry
 } from "../types/orderType";
+import type { Product } from "../types/productType";
+import type { UserRole } from "../types/authTypes";
+import type { AppliedPromotion, Promotion } from "../types/promotionType";
+import type { ShippingQuote } from "../types/shippingType";
+import type { OrderPayment, PaymentResult, PaymentSource } from "../types/paymentType";
+import type { ReturnRequest } from "../types/returnType";
 
 /**
  * Generate a unique order number
@@ -43,22 +83,126 @@ const generateOrderNumber = (): string => {
 };
 
 /**
- * Calculate order summary (totals, tax, shipping)
+ * Convert a stored shipping quote, whose delivery dates come back as Timestamps
  */
-const calculateOrderSummary = (items: OrderItem[]): OrderSummary => {
+const mapShippingMethod = (data: DocumentData | undefined): ShippingQuote | undefined => {
+  if (!data) {
+    return undefined;
+  }
+  return {
+    ...data,
+    estimatedDeliveryFrom: data.estimatedDeliveryFrom?.toDate() || new Date(),
+    estimatedDeliveryTo: data.estimatedDeliveryTo?.toDate() || new Date()
+  } as ShippingQuote;
+};
+
+/**
+ * Convert a stored payment record, whose transaction dates come back as Timestamps
+ */
+const mapPayment = (data: DocumentData | undefined): OrderPayment | undefined => {
+  if (!data) {
+    return undefined;
+  }
+  return {
+    ...data,
+    transactions: (data.transactions || []).map((transaction: DocumentData) => ({
+      ...transaction,
+      createdAt: transaction.createdAt?.toDate() || new Date()
+    }))
+  } as OrderPayment;
+};
+
+/**
+ * Convert stored status history, whose change dates come back as Timestamps
+ */
+const mapStatusHistory = (data: DocumentData[] | undefined): StatusHistoryEntry[] => {
+  return (data || []).map(entry => ({
+    ...entry,
+    changedAt: entry.changedAt?.toDate() || new Date()
+  }) as StatusHistoryEntry);
+};
+
+/**
+ * Convert stored return requests, whose dates come back as Timestamps
+ */
+const mapReturns = (data: DocumentData[] | undefined): ReturnRequest[] | undefined => {
+  if (!data) {
+    return undefined;
+  }
+  return data.map(request => ({
+    ...request,
+    requestedAt: request.requestedAt?.toDate() || new Date(),
+    updatedAt: request.updatedAt?.toDate() || new Date(),
+    receivedAt: request.receivedAt?.toDate(),
+    refundedAt: request.refundedAt?.toDate()
+  }) as ReturnRequest);
+};
+
+/**
+ * Convert an order document, whose dates come back as Timestamps
+ */
+const mapOrderDoc = (id: string, data: DocumentData): Order => ({
+  id,
+  orderNumber: data.orderNumber,
+  userId: data.userId,
+  userEmail: data.userEmail,
+  items: data.items,
+  summary: data.summary,
+  status: data.status,
+  paymentStatus: data.paymentStatus,
+  shippingAddress: data.shippingAddress,
+  createdAt: data.createdAt?.toDate() || new Date(),
+  updatedAt: data.updatedAt?.toDate() || new Date(),
+  shippedAt: data.shippedAt?.toDate(),
+  deliveredAt: data.deliveredAt?.toDate(),
+  notes: data.notes,
+  trackingNumber: data.trackingNumber,
+  paymentMethod: data.paymentMethod,
+  appliedPromotions: data.appliedPromotions,
+  shippingMethod: mapShippingMethod(data.shippingMethod),
+  payment: mapPayment(data.payment),
+  statusHistory: mapStatusHistory(data.statusHistory),
+  returns: mapReturns(data.returns),
+  invoice: data.invoice
+    ? { invoiceNumber: data.invoice.invoiceNumber, issuedAt: data.invoice.issuedAt?.toDate() || new Date() }
+    : undefined
+});
+
+/**
+ * Apply the filters Firestore cannot combine with the query's ordering
+ */
+const applyClientOrderFilters = (orders: Order[], filters: OrderFilters): Order[] => {
+  return orders.filter(order => {
+    if (filters.startDate && order.createdAt < filters.startDate) return false;
+    if (filters.endDate && order.createdAt > filters.endDate) return false;
+    if (filters.minTotal !== undefined && order.summary.total < filters.minTotal) return false;
+    if (filters.maxTotal !== undefined && order.summary.total > filters.maxTotal) return false;
+    return true;
+  });
+};
+
+/**
+ * Calculate order summary (totals, tax, shipping, discounts)
+ * Tax-inclusive prices already contain their tax, so it is only added on top
+ * for tax-exclusive pricing.
+ */
+const calculateOrderSummary = (
+  items: OrderItem[],
+  taxResult: TaxResult,
+  shipping: number,
+  promotions: Pick<PromotionsResult, 'itemDiscount' | 'shippingDiscount'> = { itemDiscount: 0, shippingDiscount: 0 }
+): OrderSummary => {
   const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
-  const taxRate = 0.08; // 8% tax rate
-  const tax = subtotal * taxRate;
-  
-  // Simple shipping calculation
-  const shipping = subtotal > 50 ? 0 : 9.99; // Free shipping over $50
+  const tax = taxResult.tax;
   
-  const discount = 0; // No discounts for now
-  const total = subtotal + tax + shipping - discount;
+  const discount = promotions.itemDiscount + promotions.shippingDiscount;
+  const total = subtotal + (taxResult.pricesIncludeTax ? 0 : tax) + shipping - discount;
   
   return {
     subtotal: Math.round(subtotal * 100) / 100,
     tax: Math.round(tax * 100) / 100,
+    taxBreakdown: taxResult.breakdown,
+    pricesIncludeTax: taxResult.pricesIncludeTax,
     shipping: Math.round(shipping * 100) / 100,
     discount: Math.round(discount * 100) / 100,
     total: Math.round(total * 100) / 100
@@ -67,6 +211,8 @@ const calculateOrderSummary = (items: OrderItem[]): OrderSummary => {
 
 /**
  * Create a new order from cart data
+ * Stock is re-read and reserved inside the same Firestore transaction that
+ * writes the order, so concurrent checkouts cannot oversell a product.
  */
 export const createOrder = async (orderData: CreateOrderData): Promise<Order> => {
   try {
@@ -83,82 +229,212 @@ export const createOrder = async (orderData: CreateOrderData): Promise<Order> =>
       throw new Error("Order must contain at least one item");
     }
 
-    // Fetch current product data for each item
-    const orderItems: OrderItem[] = [];
-    
+    // Total quantity per product, so each product is read and reserved once even
+    // when several lines (e.g. different variant options) share it
+    const requestedQuantities = new Map<string, number>();
     for (const item of orderData.items) {
-      const product = await getProductById(item.productId);
-      if (!product) {
-        throw new Error(`Product not found: ${item.productId}`);
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        throw new Error(`Invalid quantity for product ${item.productId}: ${item.quantity}`);
       }
-      
-      // Check stock availability
-      if (product.inventory.trackInventory && product.inventory.stock < item.quantity) {
-        throw new Error(`Insufficient stock for ${product.title}. Available: ${product.inventory.stock}, Requested: ${item.quantity}`);
+      requestedQuantities.set(
+        item.productId,
+        (requestedQuantities.get(item.productId) || 0) + item.quantity
+      );
+    }
+
+    // Resolve coupon codes up front; queries cannot run inside a client transaction
+    const couponCodes = Array.from(new Set((orderData.couponCodes || [])
+      .map(normalizePromotionCode)
+      .filter(code => code.length > 0)));
+    const promotionIds: string[] = [];
+    for (const code of couponCodes) {
+      const promotion = await getPromotionByCode(code);
+      if (!promotion) {
+        throw new Error(`Coupon code ${code} is not valid`);
       }
-      
-      const orderItem: OrderItem = {
-        id: `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        productId: product.id,
-        product: product, // Snapshot of product at time of order
-        quantity: item.quantity,
-        priceAtTime: product.price,
-        totalPrice: Math.round(product.price * item.quantity * 100) / 100
-      };
-      
-      orderItems.push(orderItem);
+      promotionIds.push(promotion.id);
     }
 
-    // Calculate totals
-    const summary = calculateOrderSummary(orderItems);
-    
-    // Generate order number and ID
-    const orderNumber = generateOrderNumber();
     const orderRef = doc(collection(db, "orders"));
-    
-    // Create order object
-    const order: Omit<Order, 'id'> = {
-      orderNumber,
-      userId: user.uid,
-      userEmail: user.email || '',
-      items: orderItems,
-      summary,
-      status: 'pending' as OrderStatus,
-      paymentStatus: 'pending' as PaymentStatus,
-      shippingAddress: orderData.shippingAddress,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      paymentMethod: orderData.paymentMethod,
-      notes: orderData.notes
-    };
+    const orderNumber = generateOrderNumber();
 
-    console.log("Prepared order object:", order);
+    const order = await runTransaction(db, async (transaction) => {
+      // All reads must happen before any writes in a transaction
+      const productSnapshots = await Promise.all(
+        Array.from(requestedQuantities.keys()).map((productId) =>
+          transaction.get(doc(db, "products", productId))
+        )
+      );
 
-    // Save order to Firestore
-    await setDoc(orderRef, {
-      ...order,
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp()
-    });
+      // Re-read promotions and this user's redemptions so usage limits hold under concurrency
+      const promotionSnapshots = await Promise.all(
+        promotionIds.map((promotionId) => transaction.get(doc(db, "promotions", promotionId)))
+      );
+      const redemptionSnapshots = await Promise.all(
+        promotionIds.map((promotionId) => transaction.get(getRedemptionRef(promotionId, user.uid)))
+      );
+
+      const products = new Map<string, Product>();
+      const stockErrors: string[] = [];
+
+      for (const productDoc of productSnapshots) {
+        if (!productDoc.exists()) {
+          throw new Error(`Product not found: ${productDoc.id}`);
+        }
+
+        const product = mapProductDoc(productDoc.id, productDoc.data());
+        const quantity = requestedQuantities.get(product.id)!;
+        products.set(product.id, product);
 
-    console.log("Order saved to Firestore with ID:", orderRef.id);
+        if (!product.isActive) {
+          stockErrors.push(`${product.title} is no longer available`);
+          continue;
+        }
 
-    // Update product stock (if tracking inventory)
-    const batch = writeBatch(db);
-    for (const item of orderItems) {
-      if (item.product.inventory.trackInventory) {
-        const productRef = doc(db, "products", item.productId);
-        const newStock = item.product.inventory.stock - item.quantity;
-        batch.update(productRef, {
-          "inventory.stock": newStock,
+        // Check stock availability against the fresh transactional read
+        if (product.inventory.trackInventory && product.inventory.stock < quantity) {
+          stockErrors.push(`Insufficient stock for ${product.title}. Available: ${product.inventory.stock}, Requested: ${quantity}`);
+        }
+
+        const maxPerOrder = product.inventory.maxPerOrder;
+        if (maxPerOrder && quantity > maxPerOrder) {
+          stockErrors.push(`${product.title} is limited to ${maxPerOrder} per order. Requested: ${quantity}`);
+        }
+      }
+
+      // Reject the whole order if any line cannot be fulfilled
+      if (stockErrors.length > 0) {
+        throw new Error(stockErrors.join("; "));
+      }
+
+      // Build one order item per cart line, re-pricing options from the fresh product
+      const orderItems: OrderItem[] = orderData.items.map((item) => {
+        const product = products.get(item.productId)!;
+        const selectedOptions = resolveVariantSelection(product, item.selectedOptions);
+        const unitPrice = getEffectiveUnitPrice(product, selectedOptions);
+
+        const orderItem: OrderItem = {
+          id: `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          productId: product.id,
+          product: product, // Snapshot of product at time of order
+          quantity: item.quantity,
+          priceAtTime: unitPrice,
+          totalPrice: Math.round(unitPrice * item.quantity * 100) / 100
+        };
+        if (selectedOptions.length > 0) {
+          orderItem.selectedOptions = selectedOptions;
+        }
+        return orderItem;
+      });
+
+      // Evaluate coupons against the freshly priced items
+      const promotions: Promotion[] = promotionSnapshots.map((promotionDoc) => {
+        if (!promotionDoc.exists()) {
+          throw new Error(`Promotion not found: ${promotionDoc.id}`);
+        }
+        return mapPromotionDoc(promotionDoc.id, promotionDoc.data());
+      });
+      const subtotal = orderItems.reduce((sum, item) => sum + item.totalPrice, 0);
+
+      // Quote the chosen shipping method from the fresh product weights
+      const shippingMethod = getShippingQuote(
+        orderData.shippingMethodId || 'standard',
+        orderItems,
+        orderData.shippingAddress,
+        subtotal
+      );
+
+      const promotionsResult = applyPromotions(
+        promotions,
+        orderItems.map((item) => ({ product: item.product, quantity: item.quantity, unitPrice: item.priceAtTime })),
+        { subtotal, shipping: shippingMethod.cost },
+        Object.fromEntries(redemptionSnapshots.map((redemptionDoc, index) => [
+          promotionIds[index],
+          redemptionDoc.exists() ? redemptionDoc.data().count || 0 : 0
+        ]))
+      );
+
+      // Tax each line for the shipping jurisdiction, after its share of merchandise discounts
+      const taxResult = calculateTax(
+        orderItems.map((item) => ({ id: item.id, product: item.product, amount: item.totalPrice })),
+        orderData.shippingAddress,
+        promotionsResult.itemDiscount
+      );
+      for (const item of orderItems) {
+        item.tax = taxResult.lines[item.id];
+      }
+
+      // Calculate totals
+      const summary = calculateOrderSummary(orderItems, taxResult, shippingMethod.cost, promotionsResult);
+
+      const newOrder: Omit<Order, 'id'> = {
+        orderNumber,
+        userId: user.uid,
+        userEmail: user.email || '',
+        items: orderItems,
+        summary,
+        status: 'pending' as OrderStatus,
+        paymentStatus: 'pending' as PaymentStatus,
+        shippingAddress: orderData.shippingAddress,
+        shippingMethod,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        paymentMethod: orderData.paymentMethod,
+        notes: orderData.notes,
+        statusHistory: [createStatusHistoryEntry('order', null, 'pending', user, null, 'Order placed')]
+      };
+      if (promotionsResult.appliedPromotions.length > 0) {
+        newOrder.appliedPromotions = promotionsResult.appliedPromotions;
+      }
+
+      // Reserve stock with atomic decrements, record the sales in the ledger and count the units sold
+      for (const [productId, quantity] of requestedQuantities) {
+        const { inventory } = products.get(productId)!;
+        const movement = inventory.trackInventory
+          ? createInventoryMovement(productId, {
+            type: 'sale',
+            quantity: -quantity,
+            stockAfter: inventory.stock - quantity,
+            reason: "Order placed",
+            orderId: orderRef.id
+          }, user)
+          : null;
+
+        transaction.update(doc(db, "products", productId), {
+          ...(movement && { "inventory.stock": increment(-quantity), "inventory.lastMovementId": movement.ref.id }),
+          salesCount: increment(quantity),
           updatedAt: serverTimestamp()
         });
+        if (movement) {
+          transaction.set(movement.ref, movement.data);
+        }
       }
-    }
-    
-    // Commit stock updates
-    await batch.commit();
-    console.log("Product stock updated successfully");
+
+      // Count the redemption globally and for this user
+      for (const promotionId of promotionIds) {
+        transaction.update(doc(db, "promotions", promotionId), {
+          usageCount: increment(1),
+          updatedAt: serverTimestamp()
+        });
+        transaction.set(getRedemptionRef(promotionId, user.uid), {
+          userId: user.uid,
+          count: increment(1),
+          lastOrderId: orderRef.id,
+          updatedAt: serverTimestamp()
+        }, { merge: true });
+      }
+
+      // Write the order in the same transaction
+      transaction.set(orderRef, {
+        ...newOrder,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+
+      return newOrder;
+    });
+
+    console.log("Order and stock reservation committed with ID:", orderRef.id);
 
     return {
       id: orderRef.id,
@@ -181,25 +457,7 @@ export const getOrderById = async (orderId: string): Promise<Order | null> => {
     const orderDoc = await getDoc(doc(db, "orders", orderId));
     
     if (orderDoc.exists()) {
-      const data = orderDoc.data();
-      return {
-        id: orderDoc.id,
-        orderNumber: data.orderNumber,
-        userId: data.userId,
-        userEmail: data.userEmail,
-        items: data.items,
-        summary: data.summary,
-        status: data.status,
-        paymentStatus: data.paymentStatus,
-        shippingAddress: data.shippingAddress,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date(),
-        shippedAt: data.shippedAt?.toDate(),
-        deliveredAt: data.deliveredAt?.toDate(),
-        notes: data.notes,
-        trackingNumber: data.trackingNumber,
-        paymentMethod: data.paymentMethod
-      };
+      return mapOrderDoc(orderDoc.id, orderDoc.data());
     }
     
     return null;
@@ -243,50 +501,65 @@ export const getUserOrders = async (
     
     querySnapshot.docs.forEach((doc, index) => {
       if (index < pageSize) {
-        const data = doc.data();
-        orders.push({
-          id: doc.id,
-          orderNumber: data.orderNumber,
-          userId: data.userId,
-          userEmail: data.userEmail,
-          items: data.items,
-          summary: data.summary,
-          status: data.status,
-          paymentStatus: data.paymentStatus,
-          shippingAddress: data.shippingAddress,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date(),
-          shippedAt: data.shippedAt?.toDate(),
-          deliveredAt: data.deliveredAt?.toDate(),
-          notes: data.notes,
-          trackingNumber: data.trackingNumber,
-          paymentMethod: data.paymentMethod
-        });
+        orders.push(mapOrderDoc(doc.id, doc.data()));
       } else {
         hasMore = true;
       }
     });
 
     // Apply client-side filters if needed
-    let filteredOrders = orders;
-    
-    if (filters.startDate || filters.endDate) {
-      filteredOrders = orders.filter(order => {
-        const orderDate = order.createdAt;
-        if (filters.startDate && orderDate < filters.startDate) return false;
-        if (filters.endDate && orderDate > filters.endDate) return false;
-        return true;
-      });
+    const filteredOrders = applyClientOrderFilters(orders, filters);
+
+    return {
+      orders: filteredOrders,
+      total: filteredOrders.length,
+      page: 0,
+      limit: pageSize,
+      hasMore
+    };
+  } catch (error) {
+    console.error("Error fetching user orders:", error);
+    throw new Error("Failed to fetch orders");
+  }
+};
+
+/**
+ * Get orders across all customers for the admin console (support and admin only)
+ * Status, payment status and date range are queried; totals are filtered client-side.
+ */
+export const getAllOrders = async (
+  filters: OrderFilters = {},
+  pageSize: number = 50
+): Promise<OrdersResponse> => {
+  try {
+    await requireRole(ORDER_MANAGER_ROLES, "view all orders");
+
+    const constraints: Parameters<typeof query>[1][] = [
+      orderBy("createdAt", "desc"),
+      limit(pageSize + 1) // Get one extra to check if there are more
+    ];
+
+    if (filters.status) {
+      constraints.push(where("status", "==", filters.status));
     }
-    
-    if (filters.minTotal !== undefined) {
-      filteredOrders = filteredOrders.filter(order => order.summary.total >= filters.minTotal!);
+    if (filters.paymentStatus) {
+      constraints.push(where("paymentStatus", "==", filters.paymentStatus));
     }
-    
-    if (filters.maxTotal !== undefined) {
-      filteredOrders = filteredOrders.filter(order => order.summary.total <= filters.maxTotal!);
+    if (filters.startDate) {
+      constraints.push(where("createdAt", ">=", filters.startDate));
+    }
+    if (filters.endDate) {
+      constraints.push(where("createdAt", "<=", filters.endDate));
     }
 
+    const querySnapshot = await getDocs(query(collection(db, "orders"), ...constraints));
+    const hasMore = querySnapshot.docs.length > pageSize;
+    const orders = querySnapshot.docs
+      .slice(0, pageSize)
+      .map(orderDoc => mapOrderDoc(orderDoc.id, orderDoc.data()));
+
+    const filteredOrders = applyClientOrderFilters(orders, filters);
+
     return {
       orders: filteredOrders,
       total: filteredOrders.length,
@@ -295,8 +568,11 @@ export const getUserOrders = async (
       hasMore
     };
   } catch (error) {
-    console.error("Error fetching user orders:", error);
-    throw new Error("Failed to fetch orders");
+    console.error("Error fetching all orders:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch orders: ${error.message}`);
+    }
+    throw new Error("Failed to fetch orders: Unknown error");
   }
 };
 
@@ -306,7 +582,8 @@ export const getUserOrders = async (
 export const updateOrderStatus = async (
   orderId: string, 
   status: OrderStatus,
-  trackingNumber?: string
+  trackingNumber?: string,
+  reason?: string
 ): Promise<void> => {
   try {
     const user = auth.currentUser;
@@ -315,8 +592,37 @@ export const updateOrderStatus = async (
     }
 
     const orderRef = doc(db, "orders", orderId);
+    const orderDoc = await getDoc(orderRef);
+    if (!orderDoc.exists()) {
+      throw new Error("Order not found");
+    }
+
+    // Support and admin staff manage any order; customers may only cancel their own pending ones
+    const role = await getCurrentUserRole();
+    const currentStatus = orderDoc.data().status as OrderStatus;
+    if (!hasRole(role, ORDER_MANAGER_ROLES)) {
+      if (orderDoc.data().userId !== user.uid) {
+        throw new Error("Unauthorized to update another user's order");
+      }
+      if (status !== 'cancelled') {
+        throw new Error("Customers can only cancel their own orders");
+      }
+      if (currentStatus !== 'pending') {
+        throw new Error("Only pending orders can be cancelled");
+      }
+    }
+
+    assertOrderStatusTransition(currentStatus, status);
+
+    // Cancelling refunds or voids the payment, then puts the stock back in a transaction
+    if (status === 'cancelled') {
+      await commitOrderCancellation(mapOrderDoc(orderDoc.id, orderDoc.data()), user, role, reason);
+      return;
+    }
+
     const updates: Record<string, unknown> = {
       status,
+      statusHistory: arrayUnion(createStatusHistoryEntry('order', currentStatus, status, user, role, reason)),
       updatedAt: serverTimestamp()
     };
 
@@ -332,12 +638,169 @@ export const updateOrderStatus = async (
     await setDoc(orderRef, updates, { merge: true });
   } catch (error) {
     console.error("Error updating order status:", error);
-    throw new Error("Failed to update order status");
+    if (error instanceof InvalidStatusTransitionError) {
+      throw error;
+    }
+    if (error instanceof Error) {
+      throw new Error(`Failed to update order status: ${error.message}`);
+    }
+    throw new Error("Failed to update order status: Unknown error");
+  }
+};
+
+/**
+ * Change the status of several orders, e.g. from the admin console (support and admin only)
+ * Each order is checked against the transition table on its own, so one illegal change
+ * does not block the rest. Tracking numbers are keyed by order ID.
+ */
+export const bulkUpdateOrderStatus = async (
+  orderIds: string[],
+  status: OrderStatus,
+  trackingNumbers: Record<string, string> = {},
+  reason?: string
+): Promise<BulkStatusUpdateResult> => {
+  await requireRole(ORDER_MANAGER_ROLES, "update orders in bulk");
+
+  const results = await Promise.allSettled(
+    orderIds.map(orderId => updateOrderStatus(orderId, status, trackingNumbers[orderId], reason))
+  );
+
+  const outcome: BulkStatusUpdateResult = { updated: [], failed: [] };
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      outcome.updated.push(orderIds[index]);
+    } else {
+      outcome.failed.push({
+        orderId: orderIds[index],
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+      });
+    }
+  });
+
+  return outcome;
+};
+
+/**
+ * Pay for an order: authorize the order total with the payment provider, then capture it
+ * The order is first claimed by moving its payment status to processing in a transaction,
+ * so two payment attempts cannot both charge the card. Every provider call is recorded on
+ * the order. A failed capture voids the authorization so the shopper's funds are not held.
+ */
+export const payOrder = async (orderId: string, source: PaymentSource): Promise<Order> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error("User must be authenticated to pay for orders");
+    }
+
+    const orderRef = doc(db, "orders", orderId);
+    const order = await runTransaction(db, async (transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists()) {
+        throw new Error("Order not found");
+      }
+
+      const claimed = mapOrderDoc(orderId, orderDoc.data());
+      if (claimed.userId !== user.uid) {
+        throw new Error("You can only pay for your own orders");
+      }
+      if (claimed.status === 'cancelled') {
+        throw new Error("Cancelled orders cannot be paid");
+      }
+      if (claimed.paymentStatus === 'processing') {
+        throw new Error("A payment for this order is already in progress");
+      }
+      if (claimed.paymentStatus !== 'pending' && claimed.paymentStatus !== 'failed') {
+        throw new Error(`Order payment is already ${claimed.paymentStatus}`);
+      }
+
+      transaction.set(orderRef, { paymentStatus: 'processing', updatedAt: serverTimestamp() }, { merge: true });
+      return claimed;
+    });
+
+    const provider = getPaymentProvider();
+    const amount = order.summary.total;
+    const cardNumber = normalizeCardNumber(source.cardNumber);
+    const payment: OrderPayment = {
+      provider: provider.name,
+      cardBrand: getCardBrand(cardNumber),
+      cardLast4: cardNumber.slice(-4),
+      amountAuthorized: 0,
+      amountCaptured: 0,
+      amountRefunded: 0,
+      transactions: [...(order.payment?.transactions || [])]
+    };
+
+    // The claim is always settled, even when the provider cannot be reached
+    let paymentStatus: PaymentStatus = 'failed';
+    let failureMessage: string | undefined;
+    try {
+      const authorization = await provider.authorize({ orderId, amount, currency: 'USD', source });
+      payment.transactions.push(toPaymentTransaction(authorization));
+      failureMessage = authorization.errorMessage;
+
+      if (authorization.success) {
+        payment.authorizationId = authorization.authorizationId;
+        payment.amountAuthorized = amount;
+
+        const capture = await provider.capture(authorization.authorizationId, amount);
+        payment.transactions.push(toPaymentTransaction(capture));
+
+        if (capture.success) {
+          payment.amountCaptured = amount;
+          paymentStatus = 'paid';
+        } else {
+          failureMessage = capture.errorMessage;
+          const voided = await provider.void(authorization.authorizationId);
+          payment.transactions.push(toPaymentTransaction(voided));
+          if (voided.success) {
+            payment.amountAuthorized = 0;
+          }
+        }
+      }
+    } catch (providerError) {
+      failureMessage = providerError instanceof Error ? providerError.message : "The payment provider could not be reached";
+    }
+
+    assertPaymentStatusTransition('processing', paymentStatus);
+    const historyEntry = createStatusHistoryEntry(
+      'payment', order.paymentStatus, paymentStatus, user, null, paymentStatus === 'paid' ? undefined : failureMessage
+    );
+
+    const paymentMethod = `${payment.cardBrand} ending in ${payment.cardLast4}`;
+    await setDoc(orderRef, {
+      paymentStatus,
+      payment,
+      paymentMethod,
+      statusHistory: arrayUnion(historyEntry),
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+
+    if (paymentStatus !== 'paid') {
+      throw new Error(failureMessage || "The payment was not completed");
+    }
+
+    return {
+      ...order,
+      paymentStatus,
+      payment,
+      paymentMethod,
+      statusHistory: [...(order.statusHistory || []), historyEntry],
+      updatedAt: new Date()
+    };
+  } catch (error) {
+    console.error("Error processing payment:", error);
+    if (error instanceof Error) {
+      throw new Error(`Payment failed: ${error.message}`);
+    }
+    throw new Error("Payment failed: Unknown error");
   }
 };
 
 /**
  * Cancel an order (only if pending)
+ * Paid orders are refunded before the cancellation is recorded. Cancelling an order that
+ * is already cancelled does nothing, so a retried request is safe.
  */
 export const cancelOrder = async (orderId: string): Promise<void> => {
   try {
@@ -356,29 +819,519 @@ export const cancelOrder = async (orderId: string): Promise<void> => {
       throw new Error("You can only cancel your own orders");
     }
 
+    if (order.status === 'cancelled') {
+      return;
+    }
+
     if (order.status !== 'pending') {
       throw new Error("Only pending orders can be cancelled");
     }
 
-    // Update order status
-    await updateOrderStatus(orderId, 'cancelled');
+    // Refund the payment and restore stock along with the status change
+    await updateOrderStatus(orderId, 'cancelled', undefined, 'Cancelled by customer');
+  } catch (error) {
+    console.error("Error cancelling order:", error);
+    throw new Error("Failed to cancel order");
+  }
+};
 
-    // Restore product stock if inventory was tracked
-    const batch = writeBatch(db);
-    for (const item of order.items) {
-      if (item.product.inventory.trackInventory) {
-        const productRef = doc(db, "products", item.productId);
-        const restoredStock = item.product.inventory.stock + item.quantity;
-        batch.update(productRef, {
-          "inventory.stock": restoredStock,
-          updatedAt: serverTimestamp()
-        });
+/**
+ * Cancel some units of an order's lines and put them back in stock
+ *
+ * `cancelledQuantities` maps item IDs to the total units of each line that should end up
+ * cancelled, not to a change, so retrying the same request neither restocks nor refunds
+ * twice. Customers may cancel lines of their own pending orders; support and admin staff
+ * may do so until an order ships. Paid orders are refunded the cancelled units' share of
+ * the order total, and cancelling every remaining unit cancels the whole order.
+ */
+export const cancelOrderItems = async (
+  orderId: string,
+  cancelledQuantities: Record<string, number>,
+  reason?: string
+): Promise<void> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error("User must be authenticated to cancel order items");
+    }
+
+    const order = await getOrderById(orderId);
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    const role = await getCurrentUserRole();
+    const isStaff = hasRole(role, ORDER_MANAGER_ROLES);
+    if (!isStaff && order.userId !== user.uid) {
+      throw new Error("You can only cancel items from your own orders");
+    }
+
+    if (order.status === 'cancelled') {
+      return;
+    }
+
+    if (isStaff ? !canTransitionOrderStatus(order.status, 'cancelled') : order.status !== 'pending') {
+      throw new Error(`Items cannot be cancelled once an order is ${order.status}`);
+    }
+
+    for (const [itemId, quantity] of Object.entries(cancelledQuantities)) {
+      const item = order.items.find(orderItem => orderItem.id === itemId);
+      if (!item) {
+        throw new Error(`Order item not found: ${itemId}`);
+      }
+      if (!Number.isInteger(quantity) || quantity < (item.cancelledQuantity || 0) || quantity > item.quantity) {
+        throw new Error(`Cancelled quantity for ${item.product.title} must be between ${item.cancelledQuantity || 0} and ${item.quantity}`);
       }
     }
-    
-    await batch.commit();
+
+    // Cancelling everything that is left is a full cancellation
+    const cancelsEverything = order.items.every(item =>
+      (cancelledQuantities[item.id] ?? item.cancelledQuantity ?? 0) >= item.quantity
+    );
+    if (cancelsEverything) {
+      await commitOrderCancellation(order, user, role, reason || 'All items cancelled');
+      return;
+    }
+
+    // Refund whatever the cancelled units are owed beyond earlier refunds. The amount comes
+    // from the order read while claiming its payment, so no other refund can change it meanwhile.
+    const orderRef = doc(db, "orders", orderId);
+    const claim = await runTransaction(db, async (transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists()) {
+        throw new Error("Order not found");
+      }
+
+      const current = mapOrderDoc(orderId, orderDoc.data());
+      if (current.status === 'cancelled') {
+        return null;
+      }
+      assertPaymentSettled(current.paymentStatus);
+      if (current.paymentStatus !== 'paid' || !current.payment?.authorizationId) {
+        return null;
+      }
+
+      const refundDue = Math.round(
+        (calculateCancellationRefund(current, cancelledQuantities) - current.payment.amountRefunded) * 100
+      ) / 100;
+      if (refundDue <= 0) {
+        return null;
+      }
+
+      claimPaymentRelease(transaction, orderRef, 'paid');
+      return { payment: current.payment, refundDue };
+    });
+
+    const cancelReason = reason || (isStaff ? 'Order items cancelled by staff' : 'Order items cancelled by customer');
+    if (claim) {
+      const result = await sendPaymentRelease(claim.payment, claim.refundDue);
+      await recordPaymentRelease(orderId, 'paid', result, user, role, cancelReason);
+      if (!result.success) {
+        throw new Error(getPaymentReleaseError(result));
+      }
+    }
+
+    await runTransaction(db, async (transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists()) {
+        throw new Error("Order not found");
+      }
+
+      const orderData = orderDoc.data();
+      if (orderData.status === 'cancelled') {
+        return;
+      }
+
+      const items = await restockCancelledLines(
+        transaction,
+        orderId,
+        orderData.items as OrderItem[],
+        cancelledQuantities,
+        user,
+        cancelReason
+      );
+      transaction.set(orderRef, { items, updatedAt: serverTimestamp() }, { merge: true });
+    });
   } catch (error) {
-    console.error("Error cancelling order:", error);
-    throw new Error("Failed to cancel order");
+    console.error("Error cancelling order items:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to cancel order items: ${error.message}`);
+    }
+    throw new Error("Failed to cancel order items: Unknown error");
+  }
+};
+
+/**
+ * Amount owed back for some units of an order line
+ * Each unit is owed its line's total after the line's share of merchandise discounts,
+ * plus the tax charged on it when prices exclude tax. Shipping is not included.
+ * Orders placed before line tax was recorded fall back to an even share of the total.
+ */
+export const calculateLineRefund = (summary: OrderSummary, item: OrderItem, units: number): number => {
+  if (item.quantity <= 0) {
+    return 0;
+  }
+
+  const { subtotal, total, shipping, pricesIncludeTax } = summary;
+  const lineAmount = item.tax
+    ? item.tax.taxableAmount + (pricesIncludeTax ? 0 : item.tax.amount)
+    : subtotal > 0 ? item.totalPrice * Math.max(total - shipping, 0) / subtotal : 0;
+  return (lineAmount * units) / item.quantity;
+};
+
+/**
+ * The share of an order's total owed back for its cancelled units
+ * Units are refunded like returned ones (see `calculateLineRefund`), so cancelling and
+ * returning the same unit give back the same amount; shipping is only refunded when the
+ * whole order is cancelled.
+ */
+export const calculateCancellationRefund = (
+  order: Pick<Order, 'items' | 'summary'>,
+  cancelledQuantities: Record<string, number> = {}
+): number => {
+  const refund = order.items.reduce((sum, item) => {
+    const cancelled = cancelledQuantities[item.id] ?? item.cancelledQuantity ?? 0;
+    return sum + calculateLineRefund(order.summary, item, cancelled);
+  }, 0);
+
+  return Math.round(refund * 100) / 100;
+};
+
+/**
+ * Throw while a payment, refund or void for the order is with the provider
+ */
+export const assertPaymentSettled = (paymentStatus: PaymentStatus): void => {
+  if (paymentStatus === 'processing') {
+    throw new Error("A payment for this order is in progress, please try again in a moment");
+  }
+  if (paymentStatus === 'refunding') {
+    throw new Error("A refund for this order is in progress, please try again in a moment");
+  }
+};
+
+/**
+ * Claim an order's payment inside a transaction before refunding or voiding it
+ * Moves the payment status to refunding, the way payOrder claims an order with processing,
+ * so no other caller can give the same money back until the claim is recorded.
+ */
+export const claimPaymentRelease = (
+  transaction: Transaction,
+  orderRef: DocumentReference,
+  paymentStatus: PaymentStatus
+): void => {
+  assertPaymentSettled(paymentStatus);
+  assertPaymentStatusTransition(paymentStatus, 'refunding');
+  transaction.set(orderRef, { paymentStatus: 'refunding', updatedAt: serverTimestamp() }, { merge: true });
+};
+
+/**
+ * Refund part of a claimed payment, or void it when no amount is given
+ * A provider that cannot be reached counts as a failed call, so the claim is always recorded.
+ */
+export const sendPaymentRelease = async (payment: OrderPayment, refundAmount?: number): Promise<PaymentResult> => {
+  const authorizationId = payment.authorizationId || '';
+  const operation = refundAmount === undefined ? 'void' : 'refund';
+  try {
+    const provider = getPaymentProviderFor(payment);
+    return refundAmount === undefined
+      ? await provider.void(authorizationId)
+      : await provider.refund(authorizationId, refundAmount);
+  } catch (providerError) {
+    return {
+      success: false,
+      operation,
+      transactionId: '',
+      authorizationId,
+      amount: refundAmount ?? 0,
+      errorCode: 'provider_unavailable',
+      errorMessage: providerError instanceof Error ? providerError.message : "The payment provider could not be reached"
+    };
   }
+};
+
+/**
+ * Message for a refund or void the provider turned down
+ */
+export const getPaymentReleaseError = (result: PaymentResult): string => {
+  return `${result.operation === 'void' ? 'Void' : 'Refund'} failed: ${result.errorMessage || result.errorCode}`;
+};
+
+/**
+ * Fields that record a claimed refund or void, from the payment read inside the recording transaction
+ * Only the changed payment fields are written, never the whole payment. A failed call adds
+ * its transaction and hands the payment back to the status it was claimed from.
+ */
+export const getPaymentReleaseUpdates = (
+  payment: OrderPayment,
+  claimedFrom: PaymentStatus,
+  result: PaymentResult
+): { paymentStatus: PaymentStatus; updates: Record<string, unknown> } => {
+  const transactionUpdate = { "payment.transactions": arrayUnion(toPaymentTransaction(result)) };
+
+  if (!result.success) {
+    return { paymentStatus: claimedFrom, updates: { ...transactionUpdate, paymentStatus: claimedFrom } };
+  }
+
+  if (result.operation === 'void') {
+    return { paymentStatus: 'voided', updates: { ...transactionUpdate, "payment.amountAuthorized": 0, paymentStatus: 'voided' } };
+  }
+
+  // Everything captured has now been given back
+  const amountRefunded = Math.round((payment.amountRefunded + result.amount) * 100) / 100;
+  const paymentStatus: PaymentStatus = amountRefunded >= payment.amountCaptured ? 'refunded' : 'paid';
+  return { paymentStatus, updates: { ...transactionUpdate, "payment.amountRefunded": amountRefunded, paymentStatus } };
+};
+
+/**
+ * Record the outcome of a claimed refund or void on the order, re-reading it in a transaction
+ * A payment that ends up refunded or voided gets a status history entry.
+ */
+export const recordPaymentRelease = async (
+  orderId: string,
+  claimedFrom: PaymentStatus,
+  result: PaymentResult,
+  user: User,
+  role: UserRole | null,
+  reason: string
+): Promise<void> => {
+  const orderRef = doc(db, "orders", orderId);
+
+  await runTransaction(db, async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists()) {
+      throw new Error("Order not found");
+    }
+
+    const { paymentStatus, updates } = getPaymentReleaseUpdates(orderDoc.data().payment, claimedFrom, result);
+    transaction.update(orderRef, {
+      ...updates,
+      ...(paymentStatus !== claimedFrom && {
+        statusHistory: arrayUnion(createStatusHistoryEntry('payment', claimedFrom, paymentStatus, user, role, reason))
+      }),
+      updatedAt: serverTimestamp()
+    });
+  });
+};
+
+/**
+ * Give an order's money back before it is cancelled: refund captured funds, or void an open authorization
+ * The payment is claimed first, so two cancellations racing each other cannot both release it.
+ * Nothing is released for an order that is already cancelled or was never paid.
+ */
+const releaseAndRecordPayment = async (
+  orderId: string,
+  user: User,
+  role: UserRole | null,
+  reason: string
+): Promise<void> => {
+  const orderRef = doc(db, "orders", orderId);
+
+  const claim = await runTransaction(db, async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists()) {
+      throw new Error("Order not found");
+    }
+
+    const order = mapOrderDoc(orderId, orderDoc.data());
+    if (order.status === 'cancelled') {
+      return null;
+    }
+    assertOrderStatusTransition(order.status, 'cancelled');
+    assertPaymentSettled(order.paymentStatus);
+
+    const payment = order.payment;
+    if (!payment?.authorizationId) {
+      return null;
+    }
+
+    if (order.paymentStatus === 'paid') {
+      const refundable = Math.round((payment.amountCaptured - payment.amountRefunded) * 100) / 100;
+      if (refundable <= 0) {
+        return null;
+      }
+      claimPaymentRelease(transaction, orderRef, 'paid');
+      return { claimedFrom: order.paymentStatus, payment, refundAmount: refundable };
+    }
+
+    if (order.paymentStatus === 'authorized') {
+      claimPaymentRelease(transaction, orderRef, 'authorized');
+      return { claimedFrom: order.paymentStatus, payment, refundAmount: undefined };
+    }
+
+    return null;
+  });
+
+  if (!claim) {
+    return;
+  }
+
+  const result = await sendPaymentRelease(claim.payment, claim.refundAmount);
+  await recordPaymentRelease(orderId, claim.claimedFrom, result, user, role, reason);
+  if (!result.success) {
+    throw new Error(getPaymentReleaseError(result));
+  }
+};
+
+/**
+ * Cancel an order: refund or void its payment, then mark it cancelled, restock every line
+ * not already cancelled and give back its coupon redemptions, in one transaction
+ * Every cancellation route goes through here. The money goes back first, so a failed
+ * refund leaves the order and its stock untouched. The order is re-read inside the
+ * transaction, so an order that is already cancelled is left alone rather than restocked twice.
+ */
+const commitOrderCancellation = async (
+  order: Order,
+  user: User,
+  role: UserRole | null,
+  reason?: string
+): Promise<void> => {
+  const orderId = order.id;
+  const orderRef = doc(db, "orders", orderId);
+
+  await releaseAndRecordPayment(orderId, user, role, reason || 'Order cancelled');
+
+  await runTransaction(db, async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists()) {
+      throw new Error("Order not found");
+    }
+
+    const orderData = orderDoc.data();
+    const currentStatus = orderData.status as OrderStatus;
+    if (currentStatus === 'cancelled') {
+      return;
+    }
+    assertOrderStatusTransition(currentStatus, 'cancelled');
+
+    // Read the redeemed promotions before the restock writes anything
+    const promotionIds = ((orderData.appliedPromotions || []) as AppliedPromotion[]).map(applied => applied.promotionId);
+    const redemptions = await readPromotionRedemptions(transaction, promotionIds, orderData.userId);
+
+    const orderItems = orderData.items as OrderItem[];
+    const items = await restockCancelledLines(
+      transaction,
+      orderId,
+      orderItems,
+      Object.fromEntries(orderItems.map(item => [item.id, item.quantity])),
+      user,
+      reason || 'Order cancelled'
+    );
+
+    // A cancelled order no longer uses up its coupons
+    redemptions.forEach(({ promotionId, redeemed }) => {
+      transaction.update(doc(db, "promotions", promotionId), {
+        usageCount: increment(-1),
+        updatedAt: serverTimestamp()
+      });
+      if (redeemed) {
+        transaction.update(getRedemptionRef(promotionId, orderData.userId), {
+          count: increment(-1),
+          updatedAt: serverTimestamp()
+        });
+      }
+    });
+
+    transaction.set(orderRef, {
+      status: 'cancelled',
+      items,
+      statusHistory: arrayUnion(createStatusHistoryEntry('order', currentStatus, 'cancelled', user, role, reason)),
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+  });
+};
+
+/**
+ * Read the promotions an order redeemed, and whether the customer's redemption count is
+ * still there to give back, within a transaction
+ * Promotions deleted since the order was placed are left out.
+ */
+const readPromotionRedemptions = async (
+  transaction: Transaction,
+  promotionIds: string[],
+  userId: string
+): Promise<{ promotionId: string; redeemed: boolean }[]> => {
+  const promotionDocs = await Promise.all(
+    promotionIds.map(promotionId => transaction.get(doc(db, "promotions", promotionId)))
+  );
+  const redemptionDocs = await Promise.all(
+    promotionIds.map(promotionId => transaction.get(getRedemptionRef(promotionId, userId)))
+  );
+
+  return promotionIds.flatMap((promotionId, index) => {
+    if (!promotionDocs[index].exists()) {
+      return [];
+    }
+    const redemptionDoc = redemptionDocs[index];
+    return [{ promotionId, redeemed: redemptionDoc.exists() && (redemptionDoc.data().count || 0) > 0 }];
+  });
+};
+
+/**
+ * Put cancelled units back in stock within a transaction
+ *
+ * Only units beyond each line's existing `cancelledQuantity` are restocked, with atomic
+ * increments against the current product documents. Every read happens before the first
+ * write, as Firestore transactions require. Returns the items with their new cancelled quantities.
+ */
+const restockCancelledLines = async (
+  transaction: Transaction,
+  orderId: string,
+  items: OrderItem[],
+  cancelledQuantities: Record<string, number>,
+  user: User,
+  reason: string
+): Promise<OrderItem[]> => {
+  const restock = new Map<string, { units: number; trackInventory: boolean }>();
+
+  const updatedItems = items.map(item => {
+    const alreadyCancelled = item.cancelledQuantity || 0;
+    const cancelled = Math.min(Math.max(cancelledQuantities[item.id] ?? alreadyCancelled, alreadyCancelled), item.quantity);
+    const units = cancelled - alreadyCancelled;
+    if (units === 0) {
+      return item;
+    }
+
+    // Stock was only taken for products that tracked inventory when the order was placed
+    const entry = restock.get(item.productId) ?? { units: 0, trackInventory: false };
+    restock.set(item.productId, {
+      units: entry.units + units,
+      trackInventory: entry.trackInventory || item.product.inventory.trackInventory
+    });
+    return { ...item, cancelledQuantity: cancelled };
+  });
+
+  const productIds = [...restock.keys()];
+  const productDocs = await Promise.all(
+    productIds.map(productId => transaction.get(doc(db, "products", productId)))
+  );
+
+  productDocs.forEach((productDoc, index) => {
+    // Deleted products have no stock left to restore
+    if (!productDoc.exists()) {
+      return;
+    }
+
+    const productId = productIds[index];
+    const { units, trackInventory } = restock.get(productId)!;
+    const movement = trackInventory
+      ? createInventoryMovement(productId, {
+        type: 'cancellation',
+        quantity: units,
+        stockAfter: (productDoc.data().inventory?.stock || 0) + units,
+        reason,
+        orderId
+      }, user)
+      : null;
+
+    transaction.update(doc(db, "products", productId), {
+      ...(movement && { "inventory.stock": increment(units), "inventory.lastMovementId": movement.ref.id }),
+      salesCount: increment(-units),
+      updatedAt: serverTimestamp()
+    });
+    if (movement) {
+      transaction.set(movement.ref, movement.data);
+    }
+  });
+
+  return updatedItems;
 };
\ No newline at end of file
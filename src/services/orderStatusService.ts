@@ -0,0 +1,180 @@
+/**
+ * Order Status Service
+ * Allowed order and payment status transitions, and the audit entries recorded for them
+ */
+
+import type { User } from "firebase/auth";
+import type { UserRole } from "../types/authTypes";
+import type { OrderStatus, PaymentStatus, StatusChangeKind, StatusHistoryEntry } from "../types/orderType";
+import type { ReturnStatus } from "../types/returnType";
+
+// Order statuses each status may move to
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: []
+};
+
+// Payment statuses each status may move to; failed payments may be retried, and a
+// refund or void that fails hands the payment back to the status it was claimed from
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['processing', 'authorized', 'paid', 'failed'],
+  processing: ['authorized', 'paid', 'failed'],
+  authorized: ['paid', 'refunding', 'voided', 'failed'],
+  failed: ['processing', 'authorized', 'paid', 'failed'],
+  paid: ['refunding', 'refunded'],
+  refunding: ['authorized', 'paid', 'refunded', 'voided'],
+  refunded: [],
+  voided: []
+};
+
+// Return statuses each status may move to; a return can be rejected until it is received
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['received', 'rejected'],
+  received: ['refunded'],
+  rejected: [],
+  refunded: []
+};
+
+/**
+ * Thrown when a status change is not allowed by the transition tables
+ */
+export class InvalidStatusTransitionError extends Error {
+  readonly kind: StatusChangeKind;
+  readonly from: string;
+  readonly to: string;
+
+  constructor(kind: StatusChangeKind, from: string, to: string) {
+    super(`Cannot change ${kind} status from ${from} to ${to}`);
+    this.name = 'InvalidStatusTransitionError';
+    this.kind = kind;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Check whether an order may move from one status to another
+ */
+export const canTransitionOrderStatus = (from: OrderStatus, to: OrderStatus): boolean => {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+};
+
+/**
+ * Check whether a payment may move from one status to another
+ */
+export const canTransitionPaymentStatus = (from: PaymentStatus, to: PaymentStatus): boolean => {
+  return PAYMENT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+};
+
+/**
+ * Check whether a return may move from one status to another
+ */
+export const canTransitionReturnStatus = (from: ReturnStatus, to: ReturnStatus): boolean => {
+  return RETURN_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+};
+
+/**
+ * Throw an InvalidStatusTransitionError unless the order status change is allowed
+ */
+export const assertOrderStatusTransition = (from: OrderStatus, to: OrderStatus): void => {
+  if (!canTransitionOrderStatus(from, to)) {
+    throw new InvalidStatusTransitionError('order', from, to);
+  }
+};
+
+/**
+ * Throw an InvalidStatusTransitionError unless the payment status change is allowed
+ */
+export const assertPaymentStatusTransition = (from: PaymentStatus, to: PaymentStatus): void => {
+  if (!canTransitionPaymentStatus(from, to)) {
+    throw new InvalidStatusTransitionError('payment', from, to);
+  }
+};
+
+/**
+ * Throw an InvalidStatusTransitionError unless the return status change is allowed
+ */
+export const assertReturnStatusTransition = (from: ReturnStatus, to: ReturnStatus): void => {
+  if (!canTransitionReturnStatus(from, to)) {
+    throw new InvalidStatusTransitionError('return', from, to);
+  }
+};
+
+/**
+ * Build an audit entry for a status change
+ * Uses a client Date because Firestore does not allow serverTimestamp() inside arrays.
+ */
+export const createStatusHistoryEntry = (
+  kind: StatusChangeKind,
+  from: string | null,
+  to: string,
+  user: Pick<User, 'uid' | 'email'>,
+  role?: UserRole | null,
+  reason?: string
+): StatusHistoryEntry => ({
+  kind,
+  from,
+  to,
+  changedBy: user.uid,
+  changedByEmail: user.email || '',
+  ...(role ? { changedByRole: role } : {}),
+  changedAt: new Date(),
+  ...(reason ? { reason } : {})
+});
+
+/**
+ * Bootstrap badge colour for an order status
+ */
+export const getOrderStatusBadgeVariant = (status: OrderStatus): string => {
+  switch (status) {
+    case 'pending': return 'warning';
+    case 'confirmed': return 'info';
+    case 'processing': return 'primary';
+    case 'shipped': return 'success';
+    case 'delivered': return 'success';
+    case 'cancelled': return 'danger';
+    default: return 'secondary';
+  }
+};
+
+/**
+ * Bootstrap badge colour for a payment status
+ */
+export const getPaymentStatusBadgeVariant = (paymentStatus: PaymentStatus): string => {
+  switch (paymentStatus) {
+    case 'paid': return 'success';
+    case 'processing':
+    case 'refunding':
+    case 'authorized': return 'info';
+    case 'failed': return 'danger';
+    case 'refunded':
+    case 'voided': return 'secondary';
+    default: return 'warning';
+  }
+};
+
+/**
+ * Bootstrap badge colour for a return status
+ */
+export const getReturnStatusBadgeVariant = (status: ReturnStatus): string => {
+  switch (status) {
+    case 'requested': return 'warning';
+    case 'approved': return 'info';
+    case 'received': return 'primary';
+    case 'refunded': return 'success';
+    case 'rejected': return 'danger';
+    default: return 'secondary';
+  }
+};
+
+/**
+ * Capitalise a status for display, e.g. "pending" -> "Pending"
+ */
+export const formatStatusLabel = (status: string): string => {
+  return status.charAt(0).toUpperCase() + status.slice(1);
+};
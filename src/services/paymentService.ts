@@ -0,0 +1,249 @@
+/**
+ * Payment Service
+ * Payment provider registry, card helpers and the in-memory mock gateway
+ */
+
+import type {
+  AuthorizeRequest,
+  OrderPayment,
+  PaymentOperation,
+  PaymentProvider,
+  PaymentResult,
+  PaymentSource,
+  PaymentTransaction
+} from "../types/paymentType";
+
+// Card numbers with fixed outcomes in the mock gateway
+export const MOCK_TEST_CARDS = {
+  success: '4242424242424242',
+  declined: '4000000000000002',
+  insufficientFunds: '4000000000009995',
+  captureFails: '4000000000000341'
+};
+
+// ========================================
+// Provider Registry
+// ========================================
+
+/**
+ * Deterministic in-memory gateway for development and tests
+ * Outcomes depend only on the card number, and references are sequential per instance.
+ * Authorizations live in memory; ones it has not seen, e.g. after a page reload, are
+ * rebuilt from the amounts stored on the order (see `restore`).
+ */
+export const createMockPaymentProvider = (): PaymentProvider => {
+  const authorizations = new Map<string, {
+    amount: number;
+    captured: number;
+    refunded: number;
+    voided: boolean;
+    cardNumber: string;
+  }>();
+  let sequence = 0;
+
+  const result = (
+    operation: PaymentOperation,
+    authorizationId: string,
+    amount: number,
+    errorCode?: string,
+    errorMessage?: string
+  ): PaymentResult => {
+    sequence += 1;
+    return {
+      success: !errorCode,
+      operation,
+      transactionId: `mock_${operation}_${sequence}`,
+      authorizationId,
+      amount,
+      ...(errorCode ? { errorCode, errorMessage } : {})
+    };
+  };
+
+  return {
+    name: 'mock',
+
+    async authorize(request: AuthorizeRequest): Promise<PaymentResult> {
+      const authorizationId = `mock_auth_${request.orderId}_${sequence + 1}`;
+      const cardNumber = normalizeCardNumber(request.source.cardNumber);
+
+      const validationError = validatePaymentSource(request.source);
+      if (validationError) {
+        return result('authorize', authorizationId, request.amount, 'invalid_card', validationError);
+      }
+      if (cardNumber === MOCK_TEST_CARDS.declined) {
+        return result('authorize', authorizationId, request.amount, 'card_declined', 'Your card was declined');
+      }
+      if (cardNumber === MOCK_TEST_CARDS.insufficientFunds) {
+        return result('authorize', authorizationId, request.amount, 'insufficient_funds', 'Your card has insufficient funds');
+      }
+
+      authorizations.set(authorizationId, {
+        amount: request.amount,
+        captured: 0,
+        refunded: 0,
+        voided: false,
+        cardNumber
+      });
+      return result('authorize', authorizationId, request.amount);
+    },
+
+    async capture(authorizationId: string, amount: number): Promise<PaymentResult> {
+      const authorization = authorizations.get(authorizationId);
+      if (!authorization || authorization.voided) {
+        return result('capture', authorizationId, amount, 'invalid_authorization', 'Authorization not found or voided');
+      }
+      if (authorization.cardNumber === MOCK_TEST_CARDS.captureFails) {
+        return result('capture', authorizationId, amount, 'capture_failed', 'The payment could not be captured');
+      }
+      if (authorization.captured + amount > authorization.amount + 0.001) {
+        return result('capture', authorizationId, amount, 'amount_too_large', 'Capture exceeds the authorized amount');
+      }
+
+      authorization.captured += amount;
+      return result('capture', authorizationId, amount);
+    },
+
+    async refund(authorizationId: string, amount: number): Promise<PaymentResult> {
+      const authorization = authorizations.get(authorizationId);
+      if (!authorization) {
+        return result('refund', authorizationId, amount, 'invalid_authorization', 'Authorization not found');
+      }
+      if (authorization.refunded + amount > authorization.captured + 0.001) {
+        return result('refund', authorizationId, amount, 'amount_too_large', 'Refund exceeds the captured amount');
+      }
+
+      authorization.refunded += amount;
+      return result('refund', authorizationId, amount);
+    },
+
+    async void(authorizationId: string): Promise<PaymentResult> {
+      const authorization = authorizations.get(authorizationId);
+      if (!authorization) {
+        return result('void', authorizationId, 0, 'invalid_authorization', 'Authorization not found');
+      }
+      if (authorization.captured > 0) {
+        return result('void', authorizationId, 0, 'already_captured', 'Captured payments must be refunded instead');
+      }
+
+      authorization.voided = true;
+      return result('void', authorizationId, authorization.amount);
+    },
+
+    restore(payment: OrderPayment): void {
+      if (!payment.authorizationId || authorizations.has(payment.authorizationId)) {
+        return;
+      }
+      // Voiding zeroes the stored authorized amount
+      authorizations.set(payment.authorizationId, {
+        amount: Math.max(payment.amountAuthorized, payment.amountCaptured),
+        captured: payment.amountCaptured,
+        refunded: payment.amountRefunded,
+        voided: payment.amountAuthorized === 0 && payment.amountCaptured === 0,
+        cardNumber: ''
+      });
+    }
+  };
+};
+
+let activeProvider: PaymentProvider = createMockPaymentProvider();
+
+/**
+ * Provider used for checkout, refunds and voids
+ */
+export const getPaymentProvider = (): PaymentProvider => activeProvider;
+
+/**
+ * Provider for refunding or voiding a payment recorded on an order
+ * The provider is told about the stored authorization first, in case it has not seen it.
+ */
+export const getPaymentProviderFor = (payment: OrderPayment): PaymentProvider => {
+  activeProvider.restore?.(payment);
+  return activeProvider;
+};
+
+/**
+ * Swap the payment provider, e.g. for a real gateway in production or a fresh mock in tests
+ */
+export const setPaymentProvider = (provider: PaymentProvider): void => {
+  activeProvider = provider;
+};
+
+// ========================================
+// Payment Records
+// ========================================
+
+/**
+ * Record a provider call, leaving out empty error fields (Firestore rejects undefined)
+ */
+export const toPaymentTransaction = (result: PaymentResult): PaymentTransaction => ({
+  operation: result.operation,
+  transactionId: result.transactionId,
+  amount: result.amount,
+  success: result.success,
+  ...(result.errorCode ? { errorCode: result.errorCode } : {}),
+  ...(result.errorMessage ? { errorMessage: result.errorMessage } : {}),
+  createdAt: new Date()
+});
+
+// ========================================
+// Card Helpers
+// ========================================
+
+/**
+ * Strip spaces and dashes from a card number
+ */
+export const normalizeCardNumber = (cardNumber: string): string => cardNumber.replace(/[\s-]/g, '');
+
+/**
+ * Card brand from the card number prefix
+ */
+export const getCardBrand = (cardNumber: string): string => {
+  const digits = normalizeCardNumber(cardNumber);
+  if (/^4/.test(digits)) return 'Visa';
+  if (/^5[1-5]/.test(digits) || /^2[2-7]/.test(digits)) return 'Mastercard';
+  if (/^3[47]/.test(digits)) return 'American Express';
+  if (/^6(011|5)/.test(digits)) return 'Discover';
+  return 'Card';
+};
+
+/**
+ * Check card details before sending them to a provider
+ * Returns an error message, or null when the details look valid
+ */
+export const validatePaymentSource = (source: PaymentSource, now: Date = new Date()): string | null => {
+  const digits = normalizeCardNumber(source.cardNumber);
+
+  if (!source.cardholderName.trim()) {
+    return 'Cardholder name is required';
+  }
+  if (!/^\d{12,19}$/.test(digits) || !passesLuhnCheck(digits)) {
+    return 'Card number is invalid';
+  }
+  if (!Number.isInteger(source.expiryMonth) || source.expiryMonth < 1 || source.expiryMonth > 12) {
+    return 'Expiry month is invalid';
+  }
+
+  // Cards are valid through the end of their expiry month
+  const expiresAt = new Date(source.expiryYear, source.expiryMonth, 1);
+  if (expiresAt <= now) {
+    return 'Card has expired';
+  }
+  if (!/^\d{3,4}$/.test(source.cvc)) {
+    return 'Security code is invalid';
+  }
+
+  return null;
+};
+
+const passesLuhnCheck = (digits: string): boolean => {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
@@ -0,0 +1,169 @@
+/**
+ * PDF Service
+ * A small writer for text-and-rule PDF documents, such as invoices, built in the browser
+ * without a PDF library. Uses the standard Type 1 fonts every PDF reader provides, so
+ * nothing is embedded and text is limited to the Windows-1252 character set.
+ */
+
+// Fonts available to documents: Helvetica, Helvetica Bold and Courier
+export type PdfFont = 'regular' | 'bold' | 'mono';
+
+export interface PdfTextOptions {
+  font?: PdfFont; // Defaults to regular
+  size?: number; // Points, defaults to 10
+  gray?: number; // 0 (black) to 1 (white), defaults to black
+}
+
+export interface PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  readonly pageCount: number;
+  /** Start a new page; later drawing goes on it */
+  addPage: () => void;
+  /** Draw text with its baseline at (x, y), measured from the page's top-left corner */
+  text: (x: number, y: number, value: string, options?: PdfTextOptions) => void;
+  /** Draw monospaced text ending at x, for columns of figures */
+  textRight: (x: number, y: number, value: string, options?: Omit<PdfTextOptions, 'font'>) => void;
+  /** Draw a straight rule between two points */
+  line: (x1: number, y1: number, x2: number, y2: number, lineWidth?: number) => void;
+  /** Serialize the document */
+  toBytes: () => Uint8Array<ArrayBuffer>;
+  toBlob: () => Blob;
+}
+
+// US Letter, in points
+export const PDF_LETTER = { width: 612, height: 792 };
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+  mono: { name: 'F3', baseFont: 'Courier' }
+};
+
+// Courier advances every glyph by 600/1000 of the font size
+const MONO_ADVANCE = 0.6;
+
+// Characters outside Latin-1 that Windows-1252 still covers
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '™': 0x99,
+  '\u202f': 0x20 // Narrow no-break space, used by some locales' number formats
+};
+
+/**
+ * Encode text for a PDF string literal in WinAnsiEncoding
+ * Characters the standard fonts cannot show become "?".
+ */
+export const encodePdfText = (value: string): string => {
+  let encoded = '';
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 0;
+    const printable = (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff);
+    const byte = WIN_ANSI_EXTRAS[char] ?? (printable ? code : 0x3f);
+    const latin = String.fromCharCode(byte);
+    encoded += latin === '(' || latin === ')' || latin === '\\' ? `\\${latin}` : latin;
+  }
+  return encoded;
+};
+
+/**
+ * Width of monospaced text in points
+ */
+export const measureMonoText = (value: string, size: number): number =>
+  [...value].length * MONO_ADVANCE * size;
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+/**
+ * Create an empty document with one page
+ */
+export const createPdfDocument = (
+  title?: string,
+  pageSize: { width: number; height: number } = PDF_LETTER
+): PdfDocument => {
+  const { width, height } = pageSize;
+  const pages: string[][] = [[]];
+  const currentPage = () => pages[pages.length - 1];
+
+  const text = (x: number, y: number, value: string, options: PdfTextOptions = {}) => {
+    const { font = 'regular', size = 10, gray = 0 } = options;
+    currentPage().push(
+      `BT ${formatNumber(gray)} g /${FONT_RESOURCES[font].name} ${formatNumber(size)} Tf ` +
+      `${formatNumber(x)} ${formatNumber(height - y)} Td (${encodePdfText(value)}) Tj ET`
+    );
+  };
+
+  // Offsets are byte positions; every character here is a single Latin-1 byte
+  const toBytes = () => {
+    const objects: string[] = [];
+    const fontIds: Record<string, number> = {};
+    const pageIds: number[] = [];
+
+    // Object 1 is the catalog and 2 the page tree; both are filled in once page IDs are known
+    objects.push('', '');
+    (Object.keys(FONT_RESOURCES) as PdfFont[]).forEach(font => {
+      objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[font].baseFont} /Encoding /WinAnsiEncoding >>`);
+      fontIds[font] = objects.length;
+    });
+    const fontDictionary = (Object.keys(FONT_RESOURCES) as PdfFont[])
+      .map(font => `/${FONT_RESOURCES[font].name} ${fontIds[font]} 0 R`)
+      .join(' ');
+
+    pages.forEach(operations => {
+      const stream = operations.join('\n');
+      objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+      const contentId = objects.length;
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /Font << ${fontDictionary} >> >> /Contents ${contentId} 0 R >>`
+      );
+      pageIds.push(objects.length);
+    });
+
+    objects[0] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects.push(title ? `<< /Title (${encodePdfText(title)}) >>` : '<< >>');
+    const infoId = objects.length;
+
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets = objects.map((object, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i);
+    }
+    return bytes;
+  };
+
+  return {
+    width,
+    height,
+    get pageCount() {
+      return pages.length;
+    },
+    addPage: () => {
+      pages.push([]);
+    },
+    text,
+    textRight: (x, y, value, options = {}) => {
+      text(x - measureMonoText(value, options.size ?? 10), y, value, { ...options, font: 'mono' });
+    },
+    line: (x1, y1, x2, y2, lineWidth = 0.5) => {
+      currentPage().push(
+        `${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(height - y1)} m ` +
+        `${formatNumber(x2)} ${formatNumber(height - y2)} l S`
+      );
+    },
+    toBytes,
+    toBlob: () => new Blob([toBytes()], { type: 'application/pdf' })
+  };
+};
@@ -1,25 +1,58 @@
 import { 
   collection,
   doc,
-  setDoc,
   getDoc,
   getDocs,
   updateDoc,
-  deleteDoc,
   query,
   where,
+  orderBy,
   limit,
+  startAfter,
+  getCountFromServer,
+  and,
+  or,
   serverTimestamp,
+  runTransaction,
   writeBatch
 } from "firebase/firestore";
+import type {
+  DocumentData,
+  DocumentReference,
+  QueryFilterConstraint,
+  QueryNonFilterConstraint,
+  Transaction
+} from "firebase/firestore";
+import type { User } from "firebase/auth";
 import { auth, db } from "../firebase/index";
+import { requireRole, ADMIN_ROLES, PRODUCT_MANAGER_ROLES } from "./accessControlService";
+import {
+  applyProductFilters,
+  getSelectedCategories,
+  MAX_SELECTED_CATEGORIES,
+  RATING_FACET_THRESHOLDS,
+  rankFacetCounts
+} from "./facetService";
+import type { FacetKey } from "./facetService";
+import { createInventoryMovement, createStockCountMovement, isLowStock, validateStockCount } from "./inventoryService";
+import {
+  createSearchIndex,
+  indexCatalogProduct,
+  isCatalogSearchIndexLoaded,
+  loadCatalogSearchIndex,
+  searchCatalog,
+  searchIndex,
+  unindexCatalogProducts
+} from "./searchService";
 import type { 
   Product, 
   ProductCreateData, 
   ProductUpdateData, 
+  ProductFacets,
   ProductFilters, 
   ProductSort,
-  ProductsResponse 
+  ProductsResponse,
+  ProductPageCursor
 } from "../types/productType";
 
 /**
@@ -28,6 +61,12 @@ import type {
  * Comprehensive product service with advanced filtering and management features
  */
 
+// Products sampled to find the category and tag values the storefront sidebar counts
+const FACET_SAMPLE_SIZE = 200;
+
+// Most tag values the storefront sidebar offers
+const MAX_TAG_FACETS = 15;
+
 // ========================================
 // CREATE Operations
 // ========================================
@@ -50,6 +89,8 @@ export const createProduct = async (productData: ProductCreateData): Promise<Pro
       email: user.email,
       displayName: user.displayName
     });
+
+    await requireRole(PRODUCT_MANAGER_ROLES, "create products");
     console.log("🏷️ Product will be created with createdBy:", user.uid);
 
     // Validate required fields
@@ -78,10 +119,13 @@ export const createProduct = async (productData: ProductCreateData): Promise<Pro
       description: productData.description,
       category: productData.category,
       image: productData.image || '',
+      images: productData.images || [],
       rating: {
         rate: 0,
-        count: 0
+        count: 0,
+        total: 0
       },
+      salesCount: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
       createdBy: user.uid,
@@ -89,35 +133,44 @@ export const createProduct = async (productData: ProductCreateData): Promise<Pro
       inventory: {
         stock: productData.stock || 0,
         sku: productData.sku || '',
-        trackInventory: productData.trackInventory ?? true
+        trackInventory: productData.trackInventory ?? true,
+        maxPerOrder: productData.maxPerOrder || 0,
+        ...(productData.lowStockThreshold !== undefined && { lowStockThreshold: productData.lowStockThreshold }),
+        weight: productData.weight || 0,
+        dimensions: {
+          length: productData.length || 0,
+          width: productData.width || 0,
+          height: productData.height || 0
+        }
       },
       seo: {
-        slug: generateSlug(productData.title),
         metaTitle: productData.metaTitle || productData.title,
         metaDescription: productData.metaDescription || productData.description
       },
       tags: productData.tags || [],
-      variants: []
+      variants: productData.variants || []
     };
 
     console.log("🏗️ Prepared product data:", product);
 
-    // Save to Firestore
+    // Save to Firestore, reserving the slug and recording the starting stock as the first ledger movement
     console.log("💾 Saving to Firestore...");
-    await setDoc(productRef, {
-      ...product,
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp()
+    const slug = await runTransaction(db, async (transaction) => {
+      const slug = await resolveProductSlug(transaction, productData.slug, productData.title, productRef.id);
+      writeNewProduct(transaction, productRef, { ...product, seo: { ...product.seo, slug } }, user);
+      return slug;
     });
 
     console.log("✅ Product saved successfully with ID:", productRef.id);
 
     const finalProduct = {
       id: productRef.id,
-      ...product
+      ...product,
+      seo: { ...product.seo, slug }
     };
 
     console.log("🎉 Returning created product:", finalProduct);
+    indexCatalogProduct(finalProduct);
 
     return finalProduct;
   } catch (error) {
@@ -139,22 +192,25 @@ export const createProductsBatch = async (products: ProductCreateData[]): Promis
       throw new Error("User must be authenticated to create products");
     }
 
-    const batch = writeBatch(db);
-    const createdProducts: Product[] = [];
+    await requireRole(PRODUCT_MANAGER_ROLES, "create products");
+
+    const newProducts: { ref: DocumentReference; data: ProductCreateData; product: Omit<Product, 'id'> }[] = [];
 
     for (const productData of products) {
       const productRef = doc(collection(db, "products"));
-      
       const product: Omit<Product, 'id'> = {
         title: productData.title,
         price: productData.price,
         description: productData.description,
         category: productData.category,
         image: productData.image,
+        images: productData.images || [],
         rating: {
           rate: 0,
-          count: 0
+          count: 0,
+          total: 0
         },
+        salesCount: 0,
         createdAt: new Date(),
         updatedAt: new Date(),
         createdBy: user.uid,
@@ -162,30 +218,44 @@ export const createProductsBatch = async (products: ProductCreateData[]): Promis
         inventory: {
           stock: productData.stock,
           sku: productData.sku,
-          trackInventory: productData.trackInventory
+          trackInventory: productData.trackInventory,
+          maxPerOrder: productData.maxPerOrder || 0,
+          ...(productData.lowStockThreshold !== undefined && { lowStockThreshold: productData.lowStockThreshold }),
+          weight: productData.weight || 0,
+          dimensions: {
+            length: productData.length || 0,
+            width: productData.width || 0,
+            height: productData.height || 0
+          }
         },
         seo: {
-          slug: generateSlug(productData.title),
           metaTitle: productData.metaTitle,
           metaDescription: productData.metaDescription
         },
         tags: productData.tags || [],
-        variants: []
+        variants: productData.variants || []
       };
 
-      batch.set(productRef, {
-        ...product,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
-      });
-
-      createdProducts.push({
-        id: productRef.id,
-        ...product
-      });
+      newProducts.push({ ref: productRef, data: productData, product });
     }
 
-    await batch.commit();
+    // Pick every slug before writing, as a transaction's reads must come first
+    const createdProducts = await runTransaction(db, async (transaction) => {
+      const claimedSlugs = new Set<string>(); // Slugs picked earlier in this batch
+      const slugs: string[] = [];
+      for (const { ref, data } of newProducts) {
+        const slug = await resolveProductSlug(transaction, data.slug, data.title, ref.id, claimedSlugs);
+        claimedSlugs.add(slug);
+        slugs.push(slug);
+      }
+
+      return newProducts.map(({ ref, product }, index) => {
+        const created = { ...product, seo: { ...product.seo, slug: slugs[index] } };
+        writeNewProduct(transaction, ref, created, user);
+        return { id: ref.id, ...created };
+      });
+    });
+    createdProducts.forEach(indexCatalogProduct);
     return createdProducts;
   } catch (error) {
     console.error("Error creating products batch:", error);
@@ -198,13 +268,154 @@ export const createProductsBatch = async (products: ProductCreateData[]): Promis
 // ========================================
 
 /**
- * Get all products with optional filtering, sorting, and pagination
+ * Firestore filters for the product filters that can run server-side
+ * Pass a facet to leave its filter out, for counting that facet's values. Tags are
+ * not included: combined with several categories they can exceed Firestore's limit
+ * on disjunctions in one query, so they are matched against each fetched page.
+ */
+const getServerFilterConstraints = (filters: ProductFilters, ignoreFacet?: FacetKey): QueryFilterConstraint[] => {
+  const constraints: QueryFilterConstraint[] = [];
+
+  const categories = getSelectedCategories(filters).slice(0, MAX_SELECTED_CATEGORIES);
+  if (ignoreFacet !== 'categories' && categories.length > 0) {
+    constraints.push(categories.length === 1
+      ? where("category", "==", categories[0])
+      : where("category", "in", categories));
+  }
+
+  if (ignoreFacet !== 'price') {
+    if (filters.minPrice !== undefined) constraints.push(where("price", ">=", filters.minPrice));
+    if (filters.maxPrice !== undefined) constraints.push(where("price", "<=", filters.maxPrice));
+  }
+
+  // Untracked products are always available
+  if (ignoreFacet !== 'inStock' && filters.inStock) {
+    constraints.push(inStockConstraint());
+  }
+
+  if (ignoreFacet !== 'rating' && filters.minRating !== undefined) {
+    constraints.push(where("rating.rate", ">=", filters.minRating));
+  }
+
+  if (filters.isActive !== undefined) {
+    constraints.push(where("isActive", "==", filters.isActive));
+  }
+
+  return constraints;
+};
+
+const inStockConstraint = (): QueryFilterConstraint =>
+  or(where("inventory.trackInventory", "==", false), where("inventory.stock", ">", 0));
+
+/**
+ * Run one cursor-paginated product query within the given scope
+ *
+ * Category, price, stock, rating, status and sorting run in Firestore; tags and search
+ * terms are applied to each fetched page, so a page may hold fewer than `pageSize`
+ * products while `hasMore` is still true. Pass `nextPageToken` back in to fetch the
+ * following page.
+ */
+const queryProductPage = async (
+  scopeConstraints: QueryFilterConstraint[],
+  filters: ProductFilters,
+  sort: ProductSort,
+  pageSize: number,
+  pageToken?: string,
+  ownerId?: string
+): Promise<ProductsResponse> => {
+  // Server-side filters shared by the page query and the count query
+  const filterConstraint = and(...scopeConstraints, ...getServerFilterConstraints(filters));
+  const pageConstraints: QueryNonFilterConstraint[] = [orderBy(sort.field, sort.direction)];
+
+  // Resume after the last document of the previous page
+  const cursor = pageToken ? decodePageToken(pageToken) : null;
+  if (cursor) {
+    const cursorDoc = await getDoc(doc(db, "products", cursor.lastId));
+    if (!cursorDoc.exists()) {
+      throw new Error("Page token refers to a product that no longer exists");
+    }
+    pageConstraints.push(startAfter(cursorDoc));
+  }
+
+  pageConstraints.push(limit(pageSize + 1)); // Get one extra to check if there are more
+  
+  console.log("📝 Query constraints:", pageConstraints.length);
+  
+  // Create and execute query
+  const productsQuery = query(collection(db, "products"), filterConstraint, ...pageConstraints);
+  console.log("🔄 Executing Firestore query...");
+  const [querySnapshot, countSnapshot] = await Promise.all([
+    getDocs(productsQuery),
+    getCountFromServer(query(collection(db, "products"), filterConstraint))
+  ]);
+  
+  console.log("📊 Raw Firestore results:", querySnapshot.docs.length, "documents");
+  
+  const hasMore = querySnapshot.docs.length > pageSize;
+  const pageDocs = querySnapshot.docs.slice(0, pageSize);
+  const products: Product[] = [];
+  
+  pageDocs.forEach((doc) => {
+    const data = doc.data();
+    
+    // Double-check that owner-scoped results belong to the current user
+    if (ownerId && data.createdBy !== ownerId) {
+      console.warn("⚠️ Found product not owned by current user - this should not happen!", {
+        productId: doc.id,
+        productCreatedBy: data.createdBy,
+        currentUser: ownerId
+      });
+      return; // Skip this product
+    }
+    
+    products.push(mapProductDoc(doc.id, data));
+  });
+
+  console.log("📦 Processed products:", products.length);
+
+  // Apply the filters Firestore cannot run to this page
+  let filteredProducts = applyProductFilters(products, filters);
+
+  // Filter by search term (client-side, typo tolerant), keeping the requested sort order
+  if (filters.searchTerm) {
+    const matchingIds = new Set(
+      searchIndex(createSearchIndex(filteredProducts), filters.searchTerm).map(result => result.product.id)
+    );
+    filteredProducts = filteredProducts.filter(product => matchingIds.has(product.id));
+  }
+
+  const page = cursor ? cursor.page + 1 : 0;
+  const lastDoc = pageDocs[pageDocs.length - 1];
+  const nextPageToken = hasMore && lastDoc
+    ? encodePageToken({ lastId: lastDoc.id, page })
+    : undefined;
+
+  console.log("✅ Final result:", {
+    page,
+    fetched: pageDocs.length,
+    afterFiltering: filteredProducts.length,
+    hasMore
+  });
+
+  return {
+    products: filteredProducts,
+    total: countSnapshot.data().count,
+    page,
+    limit: pageSize,
+    hasMore,
+    nextPageToken
+  };
+};
+
+/**
+ * Get all products with optional filtering, sorting, and cursor-based pagination
  * Only returns products created by the currently authenticated user
  */
 export const getProducts = async (
   filters: ProductFilters = {},
   sort: ProductSort = { field: 'createdAt', direction: 'desc' },
-  pageSize: number = 20
+  pageSize: number = 20,
+  pageToken?: string
 ): Promise<ProductsResponse> => {
   try {
     console.log("🔍 getProducts called with filters:", filters);
@@ -229,147 +440,47 @@ export const getProducts = async (
     });
     console.log("🎯 Filtering products by createdBy:", user.uid);
     
-    // Simplified query to avoid complex Firestore indexes
-    // We'll use client-side filtering for categories and sorting to avoid index requirements
-    const constraints: Parameters<typeof query>[1][] = [];
-
     // IMPORTANT: Filter by user ID first to ensure user-specific products
-    constraints.push(where("createdBy", "==", user.uid));
-    
-    // Don't add orderBy here to avoid composite index requirements
-    // We'll sort on the client side instead
-    constraints.push(limit(100)); // Get up to 100 user products
-    
-    console.log("📝 Query constraints:", constraints.length);
-    
-    // Create and execute query
-    const productsQuery = query(collection(db, "products"), ...constraints);
-    console.log("🔄 Executing Firestore query...");
-    const querySnapshot = await getDocs(productsQuery);
-    
-    console.log("📊 Raw Firestore results:", querySnapshot.docs.length, "documents");
-    
-    const products: Product[] = [];
-    
-    querySnapshot.docs.forEach((doc) => {
-      const data = doc.data();
-      console.log("📄 Processing document:", {
-        id: doc.id,
-        title: data.title,
-        createdBy: data.createdBy,
-        currentUser: user.uid,
-        isUserOwned: data.createdBy === user.uid
-      });
-      
-      // Double-check that this product belongs to the current user
-      if (data.createdBy !== user.uid) {
-        console.warn("⚠️ Found product not owned by current user - this should not happen!", {
-          productId: doc.id,
-          productCreatedBy: data.createdBy,
-          currentUser: user.uid
-        });
-        return; // Skip this product
-      }
-      
-      products.push({
-        id: doc.id,
-        title: data.title,
-        price: data.price,
-        description: data.description,
-        category: data.category,
-        image: data.image,
-        rating: data.rating || { rate: 0, count: 0 },
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date(),
-        createdBy: data.createdBy,
-        isActive: data.isActive !== false,
-        inventory: data.inventory || { stock: 0, trackInventory: false },
-        seo: data.seo || {},
-        tags: data.tags || [],
-        variants: data.variants || []
-      });
-    });
-
-    console.log("📦 Processed products:", products.length);
-
-    // Apply client-side filtering to avoid complex Firestore indexes
-    let filteredProducts = products;
-    
-    // Filter by category if specified (client-side)
-    if (filters.category) {
-      console.log("🎯 Filtering by category:", filters.category);
-      filteredProducts = filteredProducts.filter(p => p.category === filters.category);
-      console.log("📊 After category filter:", filteredProducts.length);
-    }
-    
-    if (filters.isActive !== undefined) {
-      console.log("🎯 Filtering by isActive:", filters.isActive);
-      filteredProducts = filteredProducts.filter(p => p.isActive === filters.isActive);
-      console.log("📊 After isActive filter:", filteredProducts.length);
-    }
-    
-    if (filters.inStock) {
-      filteredProducts = filteredProducts.filter(p => p.inventory.stock > 0);
-    }
-
-    if (filters.minPrice !== undefined) {
-      filteredProducts = filteredProducts.filter(p => p.price >= filters.minPrice!);
-    }
-    
-    if (filters.maxPrice !== undefined) {
-      filteredProducts = filteredProducts.filter(p => p.price <= filters.maxPrice!);
-    }
-
-    if (filters.tags && filters.tags.length > 0) {
-      filteredProducts = filteredProducts.filter(p => 
-        p.tags && p.tags.some(tag => filters.tags!.includes(tag))
-      );
-    }
-
-    // Filter by search term (client-side)
-    if (filters.searchTerm) {
-      const searchLower = filters.searchTerm.toLowerCase();
-      filteredProducts = filteredProducts.filter(product =>
-        product.title.toLowerCase().includes(searchLower) ||
-        product.description.toLowerCase().includes(searchLower) ||
-        (product.tags && product.tags.some(tag => tag.toLowerCase().includes(searchLower)))
-      );
-    }
-
-    // Apply client-side sorting
-    filteredProducts.sort((a, b) => {
-      const aValue = a[sort.field as keyof Product] as string | number | Date;
-      const bValue = b[sort.field as keyof Product] as string | number | Date;
-      
-      if (sort.direction === "asc") {
-        return aValue > bValue ? 1 : -1;
-      } else {
-        return aValue < bValue ? 1 : -1;
-      }
-    });
+    return await queryProductPage(
+      [where("createdBy", "==", user.uid)],
+      filters,
+      sort,
+      pageSize,
+      pageToken,
+      user.uid
+    );
+  } catch (error) {
+    console.error("❌ Error fetching products:", error);
+    throw new Error("Failed to fetch products");
+  }
+};
 
-    // Apply pagination
-    const startIndex = 0; // Simplified pagination
-    const endIndex = pageSize;
-    const paginatedProducts = filteredProducts.slice(startIndex, endIndex);
+/**
+ * Get the public storefront catalog: active products from every seller
+ * Read-only and available to signed-out visitors
+ */
+export const getCatalogProducts = async (
+  filters: ProductFilters = {},
+  sort: ProductSort = { field: 'createdAt', direction: 'desc' },
+  pageSize: number = 20,
+  pageToken?: string
+): Promise<ProductsResponse> => {
+  try {
+    console.log("🛒 getCatalogProducts called with filters:", filters);
 
-    console.log("✅ Final result:", {
-      totalRaw: products.length,
-      afterFiltering: filteredProducts.length,
-      afterPagination: paginatedProducts.length,
-      hasMore: filteredProducts.length > pageSize
-    });
+    // The storefront never exposes inactive products, whatever the caller asks for
+    const catalogFilters: ProductFilters = { ...filters, isActive: undefined };
 
-    return {
-      products: paginatedProducts,
-      total: filteredProducts.length,
-      page: 0,
-      limit: pageSize,
-      hasMore: filteredProducts.length > pageSize
-    };
+    return await queryProductPage(
+      [where("isActive", "==", true)],
+      catalogFilters,
+      sort,
+      pageSize,
+      pageToken
+    );
   } catch (error) {
-    console.error("❌ Error fetching products:", error);
-    throw new Error("Failed to fetch products");
+    console.error("❌ Error fetching catalog products:", error);
+    throw new Error("Failed to fetch catalog products");
   }
 };
 
@@ -395,23 +506,7 @@ export const getProductById = async (productId: string): Promise<Product | null>
         return null;
       }
       
-      return {
-        id: productDoc.id,
-        title: data.title,
-        price: data.price,
-        description: data.description,
-        category: data.category,
-        image: data.image,
-        rating: data.rating || { rate: 0, count: 0 },
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date(),
-        createdBy: data.createdBy,
-        isActive: data.isActive !== false,
-        inventory: data.inventory || { stock: 0, trackInventory: false },
-        seo: data.seo || {},
-        tags: data.tags || [],
-        variants: data.variants || []
-      };
+      return mapProductDoc(productDoc.id, data);
     }
     
     return null;
@@ -421,6 +516,54 @@ export const getProductById = async (productId: string): Promise<Product | null>
   }
 };
 
+/**
+ * Get a single storefront product by ID (any seller, active products only)
+ */
+export const getCatalogProductById = async (productId: string): Promise<Product | null> => {
+  try {
+    const productDoc = await getDoc(doc(db, "products", productId));
+
+    if (productDoc.exists()) {
+      const data = productDoc.data();
+
+      // Inactive products are drafts or soft-deleted and stay hidden from shoppers
+      if (data.isActive === false) {
+        return null;
+      }
+
+      return mapProductDoc(productDoc.id, data);
+    }
+
+    return null;
+  } catch (error) {
+    console.error("Error fetching catalog product:", error);
+    throw new Error("Failed to fetch product");
+  }
+};
+
+/**
+ * Get a single storefront product by its URL slug
+ * Falls back to treating the value as a product ID so older links keep working.
+ */
+export const getCatalogProductBySlug = async (slug: string): Promise<Product | null> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, "products"), where("seo.slug", "==", slug), limit(1))
+    );
+
+    if (!snapshot.empty) {
+      const productDoc = snapshot.docs[0];
+      const data = productDoc.data();
+      return data.isActive === false ? null : mapProductDoc(productDoc.id, data);
+    }
+
+    return await getCatalogProductById(slug);
+  } catch (error) {
+    console.error("Error fetching product by slug:", error);
+    throw new Error("Failed to fetch product");
+  }
+};
+
 /**
  * Get products by category
  */
@@ -470,146 +613,248 @@ export const getCategories = async (): Promise<string[]> => {
 };
 
 /**
- * Search products
+ * Get all categories that have at least one active product in the storefront
  */
-export const searchProducts = async (searchTerm: string): Promise<Product[]> => {
+export const getCatalogCategories = async (): Promise<string[]> => {
   try {
-    const result = await getProducts({ 
-      searchTerm, 
-      isActive: true 
+    const q = query(
+      collection(db, "products"),
+      where("isActive", "==", true)
+    );
+
+    const querySnapshot = await getDocs(q);
+    const categories = new Set<string>();
+
+    querySnapshot.docs.forEach((doc) => {
+      const data = doc.data();
+      if (data.category) {
+        categories.add(data.category);
+      }
     });
-    return result.products;
+
+    return Array.from(categories).sort();
   } catch (error) {
-    console.error("Error searching products:", error);
-    throw new Error("Failed to search products");
+    console.error("Error fetching catalog categories:", error);
+    throw new Error("Failed to fetch categories");
   }
 };
 
-// ========================================
-// UPDATE Operations
-// ========================================
-
 /**
- * Update product
+ * Facet counts for the storefront sidebar, across the whole catalog
+ *
+ * The category and tag values offered come from a bounded sample of the catalog, plus
+ * any already selected; each value is then counted with an aggregate query against the
+ * other server-side filters, and the price range is read from the cheapest and dearest
+ * matching products. Tag selections narrow the listing but not the other facets' counts.
  */
-export const updateProduct = async (
-  productId: string, 
-  updateData: ProductUpdateData
-): Promise<Product> => {
+export const getCatalogFacets = async (filters: ProductFilters): Promise<ProductFacets> => {
   try {
-    const productRef = doc(db, "products", productId);
-    const productDoc = await getDoc(productRef);
-    
-    if (!productDoc.exists()) {
-      throw new Error("Product not found");
-    }
+    const productsRef = collection(db, "products");
+    const catalogFilters: ProductFilters = { ...filters, isActive: undefined };
+    const matching = (ignoreFacet: FacetKey, ...extra: QueryFilterConstraint[]) =>
+      and(where("isActive", "==", true), ...getServerFilterConstraints(catalogFilters, ignoreFacet), ...extra);
+
+    const countMatching = async (ignoreFacet: FacetKey, ...extra: QueryFilterConstraint[]): Promise<number> => {
+      const snapshot = await getCountFromServer(query(productsRef, matching(ignoreFacet, ...extra)));
+      return snapshot.data().count;
+    };
 
-    // Prepare update data
-    const updates: Record<string, unknown> = {
-      updatedAt: serverTimestamp()
+    const findPrice = async (direction: 'asc' | 'desc'): Promise<number | null> => {
+      const snapshot = await getDocs(query(productsRef, matching('price'), orderBy("price", direction), limit(1)));
+      return snapshot.empty ? null : snapshot.docs[0].data().price;
     };
 
-    // Update basic fields
-    if (updateData.title !== undefined) {
-      updates.title = updateData.title;
-      // Update slug if title changes
-      updates["seo.slug"] = generateSlug(updateData.title);
-    }
-    
-    if (updateData.price !== undefined) updates.price = updateData.price;
-    if (updateData.description !== undefined) updates.description = updateData.description;
-    if (updateData.category !== undefined) updates.category = updateData.category;
-    if (updateData.image !== undefined) updates.image = updateData.image;
-    if (updateData.isActive !== undefined) updates.isActive = updateData.isActive;
-
-    // Update inventory
-    if (updateData.stock !== undefined) updates["inventory.stock"] = updateData.stock;
-    if (updateData.sku !== undefined) updates["inventory.sku"] = updateData.sku;
-    if (updateData.trackInventory !== undefined) updates["inventory.trackInventory"] = updateData.trackInventory;
-
-    // Update SEO
-    if (updateData.metaTitle !== undefined) updates["seo.metaTitle"] = updateData.metaTitle;
-    if (updateData.metaDescription !== undefined) updates["seo.metaDescription"] = updateData.metaDescription;
-
-    // Update tags
-    if (updateData.tags !== undefined) updates.tags = updateData.tags;
-
-    // Update Firestore document
-    await updateDoc(productRef, updates);
-    
-    // Return updated product
-    const updatedProduct = await getProductById(productId);
-    if (!updatedProduct) {
-      throw new Error("Failed to fetch updated product");
-    }
-    
-    return updatedProduct;
+    const sample = await getDocs(query(productsRef, where("isActive", "==", true), limit(FACET_SAMPLE_SIZE)));
+    const sampled = sample.docs.map(productDoc => productDoc.data());
+
+    const categories = [...new Set([
+      ...sampled.map(data => data.category as string).filter(Boolean),
+      ...getSelectedCategories(filters)
+    ])];
+
+    // Offer the tags most common in the sample
+    const sampledTagCounts = new Map<string, number>();
+    sampled.forEach(data => {
+      new Set<string>(data.tags || []).forEach(tag => sampledTagCounts.set(tag, (sampledTagCounts.get(tag) ?? 0) + 1));
+    });
+    const commonTags = rankFacetCounts([...sampledTagCounts].map(([value, count]) => ({ value, count })))
+      .slice(0, MAX_TAG_FACETS)
+      .map(({ value }) => value);
+    const tags = [...new Set([...commonTags, ...(filters.tags || [])])];
+
+    const [categoryCounts, tagCounts, inStockCount, ratingCounts, minPrice, maxPrice] = await Promise.all([
+      Promise.all(categories.map(category => countMatching('categories', where("category", "==", category)))),
+      Promise.all(tags.map(tag => countMatching('tags', where("tags", "array-contains", tag)))),
+      countMatching('inStock', inStockConstraint()),
+      Promise.all(RATING_FACET_THRESHOLDS.map(minRating => countMatching('rating', where("rating.rate", ">=", minRating)))),
+      findPrice('asc'),
+      findPrice('desc')
+    ]);
+
+    return {
+      categories: rankFacetCounts(categories.map((value, index) => ({ value, count: categoryCounts[index] }))),
+      tags: rankFacetCounts(tags.map((value, index) => ({ value, count: tagCounts[index] }))),
+      inStockCount,
+      ratings: RATING_FACET_THRESHOLDS.map((minRating, index) => ({ minRating, count: ratingCounts[index] })),
+      priceRange: minPrice !== null && maxPrice !== null ? { min: minPrice, max: maxPrice } : null
+    };
   } catch (error) {
-    console.error("Error updating product:", error);
-    throw new Error("Failed to update product");
+    console.error("Error fetching catalog facets:", error);
+    throw new Error("Failed to fetch catalog filters");
   }
 };
 
 /**
- * Update product rating
+ * Get every active storefront product, for building the catalog search index
  */
-export const updateProductRating = async (
-  productId: string, 
-  newRating: number
-): Promise<void> => {
+export const getAllCatalogProducts = async (): Promise<Product[]> => {
   try {
-    const productRef = doc(db, "products", productId);
-    const productDoc = await getDoc(productRef);
-    
-    if (!productDoc.exists()) {
-      throw new Error("Product not found");
-    }
-
-    const currentData = productDoc.data();
-    const currentRating = currentData.rating || { rate: 0, count: 0 };
-    
-    // Calculate new average rating
-    const totalRating = currentRating.rate * currentRating.count + newRating;
-    const newCount = currentRating.count + 1;
-    const newAverageRating = totalRating / newCount;
+    const snapshot = await getDocs(query(collection(db, "products"), where("isActive", "==", true)));
+    return snapshot.docs.map(productDoc => mapProductDoc(productDoc.id, productDoc.data()));
+  } catch (error) {
+    console.error("Error fetching catalog for search:", error);
+    throw new Error("Failed to fetch catalog products");
+  }
+};
 
-    await updateDoc(productRef, {
-      "rating.rate": Number(newAverageRating.toFixed(1)),
-      "rating.count": newCount,
-      updatedAt: serverTimestamp()
-    });
+/**
+ * Search the storefront catalog, best matches first
+ * Loads the catalog search index on first use.
+ */
+export const searchProducts = async (searchTerm: string, resultLimit: number = 20): Promise<Product[]> => {
+  try {
+    if (!isCatalogSearchIndexLoaded()) {
+      loadCatalogSearchIndex(await getAllCatalogProducts());
+    }
+    return searchCatalog(searchTerm, { limit: resultLimit }).map(result => result.product);
   } catch (error) {
-    console.error("Error updating product rating:", error);
-    throw new Error("Failed to update product rating");
+    console.error("Error searching products:", error);
+    throw new Error("Failed to search products");
   }
 };
 
+// ========================================
+// UPDATE Operations
+// ========================================
+
 /**
- * Update product inventory
+ * Update product
  */
-export const updateProductInventory = async (
+export const updateProduct = async (
   productId: string, 
-  quantityChange: number
-): Promise<void> => {
+  updateData: ProductUpdateData
+): Promise<Product> => {
   try {
+    // Check the stock level before anything is written
+    if (updateData.stock !== undefined) {
+      validateStockCount(updateData.stock);
+    }
+
     const productRef = doc(db, "products", productId);
-    const productDoc = await getDoc(productRef);
+
+    // Field edits, a stock change and its ledger movement are written together
+    await runTransaction(db, async (transaction) => {
+      const productDoc = await transaction.get(productRef);
+      if (!productDoc.exists()) {
+        throw new Error("Product not found");
+      }
+
+      const currentData = productDoc.data();
+      const user = await assertCanManageProduct(currentData, "update this product");
+
+      // Prepare update data
+      const updates: Record<string, unknown> = {
+        updatedAt: serverTimestamp()
+      };
+
+      // Update basic fields
+      if (updateData.title !== undefined) updates.title = updateData.title;
+
+      // Update slug when a new one is requested or the title changes
+      const slugChanged = updateData.slug !== undefined && generateSlug(updateData.slug) !== currentData.seo?.slug;
+      const titleChanged = updateData.title !== undefined && updateData.title !== currentData.title;
+      const currentSlug: string | undefined = currentData.seo?.slug;
+      const newSlug = slugChanged || titleChanged
+        ? await resolveProductSlug(
+          transaction,
+          slugChanged ? updateData.slug : undefined,
+          updateData.title ?? currentData.title,
+          productId
+        )
+        : currentSlug;
+      if (newSlug !== currentSlug) {
+        updates["seo.slug"] = newSlug;
+      }
     
-    if (!productDoc.exists()) {
-      throw new Error("Product not found");
-    }
+      if (updateData.price !== undefined) updates.price = updateData.price;
+      if (updateData.description !== undefined) updates.description = updateData.description;
+      if (updateData.category !== undefined) updates.category = updateData.category;
+      if (updateData.image !== undefined) updates.image = updateData.image;
+      if (updateData.images !== undefined) updates.images = updateData.images;
+      if (updateData.isActive !== undefined) updates.isActive = updateData.isActive;
+
+      // Update inventory
+      if (updateData.sku !== undefined) updates["inventory.sku"] = updateData.sku;
+      if (updateData.trackInventory !== undefined) updates["inventory.trackInventory"] = updateData.trackInventory;
+      if (updateData.maxPerOrder !== undefined) updates["inventory.maxPerOrder"] = updateData.maxPerOrder;
+      if (updateData.lowStockThreshold !== undefined) updates["inventory.lowStockThreshold"] = updateData.lowStockThreshold;
+      if (updateData.weight !== undefined) updates["inventory.weight"] = updateData.weight;
+      if (updateData.length !== undefined) updates["inventory.dimensions.length"] = updateData.length;
+      if (updateData.width !== undefined) updates["inventory.dimensions.width"] = updateData.width;
+      if (updateData.height !== undefined) updates["inventory.dimensions.height"] = updateData.height;
+
+      // Update SEO
+      if (updateData.metaTitle !== undefined) updates["seo.metaTitle"] = updateData.metaTitle;
+      if (updateData.metaDescription !== undefined) updates["seo.metaDescription"] = updateData.metaDescription;
+
+      // Update tags
+      if (updateData.tags !== undefined) updates.tags = updateData.tags;
+
+      // Update variants
+      if (updateData.variants !== undefined) updates.variants = updateData.variants;
+
+      // Record a stock change in the ledger
+      if (updateData.stock !== undefined) {
+        const movement = createStockCountMovement(
+          productId,
+          currentData.inventory?.stock || 0,
+          updateData.stock,
+          "Stock level edited in product form",
+          user
+        );
+        if (movement) {
+          updates["inventory.stock"] = updateData.stock;
+          updates["inventory.lastMovementId"] = movement.ref.id;
+          transaction.set(movement.ref, movement.data);
+        }
+      }
 
-    const currentData = productDoc.data();
-    const currentStock = currentData.inventory?.stock || 0;
-    const newStock = Math.max(0, currentStock + quantityChange);
+      // Move the slug reservation along with a rename
+      if (newSlug && newSlug !== currentSlug) {
+        reserveSlug(transaction, newSlug, productId);
+        if (currentSlug) {
+          transaction.delete(getSlugRef(currentSlug));
+        }
+      }
 
-    await updateDoc(productRef, {
-      "inventory.stock": newStock,
-      updatedAt: serverTimestamp()
+      transaction.update(productRef, updates);
     });
+    
+    // Return updated product (read directly so admins can edit other sellers' products)
+    const updatedDoc = await getDoc(productRef);
+    if (!updatedDoc.exists()) {
+      throw new Error("Failed to fetch updated product");
+    }
+    
+    const updatedProduct = mapProductDoc(updatedDoc.id, updatedDoc.data());
+    indexCatalogProduct(updatedProduct);
+    return updatedProduct;
   } catch (error) {
-    console.error("Error updating product inventory:", error);
-    throw new Error("Failed to update product inventory");
+    console.error("Error updating product:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to update product: ${error.message}`);
+    }
+    throw new Error("Failed to update product: Unknown error");
   }
 };
 
@@ -623,10 +868,18 @@ export const updateProductInventory = async (
 export const deactivateProduct = async (productId: string): Promise<void> => {
   try {
     const productRef = doc(db, "products", productId);
+    const productDoc = await getDoc(productRef);
+    if (!productDoc.exists()) {
+      throw new Error("Product not found");
+    }
+
+    await assertCanManageProduct(productDoc.data(), "deactivate this product");
+
     await updateDoc(productRef, {
       isActive: false,
       updatedAt: serverTimestamp()
     });
+    unindexCatalogProducts([productId]);
   } catch (error) {
     console.error("Error deactivating product:", error);
     throw new Error("Failed to deactivate product");
@@ -649,13 +902,17 @@ export const deleteProduct = async (productId: string): Promise<void> => {
       throw new Error("Product not found");
     }
 
-    const productData = productDoc.data();
-    if (productData.createdBy !== user.uid) {
-      // In a real app, you'd check for admin role here
-      throw new Error("Unauthorized to delete this product");
-    }
+    await assertCanManageProduct(productDoc.data(), "delete this product");
 
-    await deleteDoc(doc(db, "products", productId));
+    // Free the product's slug for reuse along with the product
+    const batch = writeBatch(db);
+    batch.delete(doc(db, "products", productId));
+    const slug = productDoc.data().seo?.slug;
+    if (slug) {
+      batch.delete(getSlugRef(slug));
+    }
+    await batch.commit();
+    unindexCatalogProducts([productId]);
   } catch (error) {
     console.error("Error deleting product:", error);
     throw new Error("Failed to delete product");
@@ -672,15 +929,22 @@ export const deleteProductsByCategory = async (category: string): Promise<void>
       throw new Error("User must be authenticated to delete products");
     }
 
+    await requireRole(ADMIN_ROLES, "delete products by category");
+
     const q = query(collection(db, "products"), where("category", "==", category));
     const querySnapshot = await getDocs(q);
     
     const batch = writeBatch(db);
     querySnapshot.docs.forEach((doc) => {
       batch.delete(doc.ref);
+      const slug = doc.data().seo?.slug;
+      if (slug) {
+        batch.delete(getSlugRef(slug));
+      }
     });
     
     await batch.commit();
+    unindexCatalogProducts(querySnapshot.docs.map(productDoc => productDoc.id));
   } catch (error) {
     console.error("Error deleting products by category:", error);
     throw new Error("Failed to delete products by category");
@@ -691,18 +955,175 @@ export const deleteProductsByCategory = async (category: string): Promise<void>
 // Utility Functions
 // ========================================
 
+/**
+ * Ensure the current user may modify a product: sellers manage their own products,
+ * admins manage everyone's
+ */
+const assertCanManageProduct = async (productData: DocumentData, action: string): Promise<User> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error(`User must be authenticated to ${action}`);
+  }
+
+  const role = await requireRole(PRODUCT_MANAGER_ROLES, action);
+  if (productData.createdBy !== user.uid && role !== 'admin') {
+    throw new Error(`Unauthorized to ${action}`);
+  }
+  return user;
+};
+
+// Write a new product with its slug reserved and its starting stock as the first ledger movement,
+// so its ledger is complete
+const writeNewProduct = (
+  transaction: Transaction,
+  productRef: DocumentReference,
+  product: Omit<Product, 'id'>,
+  user: Pick<User, 'uid' | 'email'>
+): void => {
+  const { stock, trackInventory } = product.inventory;
+  const movement = trackInventory && stock
+    ? createInventoryMovement(
+      productRef.id,
+      { type: 'receipt', quantity: stock, stockAfter: stock, reason: "Initial stock" },
+      user
+    )
+    : null;
+
+  transaction.set(productRef, {
+    ...product,
+    inventory: {
+      ...product.inventory,
+      ledgerOpened: true,
+      ...(movement && { lastMovementId: movement.ref.id })
+    },
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp()
+  });
+  if (movement) {
+    transaction.set(movement.ref, movement.data);
+  }
+  if (product.seo?.slug) {
+    reserveSlug(transaction, product.seo.slug, productRef.id);
+  }
+};
+
 /**
  * Generate URL-friendly slug from title
  */
 const generateSlug = (title: string): string => {
   return title
     .toLowerCase()
+    .trim()
     .replace(/[^a-z0-9 -]/g, '') // Remove special characters
     .replace(/\s+/g, '-') // Replace spaces with hyphens
     .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-    .trim();
+    .replace(/^-|-$/g, ''); // Trim leading and trailing hyphens
+};
+
+// Slugs are kept unique by a reservation at slugs/{slug} naming the product that uses it,
+// written in the same transaction or batch as the product
+const getSlugRef = (slug: string) => doc(db, "slugs", slug);
+
+const reserveSlug = (transaction: Transaction, slug: string, productId: string): void => {
+  transaction.set(getSlugRef(slug), { productId, createdAt: serverTimestamp() });
+};
+
+/**
+ * Check whether another product already uses a slug
+ * The reservation is read in the transaction; products saved before slugs were reserved
+ * have none, so their stored slugs are checked too.
+ */
+const isSlugTaken = async (transaction: Transaction, slug: string, productId: string): Promise<boolean> => {
+  const reservation = await transaction.get(getSlugRef(slug));
+  if (reservation.exists()) {
+    return reservation.data().productId !== productId;
+  }
+
+  const snapshot = await getDocs(query(collection(db, "products"), where("seo.slug", "==", slug), limit(2)));
+  return snapshot.docs.some(productDoc => productDoc.id !== productId);
 };
 
+/**
+ * Pick the slug for a product being created or updated
+ * A custom slug must be free; a slug derived from the title gets a numeric
+ * suffix ("-2", "-3", ...) until it no longer clashes with another product.
+ * The caller reserves the chosen slug in the same transaction.
+ */
+const resolveProductSlug = async (
+  transaction: Transaction,
+  requestedSlug: string | undefined,
+  title: string,
+  productId: string,
+  claimedSlugs: Set<string> = new Set()
+): Promise<string> => {
+  const customSlug = requestedSlug ? generateSlug(requestedSlug) : '';
+  if (customSlug) {
+    if (claimedSlugs.has(customSlug) || await isSlugTaken(transaction, customSlug, productId)) {
+      throw new Error(`The URL slug "${customSlug}" is already used by another product`);
+    }
+    return customSlug;
+  }
+
+  const baseSlug = generateSlug(title) || 'product';
+  let slug = baseSlug;
+  for (let suffix = 2; claimedSlugs.has(slug) || await isSlugTaken(transaction, slug, productId); suffix++) {
+    slug = `${baseSlug}-${suffix}`;
+  }
+  return slug;
+};
+
+/**
+ * Storefront path for a product, falling back to the ID for products without a slug
+ */
+export const getProductPath = (product: Pick<Product, 'id' | 'seo'>): string => {
+  return `/products/${encodeURIComponent(product.seo?.slug || product.id)}`;
+};
+
+/**
+ * Encode a pagination cursor as an opaque page token
+ */
+const encodePageToken = (cursor: ProductPageCursor): string => {
+  return btoa(JSON.stringify(cursor));
+};
+
+/**
+ * Decode a page token produced by encodePageToken
+ */
+const decodePageToken = (pageToken: string): ProductPageCursor => {
+  try {
+    const cursor = JSON.parse(atob(pageToken));
+    if (typeof cursor.lastId !== 'string' || typeof cursor.page !== 'number') {
+      throw new Error("Malformed cursor");
+    }
+    return cursor;
+  } catch {
+    throw new Error("Invalid page token");
+  }
+};
+
+/**
+ * Convert raw Firestore product data into a Product, filling in defaults
+ */
+export const mapProductDoc = (id: string, data: DocumentData): Product => ({
+  id,
+  title: data.title,
+  price: data.price,
+  description: data.description,
+  category: data.category,
+  image: data.image,
+  images: data.images || [],
+  rating: data.rating || { rate: 0, count: 0 },
+  salesCount: data.salesCount || 0,
+  createdAt: data.createdAt?.toDate() || new Date(),
+  updatedAt: data.updatedAt?.toDate() || new Date(),
+  createdBy: data.createdBy,
+  isActive: data.isActive !== false,
+  inventory: data.inventory || { stock: 0, trackInventory: false },
+  seo: data.seo || {},
+  tags: data.tags || [],
+  variants: data.variants || []
+});
+
 /**
  * Check if product exists
  */
@@ -724,6 +1145,7 @@ export const getProductStats = async (): Promise<{
   activeProducts: number;
   totalValue: number;
   categoriesCount: number;
+  lowStockProducts: Product[]; // Active products at or below their low-stock threshold, lowest first
 }> => {
   try {
     const user = auth.currentUser;
@@ -732,7 +1154,8 @@ export const getProductStats = async (): Promise<{
         totalProducts: 0,
         activeProducts: 0,
         totalValue: 0,
-        categoriesCount: 0
+        categoriesCount: 0,
+        lowStockProducts: []
       };
     }
 
@@ -745,12 +1168,18 @@ export const getProductStats = async (): Promise<{
     let activeProducts = 0;
     let totalValue = 0;
     const categories = new Set<string>();
+    const lowStockProducts: Product[] = [];
     
     allProductsSnapshot.docs.forEach((doc) => {
       const data = doc.data();
       if (data.isActive !== false) {
         activeProducts++;
         totalValue += (data.price || 0) * (data.inventory?.stock || 0);
+
+        const product = mapProductDoc(doc.id, data);
+        if (isLowStock(product)) {
+          lowStockProducts.push(product);
+        }
       }
       if (data.category) {
         categories.add(data.category);
@@ -761,7 +1190,8 @@ export const getProductStats = async (): Promise<{
       totalProducts: allProductsSnapshot.size,
       activeProducts,
       totalValue,
-      categoriesCount: categories.size
+      categoriesCount: categories.size,
+      lowStockProducts: lowStockProducts.sort((a, b) => a.inventory.stock - b.inventory.stock)
     };
   } catch (error) {
     console.error("Error getting product stats:", error);
@@ -0,0 +1,392 @@
+/**
+ * Promotion Service
+ * Coupon lookup, rule evaluation and redemption tracking for the `promotions` collection
+ */
+
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  limit,
+  serverTimestamp
+} from "firebase/firestore";
+import type { DocumentData } from "firebase/firestore";
+import { auth, db } from "../firebase/index";
+import { requireRole, ADMIN_ROLES } from "./accessControlService";
+import type {
+  AppliedPromotion,
+  Promotion,
+  PromotionContext,
+  PromotionCreateData,
+  PromotionLineItem
+} from "../types/promotionType";
+
+// Result of applying a set of promotions to an order
+export interface PromotionsResult {
+  appliedPromotions: AppliedPromotion[];
+  itemDiscount: number; // Taken off the merchandise subtotal (reduces taxable amount)
+  shippingDiscount: number; // Taken off shipping
+}
+
+// ========================================
+// CREATE Operations
+// ========================================
+
+/**
+ * Create a new promotion (admin only)
+ */
+export const createPromotion = async (promotionData: PromotionCreateData): Promise<Promotion> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error("User must be authenticated to create promotions");
+    }
+
+    await requireRole(ADMIN_ROLES, "create promotions");
+
+    const code = normalizePromotionCode(promotionData.code);
+    if (!code) {
+      throw new Error("Promotion code is required");
+    }
+
+    if (promotionData.type !== 'free_shipping' && promotionData.value <= 0) {
+      throw new Error("Promotion value must be greater than 0");
+    }
+
+    if (promotionData.type === 'percentage' && promotionData.value > 100) {
+      throw new Error("Percentage promotions cannot exceed 100%");
+    }
+
+    if (promotionData.type === 'buy_x_get_y' &&
+        (!promotionData.buyQuantity || !promotionData.getQuantity)) {
+      throw new Error("Buy X get Y promotions need both buy and get quantities");
+    }
+
+    if (await getPromotionByCode(code)) {
+      throw new Error(`Promotion code ${code} already exists`);
+    }
+
+    const promotionRef = doc(collection(db, "promotions"));
+    const promotion: Omit<Promotion, 'id'> = {
+      code,
+      description: promotionData.description || '',
+      type: promotionData.type,
+      value: promotionData.value,
+      buyQuantity: promotionData.buyQuantity,
+      getQuantity: promotionData.getQuantity,
+      startsAt: promotionData.startsAt,
+      endsAt: promotionData.endsAt,
+      isActive: promotionData.isActive ?? true,
+      usageLimit: promotionData.usageLimit,
+      perUserLimit: promotionData.perUserLimit,
+      usageCount: 0,
+      minSubtotal: promotionData.minSubtotal,
+      categories: promotionData.categories || [],
+      tags: promotionData.tags || [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      createdBy: user.uid
+    };
+
+    // Firestore rejects undefined fields
+    const promotionDoc = Object.fromEntries(
+      Object.entries(promotion).filter(([, value]) => value !== undefined)
+    );
+
+    await setDoc(promotionRef, {
+      ...promotionDoc,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+
+    return {
+      id: promotionRef.id,
+      ...promotion
+    };
+  } catch (error) {
+    console.error("Error creating promotion:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to create promotion: ${error.message}`);
+    }
+    throw new Error("Failed to create promotion: Unknown error");
+  }
+};
+
+// ========================================
+// READ Operations
+// ========================================
+
+/**
+ * Find a promotion by its coupon code
+ */
+export const getPromotionByCode = async (code: string): Promise<Promotion | null> => {
+  try {
+    const promotionsQuery = query(
+      collection(db, "promotions"),
+      where("code", "==", normalizePromotionCode(code)),
+      limit(1)
+    );
+    const querySnapshot = await getDocs(promotionsQuery);
+
+    if (querySnapshot.empty) {
+      return null;
+    }
+
+    const promotionDoc = querySnapshot.docs[0];
+    return mapPromotionDoc(promotionDoc.id, promotionDoc.data());
+  } catch (error) {
+    console.error("Error fetching promotion:", error);
+    throw new Error("Failed to fetch promotion");
+  }
+};
+
+/**
+ * Number of times a user has redeemed a promotion
+ */
+export const getUserRedemptionCount = async (promotionId: string, userId: string): Promise<number> => {
+  try {
+    const redemptionDoc = await getDoc(getRedemptionRef(promotionId, userId));
+    return redemptionDoc.exists() ? redemptionDoc.data().count || 0 : 0;
+  } catch (error) {
+    console.error("Error fetching promotion redemptions:", error);
+    throw new Error("Failed to fetch promotion redemptions");
+  }
+};
+
+/**
+ * Check a coupon code against the current cart for the checkout preview
+ * The order service re-evaluates every code inside the order transaction,
+ * so this result is informational only.
+ */
+export const previewCoupon = async (
+  code: string,
+  items: PromotionLineItem[],
+  context: Omit<PromotionContext, 'userRedemptions'>
+): Promise<AppliedPromotion> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error("Please log in to use coupon codes");
+  }
+
+  const promotion = await getPromotionByCode(code);
+  if (!promotion) {
+    throw new Error(`Coupon code ${normalizePromotionCode(code)} is not valid`);
+  }
+
+  const userRedemptions = await getUserRedemptionCount(promotion.id, user.uid);
+  return evaluatePromotion(promotion, items, { ...context, userRedemptions });
+};
+
+// ========================================
+// Evaluation
+// ========================================
+
+/**
+ * Explain why a promotion cannot be applied, or return null when it can
+ */
+export const getPromotionIssue = (
+  promotion: Promotion,
+  items: PromotionLineItem[],
+  context: PromotionContext
+): string | null => {
+  const now = context.now || new Date();
+
+  if (!promotion.isActive) {
+    return `Coupon code ${promotion.code} is no longer active`;
+  }
+
+  if (promotion.startsAt && now < promotion.startsAt) {
+    return `Coupon code ${promotion.code} is not valid yet`;
+  }
+
+  if (promotion.endsAt && now > promotion.endsAt) {
+    return `Coupon code ${promotion.code} has expired`;
+  }
+
+  if (promotion.usageLimit !== undefined && promotion.usageCount >= promotion.usageLimit) {
+    return `Coupon code ${promotion.code} has reached its usage limit`;
+  }
+
+  if (promotion.perUserLimit !== undefined && context.userRedemptions >= promotion.perUserLimit) {
+    return `You have already used coupon code ${promotion.code}`;
+  }
+
+  if (promotion.minSubtotal !== undefined && context.subtotal < promotion.minSubtotal) {
+    return `Coupon code ${promotion.code} requires a subtotal of at least $${promotion.minSubtotal.toFixed(2)}`;
+  }
+
+  if (getEligibleItems(promotion, items).length === 0) {
+    return `Coupon code ${promotion.code} does not apply to any items in your cart`;
+  }
+
+  return null;
+};
+
+/**
+ * Discount a promotion gives on its own, before it is combined with other promotions
+ */
+export const calculatePromotionDiscount = (
+  promotion: Promotion,
+  items: PromotionLineItem[],
+  context: PromotionContext
+): number => {
+  const eligibleItems = getEligibleItems(promotion, items);
+  const eligibleSubtotal = eligibleItems.reduce(
+    (sum, item) => sum + item.unitPrice * item.quantity,
+    0
+  );
+
+  let discount = 0;
+  switch (promotion.type) {
+    case 'percentage':
+      discount = eligibleSubtotal * Math.min(promotion.value, 100) / 100;
+      break;
+    case 'fixed_amount':
+      discount = Math.min(promotion.value, eligibleSubtotal);
+      break;
+    case 'free_shipping':
+      discount = context.shipping;
+      break;
+    case 'buy_x_get_y': {
+      const buyQuantity = promotion.buyQuantity || 0;
+      const getQuantity = promotion.getQuantity || 0;
+      if (buyQuantity <= 0 || getQuantity <= 0) break;
+
+      // The cheapest eligible units are the discounted ones
+      const unitPrices = eligibleItems
+        .flatMap(item => Array<number>(item.quantity).fill(item.unitPrice))
+        .sort((a, b) => a - b);
+      const discountedUnits = Math.floor(unitPrices.length / (buyQuantity + getQuantity)) * getQuantity;
+      const discountedValue = unitPrices
+        .slice(0, discountedUnits)
+        .reduce((sum, price) => sum + price, 0);
+      discount = discountedValue * Math.min(promotion.value, 100) / 100;
+      break;
+    }
+  }
+
+  return roundCurrency(discount);
+};
+
+/**
+ * Evaluate a single promotion, throwing when it cannot be applied
+ */
+export const evaluatePromotion = (
+  promotion: Promotion,
+  items: PromotionLineItem[],
+  context: PromotionContext
+): AppliedPromotion => {
+  const issue = getPromotionIssue(promotion, items, context);
+  if (issue) {
+    throw new Error(issue);
+  }
+
+  return {
+    promotionId: promotion.id,
+    code: promotion.code,
+    type: promotion.type,
+    discount: calculatePromotionDiscount(promotion, items, context)
+  };
+};
+
+/**
+ * Apply several promotions to an order, given the user's redemption count per promotion ID
+ * Merchandise discounts are capped at the subtotal and shipping discounts at the shipping cost.
+ */
+export const applyPromotions = (
+  promotions: Promotion[],
+  items: PromotionLineItem[],
+  context: Omit<PromotionContext, 'userRedemptions'>,
+  userRedemptions: Record<string, number> = {}
+): PromotionsResult => {
+  const appliedPromotions: AppliedPromotion[] = [];
+  let itemDiscount = 0;
+  let shippingDiscount = 0;
+
+  for (const promotion of promotions) {
+    const applied = evaluatePromotion(promotion, items, {
+      ...context,
+      userRedemptions: userRedemptions[promotion.id] || 0
+    });
+
+    if (promotion.type === 'free_shipping') {
+      applied.discount = roundCurrency(Math.min(applied.discount, context.shipping - shippingDiscount));
+      shippingDiscount += applied.discount;
+    } else {
+      applied.discount = roundCurrency(Math.min(applied.discount, context.subtotal - itemDiscount));
+      itemDiscount += applied.discount;
+    }
+
+    appliedPromotions.push(applied);
+  }
+
+  return {
+    appliedPromotions,
+    itemDiscount: roundCurrency(itemDiscount),
+    shippingDiscount: roundCurrency(shippingDiscount)
+  };
+};
+
+// ========================================
+// Utility Functions
+// ========================================
+
+/**
+ * Coupon codes are matched case-insensitively and stored upper-case
+ */
+export const normalizePromotionCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Per-user redemption counter: promotions/{promotionId}/redemptions/{userId}
+ */
+export const getRedemptionRef = (promotionId: string, userId: string) =>
+  doc(db, "promotions", promotionId, "redemptions", userId);
+
+/**
+ * Lines a promotion applies to, honouring its category and tag scope
+ */
+const getEligibleItems = (promotion: Promotion, items: PromotionLineItem[]): PromotionLineItem[] => {
+  const categories = promotion.categories || [];
+  const tags = promotion.tags || [];
+
+  return items.filter(item => {
+    if (categories.length > 0 && !categories.includes(item.product.category)) {
+      return false;
+    }
+    if (tags.length > 0 && !(item.product.tags || []).some(tag => tags.includes(tag))) {
+      return false;
+    }
+    return true;
+  });
+};
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Convert raw Firestore promotion data into a Promotion, filling in defaults
+ */
+export const mapPromotionDoc = (id: string, data: DocumentData): Promotion => ({
+  id,
+  code: data.code,
+  description: data.description,
+  type: data.type,
+  value: data.value || 0,
+  buyQuantity: data.buyQuantity,
+  getQuantity: data.getQuantity,
+  startsAt: data.startsAt?.toDate(),
+  endsAt: data.endsAt?.toDate(),
+  isActive: data.isActive ?? true,
+  usageLimit: data.usageLimit,
+  perUserLimit: data.perUserLimit,
+  usageCount: data.usageCount || 0,
+  minSubtotal: data.minSubtotal,
+  categories: data.categories || [],
+  tags: data.tags || [],
+  createdAt: data.createdAt?.toDate() || new Date(),
+  updatedAt: data.updatedAt?.toDate() || new Date(),
+  createdBy: data.createdBy
+});
@@ -0,0 +1,137 @@
+/**
+ * Reorder Service
+ * Turns past orders back into cart lines using live product data, and ranks the
+ * products a shopper buys most often
+ */
+
+import { getProductQuantityLimit } from "../store/cartSlice";
+import { resolveVariantSelection } from "./variantService";
+import type { AddToCartPayload, CartItem, ReorderLineIssue, ReorderResult } from "../types/cartTypes";
+import type { Order, OrderItem } from "../types/orderType";
+import type { Product } from "../types/productType";
+
+// ========================================
+// Reorder
+// ========================================
+
+/**
+ * Build the cart lines for ordering past order lines again
+ * Each line uses the product's current details and price. Lines for products that are gone,
+ * inactive or no longer offer the chosen options are skipped, and quantities are capped
+ * by stock and per-order limits, counting what the cart already holds.
+ */
+export const buildReorderItems = (
+  orderItems: OrderItem[],
+  products: Map<string, Product | null>,
+  cartItems: CartItem[] = []
+): ReorderResult => {
+  const items: AddToCartPayload[] = [];
+  const issues: ReorderLineIssue[] = [];
+
+  // Units of each product already in the cart or about to be added
+  const held = new Map<string, number>();
+  cartItems.forEach(item => held.set(item.product.id, (held.get(item.product.id) || 0) + item.quantity));
+
+  for (const orderItem of orderItems) {
+    const title = orderItem.product.title;
+    const product = products.get(orderItem.productId);
+    if (!product) {
+      issues.push({
+        itemId: orderItem.id,
+        title,
+        type: 'unavailable',
+        message: `${title} is no longer available`,
+        addedQuantity: 0
+      });
+      continue;
+    }
+
+    let selectedOptions;
+    try {
+      selectedOptions = resolveVariantSelection(product, orderItem.selectedOptions);
+    } catch (error) {
+      issues.push({
+        itemId: orderItem.id,
+        title,
+        type: 'unavailable',
+        message: error instanceof Error ? error.message : `${title} is no longer available`,
+        addedQuantity: 0
+      });
+      continue;
+    }
+
+    const alreadyHeld = held.get(product.id) || 0;
+    const quantity = Math.min(orderItem.quantity, Math.max(getProductQuantityLimit(product) - alreadyHeld, 0));
+
+    if (quantity === 0) {
+      const outOfStock = product.inventory.trackInventory && product.inventory.stock <= 0;
+      issues.push({
+        itemId: orderItem.id,
+        title,
+        type: 'out_of_stock',
+        message: outOfStock
+          ? `${product.title} is out of stock`
+          : `Your cart already holds as many ${product.title} as you can order`,
+        addedQuantity: 0
+      });
+      continue;
+    }
+
+    if (quantity < orderItem.quantity) {
+      issues.push({
+        itemId: orderItem.id,
+        title,
+        type: 'limited',
+        message: `Only ${quantity} of ${orderItem.quantity} ${product.title} could be added`,
+        addedQuantity: quantity
+      });
+    }
+
+    held.set(product.id, alreadyHeld + quantity);
+    items.push({
+      product,
+      quantity,
+      ...(selectedOptions.length > 0 ? { selectedOptions } : {})
+    });
+  }
+
+  return { items, issues };
+};
+
+// ========================================
+// Frequently Purchased
+// ========================================
+
+/**
+ * Products a shopper has bought most often, best first
+ * Ranked by how many orders included them, then units bought, then how recently.
+ * Cancelled orders and fully cancelled lines do not count.
+ */
+export const getFrequentlyPurchasedProductIds = (orders: Order[], resultLimit: number = 6): string[] => {
+  const stats = new Map<string, { orders: number; units: number; lastOrderedAt: number }>();
+
+  orders
+    .filter(order => order.status !== 'cancelled')
+    .forEach(order => {
+      const orderedProducts = new Set<string>();
+      order.items.forEach(item => {
+        const units = item.quantity - (item.cancelledQuantity || 0);
+        if (units <= 0) {
+          return;
+        }
+
+        const entry = stats.get(item.productId) ?? { orders: 0, units: 0, lastOrderedAt: 0 };
+        stats.set(item.productId, {
+          orders: entry.orders + (orderedProducts.has(item.productId) ? 0 : 1),
+          units: entry.units + units,
+          lastOrderedAt: Math.max(entry.lastOrderedAt, order.createdAt.getTime())
+        });
+        orderedProducts.add(item.productId);
+      });
+    });
+
+  return [...stats.entries()]
+    .sort(([, a], [, b]) => b.orders - a.orders || b.units - a.units || b.lastOrderedAt - a.lastOrderedAt)
+    .slice(0, resultLimit)
+    .map(([productId]) => productId);
+};
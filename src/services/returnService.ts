@@ -0,0 +1,518 @@
+/**
+ * Return Service
+ * Return merchandise authorizations (RMAs) for shipped and delivered orders. Returns are
+ * stored in the order's returns list and each status change is added to its status history.
+ */
+
+import {
+  doc,
+  runTransaction,
+  serverTimestamp,
+  increment,
+  arrayUnion
+} from "firebase/firestore";
+import type { DocumentData, Transaction } from "firebase/firestore";
+import type { User } from "firebase/auth";
+import { auth, db } from "../firebase/index";
+import {
+  assertPaymentSettled,
+  calculateLineRefund,
+  claimPaymentRelease,
+  getPaymentReleaseError,
+  getPaymentReleaseUpdates,
+  recordPaymentRelease,
+  sendPaymentRelease
+} from "./orderService";
+import { createInventoryMovement } from "./inventoryService";
+import { getCurrentUserRole, requireRole, ORDER_MANAGER_ROLES } from "./accessControlService";
+import {
+  assertReturnStatusTransition,
+  createStatusHistoryEntry
+} from "./orderStatusService";
+import type { Order, OrderItem, OrderStatus, PaymentStatus } from "../types/orderType";
+import type { UserRole } from "../types/authTypes";
+import type { OrderPayment, PaymentResult } from "../types/paymentType";
+import type {
+  ReturnDisposition,
+  ReturnItem,
+  ReturnRequest,
+  ReturnRequestData,
+  ReturnStatus
+} from "../types/returnType";
+
+// Orders whose items may be sent back
+export const RETURNABLE_ORDER_STATUSES: OrderStatus[] = ['shipped', 'delivered'];
+
+/**
+ * Generate a unique RMA number
+ */
+const generateRmaNumber = (): string => {
+  const date = new Date();
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  const random = Math.random().toString(36).substr(2, 6).toUpperCase();
+  return `RMA-${year}${month}${day}-${random}`;
+};
+
+// ========================================
+// Calculation
+// ========================================
+
+/**
+ * Units of an order line already in a return that was not rejected
+ */
+export const getReturnedQuantity = (order: Pick<Order, 'returns'>, itemId: string): number => {
+  return (order.returns || [])
+    .filter(request => request.status !== 'rejected')
+    .flatMap(request => request.items)
+    .filter(item => item.itemId === itemId)
+    .reduce((sum, item) => sum + item.quantity, 0);
+};
+
+/**
+ * Units of an order line that may still be returned
+ */
+export const getReturnableQuantity = (order: Pick<Order, 'items' | 'returns'>, itemId: string): number => {
+  const item = order.items.find(orderItem => orderItem.id === itemId);
+  if (!item) {
+    return 0;
+  }
+  return Math.max(item.quantity - (item.cancelledQuantity || 0) - getReturnedQuantity(order, itemId), 0);
+};
+
+/**
+ * Amount owed back for returned units, priced like cancelled ones (see `calculateLineRefund`)
+ * Shipping is not refunded.
+ */
+export const calculateReturnRefund = (
+  order: Pick<Order, 'items' | 'summary'>,
+  items: ReturnRequestData['items']
+): number => {
+  const refund = items.reduce((sum, returned) => {
+    const item = order.items.find(orderItem => orderItem.id === returned.itemId);
+    return item ? sum + calculateLineRefund(order.summary, item, returned.quantity) : sum;
+  }, 0);
+
+  return Math.round(refund * 100) / 100;
+};
+
+// ========================================
+// Customer Operations
+// ========================================
+
+/**
+ * Request a return of some units of a shipped or delivered order
+ * Quantities are checked inside a transaction, so two requests cannot return the same units.
+ */
+export const requestReturn = async (orderId: string, returnData: ReturnRequestData): Promise<ReturnRequest> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error("User must be authenticated to request a return");
+    }
+
+    const reason = returnData.reason.trim();
+    if (!reason) {
+      throw new Error("Please tell us why you are returning these items");
+    }
+
+    const requestedItems = returnData.items.filter(item => item.quantity > 0);
+    if (requestedItems.length === 0) {
+      throw new Error("Choose at least one item to return");
+    }
+
+    const role = await getCurrentUserRole();
+    const orderRef = doc(db, "orders", orderId);
+
+    return await runTransaction(db, async (transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists()) {
+        throw new Error("Order not found");
+      }
+
+      const orderData = orderDoc.data();
+      if (orderData.userId !== user.uid) {
+        throw new Error("You can only return items from your own orders");
+      }
+      if (!RETURNABLE_ORDER_STATUSES.includes(orderData.status)) {
+        throw new Error(`Items cannot be returned while an order is ${orderData.status}`);
+      }
+
+      const order = { items: orderData.items as OrderItem[], summary: orderData.summary, returns: orderData.returns };
+      const items: ReturnItem[] = requestedItems.map(requested => {
+        const item = order.items.find(orderItem => orderItem.id === requested.itemId);
+        if (!item) {
+          throw new Error(`Order item not found: ${requested.itemId}`);
+        }
+
+        const returnable = getReturnableQuantity(order, item.id);
+        if (!Number.isInteger(requested.quantity) || requested.quantity > returnable) {
+          throw new Error(`You can return up to ${returnable} of ${item.product.title}`);
+        }
+        return { itemId: item.id, productId: item.productId, title: item.product.title, quantity: requested.quantity };
+      });
+
+      const now = new Date();
+      const request: ReturnRequest = {
+        id: generateRmaNumber(),
+        status: 'requested',
+        items,
+        reason,
+        refundAmount: calculateReturnRefund(order, items),
+        requestedBy: user.uid,
+        requestedAt: now,
+        updatedAt: now
+      };
+
+      transaction.set(orderRef, {
+        returns: [...(orderData.returns || []), request],
+        statusHistory: arrayUnion(createStatusHistoryEntry('return', null, 'requested', user, role, `${request.id}: ${reason}`)),
+        updatedAt: serverTimestamp()
+      }, { merge: true });
+
+      return request;
+    });
+  } catch (error) {
+    console.error("Error requesting return:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to request return: ${error.message}`);
+    }
+    throw new Error("Failed to request return: Unknown error");
+  }
+};
+
+// ========================================
+// Staff Operations
+// ========================================
+
+/**
+ * Authorize a requested return so the customer can send it back (support and admin only)
+ */
+export const approveReturn = async (orderId: string, returnId: string, note?: string): Promise<void> => {
+  try {
+    await changeReturnStatus(orderId, returnId, 'approved', note);
+  } catch (error) {
+    console.error("Error approving return:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to approve return: ${error.message}`);
+    }
+    throw new Error("Failed to approve return: Unknown error");
+  }
+};
+
+/**
+ * Turn down a return before its items are received (support and admin only)
+ * The units become returnable again.
+ */
+export const rejectReturn = async (orderId: string, returnId: string, note: string): Promise<void> => {
+  try {
+    if (!note.trim()) {
+      throw new Error("Please give a reason for rejecting the return");
+    }
+    await changeReturnStatus(orderId, returnId, 'rejected', note.trim());
+  } catch (error) {
+    console.error("Error rejecting return:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to reject return: ${error.message}`);
+    }
+    throw new Error("Failed to reject return: Unknown error");
+  }
+};
+
+/**
+ * Record an approved return as received, deciding per line whether it goes back into stock
+ * Restocked units of tracked products are added to stock with a 'return' ledger movement,
+ * in the same transaction that marks the return received.
+ */
+export const receiveReturn = async (
+  orderId: string,
+  returnId: string,
+  dispositions: Record<string, ReturnDisposition>,
+  note?: string
+): Promise<void> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error("User must be authenticated to receive returns");
+    }
+
+    const role = await requireRole(ORDER_MANAGER_ROLES, "receive returns");
+    const orderRef = doc(db, "orders", orderId);
+
+    await runTransaction(db, async (transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists()) {
+        throw new Error("Order not found");
+      }
+
+      const orderData = orderDoc.data();
+      const returns = (orderData.returns || []) as DocumentData[];
+      const request = findReturn(returns, returnId);
+      assertReturnStatusTransition(request.status, 'received');
+
+      const items = (request.items as ReturnItem[]).map(item => {
+        const disposition = dispositions[item.itemId];
+        if (disposition !== 'restock' && disposition !== 'discard') {
+          throw new Error(`Choose whether to restock ${item.title}`);
+        }
+        return { ...item, disposition };
+      });
+
+      await restockReturnedItems(transaction, orderId, orderData.items as OrderItem[], items, user, `Return ${returnId}`);
+
+      const now = new Date();
+      transaction.set(orderRef, {
+        returns: returns.map(stored => stored.id === returnId
+          ? { ...stored, status: 'received', items, receivedAt: now, updatedAt: now, ...(note?.trim() ? { resolutionNote: note.trim() } : {}) }
+          : stored),
+        statusHistory: arrayUnion(createStatusHistoryEntry('return', request.status, 'received', user, role, formatReturnReason(returnId, note))),
+        updatedAt: serverTimestamp()
+      }, { merge: true });
+    });
+  } catch (error) {
+    console.error("Error receiving return:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to receive return: ${error.message}`);
+    }
+    throw new Error("Failed to receive return: Unknown error");
+  }
+};
+
+/**
+ * Refund a received return through the payment provider (support and admin only)
+ * The order's payment is claimed in a transaction before the provider is called, so a
+ * retried or concurrent refund cannot pay the same money out twice. The refund is capped
+ * by what is left of the captured payment, and the order's payment is marked refunded once
+ * all of it has been given back. Refunding a return that is already refunded does nothing.
+ */
+export const refundReturn = async (orderId: string, returnId: string): Promise<void> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error("User must be authenticated to refund returns");
+    }
+
+    const role = await requireRole(ORDER_MANAGER_ROLES, "refund returns");
+    const orderRef = doc(db, "orders", orderId);
+
+    const claim = await runTransaction(db, async (transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists()) {
+        throw new Error("Order not found");
+      }
+
+      const orderData = orderDoc.data();
+      const request = findReturn(orderData.returns || [], returnId);
+      if (request.status === 'refunded') {
+        return null;
+      }
+      assertReturnStatusTransition(request.status, 'refunded');
+
+      const paymentStatus = orderData.paymentStatus as PaymentStatus;
+      assertPaymentSettled(paymentStatus);
+
+      const payment = orderData.payment as OrderPayment | undefined;
+      const refundAmount = paymentStatus === 'paid' && payment?.authorizationId
+        ? Math.min(request.refundAmount, Math.round((payment.amountCaptured - payment.amountRefunded) * 100) / 100)
+        : 0;
+      if (payment && refundAmount > 0) {
+        claimPaymentRelease(transaction, orderRef, paymentStatus);
+        return { payment, refundAmount };
+      }
+      return { payment: null, refundAmount: 0 };
+    });
+
+    if (!claim) {
+      return;
+    }
+
+    // Give the money back first, so a failed refund leaves the return waiting to be refunded
+    let result: PaymentResult | null = null;
+    if (claim.payment) {
+      result = await sendPaymentRelease(claim.payment, claim.refundAmount);
+      if (!result.success) {
+        await recordPaymentRelease(orderId, 'paid', result, user, null, `Return ${returnId}`);
+        throw new Error(getPaymentReleaseError(result));
+      }
+    }
+
+    await commitReturnRefund(orderId, returnId, result, user, role);
+  } catch (error) {
+    console.error("Error refunding return:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to refund return: ${error.message}`);
+    }
+    throw new Error("Failed to refund return: Unknown error");
+  }
+};
+
+// ========================================
+// HELPER Functions
+// ========================================
+
+const findReturn = (returns: DocumentData[], returnId: string): DocumentData & { status: ReturnStatus } => {
+  const request = returns.find(stored => stored.id === returnId);
+  if (!request) {
+    throw new Error("Return not found");
+  }
+  return request as DocumentData & { status: ReturnStatus };
+};
+
+const formatReturnReason = (returnId: string, note?: string): string => {
+  return note?.trim() ? `${returnId}: ${note.trim()}` : returnId;
+};
+
+/**
+ * Move a return to a status that changes nothing but the return itself
+ */
+const changeReturnStatus = async (
+  orderId: string,
+  returnId: string,
+  status: ReturnStatus,
+  note?: string
+): Promise<void> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error("User must be authenticated to manage returns");
+  }
+
+  const role = await requireRole(ORDER_MANAGER_ROLES, "manage returns");
+  const orderRef = doc(db, "orders", orderId);
+
+  await runTransaction(db, async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists()) {
+      throw new Error("Order not found");
+    }
+
+    const returns = (orderDoc.data().returns || []) as DocumentData[];
+    const request = findReturn(returns, returnId);
+    assertReturnStatusTransition(request.status, status);
+
+    transaction.set(orderRef, {
+      returns: returns.map(stored => stored.id === returnId
+        ? { ...stored, status, updatedAt: new Date(), ...(note ? { resolutionNote: note } : {}) }
+        : stored),
+      statusHistory: arrayUnion(createStatusHistoryEntry('return', request.status, status, user, role, formatReturnReason(returnId, note))),
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+  });
+};
+
+/**
+ * Mark a return refunded and record its refund on the payment, in one transaction
+ * The payment's refunded total is worked out from the order read here, and only the
+ * changed payment fields are written.
+ */
+const commitReturnRefund = async (
+  orderId: string,
+  returnId: string,
+  refund: PaymentResult | null,
+  user: User,
+  role: UserRole
+): Promise<void> => {
+  const orderRef = doc(db, "orders", orderId);
+
+  await runTransaction(db, async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists()) {
+      throw new Error("Order not found");
+    }
+
+    const orderData = orderDoc.data();
+    const returns = (orderData.returns || []) as DocumentData[];
+    const request = findReturn(returns, returnId);
+    // A refund already paid out under the claim is recorded whatever the return says now
+    if (!refund) {
+      if (request.status === 'refunded') {
+        return;
+      }
+      assertReturnStatusTransition(request.status, 'refunded');
+    }
+
+    const refundedAmount = refund?.amount ?? 0;
+    const now = new Date();
+    const historyEntries = [
+      createStatusHistoryEntry('return', request.status, 'refunded', user, role, `${returnId}: $${refundedAmount.toFixed(2)} refunded`)
+    ];
+
+    let paymentUpdates: Record<string, unknown> = {};
+    if (refund) {
+      const release = getPaymentReleaseUpdates(orderData.payment, 'paid', refund);
+      paymentUpdates = release.updates;
+      if (release.paymentStatus === 'refunded') {
+        historyEntries.push(createStatusHistoryEntry('payment', 'paid', 'refunded', user, null, `Return ${returnId}`));
+      }
+    }
+
+    transaction.update(orderRef, {
+      returns: returns.map(stored => stored.id === returnId
+        ? { ...stored, status: 'refunded', refundedAmount, refundedAt: now, updatedAt: now }
+        : stored),
+      ...paymentUpdates,
+      statusHistory: arrayUnion(...historyEntries),
+      updatedAt: serverTimestamp()
+    });
+  });
+};
+
+/**
+ * Put restocked return lines back in stock within a transaction
+ * Every returned unit comes off the product's sales count; only lines marked for restock
+ * of products that tracked inventory when ordered go back into stock. Every read happens
+ * before the first write, as Firestore transactions require.
+ */
+const restockReturnedItems = async (
+  transaction: Transaction,
+  orderId: string,
+  orderItems: OrderItem[],
+  items: ReturnItem[],
+  user: User,
+  reason: string
+): Promise<void> => {
+  const returned = new Map<string, { units: number; restockUnits: number }>();
+
+  items.forEach(item => {
+    const orderItem = orderItems.find(line => line.id === item.itemId);
+    const tracked = orderItem?.product.inventory.trackInventory ?? false;
+    const entry = returned.get(item.productId) ?? { units: 0, restockUnits: 0 };
+    returned.set(item.productId, {
+      units: entry.units + item.quantity,
+      restockUnits: entry.restockUnits + (item.disposition === 'restock' && tracked ? item.quantity : 0)
+    });
+  });
+
+  const productIds = [...returned.keys()];
+  const productDocs = await Promise.all(
+    productIds.map(productId => transaction.get(doc(db, "products", productId)))
+  );
+
+  productDocs.forEach((productDoc, index) => {
+    // Deleted products have no stock or sales to update
+    if (!productDoc.exists()) {
+      return;
+    }
+
+    const productId = productIds[index];
+    const { units, restockUnits } = returned.get(productId)!;
+    const movement = restockUnits > 0
+      ? createInventoryMovement(productId, {
+        type: 'return',
+        quantity: restockUnits,
+        stockAfter: (productDoc.data().inventory?.stock || 0) + restockUnits,
+        reason,
+        orderId
+      }, user)
+      : null;
+
+    transaction.update(doc(db, "products", productId), {
+      ...(movement && { "inventory.stock": increment(restockUnits), "inventory.lastMovementId": movement.ref.id }),
+      salesCount: increment(-units),
+      updatedAt: serverTimestamp()
+    });
+    if (movement) {
+      transaction.set(movement.ref, movement.data);
+    }
+  });
+};
@@ -0,0 +1,322 @@
+/**
+ * Review Service
+ * Customer reviews stored at products/{productId}/reviews/{userId}, with an admin
+ * moderation queue. Product.rating is derived from approved reviews only, and is updated
+ * in the same transaction as the review whose status or stars change.
+ */
+
+import {
+  collection,
+  collectionGroup,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  serverTimestamp
+} from "firebase/firestore";
+import type { DocumentData } from "firebase/firestore";
+import { auth, db } from "../firebase/index";
+import { requireRole, ADMIN_ROLES } from "./accessControlService";
+import { getCatalogProductById } from "./productService";
+import type {
+  RatingSummary,
+  Review,
+  ReviewFormData,
+  ReviewModerationDecision
+} from "../types/reviewType";
+
+// Length limits for review text
+export const REVIEW_TITLE_MAX_LENGTH = 120;
+export const REVIEW_BODY_MAX_LENGTH = 2000;
+
+// ========================================
+// READ Operations
+// ========================================
+
+/**
+ * Get the approved reviews for a product, newest first
+ */
+export const getProductReviews = async (productId: string): Promise<Review[]> => {
+  try {
+    const reviewsQuery = query(
+      getReviewsCollection(productId),
+      where("status", "==", "approved"),
+      orderBy("createdAt", "desc")
+    );
+    const snapshot = await getDocs(reviewsQuery);
+    return snapshot.docs.map(reviewDoc => mapReviewDoc(reviewDoc.id, reviewDoc.data()));
+  } catch (error) {
+    console.error("Error fetching reviews:", error);
+    throw new Error("Failed to fetch reviews");
+  }
+};
+
+/**
+ * Get the signed-in user's review of a product, whatever its status
+ * Returns null when signed out or when the user has not reviewed the product.
+ */
+export const getMyReview = async (productId: string): Promise<Review | null> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      return null;
+    }
+
+    const reviewDoc = await getDoc(getReviewRef(productId, user.uid));
+    return reviewDoc.exists() ? mapReviewDoc(reviewDoc.id, reviewDoc.data()) : null;
+  } catch (error) {
+    console.error("Error fetching your review:", error);
+    throw new Error("Failed to fetch your review");
+  }
+};
+
+/**
+ * Get reviews awaiting moderation across all products, oldest first
+ */
+export const getPendingReviews = async (): Promise<Review[]> => {
+  try {
+    await requireRole(ADMIN_ROLES, "moderate reviews");
+
+    const pendingQuery = query(
+      collectionGroup(db, "reviews"),
+      where("status", "==", "pending"),
+      orderBy("createdAt", "asc")
+    );
+    const snapshot = await getDocs(pendingQuery);
+    return snapshot.docs.map(reviewDoc => mapReviewDoc(reviewDoc.id, reviewDoc.data()));
+  } catch (error) {
+    console.error("Error fetching pending reviews:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Failed to fetch pending reviews: ${message}`);
+  }
+};
+
+// ========================================
+// WRITE Operations
+// ========================================
+
+/**
+ * Create or edit the signed-in user's review of a product
+ * Every submission goes back into the moderation queue, so an edited review
+ * stops counting towards the product rating until it is approved again.
+ */
+export const submitReview = async (productId: string, formData: ReviewFormData): Promise<Review> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error("User must be authenticated to review products");
+    }
+
+    const reviewData = validateReviewForm(formData);
+
+    const product = await getCatalogProductById(productId);
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
+    const reviewRef = getReviewRef(productId, user.uid);
+    const productRef = doc(db, "products", productId);
+    const verifiedPurchase = await hasDeliveredOrderForProduct(user.uid, productId);
+
+    return await runTransaction(db, async (transaction) => {
+      const existingDoc = await transaction.get(reviewRef);
+      const productDoc = await transaction.get(productRef);
+      const existing = existingDoc.exists() ? mapReviewDoc(existingDoc.id, existingDoc.data()) : null;
+
+      const now = new Date();
+      const review: Review = {
+        id: user.uid,
+        productId,
+        userId: user.uid,
+        authorName: user.displayName || user.email?.split("@")[0] || "Customer",
+        ...reviewData,
+        verifiedPurchase,
+        status: "pending",
+        createdAt: existing?.createdAt || now,
+        updatedAt: now
+      };
+
+      transaction.set(reviewRef, {
+        ...review,
+        createdAt: existing ? existing.createdAt : serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+
+      if (existing?.status === "approved" && productDoc.exists()) {
+        transaction.update(productRef, {
+          rating: await getUpdatedRating(productId, productDoc.data(), existing, review),
+          updatedAt: serverTimestamp()
+        });
+      }
+
+      return review;
+    });
+  } catch (error) {
+    console.error("Error submitting review:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Failed to submit review: ${message}`);
+  }
+};
+
+/**
+ * Approve or reject a pending review and refresh the product rating
+ */
+export const moderateReview = async (
+  productId: string,
+  reviewId: string,
+  decision: ReviewModerationDecision,
+  note?: string
+): Promise<void> => {
+  try {
+    await requireRole(ADMIN_ROLES, "moderate reviews");
+
+    const reviewRef = getReviewRef(productId, reviewId);
+    const productRef = doc(db, "products", productId);
+
+    await runTransaction(db, async (transaction) => {
+      const reviewDoc = await transaction.get(reviewRef);
+      if (!reviewDoc.exists()) {
+        throw new Error("Review not found");
+      }
+      const productDoc = await transaction.get(productRef);
+      if (!productDoc.exists()) {
+        throw new Error("Product not found");
+      }
+
+      const review = mapReviewDoc(reviewDoc.id, reviewDoc.data());
+      const rating = await getUpdatedRating(productId, productDoc.data(), review, { ...review, status: decision });
+
+      transaction.update(reviewRef, {
+        status: decision,
+        moderatedBy: auth.currentUser?.uid,
+        moderatedAt: serverTimestamp(),
+        moderationNote: note?.trim() || ""
+      });
+      transaction.update(productRef, {
+        rating,
+        updatedAt: serverTimestamp()
+      });
+    });
+  } catch (error) {
+    console.error("Error moderating review:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Failed to moderate review: ${message}`);
+  }
+};
+
+/**
+ * Product.rating once a review moves from one status or star rating to another
+ * Products rated before running totals were kept have their total rebuilt from their
+ * approved reviews first, as they stood before this change.
+ */
+const getUpdatedRating = async (
+  productId: string,
+  productData: DocumentData,
+  before: Pick<Review, 'status' | 'rating'> | null,
+  after: Pick<Review, 'status' | 'rating'>
+): Promise<RatingSummary> => {
+  const current = typeof productData.rating?.total === "number"
+    ? { total: productData.rating.total, count: productData.rating.count || 0 }
+    : await sumApprovedRatings(productId);
+
+  return applyRatingChange(current, before, after);
+};
+
+// ========================================
+// HELPER Functions
+// ========================================
+
+/**
+ * Move a review's stars out of and into a running rating total as its status or stars change
+ */
+export const applyRatingChange = (
+  current: { total: number; count: number },
+  before: Pick<Review, 'status' | 'rating'> | null,
+  after: Pick<Review, 'status' | 'rating'>
+): RatingSummary => {
+  let { total, count } = current;
+  if (before?.status === "approved") {
+    total -= before.rating;
+    count -= 1;
+  }
+  if (after.status === "approved") {
+    total += after.rating;
+    count += 1;
+  }
+
+  return {
+    rate: count > 0 ? Number((total / count).toFixed(1)) : 0,
+    count,
+    total
+  };
+};
+
+/**
+ * Trim the form fields and check them against the review rules
+ */
+export const validateReviewForm = (formData: ReviewFormData): ReviewFormData => {
+  const title = formData.title.trim();
+  const body = formData.body.trim();
+
+  if (!Number.isInteger(formData.rating) || formData.rating < 1 || formData.rating > 5) {
+    throw new Error("Rating must be a whole number of stars from 1 to 5");
+  }
+  if (!title || !body) {
+    throw new Error("Title and review text are required");
+  }
+  if (title.length > REVIEW_TITLE_MAX_LENGTH) {
+    throw new Error(`Title must be ${REVIEW_TITLE_MAX_LENGTH} characters or fewer`);
+  }
+  if (body.length > REVIEW_BODY_MAX_LENGTH) {
+    throw new Error(`Review text must be ${REVIEW_BODY_MAX_LENGTH} characters or fewer`);
+  }
+
+  return { rating: formData.rating, title, body };
+};
+
+// A purchase is verified once an order containing the product has been delivered
+const hasDeliveredOrderForProduct = async (userId: string, productId: string): Promise<boolean> => {
+  const deliveredQuery = query(
+    collection(db, "orders"),
+    where("userId", "==", userId),
+    where("status", "==", "delivered")
+  );
+  const snapshot = await getDocs(deliveredQuery);
+
+  return snapshot.docs.some(orderDoc =>
+    (orderDoc.data().items || []).some((item: { productId: string }) => item.productId === productId)
+  );
+};
+
+// Total and count of a product's approved ratings
+const sumApprovedRatings = async (productId: string): Promise<{ total: number; count: number }> => {
+  const approvedQuery = query(getReviewsCollection(productId), where("status", "==", "approved"));
+  const snapshot = await getDocs(approvedQuery);
+  const ratings = snapshot.docs.map(reviewDoc => reviewDoc.data().rating as number);
+  return { total: ratings.reduce((sum, rating) => sum + rating, 0), count: ratings.length };
+};
+
+const getReviewsCollection = (productId: string) => collection(db, "products", productId, "reviews");
+
+const getReviewRef = (productId: string, reviewId: string) =>
+  doc(db, "products", productId, "reviews", reviewId);
+
+const mapReviewDoc = (id: string, data: DocumentData): Review => ({
+  id,
+  productId: data.productId,
+  userId: data.userId,
+  authorName: data.authorName,
+  rating: data.rating,
+  title: data.title,
+  body: data.body,
+  verifiedPurchase: !!data.verifiedPurchase,
+  status: data.status,
+  createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(),
+  updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(),
+  ...(data.moderatedBy ? { moderatedBy: data.moderatedBy } : {}),
+  ...(data.moderatedAt?.toDate ? { moderatedAt: data.moderatedAt.toDate() } : {}),
+  ...(data.moderationNote ? { moderationNote: data.moderationNote } : {})
+});
@@ -0,0 +1,375 @@
+/**
+ * Search Service
+ * Client-side full-text search over products: tokenization, light stemming,
+ * prefix matching for the word being typed, typo tolerance and field-weighted
+ * relevance scoring. Also holds the shared storefront catalog index.
+ */
+
+import type { Product } from "../types/productType";
+import type {
+  ProductSearchOptions,
+  ProductSearchResult,
+  SearchField,
+  SearchIndex,
+  SearchMatchType
+} from "../types/searchType";
+
+// How much a term found in each field counts towards relevance
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 4,
+  tags: 3,
+  category: 2,
+  description: 1
+};
+
+// Exact term matches outrank prefix matches, which outrank typo matches
+const MATCH_TYPE_WEIGHTS: Record<SearchMatchType, number> = {
+  exact: 1,
+  prefix: 0.75,
+  fuzzy: 0.5
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
+  'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with'
+]);
+
+// ========================================
+// TEXT Processing
+// ========================================
+
+/**
+ * Lowercase, strip accents and split text into words
+ */
+export const splitWords = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Drop accents split off by NFKD
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+};
+
+/**
+ * Reduce an English word to a rough stem so "shirts" finds "shirt" and
+ * "running" finds "run". Applied identically to indexed text and queries.
+ */
+export const stemWord = (word: string): string => {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  // Collapse a doubled final consonant left behind by a suffix ("runn" -> "run")
+  const undouble = (stem: string) =>
+    /([^aeiouls])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('sses')) return word.slice(0, -2);
+  if (/(x|z|ch|sh|ss)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  if (word.endsWith('ing') && word.length >= 6) return undouble(word.slice(0, -3));
+  if (word.endsWith('ed') && word.length >= 5) return undouble(word.slice(0, -2));
+  if (word.endsWith('ly') && word.length >= 5) return word.slice(0, -2);
+
+  return word;
+};
+
+/**
+ * Split text into stemmed search terms, dropping stop words
+ */
+export const tokenize = (text: string): string[] => {
+  return splitWords(text)
+    .filter(word => !STOP_WORDS.has(word))
+    .map(stemWord);
+};
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent
+ * transpositions; stops early once it exceeds `maxDistance`
+ */
+export const getEditDistance = (a: string, b: string, maxDistance: number = Infinity): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousPrevious[j - 2] + 1);
+      }
+      current.push(distance);
+      rowMinimum = Math.min(rowMinimum, distance);
+    }
+
+    if (rowMinimum > maxDistance) {
+      return maxDistance + 1;
+    }
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Longer words tolerate more typos; very short words must be spelled right
+const getAllowedTypos = (word: string): number => {
+  if (word.length >= 8) return 2;
+  if (word.length >= 4) return 1;
+  return 0;
+};
+
+// ========================================
+// INDEX Operations
+// ========================================
+
+/**
+ * Build a search index over the given products
+ */
+export const createSearchIndex = (products: Product[]): SearchIndex => {
+  const index: SearchIndex = { products: new Map(), postings: new Map(), productTerms: new Map() };
+  products.forEach(product => writeProductToIndex(index, product, false));
+  return index;
+};
+
+/**
+ * Return a copy of the index with the product added or re-indexed
+ */
+export const addProductToIndex = (index: SearchIndex, product: Product): SearchIndex => {
+  const next = copyIndex(index);
+  removeProductFromIndexInPlace(next, product.id);
+  writeProductToIndex(next, product, true);
+  return next;
+};
+
+/**
+ * Return a copy of the index without the given products
+ */
+export const removeProductsFromIndex = (index: SearchIndex, productIds: string[]): SearchIndex => {
+  const next = copyIndex(index);
+  productIds.forEach(productId => removeProductFromIndexInPlace(next, productId));
+  return next;
+};
+
+/**
+ * Rank the indexed products against a query
+ * Every query word must match a term exactly, by prefix or within the typo
+ * allowance; scores add up field weight x rarity x match quality per word.
+ * Ties go to the better-rated product, then alphabetically by title.
+ */
+export const searchIndex = (
+  index: SearchIndex,
+  queryText: string,
+  options: ProductSearchOptions = {}
+): ProductSearchResult[] => {
+  const words = splitWords(queryText);
+  const meaningfulWords = words.filter(word => !STOP_WORDS.has(word));
+  const queryWords = meaningfulWords.length > 0 ? meaningfulWords : words;
+  if (queryWords.length === 0 || index.products.size === 0) {
+    return [];
+  }
+
+  const totalProducts = index.products.size;
+  const scores = new Map<string, number>();
+  const matchedTerms = new Map<string, Set<string>>();
+  let candidates: Set<string> | null = null;
+
+  for (const word of queryWords) {
+    const stem = stemWord(word);
+    const allowedTypos = getAllowedTypos(word);
+    const wordScores = new Map<string, number>();
+
+    index.postings.forEach((postings, term) => {
+      const matchType = matchTerm(term, word, stem, allowedTypos);
+      if (!matchType) return;
+
+      // Rare terms say more about a product than common ones
+      const rarity = Math.log(1 + totalProducts / postings.size);
+      postings.forEach((weight, productId) => {
+        if (candidates && !candidates.has(productId)) return;
+
+        const score = weight * rarity * MATCH_TYPE_WEIGHTS[matchType];
+        wordScores.set(productId, Math.max(wordScores.get(productId) ?? 0, score));
+
+        const terms = matchedTerms.get(productId) ?? new Set<string>();
+        terms.add(term);
+        matchedTerms.set(productId, terms);
+      });
+    });
+
+    candidates = new Set(wordScores.keys());
+    wordScores.forEach((score, productId) => {
+      scores.set(productId, (scores.get(productId) ?? 0) + score);
+    });
+
+    if (candidates.size === 0) {
+      return [];
+    }
+  }
+
+  const results: ProductSearchResult[] = [...(candidates ?? [])].map(productId => ({
+    product: index.products.get(productId)!,
+    score: Number((scores.get(productId) ?? 0).toFixed(4)),
+    matchedTerms: [...(matchedTerms.get(productId) ?? [])]
+  }));
+
+  results.sort((a, b) =>
+    b.score - a.score ||
+    b.product.rating.rate - a.product.rating.rate ||
+    (a.product.title || '').localeCompare(b.product.title || '')
+  );
+
+  return options.limit !== undefined ? results.slice(0, options.limit) : results;
+};
+
+// ========================================
+// CATALOG Index
+// ========================================
+
+// Shared index over the active storefront catalog, kept current by product mutations
+let catalogIndex: SearchIndex = createSearchIndex([]);
+let catalogIndexLoaded = false;
+const catalogIndexListeners = new Set<() => void>();
+
+const publishCatalogIndex = (index: SearchIndex) => {
+  catalogIndex = index;
+  catalogIndexListeners.forEach(listener => listener());
+};
+
+/**
+ * Current catalog index; a new object is published after every change
+ */
+export const getCatalogSearchIndex = (): SearchIndex => catalogIndex;
+
+/**
+ * Whether the catalog index has been built from a full catalog load
+ */
+export const isCatalogSearchIndexLoaded = (): boolean => catalogIndexLoaded;
+
+/**
+ * Subscribe to catalog index changes; returns the unsubscribe function
+ */
+export const subscribeToCatalogSearchIndex = (listener: () => void): (() => void) => {
+  catalogIndexListeners.add(listener);
+  return () => {
+    catalogIndexListeners.delete(listener);
+  };
+};
+
+/**
+ * Rebuild the catalog index from a full catalog load
+ */
+export const loadCatalogSearchIndex = (products: Product[]): void => {
+  catalogIndexLoaded = true;
+  publishCatalogIndex(createSearchIndex(products.filter(product => product.isActive)));
+};
+
+/**
+ * Add or refresh a created or edited product; inactive products are dropped
+ */
+export const indexCatalogProduct = (product: Product): void => {
+  publishCatalogIndex(
+    product.isActive
+      ? addProductToIndex(catalogIndex, product)
+      : removeProductsFromIndex(catalogIndex, [product.id])
+  );
+};
+
+/**
+ * Drop deleted or deactivated products from the catalog index
+ */
+export const unindexCatalogProducts = (productIds: string[]): void => {
+  if (productIds.length === 0) return;
+  publishCatalogIndex(removeProductsFromIndex(catalogIndex, productIds));
+};
+
+/**
+ * Search the storefront catalog index
+ */
+export const searchCatalog = (queryText: string, options: ProductSearchOptions = {}): ProductSearchResult[] => {
+  return searchIndex(catalogIndex, queryText, options);
+};
+
+// ========================================
+// HELPER Functions
+// ========================================
+
+// Older documents may be missing text fields, so each one falls back to empty
+const getProductFields = (product: Product): Record<SearchField, string> => ({
+  title: product.title || '',
+  tags: (product.tags || []).join(' '),
+  category: product.category || '',
+  description: product.description || ''
+});
+
+// Classify how an indexed term matches a query word, if at all
+const matchTerm = (term: string, word: string, stem: string, allowedTypos: number): SearchMatchType | null => {
+  if (term === stem || term === word) return 'exact';
+  if (word.length >= 2 && (term.startsWith(word) || term.startsWith(stem))) return 'prefix';
+  if (allowedTypos > 0 && Math.min(
+    getEditDistance(term, stem, allowedTypos),
+    getEditDistance(term, word, allowedTypos)
+  ) <= allowedTypos) {
+    return 'fuzzy';
+  }
+  return null;
+};
+
+// Record a product's weighted terms; posting maps are copied before writing
+// when they may be shared with a previously published index
+const writeProductToIndex = (index: SearchIndex, product: Product, copyOnWrite: boolean) => {
+  const termWeights = new Map<string, number>();
+
+  (Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+    const counts = new Map<string, number>();
+    tokenize(getProductFields(product)[field]).forEach(term => {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    });
+    // Repeats help, with diminishing returns so long descriptions do not dominate
+    counts.forEach((count, term) => {
+      const weight = SEARCH_FIELD_WEIGHTS[field] * (1 + Math.log(count));
+      termWeights.set(term, (termWeights.get(term) ?? 0) + weight);
+    });
+  });
+
+  index.products.set(product.id, product);
+  index.productTerms.set(product.id, new Set(termWeights.keys()));
+  termWeights.forEach((weight, term) => {
+    const existing = index.postings.get(term);
+    const postings = existing && copyOnWrite ? new Map(existing) : existing ?? new Map<string, number>();
+    postings.set(product.id, weight);
+    index.postings.set(term, postings);
+  });
+};
+
+const removeProductFromIndexInPlace = (index: SearchIndex, productId: string) => {
+  const terms = index.productTerms.get(productId);
+  if (!terms) return;
+
+  terms.forEach(term => {
+    const existing = index.postings.get(term);
+    if (!existing) return;
+    const postings = new Map(existing);
+    postings.delete(productId);
+    if (postings.size > 0) {
+      index.postings.set(term, postings);
+    } else {
+      index.postings.delete(term);
+    }
+  });
+  index.products.delete(productId);
+  index.productTerms.delete(productId);
+};
+
+const copyIndex = (index: SearchIndex): SearchIndex => ({
+  products: new Map(index.products),
+  postings: new Map(index.postings),
+  productTerms: new Map(index.productTerms)
+});
@@ -0,0 +1,165 @@
+/**
+ * Shipping Service
+ * Shipping zones, billable weight and per-method rate quotes
+ */
+
+import type { Product } from "../types/productType";
+import type { ShippingAddress } from "../types/orderType";
+import type {
+  ShippingMethod,
+  ShippingMethodId,
+  ShippingQuote,
+  ShippingZone
+} from "../types/shippingType";
+
+// A cart or order line to ship
+export interface ShippingLineInput {
+  product: Product;
+  quantity: number;
+}
+
+// Country the warehouse ships from
+export const ORIGIN_COUNTRY = 'US';
+
+// Countries billed at North America rates
+const NORTH_AMERICA_COUNTRIES = ['CA', 'MX'];
+
+// Weight assumed for products without one, in kg
+export const DEFAULT_ITEM_WEIGHT = 0.5;
+
+// Volumetric divisor: cm³ per billable kg
+const VOLUMETRIC_DIVISOR = 5000;
+
+export const SHIPPING_METHODS: ShippingMethod[] = [
+  {
+    id: 'standard',
+    label: 'Standard Shipping',
+    description: 'Ground delivery',
+    rates: {
+      // Free shipping over $50 for domestic orders
+      domestic: { baseRate: 9.99, includedWeight: 2, perKgRate: 1.5, freeOver: 50, minDays: 3, maxDays: 7 },
+      north_america: { baseRate: 14.99, includedWeight: 1, perKgRate: 2.5, minDays: 5, maxDays: 10 },
+      international: { baseRate: 24.99, includedWeight: 1, perKgRate: 5, minDays: 7, maxDays: 21 }
+    }
+  },
+  {
+    id: 'express',
+    label: 'Express Shipping',
+    description: 'Priority air delivery',
+    rates: {
+      domestic: { baseRate: 19.99, includedWeight: 1, perKgRate: 3, minDays: 1, maxDays: 2 },
+      north_america: { baseRate: 34.99, includedWeight: 1, perKgRate: 5, minDays: 2, maxDays: 4 },
+      international: { baseRate: 54.99, includedWeight: 1, perKgRate: 10, minDays: 3, maxDays: 7 }
+    }
+  },
+  {
+    id: 'pickup',
+    label: 'Store Pickup',
+    description: 'Collect from our store',
+    rates: {
+      domestic: { baseRate: 0, includedWeight: Infinity, perKgRate: 0, minDays: 1, maxDays: 2 }
+    }
+  }
+];
+
+/**
+ * Zone of a destination address
+ */
+export const getShippingZone = (address: Pick<ShippingAddress, 'country'>): ShippingZone => {
+  const country = (address.country || '').trim().toUpperCase();
+  if (!country || country === ORIGIN_COUNTRY) {
+    return 'domestic';
+  }
+  return NORTH_AMERICA_COUNTRIES.includes(country) ? 'north_america' : 'international';
+};
+
+/**
+ * Billable weight of a product: the larger of its actual and volumetric weight
+ */
+export const getBillableWeight = (product: Product): number => {
+  const weight = product.inventory.weight || DEFAULT_ITEM_WEIGHT;
+  const dimensions = product.inventory.dimensions;
+  if (!dimensions || !dimensions.length || !dimensions.width || !dimensions.height) {
+    return weight;
+  }
+
+  const volumetricWeight = dimensions.length * dimensions.width * dimensions.height / VOLUMETRIC_DIVISOR;
+  return Math.max(weight, volumetricWeight);
+};
+
+/**
+ * Billable weight of a whole shipment, in kg
+ */
+export const calculateShipmentWeight = (lines: ShippingLineInput[]): number => {
+  const weight = lines.reduce((sum, line) => sum + getBillableWeight(line.product) * line.quantity, 0);
+  return Math.round(weight * 100) / 100;
+};
+
+/**
+ * Quote every method that serves the destination, cheapest first
+ */
+export const getShippingQuotes = (
+  lines: ShippingLineInput[],
+  address: Pick<ShippingAddress, 'country'>,
+  subtotal: number,
+  now: Date = new Date()
+): ShippingQuote[] => {
+  const zone = getShippingZone(address);
+  const weight = calculateShipmentWeight(lines);
+
+  return SHIPPING_METHODS
+    .filter(method => method.rates[zone])
+    .map(method => {
+      const rate = method.rates[zone]!;
+      const extraWeight = Math.max(0, Math.ceil(weight - rate.includedWeight));
+      const cost = rate.freeOver !== undefined && subtotal > rate.freeOver
+        ? 0
+        : rate.baseRate + extraWeight * rate.perKgRate;
+
+      return {
+        methodId: method.id,
+        label: method.label,
+        zone,
+        cost: Math.round(cost * 100) / 100,
+        weight,
+        minDays: rate.minDays,
+        maxDays: rate.maxDays,
+        estimatedDeliveryFrom: addDays(now, rate.minDays),
+        estimatedDeliveryTo: addDays(now, rate.maxDays)
+      };
+    })
+    .sort((a, b) => a.cost - b.cost);
+};
+
+/**
+ * Quote a specific method, throwing when it does not serve the destination
+ */
+export const getShippingQuote = (
+  methodId: ShippingMethodId,
+  lines: ShippingLineInput[],
+  address: Pick<ShippingAddress, 'country'>,
+  subtotal: number,
+  now: Date = new Date()
+): ShippingQuote => {
+  const quote = getShippingQuotes(lines, address, subtotal, now).find(option => option.methodId === methodId);
+  if (!quote) {
+    const method = SHIPPING_METHODS.find(option => option.id === methodId);
+    throw new Error(`${method?.label || methodId} is not available for this address`);
+  }
+  return quote;
+};
+
+/**
+ * Human-readable delivery window, e.g. "Jun 3 - Jun 7"
+ */
+export const formatDeliveryWindow = (quote: Pick<ShippingQuote, 'methodId' | 'estimatedDeliveryFrom' | 'estimatedDeliveryTo'>): string => {
+  const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const window = `${format(quote.estimatedDeliveryFrom)} - ${format(quote.estimatedDeliveryTo)}`;
+  return quote.methodId === 'pickup' ? `Ready for pickup ${window}` : `Arrives ${window}`;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
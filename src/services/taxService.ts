@@ -0,0 +1,196 @@
+/**
+ * Tax Service
+ * Jurisdiction lookup and per-line tax calculation for orders
+ */
+
+import type { Product } from "../types/productType";
+import type { ShippingAddress } from "../types/orderType";
+import type {
+  LineTax,
+  TaxBreakdownEntry,
+  TaxClass,
+  TaxRateRule,
+  TaxTable
+} from "../types/taxType";
+
+// A priced order line to calculate tax for
+export interface TaxLineInput {
+  id: string;
+  product: Product;
+  amount: number; // Line total before discounts
+}
+
+// Result of calculating tax for an order
+export interface TaxResult {
+  lines: Record<string, LineTax>; // Keyed by TaxLineInput.id
+  breakdown: TaxBreakdownEntry[];
+  tax: number;
+  pricesIncludeTax: boolean;
+}
+
+/**
+ * Default rate table
+ * Addresses without a matching rule keep the original flat 8% rate.
+ */
+export const DEFAULT_TAX_TABLE: TaxTable = {
+  pricesIncludeTax: false,
+  rules: [
+    { country: 'US', label: 'US Sales Tax', rate: 0.08 },
+    { country: 'US', state: 'CA', label: 'California', rate: 0.0725 },
+    { country: 'US', state: 'NY', label: 'New York', rate: 0.04 },
+    { country: 'US', state: 'NY', zipPrefix: '100', label: 'New York City', rate: 0.08875 },
+    { country: 'US', state: 'OR', label: 'Oregon', rate: 0 },
+    { country: 'GB', label: 'UK VAT', rate: 0.2, classRates: { reduced: 0.05 } },
+    { country: 'CA', label: 'Canada GST', rate: 0.05 }
+  ],
+  fallbackRule: { country: '*', label: 'Sales Tax', rate: 0.08 },
+  categoryTaxClasses: {
+    groceries: 'exempt',
+    books: 'reduced'
+  }
+};
+
+// ========================================
+// Jurisdiction Lookup
+// ========================================
+
+/**
+ * Find the most specific rule for an address
+ * A zip prefix match beats a state match, which beats a country-wide rule.
+ */
+export const findTaxRule = (
+  address: Pick<ShippingAddress, 'country' | 'state' | 'zipCode'>,
+  table: TaxTable = DEFAULT_TAX_TABLE
+): TaxRateRule => {
+  const country = normalizeRegion(address.country);
+  const state = normalizeRegion(address.state);
+  const zipCode = normalizeRegion(address.zipCode).replace(/\s+/g, '');
+
+  let bestRule: TaxRateRule | null = null;
+  let bestScore = -1;
+
+  for (const rule of table.rules) {
+    if (normalizeRegion(rule.country) !== country) continue;
+    if (rule.state && normalizeRegion(rule.state) !== state) continue;
+    if (rule.zipPrefix && !zipCode.startsWith(normalizeRegion(rule.zipPrefix))) continue;
+
+    const score = (rule.zipPrefix?.length || 0) * 2 + (rule.state ? 1 : 0);
+    if (score > bestScore) {
+      bestRule = rule;
+      bestScore = score;
+    }
+  }
+
+  return bestRule || table.fallbackRule;
+};
+
+/**
+ * Tax class of a product, from its category
+ */
+export const getTaxClass = (product: Product, table: TaxTable = DEFAULT_TAX_TABLE): TaxClass => {
+  return table.categoryTaxClasses[product.category] || 'standard';
+};
+
+/**
+ * Rate a rule applies to a tax class
+ */
+export const getTaxRate = (rule: TaxRateRule, taxClass: TaxClass): number => {
+  const classRate = rule.classRates?.[taxClass];
+  if (classRate !== undefined) {
+    return classRate;
+  }
+  return taxClass === 'exempt' ? 0 : rule.rate;
+};
+
+// ========================================
+// Calculation
+// ========================================
+
+/**
+ * Calculate tax for every order line
+ * Merchandise discounts are spread across lines in proportion to their totals
+ * before tax, and each line's tax is rounded to cents so the breakdown adds up.
+ */
+export const calculateTax = (
+  lines: TaxLineInput[],
+  address: Pick<ShippingAddress, 'country' | 'state' | 'zipCode'>,
+  discount: number = 0,
+  table: TaxTable = DEFAULT_TAX_TABLE
+): TaxResult => {
+  const rule = findTaxRule(address, table);
+  const discountShares = allocateDiscount(lines.map(line => line.amount), discount);
+
+  const lineTaxes: Record<string, LineTax> = {};
+  const breakdown = new Map<string, TaxBreakdownEntry>();
+
+  lines.forEach((line, index) => {
+    const taxClass = getTaxClass(line.product, table);
+    const rate = getTaxRate(rule, taxClass);
+    const taxableAmount = roundCurrency(line.amount - discountShares[index]);
+    const amount = table.pricesIncludeTax
+      ? roundCurrency(taxableAmount * rate / (1 + rate))
+      : roundCurrency(taxableAmount * rate);
+
+    lineTaxes[line.id] = {
+      taxClass,
+      jurisdiction: rule.label,
+      rate,
+      taxableAmount,
+      amount
+    };
+
+    const key = `${taxClass}:${rate}`;
+    const entry = breakdown.get(key) || {
+      jurisdiction: rule.label,
+      taxClass,
+      rate,
+      taxableAmount: 0,
+      amount: 0
+    };
+    entry.taxableAmount = roundCurrency(entry.taxableAmount + taxableAmount);
+    entry.amount = roundCurrency(entry.amount + amount);
+    breakdown.set(key, entry);
+  });
+
+  const tax = roundCurrency(
+    Object.values(lineTaxes).reduce((sum, lineTax) => sum + lineTax.amount, 0)
+  );
+
+  return {
+    lines: lineTaxes,
+    breakdown: Array.from(breakdown.values()),
+    tax,
+    pricesIncludeTax: table.pricesIncludeTax
+  };
+};
+
+// ========================================
+// Utility Functions
+// ========================================
+
+/**
+ * Split a discount across amounts proportionally, in cents
+ * The last line absorbs the rounding remainder so the shares sum to the discount.
+ */
+const allocateDiscount = (amounts: number[], discount: number): number[] => {
+  const total = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (discount <= 0 || total <= 0) {
+    return amounts.map(() => 0);
+  }
+
+  const cappedDiscount = Math.min(discount, total);
+  let allocated = 0;
+
+  return amounts.map((amount, index) => {
+    if (index === amounts.length - 1) {
+      return roundCurrency(cappedDiscount - allocated);
+    }
+    const share = roundCurrency(cappedDiscount * amount / total);
+    allocated += share;
+    return share;
+  });
+};
+
+const normalizeRegion = (value: string | undefined): string => (value || '').trim().toUpperCase();
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
@@ -20,11 +20,13 @@ import {
   EmailAuthProvider
 } from "firebase/auth";
 import { auth, db } from "../firebase/index";
+import { requireRole, ADMIN_ROLES, USER_ROLES } from "./accessControlService";
 import type { 
   UserProfile, 
   UserProfileUpdateData, 
   UserAddress, 
-  UserPreferences 
+  UserPreferences,
+  UserRole
 } from "../types/authTypes";
 
 /**
@@ -72,7 +74,8 @@ export const createUserProfile = async (
       createdAt: new Date(),
       updatedAt: new Date(),
       lastLoginAt: new Date(),
-      isActive: true
+      isActive: true,
+      role: 'customer'
     };
 
     // Save to Firestore
@@ -154,7 +157,8 @@ export const getUserProfile = async (uid: string): Promise<UserProfile | null> =
         createdAt: data.createdAt?.toDate() || new Date(),
         updatedAt: data.updatedAt?.toDate() || new Date(),
         lastLoginAt: data.lastLoginAt?.toDate(),
-        isActive: data.isActive !== false // Default to true if not set
+        isActive: data.isActive !== false, // Default to true if not set
+        role: data.role || 'customer' // Profiles created before roles existed are customers
       };
     }
     
@@ -191,7 +195,8 @@ export const getUserByEmail = async (email: string): Promise<UserProfile | null>
         createdAt: data.createdAt?.toDate() || new Date(),
         updatedAt: data.updatedAt?.toDate() || new Date(),
         lastLoginAt: data.lastLoginAt?.toDate(),
-        isActive: data.isActive !== false
+        isActive: data.isActive !== false,
+        role: data.role || 'customer'
       };
     }
     
@@ -406,6 +411,30 @@ export const updateLastLogin = async (uid: string): Promise<void> => {
   }
 };
 
+/**
+ * Change a user's role (admin only)
+ */
+export const updateUserRole = async (uid: string, role: UserRole): Promise<void> => {
+  try {
+    await requireRole(ADMIN_ROLES, "change user roles");
+
+    if (!USER_ROLES.includes(role)) {
+      throw new Error(`Unknown role: ${role}`);
+    }
+
+    await updateDoc(doc(db, "users", uid), {
+      role,
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    console.error("Error updating user role:", error);
+    if (error instanceof Error) {
+      throw new Error(`Failed to update user role: ${error.message}`);
+    }
+    throw new Error("Failed to update user role");
+  }
+};
+
 // ========================================
 // DELETE Operations
 // ========================================
@@ -0,0 +1,159 @@
+/**
+ * Product Variant Service
+ * Pure helpers for variant option selection, pricing and cart line identity
+ */
+
+import type { Product, ProductVariant, SelectedVariantOption } from "../types/productType";
+
+/**
+ * Price modifier for one option of a variant
+ * Per-option modifiers win over the variant-wide modifier
+ */
+export const getOptionPriceModifier = (variant: ProductVariant, option: string): number => {
+  return variant.optionPriceModifiers?.[option] ?? variant.priceModifier ?? 0;
+};
+
+/**
+ * Default selection: the first option of every variant
+ */
+export const getDefaultVariantSelection = (product: Product): SelectedVariantOption[] => {
+  return (product.variants || [])
+    .filter(variant => variant.options.length > 0)
+    .map(variant => ({
+      variantId: variant.id,
+      name: variant.name,
+      option: variant.options[0],
+      priceModifier: getOptionPriceModifier(variant, variant.options[0])
+    }));
+};
+
+/**
+ * Build a selection entry for a variant option
+ */
+export const selectVariantOption = (variant: ProductVariant, option: string): SelectedVariantOption => ({
+  variantId: variant.id,
+  name: variant.name,
+  option,
+  priceModifier: getOptionPriceModifier(variant, option)
+});
+
+/**
+ * Check a selection against the product's current variants and re-price it
+ * Throws when an option is missing or no longer offered
+ */
+export const resolveVariantSelection = (
+  product: Product,
+  selectedOptions: SelectedVariantOption[] = []
+): SelectedVariantOption[] => {
+  return (product.variants || [])
+    .filter(variant => variant.options.length > 0)
+    .map(variant => {
+      const selection = selectedOptions.find(option => option.variantId === variant.id);
+      if (!selection) {
+        throw new Error(`Please choose a ${variant.name} for ${product.title}`);
+      }
+      if (!variant.options.includes(selection.option)) {
+        throw new Error(`${variant.name} "${selection.option}" is not available for ${product.title}`);
+      }
+      return selectVariantOption(variant, selection.option);
+    });
+};
+
+/**
+ * Unit price of a product with the selected options applied
+ */
+export const getEffectiveUnitPrice = (
+  product: Product,
+  selectedOptions: SelectedVariantOption[] = []
+): number => {
+  const modifiers = selectedOptions.reduce((sum, option) => sum + option.priceModifier, 0);
+  return Math.round((product.price + modifiers) * 100) / 100;
+};
+
+/**
+ * Stable cart line ID: the product ID, plus the chosen options when there are any
+ */
+export const buildCartItemId = (
+  productId: string,
+  selectedOptions: SelectedVariantOption[] = []
+): string => {
+  if (selectedOptions.length === 0) {
+    return productId;
+  }
+
+  const optionKey = [...selectedOptions]
+    .sort((a, b) => a.variantId.localeCompare(b.variantId))
+    .map(option => `${option.variantId}=${option.option}`)
+    .join('|');
+
+  return `${productId}::${optionKey}`;
+};
+
+/**
+ * Human-readable summary of a selection, e.g. "Size: Large, Color: Red"
+ */
+export const formatVariantSelection = (selectedOptions: SelectedVariantOption[] = []): string => {
+  return selectedOptions.map(option => `${option.name}: ${option.option}`).join(', ');
+};
+
+/**
+ * Parse the admin variant editor text into variants
+ * One variant per line: "Size: Small, Medium, Large (+2.50)"
+ */
+export const parseVariantsInput = (input: string): ProductVariant[] => {
+  return input
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map((line, index) => {
+      const separatorIndex = line.indexOf(':');
+      if (separatorIndex <= 0) {
+        throw new Error(`Variant line ${index + 1} must look like "Name: option, option"`);
+      }
+
+      const name = line.slice(0, separatorIndex).trim();
+      const optionPriceModifiers: Record<string, number> = {};
+      const options = line.slice(separatorIndex + 1)
+        .split(',')
+        .map(rawOption => rawOption.trim())
+        .filter(rawOption => rawOption.length > 0)
+        .map(rawOption => {
+          const match = rawOption.match(/^(.*?)\s*\(([+-]\d+(?:\.\d+)?)\)$/);
+          if (!match) {
+            return rawOption;
+          }
+          optionPriceModifiers[match[1]] = Number(match[2]);
+          return match[1];
+        });
+
+      if (options.length === 0) {
+        throw new Error(`Variant "${name}" needs at least one option`);
+      }
+
+      const variant: ProductVariant = {
+        id: name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+        name,
+        options
+      };
+      if (Object.keys(optionPriceModifiers).length > 0) {
+        variant.optionPriceModifiers = optionPriceModifiers;
+      }
+      return variant;
+    });
+};
+
+/**
+ * Format variants back into the admin variant editor text
+ */
+export const formatVariantsInput = (variants: ProductVariant[] = []): string => {
+  return variants
+    .map(variant => {
+      const options = variant.options.map(option => {
+        const modifier = getOptionPriceModifier(variant, option);
+        if (modifier === 0) return option;
+        return `${option} (${modifier > 0 ? '+' : ''}${modifier})`;
+      });
+      return `${variant.name}: ${options.join(', ')}`;
+    })
+    .join('\n');
+};
@@ -0,0 +1,99 @@
+/**
+ * Wishlist Service
+ * Per-user saved products stored at users/{uid}/wishlist/{itemId}
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  orderBy,
+  query
+} from "firebase/firestore";
+import { auth, db } from "../firebase/index";
+import { getCatalogProductById } from "./productService";
+import { buildCartItemId } from "./variantService";
+import type { Product, SelectedVariantOption } from "../types/productType";
+import type { WishlistEntry, WishlistItem } from "../types/wishlistType";
+
+/**
+ * Get the signed-in user's wishlist, newest first, with live product data
+ * Products that were removed or deactivated come back with product set to null.
+ */
+export const getWishlist = async (): Promise<WishlistEntry[]> => {
+  try {
+    const uid = requireUserId("view your wishlist");
+
+    const snapshot = await getDocs(query(getWishlistCollection(uid), orderBy("addedAt", "desc")));
+    const items: WishlistItem[] = snapshot.docs.map(itemDoc => {
+      const data = itemDoc.data();
+      return {
+        id: data.id,
+        productId: data.productId,
+        ...(data.selectedOptions ? { selectedOptions: data.selectedOptions } : {}),
+        addedAt: data.addedAt?.toDate() || new Date()
+      };
+    });
+
+    const products = await Promise.all(items.map(item => getCatalogProductById(item.productId)));
+    return items.map((item, index) => ({ ...item, product: products[index] }));
+  } catch (error) {
+    console.error("Error fetching wishlist:", error);
+    throw new Error("Failed to fetch wishlist");
+  }
+};
+
+/**
+ * Save a product, with any chosen options, to the signed-in user's wishlist
+ * Saving the same product and options again keeps a single entry.
+ */
+export const addToWishlist = async (
+  product: Product,
+  selectedOptions: SelectedVariantOption[] = []
+): Promise<WishlistItem> => {
+  try {
+    const uid = requireUserId("save items");
+
+    const item: WishlistItem = {
+      id: buildCartItemId(product.id, selectedOptions),
+      productId: product.id,
+      ...(selectedOptions.length > 0 ? { selectedOptions } : {}),
+      addedAt: new Date()
+    };
+
+    await setDoc(getWishlistItemRef(uid, item.id), item);
+    return item;
+  } catch (error) {
+    console.error("Error adding to wishlist:", error);
+    throw new Error("Failed to save item");
+  }
+};
+
+/**
+ * Remove an entry from the signed-in user's wishlist
+ */
+export const removeFromWishlist = async (itemId: string): Promise<void> => {
+  try {
+    const uid = requireUserId("update your wishlist");
+    await deleteDoc(getWishlistItemRef(uid, itemId));
+  } catch (error) {
+    console.error("Error removing from wishlist:", error);
+    throw new Error("Failed to remove item");
+  }
+};
+
+const requireUserId = (action: string): string => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error(`User must be authenticated to ${action}`);
+  }
+  return user.uid;
+};
+
+const getWishlistCollection = (uid: string) => collection(db, "users", uid, "wishlist");
+
+// Option values may contain characters Firestore does not allow in document IDs
+const getWishlistItemRef = (uid: string, itemId: string) =>
+  doc(db, "users", uid, "wishlist", encodeURIComponent(itemId));
@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for the Cart Slice
+ * Tests that quantities stay within stock and per-order limits, and that changes are saved
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { configureStore } from '@reduxjs/toolkit'
+import cartReducer, {
+  addToCart,
+  cartPersistenceMiddleware,
+  incrementQuantity,
+  toggleCart,
+  replaceCart,
+  updateCartItemQuantity
+} from '../cartSlice'
+import { createMockProduct } from '../../test/testUtils'
+import type { CartState } from '../../types/cartTypes'
+import type { Product } from '../../types/productType'
+
+const emptyCart: CartState = { items: [], totalItems: 0, totalPrice: 0, isOpen: false, ownerId: null }
+
+const cartWith = (product: Product, quantity: number): CartState =>
+  cartReducer(emptyCart, addToCart({ product, quantity }))
+
+describe('cartSlice stock limits', () => {
+  it('clamps additions to the available stock and records a notice', () => {
+    const product = createMockProduct({ price: 10, inventory: { stock: 3, trackInventory: true } })
+    const state = cartReducer(cartWith(product, 2), addToCart({ product, quantity: 5 }))
+
+    expect(state.items[0].quantity).toBe(3)
+    expect(state.totalItems).toBe(3)
+    expect(state.totalPrice).toBe(30)
+    expect(state.limitNotice).toEqual({ itemId: 'test-product-1', requested: 7, allowed: 3, reason: 'stock' })
+  })
+
+  it('does not add out-of-stock products', () => {
+    const state = cartWith(createMockProduct({ inventory: { stock: 0, trackInventory: true } }), 1)
+
+    expect(state.items).toEqual([])
+    expect(state.limitNotice?.allowed).toBe(0)
+  })
+
+  it('stops incrementing at the limit and clears the notice on the next change', () => {
+    let state = cartWith(createMockProduct({ inventory: { stock: 3, trackInventory: true } }), 3)
+    state = cartReducer(state, incrementQuantity('test-product-1'))
+
+    expect(state.items[0].quantity).toBe(3)
+    expect(state.limitNotice?.requested).toBe(4)
+
+    state = cartReducer(state, updateCartItemQuantity({ productId: 'test-product-1', quantity: 2 }))
+    expect(state.items[0].quantity).toBe(2)
+    expect(state.limitNotice).toBeNull()
+  })
+
+  it('clamps typed quantities to the per-order limit', () => {
+    const product = createMockProduct({ inventory: { stock: 100, trackInventory: true, maxPerOrder: 4 } })
+    const state = cartReducer(cartWith(product, 1), updateCartItemQuantity({ productId: 'test-product-1', quantity: 10 }))
+
+    expect(state.items[0].quantity).toBe(4)
+    expect(state.limitNotice?.reason).toBe('max_per_order')
+  })
+
+  it('shares the limit between variant lines of the same product', () => {
+    const product = createMockProduct({
+      inventory: { stock: 3, trackInventory: true },
+      variants: [{ id: 'size', name: 'Size', options: ['S', 'M'] }]
+    })
+    const size = (option: string) => [{ variantId: 'size', name: 'Size', option, priceModifier: 0 }]
+
+    let state = cartReducer(emptyCart, addToCart({ product, quantity: 2, selectedOptions: size('S') }))
+    state = cartReducer(state, addToCart({ product, quantity: 2, selectedOptions: size('M') }))
+
+    expect(state.items.map(item => item.quantity)).toEqual([2, 1])
+  })
+
+  it('ignores limits for products that do not track inventory', () => {
+    const state = cartWith(createMockProduct({ inventory: { stock: 0, trackInventory: false } }), 50)
+
+    expect(state.items[0].quantity).toBe(50)
+    expect(state.limitNotice).toBeNull()
+  })
+
+  it('caps merged carts when replacing the whole cart', () => {
+    const product = createMockProduct({ inventory: { stock: 3, trackInventory: true } })
+    const state = cartReducer(emptyCart, replaceCart({
+      items: [{ id: 'test-product-1', product, quantity: 5 }],
+      ownerId: 'user-1'
+    }))
+
+    expect(state.items[0].quantity).toBe(3)
+    expect(state.ownerId).toBe('user-1')
+  })
+})
+
+describe('cartSlice persistence', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    localStorage.clear()
+  })
+
+  it('stamps changes with the time from the action, leaving the reducer pure', () => {
+    const action = addToCart({ product: createMockProduct(), quantity: 1 })
+
+    expect(cartReducer(emptyCart, action)).toEqual(cartReducer(emptyCart, action))
+    expect(cartReducer(emptyCart, action).updatedAt).toBe(action.meta.updatedAt)
+  })
+
+  it('saves cart changes to localStorage from the listener middleware', () => {
+    vi.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') })
+    const store = configureStore({
+      reducer: { cart: cartReducer },
+      preloadedState: { cart: emptyCart },
+      middleware: (getDefaultMiddleware) =>
+        getDefaultMiddleware({ serializableCheck: false }).prepend(cartPersistenceMiddleware.middleware)
+    })
+
+    store.dispatch(addToCart({ product: createMockProduct({ price: 10 }), quantity: 2 }))
+
+    const saved = JSON.parse(localStorage.getItem('ecommerce-cart') || '{}')
+    expect(saved).toMatchObject({ totalItems: 2, totalPrice: 20, updatedAt: Date.parse('2024-06-01T12:00:00Z') })
+    expect(saved).not.toHaveProperty('isOpen')
+
+    localStorage.clear()
+    store.dispatch(toggleCart())
+    expect(localStorage.getItem('ecommerce-cart')).toBeNull()
+  })
+})
@@ -1,14 +1,24 @@
-import { createSlice } from '@reduxjs/toolkit';
+import { createListenerMiddleware, createSlice, isAnyOf } from '@reduxjs/toolkit';
 import type { PayloadAction } from '@reduxjs/toolkit';
-import type { CartState, CartItem, AddToCartPayload, UpdateCartItemPayload } from '../types/cartTypes';
+import type {
+  CartState,
+  CartItem,
+  AddToCartPayload,
+  UpdateCartItemPayload,
+  ReplaceCartPayload,
+  CartLimitNotice,
+  CartLimitReason
+} from '../types/cartTypes';
+import type { Product } from '../types/productType';
+import { buildCartItemId, getEffectiveUnitPrice } from '../services/variantService';
 
-// SessionStorage key for cart data
+// LocalStorage key for cart data; signed-in carts are also synced to Firestore
 const CART_STORAGE_KEY = 'ecommerce-cart';
 
-// Helper function to load cart from sessionStorage
+// Helper function to load cart from localStorage
 const loadCartFromStorage = (): CartState => {
   try {
-    const savedCart = sessionStorage.getItem(CART_STORAGE_KEY);
+    const savedCart = localStorage.getItem(CART_STORAGE_KEY);
     if (savedCart) {
       const parsedCart = JSON.parse(savedCart);
       // Recalculate totals to ensure consistency
@@ -18,20 +28,22 @@ const loadCartFromStorage = (): CartState => {
         totalItems: totals.totalItems,
         totalPrice: totals.totalPrice,
         isOpen: false, // Always start with cart closed
+        ownerId: parsedCart.ownerId ?? null,
       };
     }
   } catch (error) {
-    console.error('Error loading cart from sessionStorage:', error);
+    console.error('Error loading cart from localStorage:', error);
   }
   return {
     items: [],
     totalItems: 0,
     totalPrice: 0,
     isOpen: false,
+    ownerId: null,
   };
 };
 
-// Helper function to save cart to sessionStorage
+// Helper function to save cart to localStorage
 const saveCartToStorage = (state: CartState) => {
   try {
     // Don't save the isOpen state to storage
@@ -39,22 +51,83 @@ const saveCartToStorage = (state: CartState) => {
       items: state.items,
       totalItems: state.totalItems,
       totalPrice: state.totalPrice,
+      ownerId: state.ownerId ?? null,
+      updatedAt: state.updatedAt,
     };
-    sessionStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cartToSave));
+    localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cartToSave));
   } catch (error) {
-    console.error('Error saving cart to sessionStorage:', error);
+    console.error('Error saving cart to localStorage:', error);
   }
 };
 
 // Helper function to calculate totals
 const calculateTotals = (items: CartItem[]) => {
   const totalItems = items.reduce((total, item) => total + item.quantity, 0);
-  const totalPrice = items.reduce((total, item) => total + (item.product.price * item.quantity), 0);
-  
+  // Unit price includes the price modifiers of any selected variant options
+  const totalPrice = items.reduce(
+    (total, item) => total + (getEffectiveUnitPrice(item.product, item.selectedOptions) * item.quantity),
+    0
+  );
+
   return { totalItems, totalPrice };
 };
 
-// Initial state for the cart (loaded from sessionStorage)
+// Most units of a product one cart may hold: its stock when tracked, capped by its per-order limit
+export const getProductQuantityLimit = (product: Product): number => {
+  const stockLimit = product.inventory.trackInventory ? Math.max(product.inventory.stock, 0) : Infinity;
+  const maxPerOrder = product.inventory.maxPerOrder;
+  return Math.min(stockLimit, maxPerOrder && maxPerOrder > 0 ? maxPerOrder : Infinity);
+};
+
+// Which limit applies to a product; stock wins ties since it is the harder constraint
+export const getQuantityLimitReason = (product: Product): CartLimitReason => {
+  const stockLimit = product.inventory.trackInventory ? product.inventory.stock : Infinity;
+  const maxPerOrder = product.inventory.maxPerOrder;
+  return maxPerOrder && maxPerOrder > 0 && maxPerOrder < stockLimit ? 'max_per_order' : 'stock';
+};
+
+// Most units one line may hold; variant lines of the same product share its limit
+export const getLineQuantityLimit = (items: CartItem[], itemId: string, product: Product): number => {
+  const otherLines = items
+    .filter(item => item.product.id === product.id && item.id !== itemId)
+    .reduce((total, item) => total + item.quantity, 0);
+  return Math.max(getProductQuantityLimit(product) - otherLines, 0);
+};
+
+// Helper function to clamp a requested line quantity, recording a notice when it is reduced
+const clampLineQuantity = (
+  state: CartState,
+  itemId: string,
+  product: Product,
+  requested: number
+): number => {
+  const allowed = Math.min(requested, getLineQuantityLimit(state.items, itemId, product));
+  if (allowed < requested) {
+    const notice: CartLimitNotice = { itemId, requested, allowed, reason: getQuantityLimitReason(product) };
+    state.limitNotice = notice;
+  }
+  return allowed;
+};
+
+// Helper function to cap a whole list of lines, earlier lines first
+const clampItems = (items: CartItem[]): CartItem[] => {
+  const clamped: CartItem[] = [];
+  for (const item of items) {
+    const quantity = Math.min(item.quantity, getLineQuantityLimit(clamped, item.id, item.product));
+    if (quantity > 0) {
+      clamped.push({ ...item, quantity });
+    }
+  }
+  return clamped;
+};
+
+// Cart changes carry their time, so a login can tell which copy of the cart is newer
+type CartChangeAction<P> = PayloadAction<P, string, { updatedAt: number }>;
+
+// Prepare callback stamping a cart change with the time it was made
+const withChangeTime = <P,>(payload: P) => ({ payload, meta: { updatedAt: Date.now() } });
+
+// Initial state for the cart (loaded from localStorage)
 const initialState: CartState = loadCartFromStorage();
 
 // Create the cart slice
@@ -63,121 +136,200 @@ const cartSlice = createSlice({
   initialState,
   reducers: {
     // Add item to cart
-    addToCart: (state, action: PayloadAction<AddToCartPayload>) => {
-      const { product, quantity = 1 } = action.payload;
-      
-      // Check if item already exists in cart
-      const existingItem = state.items.find(item => item.id === product.id);
-      
-      if (existingItem) {
-        // If exists, increase quantity
-        existingItem.quantity += quantity;
-      } else {
-        // If new item, add to cart
-        const newItem: CartItem = {
-          id: product.id,
-          product,
-          quantity,
-        };
-        state.items.push(newItem);
-      }
-      
-      // Recalculate totals
-      const totals = calculateTotals(state.items);
-      state.totalItems = totals.totalItems;
-      state.totalPrice = totals.totalPrice;
-      
-      // Save to sessionStorage
-      saveCartToStorage(state);
+    addToCart: {
+      reducer: (state, action: CartChangeAction<AddToCartPayload>) => {
+        const { product, quantity = 1, selectedOptions = [] } = action.payload;
+
+        // Lines are keyed by product + selected options, so each combination is its own line
+        const itemId = buildCartItemId(product.id, selectedOptions);
+
+        // Check if item already exists in cart
+        const existingItem = state.items.find(item => item.id === itemId);
+
+        // Never hold more than the product's stock or per-order limit
+        state.limitNotice = null;
+        const allowed = clampLineQuantity(state, itemId, product, (existingItem?.quantity || 0) + quantity);
+
+        if (existingItem) {
+          // If exists, increase quantity (or drop the line when nothing is left)
+          existingItem.quantity = allowed;
+          state.items = state.items.filter(item => item.quantity > 0);
+        } else if (allowed > 0) {
+          // If new item, add to cart
+          const newItem: CartItem = {
+            id: itemId,
+            product,
+            quantity: allowed,
+          };
+          if (selectedOptions.length > 0) {
+            newItem.selectedOptions = selectedOptions;
+          }
+          state.items.push(newItem);
+        }
+
+        // Recalculate totals
+        const totals = calculateTotals(state.items);
+        state.totalItems = totals.totalItems;
+        state.totalPrice = totals.totalPrice;
+
+        // Stamp the change time from the action
+        state.updatedAt = action.meta.updatedAt;
+      },
+      prepare: (payload: AddToCartPayload) => withChangeTime(payload),
     },
 
     // Remove item completely from cart
-    removeFromCart: (state, action: PayloadAction<string>) => {
-      const productId = action.payload;
-      state.items = state.items.filter(item => item.id !== productId);
-      
-      // Recalculate totals
-      const totals = calculateTotals(state.items);
-      state.totalItems = totals.totalItems;
-      state.totalPrice = totals.totalPrice;
-      
-      // Save to sessionStorage
-      saveCartToStorage(state);
+    removeFromCart: {
+      reducer: (state, action: CartChangeAction<string>) => {
+        const productId = action.payload;
+        state.items = state.items.filter(item => item.id !== productId);
+        state.limitNotice = null;
+
+        // Recalculate totals
+        const totals = calculateTotals(state.items);
+        state.totalItems = totals.totalItems;
+        state.totalPrice = totals.totalPrice;
+
+        // Stamp the change time from the action
+        state.updatedAt = action.meta.updatedAt;
+      },
+      prepare: (payload: string) => withChangeTime(payload),
     },
 
     // Update item quantity
-    updateCartItemQuantity: (state, action: PayloadAction<UpdateCartItemPayload>) => {
-      const { productId, quantity } = action.payload;
-      
-      if (quantity <= 0) {
-        // If quantity is 0 or less, remove item
-        state.items = state.items.filter(item => item.id !== productId);
-      } else {
-        // Update quantity
+    updateCartItemQuantity: {
+      reducer: (state, action: CartChangeAction<UpdateCartItemPayload>) => {
+        const { productId, quantity } = action.payload;
+        state.limitNotice = null;
+
+        if (quantity <= 0) {
+          // If quantity is 0 or less, remove item
+          state.items = state.items.filter(item => item.id !== productId);
+        } else {
+          // Update quantity, clamped to the product's limits
+          const item = state.items.find(item => item.id === productId);
+          if (item) {
+            item.quantity = clampLineQuantity(state, item.id, item.product, quantity);
+            state.items = state.items.filter(item => item.quantity > 0);
+          }
+        }
+
+        // Recalculate totals
+        const totals = calculateTotals(state.items);
+        state.totalItems = totals.totalItems;
+        state.totalPrice = totals.totalPrice;
+
+        // Stamp the change time from the action
+        state.updatedAt = action.meta.updatedAt;
+      },
+      prepare: (payload: UpdateCartItemPayload) => withChangeTime(payload),
+    },
+
+    // Increase item quantity by 1
+    incrementQuantity: {
+      reducer: (state, action: CartChangeAction<string>) => {
+        const productId = action.payload;
         const item = state.items.find(item => item.id === productId);
+
+        state.limitNotice = null;
+
         if (item) {
-          item.quantity = quantity;
+          item.quantity = clampLineQuantity(state, item.id, item.product, item.quantity + 1);
+          state.items = state.items.filter(i => i.quantity > 0);
+
+          // Recalculate totals
+          const totals = calculateTotals(state.items);
+          state.totalItems = totals.totalItems;
+          state.totalPrice = totals.totalPrice;
+
+          // Stamp the change time from the action
+          state.updatedAt = action.meta.updatedAt;
         }
-      }
-      
-      // Recalculate totals
-      const totals = calculateTotals(state.items);
-      state.totalItems = totals.totalItems;
-      state.totalPrice = totals.totalPrice;
-      
-      // Save to sessionStorage
-      saveCartToStorage(state);
+      },
+      prepare: (payload: string) => withChangeTime(payload),
     },
 
-    // Increase item quantity by 1
-    incrementQuantity: (state, action: PayloadAction<string>) => {
-      const productId = action.payload;
-      const item = state.items.find(item => item.id === productId);
-      
-      if (item) {
-        item.quantity += 1;
-        
+    // Decrease item quantity by 1
+    decrementQuantity: {
+      reducer: (state, action: CartChangeAction<string>) => {
+        const productId = action.payload;
+        const item = state.items.find(item => item.id === productId);
+
+        state.limitNotice = null;
+
+        if (item) {
+          if (item.quantity <= 1) {
+            // Remove if quantity would be 0
+            state.items = state.items.filter(i => i.id !== productId);
+          } else {
+            item.quantity -= 1;
+          }
+
+          // Recalculate totals
+          const totals = calculateTotals(state.items);
+          state.totalItems = totals.totalItems;
+          state.totalPrice = totals.totalPrice;
+
+          // Stamp the change time from the action
+          state.updatedAt = action.meta.updatedAt;
+        }
+      },
+      prepare: (payload: string) => withChangeTime(payload),
+    },
+
+    // Clear entire cart
+    clearCart: {
+      reducer: (state, action: CartChangeAction<undefined>) => {
+        state.items = [];
+        state.totalItems = 0;
+        state.totalPrice = 0;
+        state.limitNotice = null;
+
+        // Stamp the change time from the action
+        state.updatedAt = action.meta.updatedAt;
+      },
+      prepare: () => withChangeTime(undefined),
+    },
+
+    // Replace the whole cart, e.g. with the merged cart after login or an empty one after logout
+    replaceCart: {
+      reducer: (state, action: CartChangeAction<ReplaceCartPayload>) => {
+        // Merged carts can add up past a product's limits
+        state.items = clampItems(action.payload.items);
+        state.ownerId = action.payload.ownerId;
+        state.limitNotice = null;
+
         // Recalculate totals
         const totals = calculateTotals(state.items);
         state.totalItems = totals.totalItems;
         state.totalPrice = totals.totalPrice;
-        
-        // Save to sessionStorage
-        saveCartToStorage(state);
-      }
+
+        // Stamp the change time from the action
+        state.updatedAt = action.meta.updatedAt;
+      },
+      prepare: (payload: ReplaceCartPayload) => withChangeTime(payload),
     },
 
-    // Decrease item quantity by 1
-    decrementQuantity: (state, action: PayloadAction<string>) => {
-      const productId = action.payload;
-      const item = state.items.find(item => item.id === productId);
-      
-      if (item) {
-        if (item.quantity <= 1) {
-          // Remove if quantity would be 0
-          state.items = state.items.filter(i => i.id !== productId);
-        } else {
-          item.quantity -= 1;
-        }
-        
+    // Replace the cart lines with revalidated ones, keeping the owner
+    refreshCartItems: {
+      reducer: (state, action: CartChangeAction<CartItem[]>) => {
+        state.items = clampItems(action.payload);
+        state.limitNotice = null;
+
         // Recalculate totals
         const totals = calculateTotals(state.items);
         state.totalItems = totals.totalItems;
         state.totalPrice = totals.totalPrice;
-        
-        // Save to sessionStorage
-        saveCartToStorage(state);
-      }
+
+        // Stamp the change time from the action
+        state.updatedAt = action.meta.updatedAt;
+      },
+      prepare: (payload: CartItem[]) => withChangeTime(payload),
     },
 
-    // Clear entire cart
-    clearCart: (state) => {
-      state.items = [];
-      state.totalItems = 0;
-      state.totalPrice = 0;
-      
-      // Clear sessionStorage
-      saveCartToStorage(state);
+    // Hide the "quantity adjusted" notice
+    dismissLimitNotice: (state) => {
+      state.limitNotice = null;
     },
 
     // Toggle cart visibility (for sidebar/modal)
@@ -205,10 +357,31 @@ export const {
   incrementQuantity,
   decrementQuantity,
   clearCart,
+  replaceCart,
+  refreshCartItems,
+  dismissLimitNotice,
   toggleCart,
   openCart,
   closeCart,
 } = cartSlice.actions;
 
+// Persist the cart after each change; opening and closing it is not saved
+export const cartPersistenceMiddleware = createListenerMiddleware();
+cartPersistenceMiddleware.startListening({
+  matcher: isAnyOf(
+    addToCart,
+    removeFromCart,
+    updateCartItemQuantity,
+    incrementQuantity,
+    decrementQuantity,
+    clearCart,
+    replaceCart,
+    refreshCartItems
+  ),
+  effect: (_action, listenerApi) => {
+    saveCartToStorage((listenerApi.getState() as { cart: CartState }).cart);
+  },
+});
+
 // Export reducer
 export default cartSlice.reducer;
\ No newline at end of file
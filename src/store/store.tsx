@@ -1,11 +1,13 @@
 import { configureStore } from '@reduxjs/toolkit';
-import cartReducer from './cartSlice.tsx';
+import cartReducer, { cartPersistenceMiddleware } from './cartSlice.tsx';
 
 // Configure the Redux store
 export const store = configureStore({
   reducer: {
     cart: cartReducer,
   },
+  // Save the cart to localStorage outside its reducers
+  middleware: (getDefaultMiddleware) => getDefaultMiddleware().prepend(cartPersistenceMiddleware.middleware),
   // Enable Redux DevTools in development
   devTools: true,
 });
@@ -31,6 +31,9 @@ export interface UserPreferences {
   language: string;
 }
 
+// Access level of an account; controls admin routes and product/order mutations
+export type UserRole = 'customer' | 'seller' | 'admin' | 'support';
+
 export interface UserProfile {
   uid: string;
   email: string;
@@ -46,6 +49,7 @@ export interface UserProfile {
   updatedAt: Date;
   lastLoginAt?: Date;
   isActive: boolean;
+  role: UserRole;
 }
 
 export interface UserProfileUpdateData {
@@ -58,6 +62,12 @@ export interface UserProfileUpdateData {
   preferences?: Partial<UserPreferences>;
 }
 
+// Router location state attached when a route guard redirects the user
+export interface RouteRedirectState {
+  from?: string; // Path the user originally tried to open
+  reason?: string; // Human-readable explanation shown after the redirect
+}
+
 export interface AuthState {
   user: UserProfile | null;
   isAuthenticated: boolean;
@@ -1,10 +1,11 @@
-import type { Product } from './productType';
+import type { Product, SelectedVariantOption } from './productType';
 
 // Interface for a cart item (extends Product with quantity)
 export interface CartItem {
-  id: string; // Changed to string to match Firestore IDs
+  id: string; // Product ID, suffixed with the selected options for variant products
   product: Product;
   quantity: number;
+  selectedOptions?: SelectedVariantOption[]; // Chosen variant options, if any
 }
 
 // Interface for the entire cart state
@@ -13,16 +14,95 @@ export interface CartState {
   totalItems: number;
   totalPrice: number;
   isOpen: boolean; // For cart sidebar/modal
+  ownerId?: string | null; // UID of the signed-in owner, null for a guest cart
+  updatedAt?: number; // Epoch ms of the last change, used to pick the newer copy on login
+  limitNotice?: CartLimitNotice | null; // Set when the last change was clamped to a limit
+}
+
+// Which limit capped a cart line
+export type CartLimitReason = 'stock' | 'max_per_order';
+
+// Details of the last quantity change that was clamped
+export interface CartLimitNotice {
+  itemId: string;
+  requested: number;
+  allowed: number;
+  reason: CartLimitReason;
 }
 
 // Interface for adding items to cart
 export interface AddToCartPayload {
   product: Product;
   quantity?: number; // Optional, defaults to 1
+  selectedOptions?: SelectedVariantOption[]; // Required when the product has variants
 }
 
 // Interface for updating cart item quantity
 export interface UpdateCartItemPayload {
-  productId: string; // Changed to string to match Firestore IDs
+  productId: string; // Cart item ID (equals the product ID for products without variants)
   quantity: number;
-}
\ No newline at end of file
+}
+
+// Interface for replacing the whole cart (hydration, login merge, logout)
+export interface ReplaceCartPayload {
+  items: CartItem[];
+  ownerId: string | null;
+}
+
+// Cart line as stored in Firestore; product details are re-read from the catalog on load
+export interface StoredCartItem {
+  id: string;
+  productId: string;
+  quantity: number;
+  selectedOptions?: SelectedVariantOption[];
+}
+
+// Cart document stored at carts/{uid}
+export interface StoredCart {
+  userId: string;
+  items: StoredCartItem[];
+  updatedAt: number; // Epoch ms of the last change on the device that saved it
+}
+
+// Cart loaded from Firestore, with products rehydrated
+export interface SavedCart {
+  items: CartItem[];
+  updatedAt: number;
+}
+
+// Ways a cart line can differ from the live catalog
+export type CartIssueType = 'price_changed' | 'unavailable' | 'insufficient_stock';
+
+// A difference found when revalidating a cart line
+export interface CartLineIssue {
+  itemId: string;
+  type: CartIssueType;
+  message: string;
+  previousPrice?: number; // Unit price in the cart
+  currentPrice?: number; // Unit price in the catalog
+  availableQuantity?: number; // Quantity that can still be ordered for this line
+}
+
+// Outcome of revalidating a cart against the live catalog
+export interface CartRevalidationResult {
+  items: CartItem[]; // Cart with the updates applied, ready to accept
+  issues: CartLineIssue[];
+}
+
+// Ways an ordered line can fall short when it is added back to the cart
+export type ReorderIssueType = 'unavailable' | 'out_of_stock' | 'limited';
+
+// An ordered line that could not be added back in full
+export interface ReorderLineIssue {
+  itemId: string; // Order item ID
+  title: string; // Product title when ordered
+  type: ReorderIssueType;
+  message: string;
+  addedQuantity: number; // Units added despite the issue
+}
+
+// Outcome of adding the lines of a past order back to the cart
+export interface ReorderResult {
+  items: AddToCartPayload[]; // Lines to add, with current product data
+  issues: ReorderLineIssue[];
+}
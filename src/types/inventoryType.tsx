@@ -0,0 +1,49 @@
+/**
+ * Inventory Type Definitions
+ * Stock movements recorded in each product's inventory ledger
+ */
+
+// Why a product's stock changed
+export type InventoryMovementType = 'sale' | 'cancellation' | 'adjustment' | 'receipt' | 'return';
+
+// Movements staff may record by hand; sales and cancellations come from orders
+export type ManualInventoryMovementType = Extract<InventoryMovementType, 'adjustment' | 'receipt' | 'return'>;
+
+// One change to a product's stock, stored at products/{productId}/inventoryMovements/{movementId}
+export interface InventoryMovement {
+  id: string;
+  productId: string;
+  type: InventoryMovementType;
+  quantity: number; // Signed change in units: negative for sales, positive for restocks
+  stockAfter: number; // Stock level once this movement was applied
+  reason: string;
+  orderId?: string; // Order behind a sale or cancellation
+  actorId: string; // User ID of whoever caused the change
+  actorEmail: string;
+  createdAt: Date;
+}
+
+// Fields needed to record a movement; the actor and time are filled in when it is written
+export interface InventoryMovementInput {
+  type: InventoryMovementType;
+  quantity: number;
+  stockAfter: number;
+  reason: string;
+  orderId?: string;
+}
+
+// Manual stock change entered in product management
+export interface StockAdjustmentData {
+  type: ManualInventoryMovementType;
+  quantity: number; // Receipts and returns add units; adjustments may be negative
+  reason: string;
+}
+
+// Outcome of checking a product's stock against its ledger
+export interface StockReconciliation {
+  productId: string;
+  recordedStock: number; // inventory.stock before reconciling
+  ledgerStock: number; // Sum of every recorded movement
+  corrected: boolean; // Whether inventory.stock was rewritten to match the ledger
+  openingBalance: number; // Units recorded for stock that predates the ledger, 0 when none were
+}
@@ -0,0 +1,58 @@
+/**
+ * Invoice Type Definitions
+ * Printable invoices and receipts generated from orders
+ */
+
+import type { OrderSummary, ShippingAddress } from './orderType';
+
+// Business details printed at the top of every invoice
+export interface SellerDetails {
+  name: string;
+  addressLines: string[];
+  email: string;
+  phone?: string;
+  taxId?: string; // e.g. VAT or sales tax registration number
+  website?: string;
+}
+
+// A line of an invoice
+export interface InvoiceLine {
+  description: string; // Product title, with chosen options
+  quantity: number;
+  unitPrice: number;
+  amount: number; // quantity * unitPrice
+  taxRate?: number; // e.g. 0.08 for 8%
+  note?: string; // e.g. "1 cancelled"
+}
+
+// An invoice for one order, ready to render as HTML or PDF
+export interface Invoice {
+  invoiceNumber: string; // Sequential, e.g. "INV-2024-000042"
+  issuedAt: Date;
+  orderId: string;
+  orderNumber: string;
+  orderDate: Date;
+  seller: SellerDetails;
+  customerEmail: string;
+  billTo: ShippingAddress;
+  lines: InvoiceLine[];
+  summary: OrderSummary; // Totals as charged at checkout
+  amountPaid: number; // Captured by the payment provider
+  amountRefunded: number; // For cancellations and returns
+  paymentMethod?: string;
+  currency: string; // ISO 4217 code
+}
+
+// Invoice number stored on an order once issued, so it never changes
+export interface InvoiceRecord {
+  invoiceNumber: string;
+  issuedAt: Date;
+}
+
+// A row of an invoice's totals block
+export interface InvoiceTotalRow {
+  label: string;
+  amount: number; // Negative for discounts and refunds
+  detail?: boolean; // Breakdown row, shown indented
+  emphasis?: boolean; // Totals shown in bold
+}
@@ -4,13 +4,36 @@
  * Created for e-commerce order management system
  */
 
-import type { Product } from './productType';
+import type { Product, SelectedVariantOption } from './productType';
+import type { AppliedPromotion } from './promotionType';
+import type { LineTax, TaxBreakdownEntry } from './taxType';
+import type { ShippingMethodId, ShippingQuote } from './shippingType';
+import type { OrderPayment } from './paymentType';
+import type { UserRole } from './authTypes';
+import type { ReturnRequest } from './returnType';
+import type { InvoiceRecord } from './invoiceType';
 
 // Order status enumeration
 export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
 
-// Payment status enumeration
-export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded';
+// Payment status enumeration; processing while a payment attempt is with the provider,
+// refunding while a refund or void is
+export type PaymentStatus = 'pending' | 'processing' | 'authorized' | 'paid' | 'failed' | 'refunding' | 'refunded' | 'voided';
+
+// Which status a history entry describes
+export type StatusChangeKind = 'order' | 'payment' | 'return';
+
+// Audit record of a single status change
+export interface StatusHistoryEntry {
+  kind: StatusChangeKind;
+  from: string | null; // null for the initial status
+  to: string;
+  changedBy: string; // User ID of whoever made the change
+  changedByEmail: string;
+  changedByRole?: UserRole;
+  changedAt: Date;
+  reason?: string; // e.g. "Cancelled by customer", "Your card was declined"
+}
 
 // Order item interface - represents a product in an order
 export interface OrderItem {
@@ -18,8 +41,11 @@ export interface OrderItem {
   productId: string; // Reference to the product
   product: Product; // Full product details (snapshot at time of order)
   quantity: number;
-  priceAtTime: number; // Price when the order was placed
+  selectedOptions?: SelectedVariantOption[]; // Variant options chosen by the shopper
+  priceAtTime: number; // Effective unit price (base price + option modifiers) when ordered
   totalPrice: number; // quantity * priceAtTime
+  tax?: LineTax; // Tax charged on this line
+  cancelledQuantity?: number; // Units of this line cancelled and restocked
 }
 
 // Shipping address interface
@@ -37,9 +63,11 @@ export interface ShippingAddress {
 // Order summary interface
 export interface OrderSummary {
   subtotal: number; // Sum of all item totals
-  tax: number; // Tax amount
+  tax: number; // Tax amount (already contained in subtotal when pricesIncludeTax)
+  taxBreakdown?: TaxBreakdownEntry[]; // Tax per jurisdiction and tax class
+  pricesIncludeTax?: boolean; // True when item prices are tax-inclusive
   shipping: number; // Shipping cost
-  discount: number; // Any discounts applied
+  discount: number; // Total of all applied promotions (merchandise and shipping)
   total: number; // Final total amount
 }
 
@@ -61,9 +89,11 @@ export interface Order {
   // Status tracking
   status: OrderStatus;
   paymentStatus: PaymentStatus;
+  statusHistory?: StatusHistoryEntry[]; // Every order and payment status change, oldest first
   
   // Shipping information
   shippingAddress: ShippingAddress;
+  shippingMethod?: ShippingQuote; // Method chosen at checkout, with its cost and delivery window
   
   // Timestamps
   createdAt: Date;
@@ -74,7 +104,11 @@ export interface Order {
   // Additional metadata
   notes?: string; // Customer notes
   trackingNumber?: string; // Shipping tracking
-  paymentMethod?: string; // Payment method used
+  paymentMethod?: string; // Payment method used, e.g. "Visa ending in 4242"
+  payment?: OrderPayment; // Provider references, amounts and transaction log
+  appliedPromotions?: AppliedPromotion[]; // Coupons redeemed on this order
+  returns?: ReturnRequest[]; // Return requests, oldest first
+  invoice?: InvoiceRecord; // Set the first time an invoice is issued
 }
 
 // Interface for creating a new order
@@ -82,13 +116,16 @@ export interface CreateOrderData {
   items: Array<{
     productId: string;
     quantity: number;
+    selectedOptions?: SelectedVariantOption[];
   }>;
   shippingAddress: ShippingAddress;
+  shippingMethodId?: ShippingMethodId; // Defaults to standard shipping
   paymentMethod?: string;
   notes?: string;
+  couponCodes?: string[]; // Re-validated when the order is created
 }
 
-// Interface for order filters (for order history)
+// Interface for order filters (for order history and the admin console)
 export interface OrderFilters {
   status?: OrderStatus;
   paymentStatus?: PaymentStatus;
@@ -107,6 +144,15 @@ export interface OrdersResponse {
   hasMore: boolean;
 }
 
+// Outcome of changing the status of several orders at once
+export interface BulkStatusUpdateResult {
+  updated: string[]; // Order IDs
+  failed: Array<{
+    orderId: string;
+    error: string;
+  }>;
+}
+
 // Interface for order statistics
 export interface OrderStats {
   totalOrders: number;
@@ -0,0 +1,70 @@
+/**
+ * Payment Type Definitions
+ * Payment provider contract and the payment record stored on orders
+ */
+
+// Card details entered at checkout; never persisted
+export interface PaymentSource {
+  cardholderName: string;
+  cardNumber: string;
+  expiryMonth: number; // 1-12
+  expiryYear: number; // Four digits
+  cvc: string;
+}
+
+// Operations a provider performs against an authorization
+export type PaymentOperation = 'authorize' | 'capture' | 'refund' | 'void';
+
+// Outcome of a single provider call
+export interface PaymentResult {
+  success: boolean;
+  operation: PaymentOperation;
+  transactionId: string; // Provider reference for this call
+  authorizationId: string; // Authorization the call applies to
+  amount: number;
+  errorCode?: string; // e.g. "card_declined", "insufficient_funds"
+  errorMessage?: string;
+}
+
+// Data sent to a provider to authorize a payment
+export interface AuthorizeRequest {
+  orderId: string;
+  amount: number;
+  currency: string;
+  source: PaymentSource;
+}
+
+// Contract every payment gateway integration implements
+export interface PaymentProvider {
+  readonly name: string;
+  authorize(request: AuthorizeRequest): Promise<PaymentResult>;
+  capture(authorizationId: string, amount: number): Promise<PaymentResult>;
+  refund(authorizationId: string, amount: number): Promise<PaymentResult>;
+  void(authorizationId: string): Promise<PaymentResult>;
+  // Pick up an authorization recorded on an order that this provider has not seen, e.g.
+  // after a page reload. Gateways that keep their own records leave this out.
+  restore?(payment: OrderPayment): void;
+}
+
+// A provider call recorded on the order
+export interface PaymentTransaction {
+  operation: PaymentOperation;
+  transactionId: string;
+  amount: number;
+  success: boolean;
+  errorCode?: string;
+  errorMessage?: string;
+  createdAt: Date;
+}
+
+// Payment record stored on an order
+export interface OrderPayment {
+  provider: string;
+  authorizationId?: string;
+  cardBrand?: string;
+  cardLast4?: string;
+  amountAuthorized: number;
+  amountCaptured: number;
+  amountRefunded: number;
+  transactions: PaymentTransaction[];
+}
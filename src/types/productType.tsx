@@ -6,10 +6,13 @@ export interface Product {
   description: string;
   category: string;
   image: string;
+  images?: string[]; // Extra gallery images shown after the main image
   rating: {
     rate: number;
     count: number;
+    total?: number; // Sum of approved review stars
   };
+  salesCount?: number; // Units sold across placed orders, net of cancellations
   // Additional Firestore-specific fields
   createdAt: Date;
   updatedAt: Date;
@@ -19,9 +22,15 @@ export interface Product {
     stock: number;
     sku?: string;
     trackInventory: boolean;
+    maxPerOrder?: number; // Most units one order may contain; 0 or absent means no limit
+    lowStockThreshold?: number; // Flag the product at or below this many units; defaults to DEFAULT_LOW_STOCK_THRESHOLD
+    weight?: number; // Shipping weight per unit, in kg
+    dimensions?: ProductDimensions; // Packed size per unit, in cm
+    ledgerOpened?: boolean; // Whether the inventory ledger accounts for all of the stock
+    lastMovementId?: string; // Newest inventory ledger movement
   };
   seo?: {
-    slug?: string;
+    slug?: string; // Unique across products; the product page lives at /products/{slug}
     metaTitle?: string;
     metaDescription?: string;
   };
@@ -29,11 +38,26 @@ export interface Product {
   variants?: ProductVariant[];
 }
 
+export interface ProductDimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
 export interface ProductVariant {
   id: string;
   name: string; // e.g., "Size", "Color"
   options: string[]; // e.g., ["Small", "Medium", "Large"] or ["Red", "Blue", "Green"]
   priceModifier?: number; // Additional cost for this variant
+  optionPriceModifiers?: Record<string, number>; // Per-option cost, overrides priceModifier
+}
+
+// A shopper's choice for one variant, with the price modifier at selection time
+export interface SelectedVariantOption {
+  variantId: string;
+  name: string; // Variant name, e.g. "Size"
+  option: string; // Chosen option, e.g. "Large"
+  priceModifier: number;
 }
 
 export interface ProductFormData {
@@ -45,10 +69,19 @@ export interface ProductFormData {
   stock: number;
   sku?: string;
   trackInventory: boolean;
+  maxPerOrder?: number; // 0 means no limit
+  lowStockThreshold?: number; // Empty means the default threshold
+  weight?: number; // kg
+  length?: number; // cm
+  width?: number; // cm
+  height?: number; // cm
   tags?: string[];
+  images?: string[]; // Extra gallery image URLs
+  slug?: string; // Custom URL slug; generated from the title when empty
   metaTitle?: string;
   metaDescription?: string;
   isActive: boolean;
+  variants?: ProductVariant[];
 }
 
 export interface ProductCreateData {
@@ -60,10 +93,19 @@ export interface ProductCreateData {
   stock: number;
   sku?: string;
   trackInventory: boolean;
+  maxPerOrder?: number; // 0 means no limit
+  lowStockThreshold?: number; // Empty means the default threshold
+  weight?: number; // kg
+  length?: number; // cm
+  width?: number; // cm
+  height?: number; // cm
   tags?: string[];
+  images?: string[]; // Extra gallery image URLs
+  slug?: string; // Custom URL slug; generated from the title when empty
   metaTitle?: string;
   metaDescription?: string;
   isActive?: boolean;
+  variants?: ProductVariant[];
 }
 
 export interface ProductUpdateData {
@@ -75,33 +117,70 @@ export interface ProductUpdateData {
   stock?: number;
   sku?: string;
   trackInventory?: boolean;
+  maxPerOrder?: number; // 0 means no limit
+  lowStockThreshold?: number; // Empty means the default threshold
+  weight?: number; // kg
+  length?: number; // cm
+  width?: number; // cm
+  height?: number; // cm
   tags?: string[];
+  images?: string[]; // Extra gallery image URLs
+  slug?: string; // Custom URL slug; generated from the title when empty
   metaTitle?: string;
   metaDescription?: string;
   isActive?: boolean;
+  variants?: ProductVariant[];
 }
 
 export interface ProductFilters {
   category?: string;
+  categories?: string[]; // Any of these categories
   minPrice?: number;
   maxPrice?: number;
   inStock?: boolean;
   isActive?: boolean;
-  tags?: string[];
+  tags?: string[]; // Any of these tags
+  minRating?: number; // Minimum average star rating
   searchTerm?: string;
 }
 
+// A facet value and how many products have it
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Facet counts for a storefront listing; each facet is counted against the
+// products that match every other active filter
+export interface ProductFacets {
+  categories: FacetCount[];
+  tags: FacetCount[];
+  inStockCount: number;
+  ratings: { minRating: number; count: number }[];
+  priceRange: { min: number; max: number } | null;
+}
+
 export interface ProductSort {
-  field: 'title' | 'price' | 'createdAt' | 'updatedAt' | 'rating.rate';
+  field: 'title' | 'price' | 'createdAt' | 'updatedAt' | 'rating.rate' | 'salesCount';
   direction: 'asc' | 'desc';
 }
 
+// Storefront sort choices, as they appear in the URL
+export type ProductSortOption = 'newest' | 'price-asc' | 'price-desc' | 'top-rated' | 'best-selling';
+
 export interface ProductsResponse {
   products: Product[];
-  total: number;
-  page: number;
+  total: number; // Total matching products across all pages
+  page: number; // Zero-based index of this page
   limit: number;
   hasMore: boolean;
+  nextPageToken?: string; // Opaque cursor for the next page, absent on the last page
+}
+
+// Position of a page within a cursor-paginated product listing
+export interface ProductPageCursor {
+  lastId: string; // ID of the last document on the previous page
+  page: number; // Zero-based index of the previous page
 }
 
 export type ProductsResponseLegacy = Product[]; // For backward compatibility
\ No newline at end of file
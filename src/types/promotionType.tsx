@@ -0,0 +1,80 @@
+/**
+ * Promotion Type Definitions
+ * Coupon codes and automatic discount rules applied at checkout
+ */
+
+import type { Product } from './productType';
+
+// Supported discount rules
+export type PromotionType = 'percentage' | 'fixed_amount' | 'free_shipping' | 'buy_x_get_y';
+
+// Promotion document stored in the `promotions` collection
+export interface Promotion {
+  id: string; // Firestore document ID
+  code: string; // Coupon code, stored upper-case
+  description?: string;
+  type: PromotionType;
+  value: number; // Percent off (percentage, buy_x_get_y) or amount off (fixed_amount); unused for free_shipping
+  buyQuantity?: number; // buy_x_get_y: units the shopper pays for
+  getQuantity?: number; // buy_x_get_y: units discounted by `value` percent for every buyQuantity bought
+
+  // Validity window
+  startsAt?: Date;
+  endsAt?: Date;
+  isActive: boolean;
+
+  // Usage limits
+  usageLimit?: number; // Total redemptions across all users
+  perUserLimit?: number; // Redemptions allowed per user
+  usageCount: number; // Redemptions so far
+
+  // Eligibility
+  minSubtotal?: number; // Minimum order subtotal before discounts
+  categories?: string[]; // Only items in these categories count towards the discount
+  tags?: string[]; // Only items with one of these tags count towards the discount
+
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy?: string;
+}
+
+// Data needed to create a promotion
+export interface PromotionCreateData {
+  code: string;
+  description?: string;
+  type: PromotionType;
+  value: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  startsAt?: Date;
+  endsAt?: Date;
+  isActive?: boolean;
+  usageLimit?: number;
+  perUserLimit?: number;
+  minSubtotal?: number;
+  categories?: string[];
+  tags?: string[];
+}
+
+// A priced line the promotion engine evaluates against
+export interface PromotionLineItem {
+  product: Product;
+  quantity: number;
+  unitPrice: number; // Effective unit price including variant options
+}
+
+// Context a promotion is evaluated in
+export interface PromotionContext {
+  subtotal: number; // Order subtotal before discounts
+  shipping: number; // Shipping cost before discounts
+  userRedemptions: number; // Times the current user has already redeemed the promotion
+  now?: Date;
+}
+
+// A promotion applied to an order, recorded on the order for auditing
+export interface AppliedPromotion {
+  promotionId: string;
+  code: string;
+  type: PromotionType;
+  discount: number; // Amount taken off the order by this promotion
+}
@@ -0,0 +1,44 @@
+/**
+ * Return Type Definitions
+ * Return merchandise authorizations (RMAs) requested against delivered orders
+ */
+
+// Return lifecycle: requested -> approved -> received -> refunded, or rejected before receipt
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded';
+
+// What happens to a returned line once it arrives back
+export type ReturnDisposition = 'restock' | 'discard';
+
+// A line of an order being sent back
+export interface ReturnItem {
+  itemId: string; // Order item the units come from
+  productId: string;
+  title: string; // Product title when ordered
+  quantity: number;
+  disposition?: ReturnDisposition; // Decided when the return is received
+}
+
+// A return request, stored in the order's returns list
+export interface ReturnRequest {
+  id: string; // RMA number, e.g. "RMA-20240115-K3J9QX"
+  status: ReturnStatus;
+  items: ReturnItem[];
+  reason: string; // Customer's reason for the return
+  refundAmount: number; // Owed for the returned units, including their tax and share of discounts
+  refundedAmount?: number; // Actually refunded, capped by what is left of the payment
+  resolutionNote?: string; // Staff note on approval, rejection or receipt
+  requestedBy: string; // User ID
+  requestedAt: Date;
+  updatedAt: Date;
+  receivedAt?: Date;
+  refundedAt?: Date;
+}
+
+// Data a customer submits to request a return
+export interface ReturnRequestData {
+  items: Array<{
+    itemId: string;
+    quantity: number;
+  }>;
+  reason: string;
+}
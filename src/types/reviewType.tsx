@@ -0,0 +1,42 @@
+/**
+ * Review Type Definitions
+ * Customer product reviews and their moderation state
+ */
+
+// Moderation state; only approved reviews are shown and counted in Product.rating
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+// Outcome an admin can record for a pending review
+export type ReviewModerationDecision = Exclude<ReviewStatus, 'pending'>;
+
+// Review as stored at products/{productId}/reviews/{userId}
+export interface Review {
+  id: string; // Author's user ID, so each user has at most one review per product
+  productId: string;
+  userId: string;
+  authorName: string;
+  rating: number; // Whole stars, 1-5
+  title: string;
+  body: string;
+  verifiedPurchase: boolean; // Author has a delivered order containing the product
+  status: ReviewStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  moderatedBy?: string; // User ID of the admin who approved or rejected it
+  moderatedAt?: Date;
+  moderationNote?: string; // Shown to the author when a review is rejected
+}
+
+// Fields the author fills in
+export interface ReviewFormData {
+  rating: number;
+  title: string;
+  body: string;
+}
+
+// Aggregate stored on Product.rating
+export interface RatingSummary {
+  rate: number;
+  count: number;
+  total?: number; // Sum of approved stars, so the average can be updated without re-reading every review
+}
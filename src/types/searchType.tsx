@@ -0,0 +1,30 @@
+/**
+ * Search Type Definitions
+ * Client-side full-text index over the storefront catalog
+ */
+
+import type { Product } from './productType';
+
+// Product fields that are indexed, each with its own relevance weight
+export type SearchField = 'title' | 'tags' | 'category' | 'description';
+
+// How a query token matched an indexed term
+export type SearchMatchType = 'exact' | 'prefix' | 'fuzzy';
+
+// Inverted index: stemmed term -> product ID -> weighted term frequency
+export interface SearchIndex {
+  products: Map<string, Product>;
+  postings: Map<string, Map<string, number>>;
+  productTerms: Map<string, Set<string>>; // Terms each product contributed, for removal
+}
+
+// A ranked search hit
+export interface ProductSearchResult {
+  product: Product;
+  score: number;
+  matchedTerms: string[]; // Indexed terms the query matched, for highlighting
+}
+
+export interface ProductSearchOptions {
+  limit?: number;
+}
@@ -0,0 +1,41 @@
+/**
+ * Shipping Type Definitions
+ * Shipping methods, destination zones and the quotes shown at checkout
+ */
+
+// Selectable shipping methods
+export type ShippingMethodId = 'standard' | 'express' | 'pickup';
+
+// Destination zones, relative to the store's warehouse
+export type ShippingZone = 'domestic' | 'north_america' | 'international';
+
+// Rate card for one method in one zone
+export interface ShippingZoneRate {
+  baseRate: number; // Cost covering the first includedWeight kg
+  includedWeight: number; // kg covered by the base rate
+  perKgRate: number; // Cost per started kg above includedWeight
+  freeOver?: number; // Free when the order subtotal is above this amount
+  minDays: number; // Delivery window, in days after the order is placed
+  maxDays: number;
+}
+
+// A shipping method and the zones it serves
+export interface ShippingMethod {
+  id: ShippingMethodId;
+  label: string;
+  description: string;
+  rates: Partial<Record<ShippingZone, ShippingZoneRate>>; // Zones without a rate are not served
+}
+
+// Price and delivery window of a method for a specific cart and address
+export interface ShippingQuote {
+  methodId: ShippingMethodId;
+  label: string;
+  zone: ShippingZone;
+  cost: number;
+  weight: number; // Billable weight in kg
+  minDays: number;
+  maxDays: number;
+  estimatedDeliveryFrom: Date;
+  estimatedDeliveryTo: Date;
+}
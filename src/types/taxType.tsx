@@ -0,0 +1,43 @@
+/**
+ * Tax Type Definitions
+ * Jurisdiction rate tables, product tax classes and per-line tax results
+ */
+
+// Tax class assigned to a product through its category
+export type TaxClass = 'standard' | 'reduced' | 'exempt';
+
+// A rate for one jurisdiction; the most specific matching rule wins
+export interface TaxRateRule {
+  country: string; // ISO country code, e.g. "US"
+  state?: string; // State/region code, e.g. "CA"
+  zipPrefix?: string; // Postal code prefix, e.g. "100" for New York City
+  label: string; // Jurisdiction name shown in the breakdown
+  rate: number; // Standard rate, e.g. 0.0725
+  classRates?: Partial<Record<TaxClass, number>>; // Overrides for non-standard classes
+}
+
+// Store-wide tax configuration
+export interface TaxTable {
+  pricesIncludeTax: boolean; // True when catalog prices already contain tax
+  rules: TaxRateRule[];
+  fallbackRule: TaxRateRule; // Used when no rule matches the address
+  categoryTaxClasses: Record<string, TaxClass>; // Category -> tax class; unlisted categories are standard
+}
+
+// Tax charged on one order line
+export interface LineTax {
+  taxClass: TaxClass;
+  jurisdiction: string;
+  rate: number;
+  taxableAmount: number; // Line total after its share of order discounts
+  amount: number; // Tax on the line, rounded to cents
+}
+
+// Tax totals per jurisdiction and class
+export interface TaxBreakdownEntry {
+  jurisdiction: string;
+  taxClass: TaxClass;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+}
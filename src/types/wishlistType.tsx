@@ -0,0 +1,19 @@
+/**
+ * Wishlist Type Definitions
+ * Products a shopper saved to buy later, stored per user
+ */
+
+import type { Product, SelectedVariantOption } from './productType';
+
+// Saved item as stored at users/{uid}/wishlist/{itemId}
+export interface WishlistItem {
+  id: string; // Same key as the cart line: product ID plus any selected options
+  productId: string;
+  selectedOptions?: SelectedVariantOption[];
+  addedAt: Date;
+}
+
+// Saved item with the live product, or null when it is no longer available
+export interface WishlistEntry extends WishlistItem {
+  product: Product | null;
+}